@@ -0,0 +1,77 @@
+// examples/example-issuer.ts
+import { generateKeyPairSync, sign } from 'crypto';
+import { createVerifyData } from '../src/crypto/data-integrity.ts';
+import { base58btcEncode, base64urlEncode } from '../src/crypto/encoding.ts';
+import { DidResolver, VerifiableCredential, VerifiablePresentation, VerificationMethod } from '../src/types/index.ts';
+
+/**
+ * Creates a throwaway Ed25519 issuer for the examples: a DID resolver that knows
+ * the issuer's DID document, and functions that sign credentials with
+ * Ed25519Signature2020 (or as JWTs) so they pass real proof verification.
+ * The same helper stands in for holders, who sign presentations.
+ */
+export function createExampleIssuer(did: string) {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const rawPublicKey = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url');
+
+  const verificationMethod: VerificationMethod = {
+    id: `${did}#key-1`,
+    type: 'Ed25519VerificationKey2020',
+    controller: did,
+    publicKeyMultibase: 'z' + base58btcEncode(new Uint8Array([0xed, 0x01, ...rawPublicKey]))
+  };
+
+  const didResolver: DidResolver = {
+    resolve: async (id: string) => id === did ? {
+      '@context': ['https://www.w3.org/ns/did/v1'],
+      id: did,
+      verificationMethod: [verificationMethod],
+      assertionMethod: [verificationMethod.id],
+      authentication: [verificationMethod.id]
+    } : null
+  };
+
+  async function signCredential(credential: Omit<VerifiableCredential, 'proof'>): Promise<VerifiableCredential> {
+    const proof: VerifiableCredential['proof'] = {
+      type: 'Ed25519Signature2020',
+      created: new Date().toISOString(),
+      verificationMethod: verificationMethod.id,
+      proofPurpose: 'assertionMethod'
+    };
+    const verifyData = await createVerifyData({ ...credential, proof });
+    proof.proofValue = 'z' + base58btcEncode(sign(null, verifyData, privateKey));
+    return { ...credential, proof };
+  }
+
+  /**
+   * Signs a presentation with an Ed25519Signature2020 authentication proof bound to the request challenge and domain
+   */
+  async function signPresentation(
+    presentation: Omit<VerifiablePresentation, 'proof'>,
+    options: { challenge: string; domain?: string }
+  ): Promise<VerifiablePresentation> {
+    const proof: VerifiablePresentation['proof'] = {
+      type: 'Ed25519Signature2020',
+      created: new Date().toISOString(),
+      verificationMethod: verificationMethod.id,
+      proofPurpose: 'authentication',
+      challenge: options.challenge,
+      ...(options.domain && { domain: options.domain })
+    };
+    const verifyData = await createVerifyData({ ...presentation, proof });
+    proof.proofValue = 'z' + base58btcEncode(sign(null, verifyData, privateKey));
+    return { ...presentation, proof };
+  }
+
+  /**
+   * Signs a compact EdDSA JWT whose kid points at the issuer's verification method
+   */
+  function signJwt(payload: Record<string, any>, header: Record<string, any> = {}): string {
+    const encodedHeader = base64urlEncode(JSON.stringify({ alg: 'EdDSA', kid: verificationMethod.id, ...header }));
+    const encodedPayload = base64urlEncode(JSON.stringify(payload));
+    const signature = sign(null, Buffer.from(`${encodedHeader}.${encodedPayload}`), privateKey);
+    return `${encodedHeader}.${encodedPayload}.${base64urlEncode(signature)}`;
+  }
+
+  return { did, didResolver, signCredential, signPresentation, signJwt };
+}
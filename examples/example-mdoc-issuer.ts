@@ -0,0 +1,163 @@
+// examples/example-mdoc-issuer.ts
+import { createHash, generateKeyPairSync, KeyObject, randomBytes, sign, webcrypto } from 'crypto';
+import 'reflect-metadata';
+import * as x509 from '@peculiar/x509';
+import { Tag } from 'cbor-x';
+import { cborEncoder, encodeEmbeddedCbor } from '../src/crypto/cose.ts';
+import { concatBytes } from '../src/crypto/encoding.ts';
+import { MDL_DOCUMENT_SIGNER_EKU } from '../src/crypto/mdoc-trust-store.ts';
+
+x509.cryptoProvider.set(webcrypto as any);
+
+/**
+ * Creates a throwaway mdoc issuer for the examples: an IACA root and a P-256
+ * document signer certificate following the ISO 18013-5 profiles, and functions
+ * that issue mdocs and CRLs so they pass real ISO 18013-5 verification.
+ */
+export async function createExampleMdocIssuer(name = 'C=US, CN=Example mDL Document Signer', iacaName = 'C=US, CN=Example IACA') {
+  const algorithm = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+  const notBefore = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+  const iacaKeys = await webcrypto.subtle.generateKey(algorithm, true, ['sign', 'verify']);
+  const iacaCertificate = await x509.X509CertificateGenerator.createSelfSigned({
+    serialNumber: randomBytes(8).toString('hex'),
+    name: iacaName,
+    notBefore,
+    notAfter,
+    signingAlgorithm: algorithm,
+    keys: iacaKeys,
+    extensions: [
+      new x509.BasicConstraintsExtension(true, 0, true),
+      new x509.KeyUsagesExtension(x509.KeyUsageFlags.keyCertSign | x509.KeyUsageFlags.cRLSign, true)
+    ]
+  });
+
+  const keys = await webcrypto.subtle.generateKey(algorithm, true, ['sign', 'verify']);
+  const certificate = await x509.X509CertificateGenerator.create({
+    serialNumber: randomBytes(8).toString('hex'),
+    subject: name,
+    issuer: iacaCertificate.subject,
+    notBefore,
+    notAfter,
+    signingAlgorithm: algorithm,
+    publicKey: keys.publicKey,
+    signingKey: iacaKeys.privateKey,
+    extensions: [
+      new x509.KeyUsagesExtension(x509.KeyUsageFlags.digitalSignature, true),
+      new x509.ExtendedKeyUsageExtension([MDL_DOCUMENT_SIGNER_EKU], true)
+    ]
+  });
+  const privateKey = KeyObject.from(keys.privateKey);
+
+  /**
+   * Issues an mdoc: IssuerSignedItems for every element and an MSO signed by the document signer
+   */
+  function issue(docType: string, nameSpaces: Record<string, Record<string, any>>, deviceKey: KeyObject) {
+    const issuerNameSpaces = new Map<string, Tag[]>();
+    const valueDigests = new Map<string, Map<number, Uint8Array>>();
+    let digestID = 0;
+    for (const [namespace, elements] of Object.entries(nameSpaces)) {
+      const items: Tag[] = [];
+      const digests = new Map<number, Uint8Array>();
+      for (const [elementIdentifier, elementValue] of Object.entries(elements)) {
+        const itemBytes = cborEncoder.encode(new Map<string, any>([
+          ['digestID', digestID],
+          ['random', randomBytes(16)],
+          ['elementIdentifier', elementIdentifier],
+          ['elementValue', elementValue]
+        ]));
+        items.push(new Tag(itemBytes, 24));
+        digests.set(digestID++, createHash('sha256').update(encodeEmbeddedCbor(itemBytes)).digest());
+      }
+      issuerNameSpaces.set(namespace, items);
+      valueDigests.set(namespace, digests);
+    }
+
+    const jwk = deviceKey.export({ format: 'jwk' });
+    const now = Date.now();
+    const mso = new Map<string, any>([
+      ['version', '1.0'],
+      ['digestAlgorithm', 'SHA-256'],
+      ['valueDigests', valueDigests],
+      ['deviceKeyInfo', new Map([['deviceKey', new Map<number, any>([
+        [1, 2], [-1, 1], [-2, Buffer.from(jwk.x as string, 'base64url')], [-3, Buffer.from(jwk.y as string, 'base64url')]
+      ])]])],
+      ['docType', docType],
+      ['validityInfo', new Map([
+        ['signed', new Tag(new Date(now).toISOString().replace(/\.\d+Z$/, 'Z'), 0)],
+        ['validFrom', new Tag(new Date(now).toISOString().replace(/\.\d+Z$/, 'Z'), 0)],
+        ['validUntil', new Tag(new Date(now + 365 * 24 * 60 * 60 * 1000).toISOString().replace(/\.\d+Z$/, 'Z'), 0)]
+      ])]
+    ]);
+
+    const protectedHeader = cborEncoder.encode(new Map([[1, -7]]));
+    const payload = encodeEmbeddedCbor(cborEncoder.encode(mso));
+    const signature = sign('sha256', cborEncoder.encode(['Signature1', protectedHeader, new Uint8Array(0), payload]),
+      { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    const issuerAuth = [protectedHeader, new Map([[33, Buffer.from(certificate.rawData)]]), payload, signature];
+
+    return new Map<string, any>([
+      ['nameSpaces', issuerNameSpaces],
+      ['issuerAuth', issuerAuth]
+    ]);
+  }
+
+  /**
+   * Issues a CRL from the IACA, listing the given certificates as revoked
+   */
+  async function createCrl(revoked: x509.X509Certificate[] = []): Promise<x509.X509Crl> {
+    return x509.X509CrlGenerator.create({
+      issuer: iacaCertificate.subject,
+      thisUpdate: new Date(),
+      nextUpdate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      entries: revoked.map(({ serialNumber }) => ({ serialNumber, revocationDate: new Date() })),
+      signingAlgorithm: algorithm,
+      signingKey: iacaKeys.privateKey
+    });
+  }
+
+  return { iacaCertificate, certificate, issue, createCrl };
+}
+
+/**
+ * Creates a holder device key pair (the key the MSO binds the mdoc to)
+ */
+export function createExampleDeviceKey() {
+  return generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+}
+
+/**
+ * Builds a DeviceResponse, signing DeviceAuthentication with the device key for the given session
+ */
+export function createDeviceResponse(
+  docType: string,
+  issuerSigned: Map<string, any>,
+  devicePrivateKey: KeyObject,
+  sessionTranscript: Uint8Array
+): Uint8Array {
+  const deviceNameSpaces = new Tag(cborEncoder.encode(new Map()), 24);
+  const deviceAuthenticationBytes = encodeEmbeddedCbor(concatBytes(
+    new Uint8Array([0x84]),
+    cborEncoder.encode('DeviceAuthentication'),
+    sessionTranscript,
+    cborEncoder.encode(docType),
+    cborEncoder.encode(deviceNameSpaces)
+  ));
+  const protectedHeader = cborEncoder.encode(new Map([[1, -7]]));
+  const signature = sign('sha256', cborEncoder.encode(['Signature1', protectedHeader, new Uint8Array(0), deviceAuthenticationBytes]),
+    { key: devicePrivateKey, dsaEncoding: 'ieee-p1363' });
+
+  return cborEncoder.encode(new Map<string, any>([
+    ['version', '1.0'],
+    ['documents', [new Map<string, any>([
+      ['docType', docType],
+      ['issuerSigned', issuerSigned],
+      ['deviceSigned', new Map<string, any>([
+        ['nameSpaces', deviceNameSpaces],
+        ['deviceAuth', new Map([['deviceSignature', [protectedHeader, new Map(), null, signature]]])]
+      ])]
+    ])]],
+    ['status', 0]
+  ]));
+}
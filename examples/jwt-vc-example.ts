@@ -0,0 +1,61 @@
+// examples/jwt-vc-example.ts
+import { randomBytes } from 'crypto';
+import { createVerifier } from '../src/core/index.ts';
+import { JwtVcHandler } from '../src/handlers/jwt-vc-handler.ts';
+import { Over18Policy } from '../src/policies/index.ts';
+import { DidResolver, PresentationRequest, VerifiablePresentation } from '../src/types/index.ts';
+import { createExampleIssuer } from './example-issuer.ts';
+
+async function run() {
+  const issuer = createExampleIssuer('did:example:issuer');
+  const holder = createExampleIssuer('did:example:holder');
+  const didResolver: DidResolver = {
+    resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? holder.didResolver.resolve(did)
+  };
+
+  const verifier = createVerifier({
+    handlers: [new JwtVcHandler({ didResolver })],
+    policies: { 'over18': new Over18Policy() }
+  });
+
+  const request: PresentationRequest = {
+    id: 'jwt-vc-request',
+    policies: ['over18'],
+    request_credentials: [{ type: 'IdentityCredential', required: true }],
+    challenge: randomBytes(16).toString('base64url'),
+    domain: 'https://verifier.example.com'
+  };
+
+  // Issuer: a jwt_vc_json credential about the holder
+  const now = Math.floor(Date.now() / 1000);
+  const vcJwt = issuer.signJwt({
+    iss: issuer.did,
+    sub: holder.did,
+    jti: 'urn:uuid:3978344f-8596-4c3a-a978-8fcaba3903c5',
+    nbf: now,
+    exp: now + 365 * 24 * 60 * 60,
+    vc: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiableCredential', 'IdentityCredential'],
+      credentialSubject: { givenName: 'Alice', birthdate: '1990-01-01' }
+    }
+  }, { typ: 'JWT' });
+
+  // Holder: a jwt_vp_json presentation bound to the request nonce and audience
+  const vpJwt = holder.signJwt({
+    iss: holder.did,
+    aud: request.domain,
+    nonce: request.challenge,
+    iat: now,
+    vp: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiablePresentation'],
+      verifiableCredential: [vcJwt]
+    }
+  }, { typ: 'JWT' });
+
+  const result = await verifier.verify(vpJwt as unknown as VerifiablePresentation, request);
+  console.log('JWT-VC + Over18 Result:', result);
+}
+
+run().catch(console.error);
@@ -1,51 +1,77 @@
 // examples/sd-jwt-example.ts
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
 import { SdJwtHandler } from '../src/handlers/sd-jwt-handler.ts';
-import { VerifiablePresentation } from '../src/types/index.ts';
-
-// Mock SD-JWT presentation
-const sdJwtPresentation: VerifiablePresentation = {
-  '@context': ['https://www.w3.org/2018/credentials/v1'],
-  type: ['VerifiablePresentation'],
-  verifiableCredential: [
-    {
-      '@context': ['https://www.w3.org/2018/credentials/v1'],
-      id: 'urn:uuid:1234',
-      type: ['VerifiableCredential', 'SD-JWT'],
-      issuer: 'did:example:issuer',
-      issuanceDate: '2024-01-01T00:00:00Z',
-      credentialSubject: {
-        id: 'did:example:holder',
-        givenName: 'Alice',
-        familyName: 'Doe',
-        age: 30
-      },
-      proof: {
-        type: 'SD-JWT',
-        created: '2024-01-01T00:00:00Z',
-        verificationMethod: 'did:example:issuer#key-1',
-        proofPurpose: 'assertionMethod',
-        sdJwt: 'mock-sd-jwt-token'
-      }
-    }
-  ],
-  holder: 'did:example:holder',
-  proof: {
-    type: 'SD-JWT',
-    created: '2024-01-01T00:00:00Z',
-    verificationMethod: 'did:example:holder#key-1',
-    proofPurpose: 'authentication',
-    sdJwt: 'mock-sd-jwt-token'
-  }
-};
+import { base64urlEncode } from '../src/crypto/encoding.ts';
+import { PresentationRequest, VerifiablePresentation } from '../src/types/index.ts';
+import { createExampleIssuer } from './example-issuer.ts';
+
+function digest(value: string): string {
+  return base64urlEncode(createHash('sha256').update(value).digest());
+}
+
+function createDisclosure(...content: any[]): string {
+  return base64urlEncode(JSON.stringify([base64urlEncode(randomBytes(16)), ...content]));
+}
 
 async function run() {
-  const handler = new SdJwtHandler();
+  const issuer = createExampleIssuer('did:example:issuer');
+  const holderKeys = generateKeyPairSync('ed25519');
+
+  // Issuer: every claim is selectively disclosable, including one nationality array element
+  const givenName = createDisclosure('given_name', 'Alice');
+  const familyName = createDisclosure('family_name', 'Doe');
+  const age = createDisclosure('age', 30);
+  const nationalityDE = createDisclosure('DE');
+  const nationalityFR = createDisclosure('FR');
+  const issuerJwt = issuer.signJwt({
+    iss: issuer.did,
+    iat: Math.floor(Date.now() / 1000),
+    vct: 'https://example.com/identity_credential',
+    _sd_alg: 'sha-256',
+    _sd: [givenName, familyName, age].map(digest),
+    nationalities: [{ '...': digest(nationalityDE) }, { '...': digest(nationalityFR) }],
+    cnf: { jwk: holderKeys.publicKey.export({ format: 'jwk' }) }
+  }, { typ: 'dc+sd-jwt' });
+
+  const request: PresentationRequest = {
+    id: 'request-1',
+    request_credentials: [{ type: 'https://example.com/identity_credential' }],
+    challenge: base64urlEncode(randomBytes(16)),
+    domain: 'https://verifier.example.com'
+  };
+
+  // Holder: discloses only given_name, age and one nationality, bound to the request
+  const presented = `${issuerJwt}~${givenName}~${age}~${nationalityDE}~`;
+  const kbHeader = base64urlEncode(JSON.stringify({ alg: 'EdDSA', typ: 'kb+jwt' }));
+  const kbPayload = base64urlEncode(JSON.stringify({
+    nonce: request.challenge,
+    aud: request.domain,
+    iat: Math.floor(Date.now() / 1000),
+    sd_hash: digest(presented)
+  }));
+  const kbSignature = base64urlEncode(sign(null, Buffer.from(`${kbHeader}.${kbPayload}`), holderKeys.privateKey));
+
+  const sdJwtPresentation: VerifiablePresentation = {
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiablePresentation'],
+    verifiableCredential: [],
+    holder: 'did:example:holder',
+    proof: {
+      type: 'SD-JWT',
+      created: new Date().toISOString(),
+      verificationMethod: 'did:example:holder#key-1',
+      proofPurpose: 'authentication',
+      sdJwt: `${presented}${kbHeader}.${kbPayload}.${kbSignature}`
+    }
+  };
+
+  const handler = new SdJwtHandler({ didResolver: issuer.didResolver });
   if (handler.canHandle(sdJwtPresentation)) {
-    const result = await handler.verify(sdJwtPresentation);
+    const result = await handler.verify(sdJwtPresentation, request);
     console.log('SD-JWT Verification Result:', result);
   } else {
     console.log('Handler cannot process this presentation.');
   }
 }
 
-run(); 
\ No newline at end of file
+run();
@@ -1,13 +1,28 @@
 import { createVerifier } from '../src/core/index.ts';
 import { W3cHandler } from '../src/handlers/w3c-handler.ts';
 import { EudiPolicy, Over18Policy } from '../src/policies/index.ts';
-import { VerifiablePresentation } from '../src/types/index.ts';
+import { StaticTrustRegistry } from '../src/trust/index.ts';
+import { DidResolver, PresentationRequest, VerifiablePresentation } from '../src/types/index.ts';
+import { createExampleIssuer } from './example-issuer.ts';
+
+// Issuer and holder with real Ed25519 keys, resolvable through the example DID resolver
+const issuer = createExampleIssuer('did:example:eudi-authority');
+const holder = createExampleIssuer('did:example:eudi-holder');
+const didResolver: DidResolver = {
+  resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? holder.didResolver.resolve(did)
+};
 
 // Create handler
-const w3cHandler = new W3cHandler();
+const w3cHandler = new W3cHandler({ didResolver });
+
+// Accredited EUDI issuers
+const trustRegistry = new StaticTrustRegistry({
+  name: 'Example EUDI trust list',
+  issuers: [{ id: 'did:example:eudi-authority', name: 'Example EUDI Authority', credentialTypes: ['EuropeanDigitalIdentityCredential'] }]
+});
 
 // Create policies
-const eudiPolicy = new EudiPolicy();
+const eudiPolicy = new EudiPolicy({ trustRegistry });
 const over18Policy = new Over18Policy();
 
 // Create verifier
@@ -19,13 +34,26 @@ const verifier = createVerifier({
   }
 });
 
+// The request the holder answers; its challenge and domain are signed into the presentation proof
+const request: PresentationRequest = {
+  id: 'eudi-request',
+  policies: ['eudi', 'over18'],
+  request_credentials: [{ type: 'EuropeanDigitalIdentityCredential', required: true }],
+  challenge: 'eudi-challenge',
+  domain: 'https://verifier.example.com'
+};
+
 // Example EUDI W3C credential with birthdate
-const eudiCredential: VerifiablePresentation = {
-  '@context': ['https://www.w3.org/2018/credentials/v1'],
+const eudiCredential: VerifiablePresentation = await holder.signPresentation({
+  '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1'],
   type: ['VerifiablePresentation'],
   verifiableCredential: [
-    {
-      '@context': ['https://www.w3.org/2018/credentials/v1'],
+    await issuer.signCredential({
+      '@context': [
+        'https://www.w3.org/2018/credentials/v1',
+        'https://w3id.org/security/suites/ed25519-2020/v1',
+        'https://www.w3.org/ns/credentials/undefined-terms/v2'
+      ],
       id: 'credential:eudi:001',
       type: ['VerifiableCredential', 'EuropeanDigitalIdentityCredential'],
       issuer: 'did:example:eudi-authority',
@@ -36,34 +64,15 @@ const eudiCredential: VerifiablePresentation = {
         given_name: 'Jane',
         birth_date: '1990-04-20',
         nationality: 'EU'
-      },
-      proof: {
-        type: 'Ed25519Signature2020',
-        created: '2024-01-01T00:00:00Z',
-        verificationMethod: 'did:example:eudi-holder#key-1',
-        proofPurpose: 'assertionMethod',
-        proofValue: 'valid-eudi-signature'
       }
-    }
+    })
   ],
-  holder: 'did:example:eudi-holder',
-  proof: {
-    type: 'Ed25519Signature2020',
-    created: '2024-01-01T00:00:00Z',
-    verificationMethod: 'did:example:eudi-holder#key-1',
-    proofPurpose: 'authentication',
-    proofValue: 'valid-eudi-presentation-signature'
-  }
-};
+  holder: 'did:example:eudi-holder'
+}, { challenge: request.challenge, domain: request.domain });
 
 async function run() {
   try {
-    const result = await verifier.verify(eudiCredential, {
-      id: 'eudi-request',
-      policies: ['eudi', 'over18'],
-      request_credentials: [{ type: 'EuropeanDigitalIdentityCredential', required: true }],
-      challenge: 'eudi-challenge'
-    });
+    const result = await verifier.verify(eudiCredential, request);
     console.log('EUDI + Over 18 Verification Result:', result);
   } catch (error) {
     console.error('Caught error:', error);
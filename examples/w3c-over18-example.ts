@@ -1,10 +1,18 @@
 import { createVerifier } from '../src/core/index.ts';
 import { W3cHandler } from '../src/handlers/w3c-handler.ts';
 import { Over18Policy } from '../src/policies/index.ts';
-import { VerifiablePresentation } from '../src/types/index.ts';
+import { DidResolver, PresentationRequest, VerifiablePresentation } from '../src/types/index.ts';
+import { createExampleIssuer } from './example-issuer.ts';
+
+// Issuer and holder with real Ed25519 keys, resolvable through the example DID resolver
+const issuer = createExampleIssuer('did:example:issuer');
+const holder = createExampleIssuer('did:example:holder');
+const didResolver: DidResolver = {
+  resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? holder.didResolver.resolve(did)
+};
 
 // Create handler
-const w3cHandler = new W3cHandler();
+const w3cHandler = new W3cHandler({ didResolver });
 
 // Create policy
 const over18Policy = new Over18Policy();
@@ -17,13 +25,26 @@ const verifier = createVerifier({
   }
 });
 
+// The request the holder answers; its challenge and domain are signed into the presentation proof
+const request: PresentationRequest = {
+  id: 'w3c-request',
+  policies: ['over18'],
+  request_credentials: [{ type: 'ExampleCredential', required: true }],
+  challenge: 'w3c-challenge',
+  domain: 'https://verifier.example.com'
+};
+
 // Example W3C credential with birthdate
-const w3cCredential: VerifiablePresentation = {
-  '@context': ['https://www.w3.org/2018/credentials/v1'],
+const w3cCredential: VerifiablePresentation = await holder.signPresentation({
+  '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1'],
   type: ['VerifiablePresentation'],
   verifiableCredential: [
-    {
-      '@context': ['https://www.w3.org/2018/credentials/v1'],
+    await issuer.signCredential({
+      '@context': [
+        'https://www.w3.org/2018/credentials/v1',
+        'https://w3id.org/security/suites/ed25519-2020/v1',
+        'https://www.w3.org/ns/credentials/undefined-terms/v2'
+      ],
       id: 'credential:w3c:001',
       type: ['VerifiableCredential', 'ExampleCredential'],
       issuer: 'did:example:issuer',
@@ -33,34 +54,15 @@ const w3cCredential: VerifiablePresentation = {
         name: 'Alice Example',
         birthdate: '2000-04-20',
         nationality: 'EU'
-      },
-      proof: {
-        type: 'Ed25519Signature2020',
-        created: '2024-01-01T00:00:00Z',
-        verificationMethod: 'did:example:holder#key-1',
-        proofPurpose: 'assertionMethod',
-        proofValue: 'valid-signature'
       }
-    }
+    })
   ],
-  holder: 'did:example:holder',
-  proof: {
-    type: 'Ed25519Signature2020',
-    created: '2024-01-01T00:00:00Z',
-    verificationMethod: 'did:example:holder#key-1',
-    proofPurpose: 'authentication',
-    proofValue: 'valid-presentation-signature'
-  }
-};
+  holder: 'did:example:holder'
+}, { challenge: request.challenge, domain: request.domain });
 
 async function run() {
   try {
-    const result = await verifier.verify(w3cCredential, {
-      id: 'w3c-request',
-      policies: ['over18'],
-      request_credentials: [{ type: 'ExampleCredential', required: true }],
-      challenge: 'w3c-challenge'
-    });
+    const result = await verifier.verify(w3cCredential, request);
     console.log('W3C + Over 18 Verification Result:', result);
   } catch (error) {
     console.error('Caught error:', error);
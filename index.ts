@@ -9,19 +9,50 @@ export { createVerifier, VerifierImpl, CredentialHandler } from './src/core/inde
 // Handlers
 export { W3cHandler, W3cHandlerOptions } from './src/handlers/w3c-handler';
 export { MdlHandler, MdlHandlerOptions, MdlPresentation } from './src/handlers/mdl-handler';
+export { SdJwtHandler, SdJwtHandlerOptions, SdJwtProof } from './src/handlers/sd-jwt-handler';
+export { JwtVcHandler, JwtVcHandlerOptions } from './src/handlers/jwt-vc-handler';
 
 // Crypto suites
-export { ed25519Suite, Ed25519Proof, ecdsaR1Suite, EcdsaR1Proof, ecdsaR2Suite, EcdsaR2Proof, bbsSuite, BbsProof, jwsSuite, JwsProof } from './src/crypto';
-export { mdocDeviceAuthSuite, DeviceAuth, ReaderAuth, SessionData } from './src/crypto';
+export { ed25519Suite, Ed25519Proof, ecdsaR1Suite, EcdsaR1Proof, ecdsaR2Suite, EcdsaR2Proof, ecdsaRdfc2019Suite, ecdsaJcs2019Suite, EcdsaDataIntegrityProof, bbsSuite, BbsProof, bbs2023Suite, Bbs2023Proof, jwsSuite, JwsProof } from './src/crypto';
+export { mdocDeviceAuthSuite, DeviceAuth, ReaderAuth, SessionData, IssuerSignedResult, IssuerSignedVerificationOptions } from './src/crypto';
+export { MdocTrustStore, MdocTrustStoreOptions, TrustAnchor, Vical, X509Input, CertificatePathValidationOptions, CertificatePathValidationResult, MDL_DOCUMENT_SIGNER_EKU, MDL_READER_AUTH_EKU } from './src/crypto';
+export { sdJwtSuite, SdJwtVerificationOptions, SdJwtVerificationResult } from './src/crypto';
+export { jwtVcSuite, JwtVcVerificationOptions, JwtVpVerificationOptions, JwtVpVerificationResult } from './src/crypto';
+export { createDocumentLoader, documentLoader, canonicalize, canonicalizeJcs, createVerifyData, resolveVerificationMethod, resolveJwtVerificationMethod, isAuthorizedFor } from './src/crypto';
+export { HolderBindingError, HolderKey, checkSubjectBinding, isBoundToHolderKey, jwkThumbprint } from './src/crypto';
+export { InMemoryKeyStore, encryptJweJson, decryptJweJson, GeneralJwe } from './src/crypto';
+
+// DID resolution
+export { UniversalDidResolver, UniversalDidResolverOptions, KeyDidResolver, JwkDidResolver, PeerDidResolver, WebDidResolver, WebDidResolverOptions, LruCache, LruCacheOptions } from './src/did';
+
+// Status checkers
+export { StatusList2021Checker, BitstringStatusListChecker, TokenStatusListChecker, TokenStatusListCheckerOptions, defaultTokenStatusListFetcher, readTokenStatus, StatusListCheckerOptions, StatusListCredentialVerifier, StatusListUnreachableError, defaultStatusListFetcher, requestStatusList, decodeStatusList, readStatus, statusEntries } from './src/status';
+export { CompositeStatusChecker, CompositeStatusCheckerOptions, UnhandledStatusPolicy, StatusListCache, StatusListCacheOptions } from './src/status';
+
+// Trust registries
+export { StaticTrustRegistry, StaticTrustList, TrustedIssuer, accreditsType, EtsiTrustedListRegistry, EtsiTrustedListOptions, TrustedListService, ServiceStatusPeriod, ServiceDigitalIdentity } from './src/trust';
+export { OpenIdFederationTrustRegistry, OpenIdFederationOptions, FederationTrustAnchor, TrustChain, parseXml, XmlElement } from './src/trust';
+
+// Schema validation
+export { validateJsonSchema, JsonSchemaValidationOptions, InMemorySchemaRegistry } from './src/schema';
+
+// Session stores
+export { MemorySessionStore, FileSessionStore, consumeSession, findSession } from './src/session';
+
+// Credential queries
+export { evaluatePresentationSubmission, evaluateDcqlQuery, evaluateVprQuery, queryJsonPath, JsonPathMatch } from './src/query';
 
 // Protocol adapters
 export { 
-  OID4VP_Adapter, OID4VPRequest, OID4VPResponse, SessionData as OID4VPSessionData, ValidationResult,
-  DIDCommAdapter, DIDCommMessage, DIDCommResponse,
-  CHAPIAdapter, CHAPIRequest, CHAPIResponse, CHAPICredentialRequest,
-  WACIAdapter, WACIRequest, WACIResponse,
-  SIOPAdapter, SIOPRequest, SIOPResponse, SIOPIDToken,
-  VCAPIAdapter, VCAPIRequest, VCAPIResponse, VCAPIVerificationRequest, VCAPIVerificationResponse,
+  OID4VP_Adapter, OID4VPAdapterOptions, OID4VPRequest, OID4VPResponse, OID4VPHttpResponse, OID4VPSigner,
+  ClientIdScheme, OID4VPResponseMode, SessionData as OID4VPSessionData, ValidationResult, openId4VpHandover,
+  DIDCommAdapter, DIDCommAdapterOptions, DIDCommMessage, DIDCommAttachment, DIDCommResponse, DIDCommPresentationRequest, createProblemReport,
+  packDIDCommMessage, unpackDIDCommMessage, DIDCommPackMode, DIDCommEnvelopeOptions, UnpackedDIDCommMessage,
+  CHAPIAdapter, CHAPIAdapterOptions, CHAPIWebCredential, CHAPIResponse, CHAPICredentialRequest,
+  WACIAdapter, WACIAdapterOptions, WACIInvitation, WACIInteraction, WACIInteractionState,
+  SIOPAdapter, SIOPAdapterOptions, SIOPRequest, SIOPResponse, SIOPIDToken, SIOPSubject, SIOPVerificationResponse,
+  VCAPIAdapter, VCAPIAdapterOptions, VCAPIRequest, VCAPIResponse, VCAPIProblemDetails, VCAPIVerificationRequest, VCAPIVerificationResponse, VCAPICreateExchangeRequest, VCAPIExchange,
+  renderProtocolRequests, presentationDefinitionFor,
   ProtocolAdapter
 } from './src/protocol-adapters';
 
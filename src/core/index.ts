@@ -3,8 +3,14 @@
  * Provides a clean, protocol-agnostic interface for credential verification
  */
 
-import { VerifiablePresentation, PresentationRequest, VerificationResult, Policy, VerificationData, CredentialHandler, CredentialVerifier } from '../types';
+import { randomBytes, randomUUID } from 'crypto';
+import { VerifiablePresentation, VerifiableCredential, PresentationRequest, VerificationResult, Policy, VerificationData, CredentialHandler, CredentialVerifier, PresentationSubmission, PresentationExchangeResult, CredentialVerificationResult, DcqlQuery, DcqlResult, DcqlVpToken, SessionStore, CreateRequestOptions, CreatedPresentationRequest } from '../types';
 import type { CredentialVerifierOptions } from '../types';
+import { evaluatePresentationSubmission } from '../query/presentation-exchange.ts';
+import { evaluateDcqlQuery } from '../query/dcql.ts';
+import { renderProtocolRequests } from '../protocol-adapters/protocol-requests.ts';
+
+type HandlerResult = Awaited<ReturnType<CredentialHandler['verify']>>;
 
 // Re-export the interface for convenience
 export { CredentialHandler };
@@ -16,10 +22,14 @@ export { CredentialHandler };
 export class VerifierImpl implements CredentialVerifier {
   private handlers: CredentialHandler[];
   private policies: Record<string, Policy>;
+  private sessionStore?: SessionStore;
+  private requestTtl: number;
   
   constructor(options: CredentialVerifierOptions) {
     this.handlers = options.handlers || [];
     this.policies = options.policies || {};
+    this.sessionStore = options.sessionStore;
+    this.requestTtl = options.requestTtl ?? 300;
     
     if (this.handlers.length === 0) {
       console.warn("Warning: No handlers provided to VerifierImpl");
@@ -30,44 +40,102 @@ export class VerifierImpl implements CredentialVerifier {
   
   /**
    * Verifies a presentation using the appropriate handler and policies
-   * @param presentation - The presentation to verify
+   * @param presentation - The presentation to verify, or the vp_token object keyed by credential query id when the
+   * request has a DCQL query
    * @param originalRequest - The original verification request (optional)
+   * @param presentationSubmission - The presentation submission, when the protocol carries it beside the presentation
+   * (defaults to the presentation's presentation_submission)
    * @returns Promise<VerificationResult> - Verification result
    */
-  async verify(presentation: VerifiablePresentation, originalRequest?: PresentationRequest): Promise<VerificationResult> {
+  async verify(presentation: VerifiablePresentation | DcqlVpToken, originalRequest?: PresentationRequest, presentationSubmission?: PresentationSubmission): Promise<VerificationResult> {
     console.log("=== Starting verification process ===");
-    console.log(`Presentation type: ${Array.isArray(presentation.type) ? presentation.type.join(', ') : presentation.type}`);
-    
     if (!presentation) {
       throw new Error('No presentation provided for verification');
     }
+    if (originalRequest?.expiresAt !== undefined && originalRequest.expiresAt <= Date.now()) {
+      console.log("=== Verification failed: Request expired ===");
+      return {
+        status: 'rejected',
+        error: `Presentation request ${originalRequest.id} expired at ${new Date(originalRequest.expiresAt).toISOString()}`,
+        errorCode: 'REQUEST_EXPIRED'
+      };
+    }
 
-    // Step 1: Find and run the appropriate handler
-    const handler = this.handlers.find(h => h.canHandle(presentation));
-    
-    if (!handler) {
-      const supportedTypes = this.handlers.map(h => h.constructor.name).join(', ');
-      throw new Error(
-        `No suitable handler found for the presentation format. ` +
-        `Available handlers: ${supportedTypes || 'None'}`
-      );
+    // Step 1: Find and run the appropriate handler (for a DCQL vp_token, on each presentation it carries)
+    const dcqlQuery = originalRequest?.dcql_query;
+    let handlerResult: HandlerResult;
+    let presented: Record<string, CredentialVerificationResult[]> = {};
+    if (dcqlQuery) {
+      ({ handlerResult, presented } = await this.verifyVpToken(presentation as DcqlVpToken, dcqlQuery, originalRequest!));
+    } else {
+      const vp = presentation as VerifiablePresentation;
+      // vp_tokens in compact JWS form (jwt_vp_json) are passed through as strings
+      const presentationType = typeof vp === 'string' ? 'JWT' : vp.type;
+      console.log(`Presentation type: ${Array.isArray(presentationType) ? presentationType.join(', ') : presentationType}`);
+      handlerResult = await this.findHandler(vp).verify(vp, originalRequest);
     }
 
-    console.log(`Selected handler: ${handler.constructor.name}`);
-    
-    const handlerResult = await handler.verify(presentation, originalRequest);
-    
     if (handlerResult.status === 'rejected') {
       console.log(`=== Verification failed: ${handlerResult.error} ===`);
       return {
         status: 'rejected',
-        error: handlerResult.error || 'Cryptographic verification failed'
+        error: handlerResult.error || 'Cryptographic verification failed',
+        errorCode: handlerResult.errorCode,
+        credentials: handlerResult.credentials
       };
     }
 
-    // Step 2: Run all requested post-verification policies
+    // Step 2: Check the verified credentials satisfy the request's presentation definition or DCQL query
+    let presentationExchange: PresentationExchangeResult | undefined;
+    let dcql: DcqlResult | undefined;
+    const definition = originalRequest?.presentation_definition;
+    if (dcqlQuery) {
+      dcql = evaluateDcqlQuery(dcqlQuery, presented);
+      if (!dcql.valid) {
+        const failed = dcql.credentials
+          .filter(credential => !credential.satisfied && presented[credential.id]?.length)
+          .map(credential => `${credential.id} (${credential.errors.join('; ')})`);
+        console.log('=== Verification failed: DCQL query not satisfied ===');
+        return {
+          status: 'rejected',
+          error: `vp_token does not satisfy the DCQL query: ${dcql.errors.join('; ')}` +
+            (failed.length > 0 ? `. Failed credential queries: ${failed.join(', ')}` : ''),
+          errorCode: 'DCQL_QUERY_UNSATISFIED',
+          dcql,
+          credentials: handlerResult.credentials
+        };
+      }
+      console.log('DCQL query satisfied');
+    } else if (definition) {
+      const submission = presentationSubmission ?? (typeof presentation === 'object' ? (presentation as VerifiablePresentation).presentation_submission : undefined);
+      presentationExchange = evaluatePresentationSubmission(definition, submission, handlerResult.credentials || [handlerResult]);
+      if (!presentationExchange.valid) {
+        const failed = presentationExchange.descriptors
+          .filter(descriptor => !descriptor.satisfied && descriptor.errors.length > 0)
+          .map(descriptor => `${descriptor.id} (${descriptor.errors.join('; ')})`);
+        console.log(`=== Verification failed: presentation definition ${definition.id} not satisfied ===`);
+        return {
+          status: 'rejected',
+          error: `Presentation does not satisfy presentation definition ${definition.id}: ${presentationExchange.errors.join('; ')}` +
+            (failed.length > 0 ? `. Failed input descriptors: ${failed.join(', ')}` : ''),
+          errorCode: 'PRESENTATION_DEFINITION_UNSATISFIED',
+          presentationExchange,
+          credentials: handlerResult.credentials
+        };
+      }
+      console.log(`Presentation definition ${definition.id} satisfied`);
+    }
+
+    // Step 3: Run all requested post-verification policies
     const policyResults: Record<string, any> = {};
     const requestedPolicies = originalRequest?.policies || [];
+    // Policies see the first credential at the top level and every credential in the presentation
+    const credentials: VerificationData[] = (handlerResult.credentials || [handlerResult]).map(credential => ({
+      claims: credential.claims || {},
+      credentialType: credential.credentialType || 'Unknown',
+      issuer: credential.issuer,
+      holder: credential.holder
+    }));
     
     if (requestedPolicies.length > 0) {
       console.log(`Running ${requestedPolicies.length} policies: ${requestedPolicies.join(', ')}`);
@@ -79,17 +147,18 @@ export class VerifierImpl implements CredentialVerifier {
             claims: handlerResult.claims || {},
             credentialType: handlerResult.credentialType || 'Unknown',
             issuer: handlerResult.issuer,
-            holder: handlerResult.holder
+            holder: handlerResult.holder,
+            credentials
           };
           
-          policyResults[policyName] = policy.execute(verificationData);
+          policyResults[policyName] = await policy.execute(verificationData);
         } else {
           console.warn(`Policy '${policyName}' not found in verifier configuration`);
         }
       }
     }
     
-    // Step 3: Determine final status based on policy compliance
+    // Step 4: Determine final status based on policy compliance
     const allPoliciesCompliant = Object.values(policyResults).every(r => r.compliant);
     
     if (!allPoliciesCompliant) {
@@ -97,26 +166,151 @@ export class VerifierImpl implements CredentialVerifier {
       return {
         status: 'rejected',
         policyResults,
-        error: 'Policy compliance check failed'
+        error: 'Policy compliance check failed',
+        credentials: handlerResult.credentials,
+        ...(presentationExchange && { presentationExchange }),
+        ...(dcql && { dcql })
       };
     }
 
     console.log("=== Verification complete: verified ===");
     return {
       status: 'verified',
-      policyResults: Object.keys(policyResults).length > 0 ? policyResults : undefined
+      policyResults: Object.keys(policyResults).length > 0 ? policyResults : undefined,
+      credentials: handlerResult.credentials,
+      ...(presentationExchange && { presentationExchange }),
+      ...(dcql && { dcql })
     };
   }
 
-  createRequest(options: { comment: string }): PresentationRequest {
-    // Minimal stub implementation for interface compliance
-    return {
-      id: 'request-id',
-      comment: options.comment,
-      policies: [],
-      request_credentials: [],
-      challenge: 'challenge-string'
+  /**
+   * Verifies a standalone credential (one not wrapped in a presentation, so without holder binding) with the first
+   * handler that verifies credentials on their own. Policies are not run
+   * @param credential - The credential to verify
+   * @param originalRequest - The request whose challenge binds derived proofs (optional)
+   * @returns Promise<VerificationResult> - Verification result, with the credential's result as its only credential
+   * @throws Error - When no handler can verify the credential on its own
+   */
+  async verifyCredential(credential: VerifiableCredential, originalRequest?: PresentationRequest): Promise<VerificationResult> {
+    console.log("=== Starting credential verification ===");
+    if (!credential) {
+      throw new Error('No credential provided for verification');
+    }
+    const handler = this.handlers.find(h => h.verifyCredential && h.canHandle({ verifiableCredential: [credential] } as VerifiablePresentation));
+    if (!handler) {
+      throw new Error('No handler can verify a standalone credential of this format');
+    }
+    console.log(`Selected handler: ${handler.constructor.name}`);
+    const result = await handler.verifyCredential!(credential, originalRequest);
+    if (result.status === 'rejected') {
+      console.log(`=== Credential verification failed: ${result.error} ===`);
+      return { status: 'rejected', error: result.error || 'Cryptographic verification failed', errorCode: result.errorCode, credentials: [result] };
+    }
+    console.log("=== Credential verification complete: verified ===");
+    return { status: 'verified', credentials: [result] };
+  }
+
+  /**
+   * Finds the handler for a presentation
+   * @throws Error - When no handler can process it
+   */
+  private findHandler(presentation: VerifiablePresentation): CredentialHandler {
+    const handler = this.handlers.find(h => h.canHandle(presentation));
+    if (!handler) {
+      const supportedTypes = this.handlers.map(h => h.constructor.name).join(', ');
+      throw new Error(
+        `No suitable handler found for the presentation format. ` +
+        `Available handlers: ${supportedTypes || 'None'}`
+      );
+    }
+    console.log(`Selected handler: ${handler.constructor.name}`);
+    return handler;
+  }
+
+  /**
+   * Verifies every presentation of a DCQL vp_token with the handler for its credential query's format.
+   * Presentations for ids the query does not have are not verified; the query check reports them
+   * @returns The combined handler result, and the verified credentials of each vp_token entry
+   */
+  private async verifyVpToken(vpToken: DcqlVpToken, query: DcqlQuery, originalRequest: PresentationRequest): Promise<{
+    handlerResult: HandlerResult;
+    presented: Record<string, CredentialVerificationResult[]>;
+  }> {
+    if (typeof vpToken !== 'object' || Array.isArray(vpToken)) {
+      return { handlerResult: { status: 'rejected', error: 'vp_token must be an object keyed by credential query id' }, presented: {} };
+    }
+    const presented: Record<string, CredentialVerificationResult[]> = {};
+    const credentials: CredentialVerificationResult[] = [];
+    for (const [id, value] of Object.entries(vpToken)) {
+      presented[id] = [];
+      const credentialQuery = query.credentials.find(credential => credential.id === id);
+      if (!credentialQuery) {
+        continue;
+      }
+      for (const item of Array.isArray(value) ? value : [value]) {
+        console.log(`Verifying vp_token presentation for ${id} (${credentialQuery.format})`);
+        const presentation = presentationForFormat(credentialQuery.format, item, originalRequest);
+        const result = await this.findHandler(presentation).verify(presentation, originalRequest);
+        const results = result.credentials || [result];
+        presented[id].push(...results);
+        credentials.push(...results);
+        if (result.status === 'rejected') {
+          return { handlerResult: { status: 'rejected', error: result.error, errorCode: result.errorCode, credentials }, presented };
+        }
+      }
+    }
+    const [first] = credentials;
+    return { handlerResult: { ...(first || { status: 'verified' }), credentials }, presented };
+  }
+
+  /**
+   * Creates a presentation request with a random id and challenge, registering it in the session store (when
+   * configured) so protocol adapters can match the response to it and consume the challenge once
+   * @param options - The requested credentials, policies, domain, expiry, query and protocols to render it for
+   * @returns Promise<CreatedPresentationRequest> - The presentation request, with its protocol-native forms when requested
+   * @throws Error - When a policy is not registered with the verifier
+   */
+  async createRequest(options: CreateRequestOptions = {}): Promise<CreatedPresentationRequest> {
+    const policies = options.policies ?? [];
+    const unknownPolicies = policies.filter(name => !this.policies[name]);
+    if (unknownPolicies.length > 0) {
+      throw new Error(`Policies not registered with the verifier: ${unknownPolicies.join(', ')}`);
+    }
+    const expiresIn = options.expiresIn ?? this.requestTtl;
+    if (!(expiresIn > 0)) {
+      throw new Error('Request expiry must be a positive number of seconds');
+    }
+
+    // An OID4VP request by value is answered with the response_uri as client_id, which the holder binds to
+    const domain = options.domain ?? options.protocols?.oid4vp?.responseUri;
+
+    const request: PresentationRequest = {
+      id: randomUUID(),
+      ...(options.comment && { comment: options.comment }),
+      policies,
+      request_credentials: (options.credentials ?? ['VerifiableCredential']).map(credential =>
+        typeof credential === 'string' ? { type: credential, required: true } : { required: true, ...credential }
+      ),
+      challenge: randomBytes(32).toString('base64url'),
+      ...(domain && { domain }),
+      expiresAt: Date.now() + expiresIn * 1000,
+      ...(options.presentation_definition && { presentation_definition: options.presentation_definition }),
+      ...(options.dcql_query && { dcql_query: options.dcql_query })
     };
+    const state = randomBytes(16).toString('base64url');
+    if (this.sessionStore) {
+      await this.sessionStore.save({
+        id: request.id,
+        request,
+        nonce: request.challenge,
+        ...(options.protocols?.oid4vp && { state }),
+        expiresAt: request.expiresAt!
+      });
+    }
+    console.log(`Created request ${request.id} for ${request.request_credentials.map(credential => credential.type).join(', ')}`);
+    return options.protocols
+      ? { ...request, protocolRequests: renderProtocolRequests(request, options.protocols, state) }
+      : request;
   }
 
   getHandlerInfo?(): Record<string, any> {
@@ -125,6 +319,24 @@ export class VerifierImpl implements CredentialVerifier {
   }
 }
 
+/**
+ * Wraps a vp_token presentation in the form its handler takes: SD-JWTs as an SD-JWT proof, base64url
+ * DeviceResponses with the request's session transcript; other strings (VP JWTs) and objects are passed as they are
+ * @param format - The presentation's format (e.g. dc+sd-jwt, mso_mdoc, jwt_vp_json, ldp_vp)
+ * @param value - The presentation as it appears in the vp_token
+ * @param originalRequest - The request the presentation answers
+ * @returns VerifiablePresentation - The presentation for the handler
+ */
+export function presentationForFormat(format: string, value: string | Record<string, any>, originalRequest: PresentationRequest): VerifiablePresentation {
+  if (typeof value === 'string' && (format === 'dc+sd-jwt' || format === 'vc+sd-jwt')) {
+    return { proof: { type: 'SD-JWT', sdJwt: value } } as unknown as VerifiablePresentation;
+  }
+  if (typeof value === 'string' && format === 'mso_mdoc') {
+    return { type: 'mDL', deviceResponse: value, sessionTranscript: originalRequest.sessionTranscript } as unknown as VerifiablePresentation;
+  }
+  return value as VerifiablePresentation;
+}
+
 /**
  * Factory function to create a configured Verifier
  * @param options - Configuration options
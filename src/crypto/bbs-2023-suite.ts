@@ -0,0 +1,139 @@
+/**
+ * BBS Data Integrity Cryptosuite (bbs-2023)
+ * For W3C Verifiable Credentials presented with a DataIntegrityProof derived
+ * by the holder, revealing only the mandatory and selected statements.
+ * bbs-2023 uses the IETF CFRG BBS ciphersuites of @digitalbazaar/bbs-signatures,
+ * which are not compatible with the BBS+ scheme of BbsBlsSignature2020
+ */
+
+import { createHash } from 'crypto';
+import { Decoder } from 'cbor-x';
+import { verifyProof as bbsVerifyProof, CIPHERSUITES } from '@digitalbazaar/bbs-signatures';
+import { canonicalize } from './data-integrity.ts';
+import { concatBytes, decodeMultibase } from './encoding.ts';
+import { blsPublicKeyFromVerificationMethod, resolveVerificationMethod } from './verification-method.ts';
+import { ProofVerificationOptions, SecuredDocument } from '../types/index.ts';
+
+export interface Bbs2023Proof {
+  type: 'DataIntegrityProof';
+  cryptosuite: 'bbs-2023';
+  created?: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  proofValue: string; // multibase (base64url) CBOR-encoded derived proof
+}
+
+// CBOR tag prefix of a baseline derived proof; base proofs (0xd9 0x5d 0x02) are never presented to verifiers
+const DERIVED_PROOF_HEADER = [0xd9, 0x5d, 0x03];
+
+const cborDecoder = new Decoder({ mapsAsObjects: false, useRecords: false });
+
+export const bbs2023Suite = {
+  async verifyProof(document: SecuredDocument, options: ProofVerificationOptions = {}): Promise<boolean> {
+    const proof = document.proof as Bbs2023Proof;
+    console.log('--> Verifying DataIntegrityProof (bbs-2023)');
+    if (proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'bbs-2023') return false;
+
+    const derivedProof = parseDerivedProofValue(proof.proofValue);
+
+    // The presentation header carries the verifier's challenge, binding the proof to this request
+    const presentationHeader = Buffer.from(derivedProof.presentationHeader).toString('utf8');
+    if (!options.challenge || presentationHeader !== options.challenge) {
+      console.log(`   Verification result: INVALID (derived proof is not bound to the request challenge)`);
+      return false;
+    }
+
+    const verificationMethod = await resolveVerificationMethod(proof.verificationMethod, options.didResolver, options.proofPurpose ?? proof.proofPurpose);
+    const publicKey = blsPublicKeyFromVerificationMethod(verificationMethod);
+
+    const { proof: _proof, ...revealDocument } = document;
+    const { proofValue, ...proofOptions } = proof;
+    const proofHash = sha256(await canonicalize({ '@context': document['@context'], ...proofOptions }, options.documentLoader));
+
+    // Relabel blank nodes to the issuer's labels so statements match what was signed
+    const nquads = (await canonicalize(revealDocument, options.documentLoader))
+      .split('\n')
+      .filter(statement => statement.length > 0)
+      .map(statement => statement.replace(/_:(c14n[0-9]+)/g, (_match, id: string) => {
+        const label = derivedProof.labelMap.get(id);
+        if (!label) {
+          throw new Error(`bbs-2023 label map has no entry for blank node ${id}`);
+        }
+        return `_:${label}`;
+      }) + '\n')
+      .sort();
+
+    const mandatoryIndexes = new Set(derivedProof.mandatoryIndexes);
+    if ([...mandatoryIndexes].some(index => index < 0 || index >= nquads.length)) {
+      throw new Error('bbs-2023 mandatory index out of range');
+    }
+    const mandatory = nquads.filter((_statement, index) => mandatoryIndexes.has(index));
+    const nonMandatory = nquads.filter((_statement, index) => !mandatoryIndexes.has(index));
+
+    // Every revealed statement is either mandatory (hashed into the header) or a disclosed message
+    if (nonMandatory.length !== derivedProof.selectiveIndexes.length) {
+      console.log(`   Verification result: INVALID (revealed statements do not match the disclosed indexes)`);
+      return false;
+    }
+
+    const isValid = await bbsVerifyProof({
+      publicKey,
+      proof: derivedProof.bbsProof,
+      header: concatBytes(proofHash, sha256(mandatory.join(''))),
+      presentationHeader: derivedProof.presentationHeader,
+      disclosedMessages: nonMandatory.map(statement => new Uint8Array(Buffer.from(statement, 'utf8'))),
+      disclosedMessageIndexes: derivedProof.selectiveIndexes,
+      ciphersuite: CIPHERSUITES.BLS12381_SHA256
+    });
+    console.log(`   Verification result: ${isValid ? 'VALID' : 'INVALID'}`);
+    return isValid;
+  }
+};
+
+/**
+ * Decodes a bbs-2023 derived proofValue into its components
+ */
+function parseDerivedProofValue(proofValue: string): {
+  bbsProof: Uint8Array;
+  labelMap: Map<string, string>;
+  mandatoryIndexes: number[];
+  selectiveIndexes: number[];
+  presentationHeader: Uint8Array;
+} {
+  if (typeof proofValue !== 'string' || !proofValue.startsWith('u')) {
+    throw new Error('bbs-2023 proofValue must be multibase base64url encoded');
+  }
+  const bytes = decodeMultibase(proofValue);
+  if (!DERIVED_PROOF_HEADER.every((byte, index) => bytes[index] === byte)) {
+    throw new Error('bbs-2023 proofValue is not a derived proof');
+  }
+
+  const components = cborDecoder.decode(bytes.subarray(DERIVED_PROOF_HEADER.length));
+  if (!Array.isArray(components) || components.length !== 5) {
+    throw new Error('bbs-2023 derived proof must have five components');
+  }
+  const [bbsProof, compressedLabelMap, mandatoryIndexes, selectiveIndexes, presentationHeader] = components;
+  if (!(bbsProof instanceof Uint8Array) || !(compressedLabelMap instanceof Map) ||
+      !Array.isArray(mandatoryIndexes) || !Array.isArray(selectiveIndexes) ||
+      !(presentationHeader instanceof Uint8Array)) {
+    throw new Error('bbs-2023 derived proof is malformed');
+  }
+
+  // Compressed label map entries are c14n index -> issuer blank node index
+  const labelMap = new Map<string, string>();
+  for (const [canonicalIndex, issuerIndex] of compressedLabelMap) {
+    labelMap.set(`c14n${canonicalIndex}`, `b${issuerIndex}`);
+  }
+
+  return {
+    bbsProof: new Uint8Array(bbsProof),
+    labelMap,
+    mandatoryIndexes,
+    selectiveIndexes,
+    presentationHeader: new Uint8Array(presentationHeader)
+  };
+}
+
+function sha256(value: string): Uint8Array {
+  return new Uint8Array(createHash('sha256').update(value, 'utf8').digest());
+}
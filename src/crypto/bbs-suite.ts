@@ -1,22 +1,82 @@
 /**
- * BBS+ Data Integrity Suite (mock)
- * For W3C Verifiable Credentials (Data Integrity Proofs, selective disclosure)
+ * BBS+ Data Integrity Suite
+ * For W3C Verifiable Credentials secured with BbsBlsSignature2020, and the
+ * selective disclosure proofs (BbsBlsSignatureProof2020) holders derive from them.
+ * These use the pre-standard BBS+ scheme of @mattrglobal/bbs-signatures, whose
+ * signatures and proofs the IETF BBS ciphersuites of bbs-2023 cannot verify
  */
 
+import { blsVerify, blsVerifyProof } from '@mattrglobal/bbs-signatures';
+import { canonicalize } from './data-integrity.ts';
+import { blsPublicKeyFromVerificationMethod, resolveVerificationMethod } from './verification-method.ts';
+import { ProofVerificationOptions, SecuredDocument } from '../types/index.ts';
+
 export interface BbsProof {
-  type: 'BbsBlsSignature2020';
+  type: 'BbsBlsSignature2020' | 'BbsBlsSignatureProof2020';
   created: string;
   verificationMethod: string;
   proofPurpose: string;
-  proofValue: string;
+  proofValue: string; // base64 signature, or base64 derived proof
+  nonce?: string; // base64 nonce the derived proof is bound to
 }
 
 export const bbsSuite = {
-  async verifyProof(proof: BbsProof): Promise<boolean> {
-    // In a real implementation, verify the BBS+ signature over the proof value
-    console.log('--> Verifying BBS+ proof (mock)');
-    if (proof.type !== 'BbsBlsSignature2020') return false;
-    // ... signature verification logic here ...
-    return true;
+  async verifyProof(document: SecuredDocument, options: ProofVerificationOptions = {}): Promise<boolean> {
+    const proof = document.proof as BbsProof;
+    console.log(`--> Verifying BBS+ proof (${proof.type})`);
+    if (proof.type !== 'BbsBlsSignature2020' && proof.type !== 'BbsBlsSignatureProof2020') return false;
+
+    const verificationMethod = await resolveVerificationMethod(proof.verificationMethod, options.didResolver, options.proofPurpose ?? proof.proofPurpose);
+    const publicKey = blsPublicKeyFromVerificationMethod(verificationMethod);
+    const { proof: _proof, ...unsecuredDocument } = document;
+    const { proofValue, nonce, ...proofOptions } = proof;
+
+    if (proof.type === 'BbsBlsSignature2020') {
+      // Every canonical statement of the proof options and the document is a signed message
+      const messages = [
+        ...await canonicalStatements({ '@context': document['@context'], ...proofOptions }, options),
+        ...await canonicalStatements(unsecuredDocument, options)
+      ];
+      const result = await blsVerify({
+        publicKey,
+        messages: messages.map(statement => new Uint8Array(Buffer.from(statement, 'utf8'))),
+        signature: new Uint8Array(Buffer.from(proofValue, 'base64'))
+      });
+      console.log(`   Verification result: ${result.verified ? 'VALID' : 'INVALID'}`);
+      return result.verified;
+    }
+
+    // Derived proof: the nonce must be the verifier's challenge, otherwise the proof could be replayed
+    if (!nonce || !options.challenge || Buffer.from(nonce, 'base64').toString('utf8') !== options.challenge) {
+      console.log(`   Verification result: INVALID (derived proof is not bound to the request challenge)`);
+      return false;
+    }
+
+    // The derived proof is checked against the original signature's proof options
+    const proofStatements = await canonicalStatements(
+      { '@context': document['@context'], ...proofOptions, type: 'BbsBlsSignature2020' },
+      options
+    );
+    // Blank nodes are revealed as urn:bnid:_:c14nN identifiers; map them back to the signed labels
+    const documentStatements = (await canonicalStatements(unsecuredDocument, options))
+      .map(statement => statement.replace(/<urn:bnid:(_:c14n[0-9]+)>/g, '$1'));
+
+    // Only revealed statements are present in the document, so they are the only messages checked
+    const result = await blsVerifyProof({
+      proof: new Uint8Array(Buffer.from(proofValue, 'base64')),
+      publicKey,
+      messages: [...proofStatements, ...documentStatements].map(statement => new Uint8Array(Buffer.from(statement, 'utf8'))),
+      nonce: new Uint8Array(Buffer.from(nonce, 'base64'))
+    });
+    console.log(`   Verification result: ${result.verified ? 'VALID' : 'INVALID'}`);
+    return result.verified;
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Canonicalizes a document and splits it into individual N-Quad statements
+ */
+async function canonicalStatements(document: Record<string, any>, options: ProofVerificationOptions): Promise<string[]> {
+  const nquads = await canonicalize(document, options.documentLoader);
+  return nquads.split('\n').filter(statement => statement.length > 0);
+}
@@ -0,0 +1,156 @@
+/**
+ * COSE Helpers
+ * CBOR encoding and COSE_Sign1 / COSE_Mac0 verification (RFC 9052) for the mdoc suite
+ */
+
+import { createHmac, createPublicKey, KeyObject, timingSafeEqual, X509Certificate } from 'crypto';
+import { Decoder, Encoder, Tag } from 'cbor-x';
+import { base64urlEncode } from './encoding.ts';
+import { verifyJwsSignature } from './jws.ts';
+
+// Maps are kept as Map so integer (COSE) and text (ISO 18013-5) keys round-trip unchanged
+export const cborEncoder = new Encoder({ mapsAsObjects: false, useRecords: false, tagUint8Array: false });
+export const cborDecoder = new Decoder({ mapsAsObjects: false, useRecords: false });
+
+// COSE header labels
+const HEADER_ALG = 1;
+const HEADER_X5CHAIN = 33;
+
+// COSE algorithm identifiers mapped to their JWS names
+const COSE_SIGNATURE_ALGORITHMS: Record<number, string> = {
+  [-7]: 'ES256',
+  [-35]: 'ES384',
+  [-8]: 'EdDSA'
+};
+const COSE_MAC_ALGORITHMS: Record<number, string> = {
+  5: 'sha256' // HMAC 256/256
+};
+
+// COSE_Key curve identifiers mapped to their JWK names
+const COSE_CURVES: Record<number, { kty: 'EC' | 'OKP'; crv: string }> = {
+  1: { kty: 'EC', crv: 'P-256' },
+  2: { kty: 'EC', crv: 'P-384' },
+  3: { kty: 'EC', crv: 'P-521' },
+  6: { kty: 'OKP', crv: 'Ed25519' }
+};
+
+/**
+ * A decoded COSE_Sign1 or COSE_Mac0 structure
+ */
+export interface CoseMessage {
+  protectedHeader: Uint8Array; // Serialized protected header bucket, as signed
+  protectedHeaders: Map<number, any>;
+  unprotectedHeaders: Map<number, any>;
+  payload: Uint8Array | null; // null when detached
+  signature: Uint8Array; // Signature, or MAC tag for COSE_Mac0
+}
+
+/**
+ * Decodes a COSE_Sign1 / COSE_Mac0 array ([protected, unprotected, payload, signature|tag])
+ * @param value - The decoded CBOR array (tags 18 and 17 are accepted)
+ * @returns CoseMessage - The message parts
+ */
+export function decodeCoseMessage(value: any): CoseMessage {
+  const message = value instanceof Tag ? value.value : value;
+  if (!Array.isArray(message) || message.length !== 4) {
+    throw new Error('Malformed COSE message');
+  }
+  const [protectedHeader, unprotectedHeaders, payload, signature] = message;
+  if (!(protectedHeader instanceof Uint8Array) || !(unprotectedHeaders instanceof Map) ||
+      !(payload === null || payload instanceof Uint8Array) || !(signature instanceof Uint8Array)) {
+    throw new Error('Malformed COSE message');
+  }
+  const protectedHeaders = protectedHeader.length > 0 ? cborDecoder.decode(protectedHeader) : new Map();
+  if (!(protectedHeaders instanceof Map)) {
+    throw new Error('Malformed COSE protected header');
+  }
+  return { protectedHeader, protectedHeaders, unprotectedHeaders, payload, signature };
+}
+
+/**
+ * Verifies a COSE_Sign1 signature
+ * @param message - The decoded COSE_Sign1
+ * @param publicKey - The signer's public key
+ * @param detachedPayload - The payload, when it is not carried in the message
+ * @returns boolean - True if the signature is valid
+ */
+export function verifyCoseSign1(message: CoseMessage, publicKey: KeyObject, detachedPayload?: Uint8Array): boolean {
+  const alg = COSE_SIGNATURE_ALGORITHMS[message.protectedHeaders.get(HEADER_ALG)];
+  const payload = message.payload ?? detachedPayload;
+  if (!alg || !payload) {
+    return false;
+  }
+  const toBeSigned = cborEncoder.encode(['Signature1', message.protectedHeader, new Uint8Array(0), payload]);
+  return verifyJwsSignature(alg, toBeSigned, message.signature, publicKey);
+}
+
+/**
+ * Verifies a COSE_Mac0 tag
+ * @param message - The decoded COSE_Mac0
+ * @param key - The shared MAC key
+ * @param detachedPayload - The payload, when it is not carried in the message
+ * @returns boolean - True if the tag is valid
+ */
+export function verifyCoseMac0(message: CoseMessage, key: Uint8Array, detachedPayload?: Uint8Array): boolean {
+  const digest = COSE_MAC_ALGORITHMS[message.protectedHeaders.get(HEADER_ALG)];
+  const payload = message.payload ?? detachedPayload;
+  if (!digest || !payload) {
+    return false;
+  }
+  const toBeMaced = cborEncoder.encode(['MAC0', message.protectedHeader, new Uint8Array(0), payload]);
+  const tag = createHmac(digest, key).update(toBeMaced).digest();
+  return tag.length === message.signature.length && timingSafeEqual(tag, message.signature);
+}
+
+/**
+ * Extracts the x5chain (leaf first) from a COSE message's headers
+ * @param message - The decoded COSE message
+ * @returns X509Certificate[] - The certificate chain, empty if absent
+ */
+export function getX5Chain(message: CoseMessage): X509Certificate[] {
+  const x5chain = message.unprotectedHeaders.get(HEADER_X5CHAIN) ?? message.protectedHeaders.get(HEADER_X5CHAIN);
+  if (!x5chain) return [];
+  const certificates: Uint8Array[] = Array.isArray(x5chain) ? x5chain : [x5chain];
+  return certificates.map(der => new X509Certificate(der));
+}
+
+/**
+ * Converts a COSE_Key (EC2 or OKP) to a Node.js public key
+ * @param coseKey - The decoded COSE_Key map
+ * @returns KeyObject - The public key
+ */
+export function coseKeyToPublicKey(coseKey: Map<number, any>): KeyObject {
+  if (!(coseKey instanceof Map)) {
+    throw new Error('Malformed COSE_Key');
+  }
+  const curve = COSE_CURVES[coseKey.get(-1)];
+  if (!curve) {
+    throw new Error(`Unsupported COSE_Key curve: ${coseKey.get(-1)}`);
+  }
+  const jwk: Record<string, string> = { kty: curve.kty, crv: curve.crv, x: base64urlEncode(coseKey.get(-2)) };
+  if (curve.kty === 'EC') {
+    jwk.y = base64urlEncode(coseKey.get(-3));
+  }
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/**
+ * Encodes bytes as embedded CBOR (#6.24(bstr)), the form ISO 18013-5 hashes and signs
+ * @param bytes - CBOR-encoded data item
+ * @returns Uint8Array - The tag 24 encoding
+ */
+export function encodeEmbeddedCbor(bytes: Uint8Array): Uint8Array {
+  return cborEncoder.encode(new Tag(bytes, 24));
+}
+
+/**
+ * Decodes embedded CBOR (#6.24(bstr)), returning both the inner bytes and the decoded item
+ * @param value - The decoded tag 24 value
+ * @returns { bytes: Uint8Array; value: any } - The embedded bytes and their decoding
+ */
+export function decodeEmbeddedCbor(value: any): { bytes: Uint8Array; value: any } {
+  if (!(value instanceof Tag) || value.tag !== 24 || !(value.value instanceof Uint8Array)) {
+    throw new Error('Expected embedded CBOR (tag 24)');
+  }
+  return { bytes: value.value, value: cborDecoder.decode(value.value) };
+}
@@ -0,0 +1,82 @@
+/**
+ * Data Integrity Helpers
+ * RDF Dataset Canonicalization and verify-data construction shared by the
+ * Linked Data / Data Integrity crypto suites
+ */
+
+import { createHash } from 'crypto';
+import jsonld from 'jsonld';
+import type { Options } from 'jsonld';
+import { documentLoader as defaultDocumentLoader } from './document-loader.ts';
+import { DocumentLoader, SecuredDocument } from '../types/index.ts';
+
+/**
+ * Canonicalizes a JSON-LD document with RDF Dataset Canonicalization (URDNA2015)
+ * @param document - The JSON-LD document to canonicalize
+ * @param documentLoader - Loader used to resolve contexts (defaults to the bundled offline loader)
+ * @returns Promise<string> - The canonical N-Quads
+ */
+export async function canonicalize(document: Record<string, any>, documentLoader: DocumentLoader = defaultDocumentLoader): Promise<string> {
+  return jsonld.canonize(document, {
+    algorithm: 'URDNA2015',
+    format: 'application/n-quads',
+    // Safe mode rejects terms that silently drop out of the signed dataset
+    safe: true,
+    documentLoader
+  } as Options.Normalize);
+}
+
+/**
+ * Canonicalizes a JSON value with the JSON Canonicalization Scheme (RFC 8785)
+ * @param value - The JSON value to canonicalize
+ * @returns string - The canonical JSON serialization
+ */
+export function canonicalizeJcs(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error('JCS cannot serialize non-finite numbers');
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalizeJcs).join(',')}]`;
+  }
+  // Keys are ordered by UTF-16 code units, which is the default string sort
+  const members = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalizeJcs(value[key])}`);
+  return `{${members.join(',')}}`;
+}
+
+/**
+ * Builds the data a Data Integrity signature is computed over:
+ * hash(canonical proof options) || hash(canonical document without proof)
+ * @param document - The secured document
+ * @param options - Document loader, hash algorithm and canonicalization (RDFC by default, or JCS)
+ * @returns Promise<Uint8Array> - The verify data
+ */
+export async function createVerifyData(document: SecuredDocument, options: {
+  documentLoader?: DocumentLoader;
+  hashAlgorithm?: string;
+  canonicalization?: 'rdfc' | 'jcs';
+} = {}): Promise<Uint8Array> {
+  const hashAlgorithm = options.hashAlgorithm || 'sha256';
+  const { proof, ...unsecuredDocument } = document;
+  const { proofValue, jws, signatureValue, ...proofOptions } = proof;
+  const proofConfig = { '@context': document['@context'], ...proofOptions };
+
+  let canonicalProof: string;
+  let canonicalDocument: string;
+  if (options.canonicalization === 'jcs') {
+    canonicalProof = canonicalizeJcs(proofConfig);
+    canonicalDocument = canonicalizeJcs(unsecuredDocument);
+  } else {
+    canonicalProof = await canonicalize(proofConfig, options.documentLoader);
+    canonicalDocument = await canonicalize(unsecuredDocument, options.documentLoader);
+  }
+
+  const proofHash = createHash(hashAlgorithm).update(canonicalProof, 'utf8').digest();
+  const documentHash = createHash(hashAlgorithm).update(canonicalDocument, 'utf8').digest();
+  return new Uint8Array(Buffer.concat([proofHash, documentHash]));
+}
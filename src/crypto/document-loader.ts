@@ -0,0 +1,54 @@
+/**
+ * Offline JSON-LD Document Loader
+ * Serves the standard W3C and security contexts from bundled copies so that
+ * canonicalization never reaches out to the network
+ */
+
+/// <reference path="../types/modules.d.ts" />
+
+import { contexts as credentialsContexts } from '@digitalbazaar/credentials-context';
+import dataIntegrityContext from '@digitalbazaar/data-integrity-context';
+import multikeyContext from '@digitalbazaar/multikey-context';
+import didContext from 'did-context';
+import ed25519Signature2018Context from 'ed25519-signature-2018-context';
+import ed25519Signature2020Context from 'ed25519-signature-2020-context';
+import securityContext from 'security-context';
+import { BBS_V1_CONTEXT_URL, bbsV1Context } from './contexts/bbs-v1.ts';
+import { JWS_2020_V1_CONTEXT_URL, jws2020V1Context } from './contexts/jws-2020-v1.ts';
+import { STATUS_LIST_2021_V1_CONTEXT_URL, statusList2021V1Context } from './contexts/status-list-2021-v1.ts';
+import { DocumentLoader, RemoteDocument } from '../types/index.ts';
+
+const bundledContexts = new Map<string, any>([
+  ...credentialsContexts,
+  ...dataIntegrityContext.contexts,
+  ...multikeyContext.contexts,
+  ...didContext.contexts,
+  ...ed25519Signature2018Context.contexts,
+  ...ed25519Signature2020Context.contexts,
+  ...securityContext.contexts,
+  [BBS_V1_CONTEXT_URL, bbsV1Context],
+  [JWS_2020_V1_CONTEXT_URL, jws2020V1Context],
+  [STATUS_LIST_2021_V1_CONTEXT_URL, statusList2021V1Context]
+]);
+
+/**
+ * Creates a document loader that resolves bundled contexts plus any extra contexts supplied
+ * @param extraContexts - Additional context URL to context document mappings
+ * @returns DocumentLoader - A loader that rejects any URL it does not know
+ */
+export function createDocumentLoader(extraContexts: Record<string, any> = {}): DocumentLoader {
+  const contexts = new Map<string, any>([...bundledContexts, ...Object.entries(extraContexts)]);
+
+  return async (url: string): Promise<RemoteDocument> => {
+    const document = contexts.get(url);
+    if (!document) {
+      throw new Error(`Document loader refused to load unknown context: ${url}`);
+    }
+    return { contextUrl: null, documentUrl: url, document };
+  };
+}
+
+/**
+ * Default loader serving only the bundled contexts
+ */
+export const documentLoader: DocumentLoader = createDocumentLoader();
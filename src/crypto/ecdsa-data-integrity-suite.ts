@@ -0,0 +1,34 @@
+/**
+ * ECDSA Data Integrity Cryptosuites (ecdsa-rdfc-2019, ecdsa-jcs-2019)
+ * For W3C Verifiable Credentials secured with DataIntegrityProof over P-256 or P-384 keys
+ */
+
+import { verifyEcdsaProof } from './ecdsa.ts';
+import { ProofVerificationOptions, SecuredDocument } from '../types/index.ts';
+
+export interface EcdsaDataIntegrityProof {
+  type: 'DataIntegrityProof';
+  cryptosuite: 'ecdsa-rdfc-2019' | 'ecdsa-jcs-2019';
+  created?: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  proofValue: string; // multibase (base58btc) P1363 signature
+}
+
+export const ecdsaRdfc2019Suite = {
+  async verifyProof(document: SecuredDocument, options: ProofVerificationOptions = {}): Promise<boolean> {
+    const proof = document.proof as EcdsaDataIntegrityProof;
+    console.log('--> Verifying DataIntegrityProof (ecdsa-rdfc-2019)');
+    if (proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'ecdsa-rdfc-2019') return false;
+    return verifyEcdsaProof(document, options, { curves: ['prime256v1', 'secp384r1'], canonicalization: 'rdfc' });
+  }
+};
+
+export const ecdsaJcs2019Suite = {
+  async verifyProof(document: SecuredDocument, options: ProofVerificationOptions = {}): Promise<boolean> {
+    const proof = document.proof as EcdsaDataIntegrityProof;
+    console.log('--> Verifying DataIntegrityProof (ecdsa-jcs-2019)');
+    if (proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'ecdsa-jcs-2019') return false;
+    return verifyEcdsaProof(document, options, { curves: ['prime256v1', 'secp384r1'], canonicalization: 'jcs' });
+  }
+};
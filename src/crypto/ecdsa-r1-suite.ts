@@ -1,22 +1,25 @@
 /**
- * ECDSA secp256r1 Data Integrity Suite (mock)
- * For W3C Verifiable Credentials (Data Integrity Proofs)
+ * ECDSA secp256r1 Data Integrity Suite
+ * For W3C Verifiable Credentials secured with EcdsaSecp256r1Signature2019 proofs
  */
 
+import { verifyEcdsaProof } from './ecdsa.ts';
+import { ProofVerificationOptions, SecuredDocument } from '../types/index.ts';
+
 export interface EcdsaR1Proof {
   type: 'EcdsaSecp256r1Signature2019';
   created: string;
   verificationMethod: string;
   proofPurpose: string;
-  proofValue: string;
+  proofValue?: string; // multibase (base58btc) P1363 signature
+  jws?: string; // detached ES256 JWS
 }
 
 export const ecdsaR1Suite = {
-  async verifyProof(proof: EcdsaR1Proof): Promise<boolean> {
-    // In a real implementation, verify the ECDSA signature over the proof value
-    console.log('--> Verifying ECDSA secp256r1 proof (mock)');
+  async verifyProof(document: SecuredDocument, options: ProofVerificationOptions = {}): Promise<boolean> {
+    const proof = document.proof as EcdsaR1Proof;
+    console.log('--> Verifying ECDSA secp256r1 proof');
     if (proof.type !== 'EcdsaSecp256r1Signature2019') return false;
-    // ... signature verification logic here ...
-    return true;
+    return verifyEcdsaProof(document, options, { curves: ['prime256v1'], allowDetachedJws: true });
   }
-}; 
\ No newline at end of file
+};
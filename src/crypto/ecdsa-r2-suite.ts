@@ -1,22 +1,25 @@
 /**
- * ECDSA secp256k1 Data Integrity Suite (mock)
- * For W3C Verifiable Credentials (Data Integrity Proofs)
+ * ECDSA secp256k1 Data Integrity Suite
+ * For W3C Verifiable Credentials secured with EcdsaSecp256k1Signature2019 proofs
  */
 
+import { verifyEcdsaProof } from './ecdsa.ts';
+import { ProofVerificationOptions, SecuredDocument } from '../types/index.ts';
+
 export interface EcdsaR2Proof {
   type: 'EcdsaSecp256k1Signature2019';
   created: string;
   verificationMethod: string;
   proofPurpose: string;
-  proofValue: string;
+  proofValue?: string; // multibase (base58btc) P1363 signature
+  jws?: string; // detached ES256K JWS
 }
 
 export const ecdsaR2Suite = {
-  async verifyProof(proof: EcdsaR2Proof): Promise<boolean> {
-    // In a real implementation, verify the ECDSA signature over the proof value
-    console.log('--> Verifying ECDSA secp256k1 proof (mock)');
+  async verifyProof(document: SecuredDocument, options: ProofVerificationOptions = {}): Promise<boolean> {
+    const proof = document.proof as EcdsaR2Proof;
+    console.log('--> Verifying ECDSA secp256k1 proof');
     if (proof.type !== 'EcdsaSecp256k1Signature2019') return false;
-    // ... signature verification logic here ...
-    return true;
+    return verifyEcdsaProof(document, options, { curves: ['secp256k1'], allowDetachedJws: true });
   }
-}; 
\ No newline at end of file
+};
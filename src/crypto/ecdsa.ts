@@ -0,0 +1,59 @@
+/**
+ * ECDSA Proof Verification
+ * Shared verification logic for the ECDSA Data Integrity suites (2019 legacy types and DataIntegrityProof)
+ */
+
+import { createVerifyData } from './data-integrity.ts';
+import { decodeMultibase } from './encoding.ts';
+import { verifyDetachedJws, verifyJwsSignature } from './jws.ts';
+import { publicKeyFromVerificationMethod, resolveVerificationMethod } from './verification-method.ts';
+import { ProofVerificationOptions, SecuredDocument } from '../types/index.ts';
+
+/**
+ * JWS algorithm and canonical-form hash for each supported curve (OpenSSL curve names)
+ */
+const CURVE_ALGORITHMS: Record<string, { alg: string; hashAlgorithm: string }> = {
+  prime256v1: { alg: 'ES256', hashAlgorithm: 'sha256' },
+  secp384r1: { alg: 'ES384', hashAlgorithm: 'sha384' },
+  secp256k1: { alg: 'ES256K', hashAlgorithm: 'sha256' }
+};
+
+/**
+ * Verifies an ECDSA proof over the canonicalized document
+ * @param document - The secured document
+ * @param options - DID resolver and document loader
+ * @param params - Curves the suite accepts, canonicalization and whether a detached JWS may carry the signature
+ * @returns Promise<boolean> - True if the signature is valid
+ */
+export async function verifyEcdsaProof(document: SecuredDocument, options: ProofVerificationOptions, params: {
+  curves: string[];
+  canonicalization?: 'rdfc' | 'jcs';
+  allowDetachedJws?: boolean;
+}): Promise<boolean> {
+  const proof = document.proof;
+
+  const verificationMethod = await resolveVerificationMethod(proof.verificationMethod, options.didResolver, options.proofPurpose ?? proof.proofPurpose);
+  const publicKey = publicKeyFromVerificationMethod(verificationMethod);
+  const curve = publicKey.asymmetricKeyDetails?.namedCurve;
+  if (publicKey.asymmetricKeyType !== 'ec' || !curve || !params.curves.includes(curve)) {
+    console.log(`   Verification result: INVALID (verification method key is not on an accepted curve)`);
+    return false;
+  }
+
+  const { alg, hashAlgorithm } = CURVE_ALGORITHMS[curve];
+  const verifyData = await createVerifyData(document, {
+    documentLoader: options.documentLoader,
+    hashAlgorithm,
+    canonicalization: params.canonicalization
+  });
+
+  let isValid = false;
+  if (proof.jws && params.allowDetachedJws) {
+    isValid = verifyDetachedJws(proof.jws, verifyData, publicKey, alg);
+  } else if (typeof proof.proofValue === 'string' && proof.proofValue.startsWith('z')) {
+    isValid = verifyJwsSignature(alg, verifyData, decodeMultibase(proof.proofValue), publicKey);
+  }
+
+  console.log(`   Verification result: ${isValid ? 'VALID' : 'INVALID'}`);
+  return isValid;
+}
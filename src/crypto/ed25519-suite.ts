@@ -1,28 +1,65 @@
 /**
  * Ed25519 Crypto Suite for W3C Verifiable Credentials
- * Provides cryptographic verification logic for Ed25519 signatures
+ * Provides cryptographic verification logic for Ed25519Signature2018 and Ed25519Signature2020 proofs
  */
 
+import { verify } from 'crypto';
+import { createVerifyData } from './data-integrity.ts';
+import { decodeMultibase } from './encoding.ts';
+import { verifyDetachedJws } from './jws.ts';
+import { publicKeyFromVerificationMethod, resolveVerificationMethod } from './verification-method.ts';
+import { ProofVerificationOptions, SecuredDocument } from '../types/index.ts';
+
 export interface Ed25519Proof {
-  type: string;
+  type: 'Ed25519Signature2018' | 'Ed25519Signature2020';
   created: string;
   verificationMethod: string;
-  signature?: string;
+  proofPurpose: string;
+  proofValue?: string; // Ed25519Signature2020: multibase (base58btc) signature
+  jws?: string; // Ed25519Signature2018: detached JWS with unencoded payload
 }
 
 export const ed25519Suite = {
   /**
    * Verifies a W3C proof using Ed25519 signature
-   * @param proof - The proof object from the verifiable credential
+   * @param document - The secured credential or presentation, including its proof
+   * @param options - DID resolver and document loader used during verification
    * @returns Promise<boolean> - True if proof is valid, false otherwise
    */
-  verifyProof: async (proof: Ed25519Proof): Promise<boolean> => {
+  verifyProof: async (document: SecuredDocument, options: ProofVerificationOptions = {}): Promise<boolean> => {
+    const proof = document.proof as Ed25519Proof;
     console.log("--> Verifying W3C proof with Ed25519Suite...");
     console.log(`   Proof type: ${proof.type}`);
     console.log(`   Created: ${proof.created}`);
     console.log(`   Verification method: ${proof.verificationMethod}`);
-    // Always pass for mock/testing
-    console.log(`   Verification result: VALID (mock)`);
-    return true;
+
+    if (proof.type !== 'Ed25519Signature2018' && proof.type !== 'Ed25519Signature2020') {
+      console.log(`   Verification result: INVALID (unsupported proof type)`);
+      return false;
+    }
+
+    const verificationMethod = await resolveVerificationMethod(proof.verificationMethod, options.didResolver, options.proofPurpose ?? proof.proofPurpose);
+    const publicKey = publicKeyFromVerificationMethod(verificationMethod);
+    if (publicKey.asymmetricKeyType !== 'ed25519') {
+      console.log(`   Verification result: INVALID (verification method is not an Ed25519 key)`);
+      return false;
+    }
+
+    const verifyData = await createVerifyData(document, { documentLoader: options.documentLoader });
+
+    let isValid: boolean;
+    if (proof.type === 'Ed25519Signature2020') {
+      if (!proof.proofValue?.startsWith('z')) {
+        console.log(`   Verification result: INVALID (proofValue must be base58btc multibase)`);
+        return false;
+      }
+      isValid = verify(null, verifyData, publicKey, decodeMultibase(proof.proofValue));
+    } else {
+      isValid = verifyDetachedJws(proof.jws, verifyData, publicKey, 'EdDSA');
+    }
+
+    console.log(`   Verification result: ${isValid ? 'VALID' : 'INVALID'}`);
+    return isValid;
   }
-}; 
\ No newline at end of file
+};
+
@@ -0,0 +1,117 @@
+/**
+ * Encoding Helpers
+ * Base58btc, base64url and multibase conversions shared by the crypto suites
+ */
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Decodes a base58btc (Bitcoin alphabet) string
+ * @param value - The base58btc encoded string
+ * @returns Uint8Array - The decoded bytes
+ */
+export function base58btcDecode(value: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < value.length && value[zeros] === '1') zeros++;
+
+  // Little-endian base256 accumulator
+  const bytes: number[] = [];
+  for (const char of value.slice(zeros)) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new Error(`Invalid base58btc character: ${char}`);
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  return Uint8Array.from([...new Array(zeros).fill(0), ...bytes.reverse()]);
+}
+
+/**
+ * Encodes bytes as base58btc (Bitcoin alphabet)
+ * @param bytes - The bytes to encode
+ * @returns string - The base58btc encoded string
+ */
+export function base58btcEncode(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  // Little-endian base58 accumulator
+  const digits: number[] = [];
+  for (const byte of bytes.slice(zeros)) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+
+  return '1'.repeat(zeros) + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+}
+
+/**
+ * Decodes a base64url string (padding optional)
+ * @param value - The base64url encoded string
+ * @returns Uint8Array - The decoded bytes
+ */
+export function base64urlDecode(value: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*={0,2}$/.test(value)) {
+    throw new Error('Invalid base64url string');
+  }
+  return new Uint8Array(Buffer.from(value, 'base64url'));
+}
+
+/**
+ * Encodes bytes or a UTF-8 string as unpadded base64url
+ * @param value - The bytes or string to encode
+ * @returns string - The base64url encoded string
+ */
+export function base64urlEncode(value: Uint8Array | string): string {
+  return Buffer.from(typeof value === 'string' ? Buffer.from(value, 'utf8') : value).toString('base64url');
+}
+
+/**
+ * Decodes a multibase string. Only the base58btc ('z') and base64url ('u') prefixes are supported.
+ * @param value - The multibase encoded string
+ * @returns Uint8Array - The decoded bytes
+ */
+export function decodeMultibase(value: string): Uint8Array {
+  const prefix = value[0];
+  const payload = value.slice(1);
+  switch (prefix) {
+    case 'z':
+      return base58btcDecode(payload);
+    case 'u':
+      return base64urlDecode(payload);
+    default:
+      throw new Error(`Unsupported multibase prefix: ${prefix}`);
+  }
+}
+
+/**
+ * Concatenates byte arrays
+ * @param parts - The byte arrays to join
+ * @returns Uint8Array - The concatenated bytes
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,91 @@
+/**
+ * Holder Binding
+ * Shared checks that a presentation was made by the holder of the credentials it carries
+ */
+
+import { createHash, KeyObject } from 'crypto';
+import { base64urlEncode } from './encoding.ts';
+import { VerificationErrorCode } from '../types/index.ts';
+
+/**
+ * Raised when a presentation is not bound to its holder or to the request; handlers report `code`
+ * as the result's errorCode
+ */
+export class HolderBindingError extends Error {
+  code: VerificationErrorCode;
+
+  constructor(code: VerificationErrorCode, message: string) {
+    super(message);
+    this.name = 'HolderBindingError';
+    this.code = code;
+  }
+}
+
+/**
+ * The key the holder proved control of when signing the presentation
+ */
+export interface HolderKey {
+  kid?: string; // Verification method id (or JWT kid) of the presentation signature
+  publicKey?: KeyObject;
+}
+
+// Required JWK members per key type, in the lexicographic order RFC 7638 hashes them
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  EC: ['crv', 'kty', 'x', 'y'],
+  OKP: ['crv', 'kty', 'x'],
+  RSA: ['e', 'kty', 'n']
+};
+
+/**
+ * Computes the RFC 7638 SHA-256 thumbprint of a public JWK
+ * @param jwk - The public key as a JWK
+ * @returns string - The base64url encoded thumbprint
+ */
+export function jwkThumbprint(jwk: Record<string, any>): string {
+  const members = THUMBPRINT_MEMBERS[jwk.kty];
+  if (!members) {
+    throw new Error(`Unsupported JWK key type for thumbprint: ${jwk.kty}`);
+  }
+  const canonical = JSON.stringify(Object.fromEntries(members.map(member => [member, jwk[member]])));
+  return base64urlEncode(createHash('sha256').update(canonical).digest());
+}
+
+/**
+ * Checks whether a cnf (confirmation) claim names the key that signed the presentation,
+ * by kid, by embedded jwk or by jwk thumbprint (jkt)
+ * @param cnf - The credential's cnf claim
+ * @param holderKey - The key of the presentation signature
+ * @returns boolean - True if cnf confirms the holder key
+ */
+export function isBoundToHolderKey(cnf: any, holderKey: HolderKey): boolean {
+  if (!cnf || typeof cnf !== 'object') {
+    return false;
+  }
+  if (cnf.kid && holderKey.kid) {
+    return cnf.kid === holderKey.kid;
+  }
+  if (!holderKey.publicKey || (!cnf.jwk && !cnf.jkt)) {
+    return false;
+  }
+  const holderThumbprint = jwkThumbprint(holderKey.publicKey.export({ format: 'jwk' }));
+  return (cnf.jkt ?? jwkThumbprint(cnf.jwk)) === holderThumbprint;
+}
+
+/**
+ * Checks that a credential is about the holder: a subject id equals the holder DID,
+ * or the credential confirms the holder key via cnf
+ * @param subjectIds - The credential subject ids
+ * @param holder - The presentation holder
+ * @param cnf - The credential's cnf claim, if any
+ * @param holderKey - The key of the presentation signature
+ * @throws HolderBindingError - SUBJECT_NOT_BOUND when neither applies
+ */
+export function checkSubjectBinding(subjectIds: (string | undefined)[], holder: string | undefined, cnf: any, holderKey: HolderKey): void {
+  if (holder && subjectIds.includes(holder)) {
+    return;
+  }
+  if (isBoundToHolderKey(cnf, holderKey)) {
+    return;
+  }
+  throw new HolderBindingError('SUBJECT_NOT_BOUND', 'Credential subject is not the holder and is not bound to the holder key');
+}
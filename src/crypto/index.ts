@@ -1,6 +1,17 @@
 export { ed25519Suite, Ed25519Proof } from './ed25519-suite';
-export { mdocDeviceAuthSuite, DeviceAuth, ReaderAuth, SessionData } from './mdoc-suite';
+export { mdocDeviceAuthSuite, DeviceAuth, ReaderAuth, SessionData, IssuerSignedResult, IssuerSignedVerificationOptions } from './mdoc-suite';
+export { MdocTrustStore, MdocTrustStoreOptions, TrustAnchor, Vical, X509Input, CertificatePathValidationOptions, CertificatePathValidationResult, MDL_DOCUMENT_SIGNER_EKU, MDL_READER_AUTH_EKU } from './mdoc-trust-store';
 export { ecdsaR1Suite, EcdsaR1Proof } from './ecdsa-r1-suite';
 export { ecdsaR2Suite, EcdsaR2Proof } from './ecdsa-r2-suite';
+export { ecdsaRdfc2019Suite, ecdsaJcs2019Suite, EcdsaDataIntegrityProof } from './ecdsa-data-integrity-suite';
 export { bbsSuite, BbsProof } from './bbs-suite';
-export { jwsSuite, JwsProof } from './jws-suite'; 
\ No newline at end of file
+export { bbs2023Suite, Bbs2023Proof } from './bbs-2023-suite';
+export { jwsSuite, JwsProof } from './jws-suite';
+export { sdJwtSuite, SdJwtVerificationOptions, SdJwtVerificationResult } from './sd-jwt-suite';
+export { jwtVcSuite, JwtVcVerificationOptions, JwtVpVerificationOptions, JwtVpVerificationResult } from './jwt-vc-suite';
+export { createDocumentLoader, documentLoader } from './document-loader';
+export { canonicalize, canonicalizeJcs, createVerifyData } from './data-integrity';
+export { resolveVerificationMethod, resolveJwtVerificationMethod, isAuthorizedFor } from './verification-method';
+export { HolderBindingError, HolderKey, checkSubjectBinding, isBoundToHolderKey, jwkThumbprint } from './holder-binding';
+export { InMemoryKeyStore } from './key-store';
+export { encryptJweJson, decryptJweJson, GeneralJwe } from './jwe';
@@ -0,0 +1,325 @@
+/**
+ * JWE Helpers
+ * Decryption of compact JWEs with ECDH-ES direct key agreement, as used for encrypted authorization responses (JARM),
+ * and multi-recipient JWEs in general JSON serialization with ECDH-ES+A256KW (anonymous) or ECDH-1PU+A256KW
+ * (sender-authenticated) key wrapping, as used for DIDComm v2 envelopes
+ */
+
+import {
+  createCipheriv, createDecipheriv, createHash, createHmac, createPublicKey, diffieHellman, generateKeyPairSync,
+  KeyObject, randomBytes, timingSafeEqual
+} from 'crypto';
+import { base64urlDecode, base64urlEncode } from './encoding.ts';
+
+// Content encryption algorithms and their key lengths in bytes
+const CONTENT_ENCRYPTION: Record<string, number> = {
+  A128GCM: 16,
+  A192GCM: 24,
+  A256GCM: 32,
+  'A256CBC-HS512': 64
+};
+
+// Key agreement with AES-256 key wrapping, anonymous (ECDH-ES) or sender-authenticated (ECDH-1PU)
+const KEY_WRAPPING_ALGORITHMS = ['ECDH-ES+A256KW', 'ECDH-1PU+A256KW'];
+
+// RFC 3394 default initial value
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+
+/**
+ * A decrypted JWE
+ */
+export interface DecryptedJwe {
+  header: Record<string, any>; // The protected header
+  plaintext: Uint8Array;
+}
+
+/**
+ * A JWE in general JSON serialization, with an encrypted key for each recipient
+ */
+export interface GeneralJwe {
+  protected: string;
+  recipients: { header: { kid: string; [name: string]: any }; encrypted_key: string }[];
+  iv: string;
+  ciphertext: string;
+  tag: string;
+  aad?: string;
+}
+
+/**
+ * Decrypts a compact JWE encrypted to an EC or X25519 key with ECDH-ES
+ * @param compact - The compact serialization (header.encryptedKey.iv.ciphertext.tag)
+ * @param privateKey - The recipient's private key
+ * @returns DecryptedJwe - The protected header and the plaintext
+ * @throws Error - When the JWE is malformed, uses another algorithm, or does not decrypt
+ */
+export function decryptJwe(compact: string, privateKey: KeyObject): DecryptedJwe {
+  const parts = typeof compact === 'string' ? compact.split('.') : [];
+  if (parts.length !== 5) {
+    throw new Error('Malformed compact JWE');
+  }
+  const [encodedHeader, encryptedKey, encodedIv, encodedCiphertext, encodedTag] = parts;
+  const header = decodeHeader(encodedHeader);
+  if (header.alg !== 'ECDH-ES') {
+    throw new Error(`Unsupported JWE algorithm: ${header.alg}`);
+  }
+  const keyLength = CONTENT_ENCRYPTION[header.enc];
+  if (!keyLength) {
+    throw new Error(`Unsupported JWE content encryption: ${header.enc}`);
+  }
+  if (encryptedKey !== '') {
+    throw new Error('ECDH-ES JWE must not have an encrypted key');
+  }
+  if (!header.epk) {
+    throw new Error('JWE header is missing the ephemeral public key (epk)');
+  }
+
+  const sharedSecret = diffieHellman({ privateKey, publicKey: createPublicKey({ key: header.epk, format: 'jwk' }) });
+  const contentKey = concatKdf(sharedSecret, header.enc, keyLength, header.apu, header.apv);
+  const plaintext = decryptContent(header.enc, contentKey, encodedIv, encodedCiphertext, encodedTag, encodedHeader);
+  return { header, plaintext };
+}
+
+/**
+ * Encrypts a plaintext to one or more EC or X25519 keys with ECDH-ES+A256KW, or with ECDH-1PU+A256KW when a sender
+ * key is given (the recipients can then authenticate the sender). apv commits to the sorted recipient kids
+ * @param plaintext - The plaintext
+ * @param recipients - The recipients' key agreement keys, all of one key type and curve
+ * @param options - Extra protected header parameters, the content encryption (default A256CBC-HS512) and the sender key
+ * @returns GeneralJwe - The JWE in general JSON serialization
+ * @throws Error - When there are no recipients, or their keys do not share the sender's key type
+ */
+export function encryptJweJson(
+  plaintext: Uint8Array,
+  recipients: { kid: string; publicKey: KeyObject }[],
+  options: { header?: Record<string, any>; enc?: 'A256CBC-HS512' | 'A256GCM'; sender?: { kid: string; privateKey: KeyObject } } = {}
+): GeneralJwe {
+  if (recipients.length === 0) {
+    throw new Error('JWE needs at least one recipient');
+  }
+  const keyType = keyAgreementType(recipients[0].publicKey);
+  if (recipients.some(recipient => keyAgreementType(recipient.publicKey) !== keyType) ||
+    (options.sender && keyAgreementType(options.sender.privateKey) !== keyType)) {
+    throw new Error('JWE recipient and sender keys must share a key type and curve');
+  }
+  const enc = options.enc ?? 'A256CBC-HS512';
+  const alg = options.sender ? 'ECDH-1PU+A256KW' : 'ECDH-ES+A256KW';
+  const ephemeral = keyType === 'x25519'
+    ? generateKeyPairSync('x25519')
+    : generateKeyPairSync('ec', { namedCurve: recipients[0].publicKey.asymmetricKeyDetails!.namedCurve! });
+  const header = {
+    ...options.header,
+    alg,
+    enc,
+    ...(options.sender && { skid: options.sender.kid, apu: base64urlEncode(options.sender.kid) }),
+    apv: recipientsDigest(recipients.map(recipient => recipient.kid)),
+    epk: ephemeral.publicKey.export({ format: 'jwk' })
+  };
+  const encodedHeader = base64urlEncode(JSON.stringify(header));
+
+  const contentKey = randomBytes(CONTENT_ENCRYPTION[enc]);
+  const { iv, ciphertext, tag } = encryptContent(enc, contentKey, plaintext, encodedHeader);
+  return {
+    protected: encodedHeader,
+    recipients: recipients.map(recipient => {
+      const sharedSecret = keyAgreement(alg, ephemeral.privateKey, recipient.publicKey, options.sender?.privateKey, recipient.publicKey);
+      const keyEncryptionKey = concatKdf(sharedSecret, alg, 32, header.apu, header.apv, alg === 'ECDH-1PU+A256KW' ? tag : undefined);
+      const wrap = createCipheriv('id-aes256-wrap', keyEncryptionKey, KEY_WRAP_IV);
+      return {
+        header: { kid: recipient.kid },
+        encrypted_key: base64urlEncode(Buffer.concat([wrap.update(contentKey), wrap.final()]))
+      };
+    }),
+    iv: base64urlEncode(iv),
+    ciphertext: base64urlEncode(ciphertext),
+    tag: base64urlEncode(tag)
+  };
+}
+
+/**
+ * Decrypts a general JSON serialization JWE for one of its recipients (ECDH-ES+A256KW or ECDH-1PU+A256KW)
+ * @param jwe - The JWE
+ * @param kid - The recipient's key id, as listed in the JWE's recipients
+ * @param privateKey - The recipient's private key
+ * @param senderPublicKey - For ECDH-1PU, the sender's static public key (named by skid)
+ * @returns DecryptedJwe - The protected header and the plaintext
+ * @throws Error - When the JWE is malformed, uses another algorithm, is not addressed to the key, or does not decrypt
+ */
+export function decryptJweJson(jwe: GeneralJwe, kid: string, privateKey: KeyObject, senderPublicKey?: KeyObject): DecryptedJwe {
+  if (typeof jwe?.protected !== 'string' || !Array.isArray(jwe.recipients)) {
+    throw new Error('Malformed JSON JWE');
+  }
+  const header = decodeHeader(jwe.protected);
+  if (!KEY_WRAPPING_ALGORITHMS.includes(header.alg)) {
+    throw new Error(`Unsupported JWE algorithm: ${header.alg}`);
+  }
+  if (!CONTENT_ENCRYPTION[header.enc]) {
+    throw new Error(`Unsupported JWE content encryption: ${header.enc}`);
+  }
+  if (header.alg === 'ECDH-1PU+A256KW') {
+    // ECDH-1PU key wrapping binds the content tag into the key derivation, which needs a compact AEAD (RFC draft 04)
+    if (header.enc !== 'A256CBC-HS512') {
+      throw new Error('ECDH-1PU+A256KW requires A256CBC-HS512 content encryption');
+    }
+    if (!senderPublicKey) {
+      throw new Error('ECDH-1PU JWE needs the sender public key');
+    }
+  }
+  if (!header.epk) {
+    throw new Error('JWE header is missing the ephemeral public key (epk)');
+  }
+  if (header.apv !== undefined && header.apv !== recipientsDigest(jwe.recipients.map(recipient => recipient.header?.kid))) {
+    throw new Error('JWE apv does not match its recipients');
+  }
+  const recipient = jwe.recipients.find(entry => entry.header?.kid === kid);
+  if (!recipient) {
+    throw new Error(`JWE is not encrypted to ${kid}`);
+  }
+
+  const sharedSecret = keyAgreement(header.alg, privateKey, createPublicKey({ key: header.epk, format: 'jwk' }), privateKey, senderPublicKey);
+  const keyEncryptionKey = concatKdf(
+    sharedSecret, header.alg, 32, header.apu, header.apv, header.alg === 'ECDH-1PU+A256KW' ? base64urlDecode(jwe.tag) : undefined
+  );
+  let contentKey: Buffer;
+  try {
+    const unwrap = createDecipheriv('id-aes256-wrap', keyEncryptionKey, KEY_WRAP_IV);
+    contentKey = Buffer.concat([unwrap.update(base64urlDecode(recipient.encrypted_key)), unwrap.final()]);
+  } catch {
+    throw new Error('JWE decryption failed');
+  }
+  if (contentKey.length !== CONTENT_ENCRYPTION[header.enc]) {
+    throw new Error('JWE decryption failed');
+  }
+  const aad = jwe.aad !== undefined ? `${jwe.protected}.${jwe.aad}` : jwe.protected;
+  const plaintext = decryptContent(header.enc, contentKey, jwe.iv, jwe.ciphertext, jwe.tag, aad);
+  return { header, plaintext };
+}
+
+/**
+ * The shared secret Z: Ze for ECDH-ES, Ze || Zs for ECDH-1PU (Zs between the sender's and the recipient's static keys)
+ * @param ownPrivateKey - The ephemeral private key (sender) or the recipient's private key
+ * @param ephemeralOrRecipient - The recipient's public key (sender) or the ephemeral public key (recipient)
+ * @param staticPrivateKey - For ECDH-1PU, the sender's (sender) or the recipient's (recipient) static private key
+ * @param staticPublicKey - For ECDH-1PU, the recipient's (sender) or the sender's (recipient) static public key
+ */
+function keyAgreement(
+  alg: string,
+  ownPrivateKey: KeyObject,
+  ephemeralOrRecipient: KeyObject,
+  staticPrivateKey?: KeyObject,
+  staticPublicKey?: KeyObject
+): Buffer {
+  const ephemeralSecret = diffieHellman({ privateKey: ownPrivateKey, publicKey: ephemeralOrRecipient });
+  if (alg !== 'ECDH-1PU+A256KW') {
+    return ephemeralSecret;
+  }
+  return Buffer.concat([ephemeralSecret, diffieHellman({ privateKey: staticPrivateKey!, publicKey: staticPublicKey! })]);
+}
+
+/**
+ * Concat KDF (NIST SP 800-56A) with SHA-256, as specified for ECDH-ES in RFC 7518 section 4.6.2; for ECDH-1PU key
+ * wrapping, SuppPubInfo also carries the content encryption tag
+ */
+function concatKdf(sharedSecret: Buffer, algorithm: string, keyLength: number, apu?: string, apv?: string, tag?: Uint8Array): Buffer {
+  const lengthPrefixed = (bytes: Uint8Array) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(bytes.length);
+    return Buffer.concat([length, bytes]);
+  };
+  const keyDataLength = Buffer.alloc(4);
+  keyDataLength.writeUInt32BE(keyLength * 8);
+  const otherInfo = Buffer.concat([
+    lengthPrefixed(Buffer.from(algorithm, 'ascii')),
+    lengthPrefixed(apu ? base64urlDecode(apu) : new Uint8Array(0)),
+    lengthPrefixed(apv ? base64urlDecode(apv) : new Uint8Array(0)),
+    keyDataLength,
+    ...(tag ? [lengthPrefixed(tag)] : [])
+  ]);
+
+  const rounds = Math.ceil(keyLength / 32);
+  const output: Buffer[] = [];
+  for (let counter = 1; counter <= rounds; counter++) {
+    const round = Buffer.alloc(4);
+    round.writeUInt32BE(counter);
+    output.push(createHash('sha256').update(round).update(sharedSecret).update(otherInfo).digest());
+  }
+  return Buffer.concat(output).subarray(0, keyLength);
+}
+
+/**
+ * Encrypts content with AES-GCM or AES-CBC-HMAC-SHA2 (RFC 7518 section 5.2)
+ */
+function encryptContent(enc: string, contentKey: Buffer, plaintext: Uint8Array, aad: string): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+  const additionalData = Buffer.from(aad, 'ascii');
+  if (enc === 'A256CBC-HS512') {
+    const iv = randomBytes(16);
+    const cipher = createCipheriv('aes-256-cbc', contentKey.subarray(32), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, ciphertext, tag: cbcHmacTag(contentKey.subarray(0, 32), additionalData, iv, ciphertext) };
+  }
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(`aes-${contentKey.length * 8}-gcm` as 'aes-256-gcm', contentKey, iv);
+  cipher.setAAD(additionalData);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+/**
+ * Decrypts and authenticates content encrypted with AES-GCM or AES-CBC-HMAC-SHA2
+ * @throws Error - 'JWE decryption failed' when the tag does not verify
+ */
+function decryptContent(enc: string, contentKey: Buffer, encodedIv: string, encodedCiphertext: string, encodedTag: string, aad: string): Uint8Array {
+  const additionalData = Buffer.from(aad, 'ascii');
+  const iv = Buffer.from(base64urlDecode(encodedIv));
+  const ciphertext = Buffer.from(base64urlDecode(encodedCiphertext));
+  const tag = Buffer.from(base64urlDecode(encodedTag));
+  try {
+    if (enc === 'A256CBC-HS512') {
+      const expectedTag = cbcHmacTag(contentKey.subarray(0, 32), additionalData, iv, ciphertext);
+      if (tag.length !== expectedTag.length || !timingSafeEqual(tag, expectedTag)) {
+        throw new Error('Tag mismatch');
+      }
+      const decipher = createDecipheriv('aes-256-cbc', contentKey.subarray(32), iv);
+      return new Uint8Array(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+    }
+    const decipher = createDecipheriv(`aes-${contentKey.length * 8}-gcm` as 'aes-256-gcm', contentKey, iv);
+    decipher.setAAD(additionalData);
+    decipher.setAuthTag(tag);
+    return new Uint8Array(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+  } catch {
+    throw new Error('JWE decryption failed');
+  }
+}
+
+/**
+ * The A256CBC-HS512 authentication tag: the first half of HMAC-SHA-512 over AAD || IV || ciphertext || AL
+ */
+function cbcHmacTag(macKey: Buffer, aad: Buffer, iv: Buffer, ciphertext: Buffer): Buffer {
+  const aadBits = Buffer.alloc(8);
+  aadBits.writeBigUInt64BE(BigInt(aad.length) * 8n);
+  return createHmac('sha512', macKey).update(aad).update(iv).update(ciphertext).update(aadBits).digest().subarray(0, 32);
+}
+
+/**
+ * apv for multi-recipient JWEs: SHA-256 of the sorted recipient kids joined with "."
+ */
+function recipientsDigest(kids: string[]): string {
+  return base64urlEncode(createHash('sha256').update([...kids].sort().join('.')).digest());
+}
+
+function keyAgreementType(key: KeyObject): string {
+  if (key.asymmetricKeyType === 'x25519') {
+    return 'x25519';
+  }
+  if (key.asymmetricKeyType === 'ec') {
+    return `ec:${key.asymmetricKeyDetails?.namedCurve}`;
+  }
+  throw new Error(`Unsupported key agreement key type: ${key.asymmetricKeyType}`);
+}
+
+function decodeHeader(encodedHeader: string): Record<string, any> {
+  try {
+    return JSON.parse(Buffer.from(base64urlDecode(encodedHeader)).toString('utf8'));
+  } catch {
+    throw new Error('Malformed JWE protected header');
+  }
+}
@@ -1,8 +1,13 @@
 /**
- * JWS (JSON Web Signature) Data Integrity Suite (mock)
- * For W3C Verifiable Credentials (JWS Proofs)
+ * JWS (JSON Web Signature) Data Integrity Suite
+ * For W3C Verifiable Credentials secured with JsonWebSignature2020 (detached JWS proofs)
  */
 
+import { createVerifyData } from './data-integrity.ts';
+import { verifyDetachedJws } from './jws.ts';
+import { publicKeyFromVerificationMethod, resolveVerificationMethod } from './verification-method.ts';
+import { ProofVerificationOptions, SecuredDocument } from '../types/index.ts';
+
 export interface JwsProof {
   type: 'JsonWebSignature2020';
   created: string;
@@ -11,13 +16,41 @@ export interface JwsProof {
   jws: string; // JWS signature
 }
 
+// JWS algorithm for each key type (and curve) JsonWebSignature2020 supports
+const KEY_ALGORITHMS: Record<string, string> = {
+  ed25519: 'EdDSA',
+  prime256v1: 'ES256',
+  secp256k1: 'ES256K',
+  secp384r1: 'ES384'
+};
+
 export const jwsSuite = {
-  async verifyProof(proof: JwsProof): Promise<boolean> {
-    // In a real implementation, verify the JWS signature
-    console.log('--> Verifying JWS proof (mock)');
-    if (proof.type !== 'JsonWebSignature2020') return false;
-    if (!proof.jws) return false;
-    // ... JWS verification logic here ...
-    return true;
+  /**
+   * Verifies a JsonWebSignature2020 proof: a detached JWS over the canonicalized document and proof options,
+   * signed with the key of the resolved verification method
+   * @param document - The secured credential or presentation, including its proof
+   * @param options - DID resolver and document loader used during verification
+   * @returns Promise<boolean> - True if proof is valid, false otherwise
+   */
+  async verifyProof(document: SecuredDocument, options: ProofVerificationOptions = {}): Promise<boolean> {
+    const proof = document.proof as JwsProof;
+    console.log('--> Verifying JWS proof with JwsSuite...');
+    if (proof.type !== 'JsonWebSignature2020' || !proof.jws) {
+      console.log(`   Verification result: INVALID (not a JsonWebSignature2020 proof)`);
+      return false;
+    }
+
+    const verificationMethod = await resolveVerificationMethod(proof.verificationMethod, options.didResolver, options.proofPurpose ?? proof.proofPurpose);
+    const publicKey = publicKeyFromVerificationMethod(verificationMethod);
+    const alg = KEY_ALGORITHMS[publicKey.asymmetricKeyDetails?.namedCurve ?? publicKey.asymmetricKeyType ?? ''];
+    if (!alg) {
+      console.log(`   Verification result: INVALID (unsupported verification method key type)`);
+      return false;
+    }
+
+    const verifyData = await createVerifyData(document, { documentLoader: options.documentLoader });
+    const isValid = verifyDetachedJws(proof.jws, verifyData, publicKey, alg);
+    console.log(`   Verification result: ${isValid ? 'VALID' : 'INVALID'}`);
+    return isValid;
   }
-}; 
\ No newline at end of file
+};
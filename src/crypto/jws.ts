@@ -0,0 +1,138 @@
+/**
+ * JWS Helpers
+ * Signature creation and verification for the JOSE algorithms used by the crypto suites
+ */
+
+import { KeyObject, sign, verify } from 'crypto';
+import { base64urlDecode, base64urlEncode, concatBytes } from './encoding.ts';
+
+/**
+ * Node.js digest and signature encoding for each supported JWS algorithm
+ */
+const JWS_ALGORITHMS: Record<string, { digest: string | null; curve?: string; keyType: string }> = {
+  EdDSA: { digest: null, keyType: 'ed25519' },
+  ES256: { digest: 'sha256', curve: 'prime256v1', keyType: 'ec' },
+  ES256K: { digest: 'sha256', curve: 'secp256k1', keyType: 'ec' },
+  ES384: { digest: 'sha384', curve: 'secp384r1', keyType: 'ec' }
+};
+
+/**
+ * Verifies a raw JWS signature (IEEE P1363 encoding for ECDSA)
+ * @param alg - The JWS "alg" header value
+ * @param data - The signed bytes
+ * @param signature - The raw signature bytes
+ * @param publicKey - The public key to verify against
+ * @returns boolean - True if the signature is valid for the algorithm and key
+ */
+export function verifyJwsSignature(alg: string, data: Uint8Array, signature: Uint8Array, publicKey: KeyObject): boolean {
+  const algorithm = JWS_ALGORITHMS[alg];
+  if (!algorithm || publicKey.asymmetricKeyType !== algorithm.keyType) {
+    return false;
+  }
+  if (algorithm.curve && publicKey.asymmetricKeyDetails?.namedCurve !== algorithm.curve) {
+    return false;
+  }
+  if (algorithm.digest === null) {
+    return verify(null, data, publicKey, signature);
+  }
+  return verify(algorithm.digest, data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+}
+
+/**
+ * Verifies an RFC 7797 detached JWS ("b64": false), as used by the 2018/2019 Linked Data suites
+ * @param jws - The detached JWS (header..signature)
+ * @param payload - The unencoded payload (the verify data)
+ * @param publicKey - The public key to verify against
+ * @param expectedAlg - The algorithm the suite requires
+ * @returns boolean - True if the JWS is well formed and the signature is valid
+ */
+export function verifyDetachedJws(jws: string | undefined, payload: Uint8Array, publicKey: KeyObject, expectedAlg: string): boolean {
+  const [encodedHeader, detachedPayload, encodedSignature] = (jws || '').split('.');
+  if (!encodedHeader || detachedPayload !== '' || !encodedSignature) {
+    return false;
+  }
+
+  const header = JSON.parse(Buffer.from(base64urlDecode(encodedHeader)).toString('utf8'));
+  if (header.alg !== expectedAlg || header.b64 !== false || !header.crit?.includes('b64')) {
+    return false;
+  }
+
+  const signingInput = concatBytes(new TextEncoder().encode(`${encodedHeader}.`), payload);
+  return verifyJwsSignature(expectedAlg, signingInput, base64urlDecode(encodedSignature), publicKey);
+}
+
+/**
+ * A compact JWS split into its parts
+ */
+export interface DecodedJws {
+  header: Record<string, any>;
+  payload: any;
+  signingInput: Uint8Array;
+  signature: Uint8Array;
+}
+
+/**
+ * Decodes a compact JWS (header.payload.signature) with a JSON payload, without verifying it
+ * @param compact - The compact serialization
+ * @returns DecodedJws - The decoded header, payload and signature
+ */
+export function decodeJws(compact: string): DecodedJws {
+  const parts = typeof compact === 'string' ? compact.split('.') : [];
+  if (parts.length !== 3 || !parts[0] || !parts[1]) {
+    throw new Error('Malformed compact JWS');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  return {
+    header: JSON.parse(Buffer.from(base64urlDecode(encodedHeader)).toString('utf8')),
+    payload: JSON.parse(Buffer.from(base64urlDecode(encodedPayload)).toString('utf8')),
+    signingInput: new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+    signature: base64urlDecode(encodedSignature)
+  };
+}
+
+/**
+ * Verifies a decoded compact JWS with the algorithm named in its header ("none" is never accepted)
+ * @param jws - The decoded JWS
+ * @param publicKey - The public key to verify against
+ * @returns boolean - True if the signature is valid
+ */
+export function verifyJws(jws: DecodedJws, publicKey: KeyObject): boolean {
+  if (typeof jws.header.alg !== 'string' || jws.header.alg === 'none') {
+    return false;
+  }
+  return verifyJwsSignature(jws.header.alg, jws.signingInput, jws.signature, publicKey);
+}
+
+/**
+ * The JWS algorithm for a private or public key (EdDSA for Ed25519, ES256/ES256K/ES384 by EC curve)
+ * @param key - The key
+ * @returns string - The "alg" header value
+ * @throws Error - When the key type has no supported algorithm
+ */
+export function jwsAlgorithmForKey(key: KeyObject): string {
+  const alg = Object.keys(JWS_ALGORITHMS).find(name =>
+    JWS_ALGORITHMS[name].keyType === key.asymmetricKeyType &&
+    (!JWS_ALGORITHMS[name].curve || JWS_ALGORITHMS[name].curve === key.asymmetricKeyDetails?.namedCurve)
+  );
+  if (!alg) {
+    throw new Error(`Unsupported key type for JWS signing: ${key.asymmetricKeyType}`);
+  }
+  return alg;
+}
+
+/**
+ * Signs a JSON payload as a compact JWS with the algorithm of the private key
+ * @param header - Header parameters besides alg (e.g. typ, kid, x5c)
+ * @param payload - The JSON payload
+ * @param privateKey - The signing key
+ * @returns string - The compact JWS
+ */
+export function signJws(header: Record<string, any>, payload: any, privateKey: KeyObject): string {
+  const alg = jwsAlgorithmForKey(privateKey);
+  const signingInput = `${base64urlEncode(JSON.stringify({ alg, ...header }))}.${base64urlEncode(JSON.stringify(payload))}`;
+  const digest = JWS_ALGORITHMS[alg].digest;
+  const signature = digest === null
+    ? sign(null, Buffer.from(signingInput), privateKey)
+    : sign(digest, Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${base64urlEncode(signature)}`;
+}
@@ -0,0 +1,151 @@
+/**
+ * JWT-VC Crypto Suite
+ * Verifies VC Data Model JWT encodings: jwt_vc_json credentials and the jwt_vp_json presentations wrapping them
+ */
+
+import { decodeJws, DecodedJws, verifyJws } from './jws.ts';
+import { HolderBindingError, HolderKey } from './holder-binding.ts';
+import { publicKeyFromVerificationMethod, resolveJwtVerificationMethod } from './verification-method.ts';
+import { DidResolver, VerifiableCredential } from '../types/index.ts';
+
+export interface JwtVcVerificationOptions {
+  didResolver?: DidResolver;
+  clockSkew?: number; // Tolerated clock skew, in seconds (default 60)
+}
+
+export interface JwtVpVerificationOptions extends JwtVcVerificationOptions {
+  challenge?: string; // Expected VP JWT nonce
+  audience?: string; // Expected VP JWT aud
+}
+
+export interface JwtVpVerificationResult {
+  holder: string;
+  payload: Record<string, any>; // VP JWT claims
+  presentation: Record<string, any>; // The vp claim with JWT claims mapped to presentation properties
+  holderKey: HolderKey; // The key that signed the VP JWT, for checking credential subject binding
+  credentials: string[]; // The VC JWTs carried by the presentation, still to be verified with verifyCredential
+}
+
+const VC_V1_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+
+export const jwtVcSuite = {
+  /**
+   * Verifies a VC JWT and maps its registered claims onto the credential
+   * (iss -> issuer, sub -> credentialSubject.id, jti -> id, nbf/exp -> validity dates, cnf -> cnf)
+   * @param jwt - The compact VC JWT
+   * @param options - Key resolution and clock skew
+   * @returns Promise<VerifiableCredential> - The verified credential
+   * @throws Error - When the JWT is malformed, expired or its signature is invalid
+   */
+  async verifyCredential(jwt: string, options: JwtVcVerificationOptions = {}): Promise<VerifiableCredential> {
+    console.log('--> Verifying VC JWT');
+    const jws = decodeJws(jwt);
+    const { payload } = jws;
+    if (!payload.vc || typeof payload.vc !== 'object') {
+      throw new Error('VC JWT has no vc claim');
+    }
+    // Without iss, the key must belong to the issuer the vc claim names
+    const vcIssuer = typeof payload.vc.issuer === 'object' ? payload.vc.issuer?.id : payload.vc.issuer;
+    await verifySignature(jws, payload.iss ?? vcIssuer, options, 'VC JWT');
+    checkValidityWindow(payload, options.clockSkew ?? 60, 'VC JWT');
+
+    const credential: Record<string, any> = { ...payload.vc };
+    if (payload.iss) {
+      const issuerId = typeof credential.issuer === 'object' ? credential.issuer?.id : credential.issuer;
+      if (issuerId && issuerId !== payload.iss) {
+        throw new Error('VC JWT iss does not match the credential issuer');
+      }
+      credential.issuer = typeof credential.issuer === 'object' ? { ...credential.issuer, id: payload.iss } : payload.iss;
+    }
+    if (payload.sub) {
+      const subject = Array.isArray(credential.credentialSubject) ? credential.credentialSubject[0] : credential.credentialSubject;
+      if (subject?.id && subject.id !== payload.sub) {
+        throw new Error('VC JWT sub does not match the credential subject');
+      }
+      credential.credentialSubject = { ...subject, id: payload.sub };
+    }
+    if (payload.jti) {
+      credential.id = payload.jti;
+    }
+    if (payload.cnf) {
+      credential.cnf = payload.cnf;
+    }
+    const isV1 = Array.isArray(credential['@context']) && credential['@context'][0] === VC_V1_CONTEXT;
+    if (typeof payload.nbf === 'number') {
+      credential[isV1 ? 'issuanceDate' : 'validFrom'] = new Date(payload.nbf * 1000).toISOString();
+    }
+    if (typeof payload.exp === 'number') {
+      credential[isV1 ? 'expirationDate' : 'validUntil'] = new Date(payload.exp * 1000).toISOString();
+    }
+    console.log('   Verification result: VALID');
+    return credential as VerifiableCredential;
+  },
+
+  /**
+   * Verifies a VP JWT: the holder signature, nonce and aud
+   * The VC JWTs it wraps are returned encoded so each one can be verified independently
+   * @param jwt - The compact VP JWT
+   * @param options - Key resolution, expected nonce/audience and clock skew
+   * @returns Promise<JwtVpVerificationResult> - The holder and the wrapped VC JWTs
+   * @throws Error - When the presentation fails verification
+   */
+  async verifyPresentation(jwt: string, options: JwtVpVerificationOptions = {}): Promise<JwtVpVerificationResult> {
+    console.log('--> Verifying VP JWT');
+    const jws = decodeJws(jwt);
+    const { payload } = jws;
+    if (!payload.vp || typeof payload.vp !== 'object') {
+      throw new Error('VP JWT has no vp claim');
+    }
+    const holder = payload.iss ?? payload.vp.holder;
+    if (payload.iss && payload.vp.holder && payload.vp.holder !== payload.iss) {
+      throw new HolderBindingError('HOLDER_KEY_MISMATCH', 'VP JWT iss does not match the presentation holder');
+    }
+    const verificationMethod = await resolveJwtVerificationMethod(jws.header, holder, options.didResolver, 'authentication').catch(error => {
+      throw new HolderBindingError('HOLDER_KEY_MISMATCH', error instanceof Error ? error.message : 'VP JWT key is not controlled by the holder');
+    });
+    const holderKey: HolderKey = { kid: verificationMethod.id, publicKey: publicKeyFromVerificationMethod(verificationMethod) };
+    if (!verifyJws(jws, holderKey.publicKey!)) {
+      throw new HolderBindingError('PRESENTATION_PROOF_INVALID', 'VP JWT signature is invalid');
+    }
+    checkValidityWindow(payload, options.clockSkew ?? 60, 'VP JWT');
+
+    // The nonce and audience bind the presentation to this request, preventing replay
+    if (!options.challenge) {
+      throw new HolderBindingError('CHALLENGE_MISMATCH', 'VP JWT cannot be checked without a presentation request challenge');
+    }
+    if (payload.nonce !== options.challenge) {
+      throw new HolderBindingError('CHALLENGE_MISMATCH', 'VP JWT nonce does not match the request challenge');
+    }
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!payload.aud || (options.audience && !audiences.includes(options.audience))) {
+      throw new HolderBindingError('DOMAIN_MISMATCH', 'VP JWT aud does not match the expected audience');
+    }
+
+    const encodedCredentials = payload.vp.verifiableCredential ?? [];
+    const credentials: string[] = Array.isArray(encodedCredentials) ? encodedCredentials : [encodedCredentials];
+    if (credentials.some(credential => typeof credential !== 'string')) {
+      throw new Error('VP JWT credentials must be VC JWTs');
+    }
+
+    const presentation = { ...payload.vp, holder, verifiableCredential: credentials, ...(payload.jti && { id: payload.jti }) };
+    console.log(`   Verification result: VALID (${credentials.length} credentials)`);
+    return { holder, payload, presentation, holderKey, credentials };
+  }
+};
+
+async function verifySignature(jws: DecodedJws, iss: string | undefined, options: JwtVcVerificationOptions, label: string): Promise<void> {
+  const verificationMethod = await resolveJwtVerificationMethod(jws.header, iss, options.didResolver, 'assertionMethod');
+  if (!verifyJws(jws, publicKeyFromVerificationMethod(verificationMethod))) {
+    throw new Error(`${label} signature is invalid`);
+  }
+}
+
+function checkValidityWindow(payload: Record<string, any>, clockSkew: number, label: string): void {
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp === 'number' && payload.exp + clockSkew < now) {
+    throw new Error(`${label} has expired`);
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - clockSkew > now) {
+    throw new Error(`${label} is not yet valid`);
+  }
+}
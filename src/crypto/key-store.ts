@@ -0,0 +1,39 @@
+/**
+ * In-Memory Key Store
+ * Holds the private keys of the verifier's own verification methods (e.g. DIDComm key agreement and signing keys)
+ */
+
+import { KeyObject } from 'crypto';
+import { KeyStore } from '../types/index.ts';
+
+export class InMemoryKeyStore implements KeyStore {
+  private keys = new Map<string, Record<string, any>>();
+
+  /**
+   * @param keys - Private keys by verification method id (DID URL), as JWKs or key objects
+   */
+  constructor(keys: Record<string, Record<string, any> | KeyObject> = {}) {
+    for (const [kid, key] of Object.entries(keys)) {
+      this.addKey(kid, key);
+    }
+  }
+
+  /**
+   * Adds or replaces a private key
+   * @param kid - The verification method id (DID URL)
+   * @param key - The private key, as a JWK or key object
+   * @throws Error - When the key is not a private key
+   */
+  addKey(kid: string, key: Record<string, any> | KeyObject): void {
+    const jwk = key instanceof KeyObject ? key.export({ format: 'jwk' }) : key;
+    if (typeof jwk.d !== 'string') {
+      throw new Error(`Key ${kid} is not a private key`);
+    }
+    this.keys.set(kid, { ...jwk });
+  }
+
+  async getPrivateKey(kid: string): Promise<Record<string, any> | undefined> {
+    const jwk = this.keys.get(kid);
+    return jwk && { ...jwk };
+  }
+}
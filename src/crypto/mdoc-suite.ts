@@ -1,75 +1,290 @@
 /**
  * mDoc Crypto Suite for Mobile Driver's License Verification
- * Provides cryptographic verification logic for mDL device authentication
+ * Provides cryptographic verification logic for ISO 18013-5 issuer data authentication
+ * (MobileSecurityObject) and mdoc device authentication
  */
 
+import { createHash, diffieHellman, hkdfSync, KeyObject, timingSafeEqual, X509Certificate } from 'crypto';
+import { Tag } from 'cbor-x';
+import {
+  cborDecoder,
+  cborEncoder,
+  coseKeyToPublicKey,
+  decodeCoseMessage,
+  decodeEmbeddedCbor,
+  encodeEmbeddedCbor,
+  getX5Chain,
+  verifyCoseMac0,
+  verifyCoseSign1
+} from './cose.ts';
+import { concatBytes } from './encoding.ts';
+import { MdocTrustStore } from './mdoc-trust-store.ts';
+
+/**
+ * Inputs for mdoc device authentication of a single document
+ */
 export interface DeviceAuth {
-  deviceKey: string;
-  sessionTranscript: string;
-  authSignature: string;
+  docType: string;
+  deviceSigned: Map<string, any>; // The document's DeviceSigned structure
+  deviceKey: KeyObject; // From the MSO deviceKeyInfo
+  sessionTranscript: Uint8Array; // CBOR-encoded SessionTranscript
+  eReaderKey?: KeyObject; // Reader ephemeral private key, required to check a DeviceMac
 }
 
+/**
+ * Reader authentication from an ISO 18013-5 DocRequest
+ */
 export interface ReaderAuth {
-  readerCertificate: string;
-  readerSignature: string;
+  readerAuth: any; // COSE_Sign1 with a detached payload; its x5chain carries the reader certificate
+  itemsRequest: Tag; // ItemsRequestBytes (#6.24) the reader signed
 }
 
+/**
+ * Inputs of the ISO 18013-5 SessionTranscript
+ */
 export interface SessionData {
-  sessionId: string;
-  timestamp: string;
-  [key: string]: any;
+  deviceEngagementBytes?: Uint8Array | null; // CBOR-encoded DeviceEngagement (null when there is no engagement, e.g. OID4VP)
+  eReaderKeyBytes?: Uint8Array | null; // CBOR-encoded reader ephemeral COSE_Key
+  handover: any; // NFC/QR handover, or the protocol-specific handover structure
+}
+
+/**
+ * The verified issuer-signed part of an mdoc document
+ */
+export interface IssuerSignedResult {
+  docType: string;
+  claims: Record<string, Record<string, any>>; // Namespace -> data element identifier -> value
+  deviceKey: KeyObject;
+  certificate: X509Certificate; // Document signer certificate
+  certificateChain: X509Certificate[]; // x5chain as presented, leaf first
+  validityInfo: { signed: Date; validFrom: Date; validUntil: Date; expectedUpdate?: Date };
+  status?: Record<string, any>; // MSO status, e.g. { status_list: { idx, uri } }
 }
 
+export interface IssuerSignedVerificationOptions {
+  now?: Date;
+  clockSkew?: number; // Tolerated clock skew, in seconds (default 60)
+}
+
+// MSO digest algorithm names mapped to Node.js hash names
+const MSO_DIGEST_ALGORITHMS: Record<string, string> = {
+  'SHA-256': 'sha256',
+  'SHA-384': 'sha384',
+  'SHA-512': 'sha512'
+};
+
 export const mdocDeviceAuthSuite = {
   /**
-   * Verifies mDL device authentication
-   * @param deviceAuth - The device authentication object from mDL
+   * Verifies an mdoc's IssuerSigned structure: the MSO signature by the document signer,
+   * the value digest of every IssuerSignedItem and the MSO validityInfo
+   * @param docType - The document's docType
+   * @param issuerSigned - The document's IssuerSigned structure
+   * @param options - Verification time and clock skew
+   * @returns Promise<IssuerSignedResult> - The verified claims, device key and document signer
+   * @throws Error - When any check fails
+   */
+  verifyIssuerSigned: async (docType: string, issuerSigned: Map<string, any>, options: IssuerSignedVerificationOptions = {}): Promise<IssuerSignedResult> => {
+    console.log("--> Verifying mDL issuer data authentication with MdocDeviceAuthSuite...");
+    console.log(`   DocType: ${docType}`);
+    if (!(issuerSigned instanceof Map)) {
+      throw new Error('Malformed IssuerSigned structure');
+    }
+
+    // 1. MSO signature by the document signer certificate
+    const issuerAuth = decodeCoseMessage(issuerSigned.get('issuerAuth'));
+    const certificateChain = getX5Chain(issuerAuth);
+    if (certificateChain.length === 0) {
+      throw new Error('issuerAuth has no document signer certificate (x5chain)');
+    }
+    const certificate = certificateChain[0];
+    if (!verifyCoseSign1(issuerAuth, certificate.publicKey)) {
+      throw new Error('MSO signature is invalid');
+    }
+    const mso = decodeEmbeddedCbor(cborDecoder.decode(issuerAuth.payload!)).value;
+    if (!(mso instanceof Map)) {
+      throw new Error('Malformed MobileSecurityObject');
+    }
+    if (mso.get('docType') !== docType) {
+      throw new Error(`MSO docType ${mso.get('docType')} does not match document docType ${docType}`);
+    }
+
+    // 2. Value digests of the disclosed data elements
+    const digestAlgorithm = MSO_DIGEST_ALGORITHMS[mso.get('digestAlgorithm')];
+    if (!digestAlgorithm) {
+      throw new Error(`Unsupported MSO digestAlgorithm: ${mso.get('digestAlgorithm')}`);
+    }
+    const valueDigests: Map<string, Map<number, Uint8Array>> = mso.get('valueDigests');
+    const claims: Record<string, Record<string, any>> = {};
+    for (const [namespace, items] of issuerSigned.get('nameSpaces') || new Map()) {
+      claims[namespace] = {};
+      for (const taggedItem of items) {
+        const { bytes, value: item } = decodeEmbeddedCbor(taggedItem);
+        const expectedDigest = valueDigests?.get(namespace)?.get(item.get('digestID'));
+        const digest = createHash(digestAlgorithm).update(encodeEmbeddedCbor(bytes)).digest();
+        if (!expectedDigest || expectedDigest.length !== digest.length || !timingSafeEqual(digest, expectedDigest)) {
+          throw new Error(`Value digest mismatch for ${namespace}/${item.get('elementIdentifier')}`);
+        }
+        claims[namespace][item.get('elementIdentifier')] = toClaimValue(item.get('elementValue'));
+      }
+    }
+
+    // 3. MSO validity
+    const validityInfo = mso.get('validityInfo');
+    const signed = toDate(validityInfo?.get('signed'));
+    const validFrom = toDate(validityInfo?.get('validFrom'));
+    const validUntil = toDate(validityInfo?.get('validUntil'));
+    if (!signed || !validFrom || !validUntil) {
+      throw new Error('MSO validityInfo is missing signed, validFrom or validUntil');
+    }
+    const now = (options.now ?? new Date()).getTime();
+    const clockSkew = (options.clockSkew ?? 60) * 1000;
+    if (validFrom.getTime() - clockSkew > now) {
+      throw new Error('MSO is not yet valid');
+    }
+    if (validUntil.getTime() + clockSkew < now) {
+      throw new Error('MSO has expired');
+    }
+
+    const deviceKey = coseKeyToPublicKey(mso.get('deviceKeyInfo')?.get('deviceKey'));
+    console.log(`   Document signer: ${certificate.subject.replace(/\n/g, ', ')}`);
+    console.log(`   Verification result: VALID (${Object.values(claims).reduce((count, elements) => count + Object.keys(elements).length, 0)} data elements)`);
+    return {
+      docType,
+      claims,
+      deviceKey,
+      certificate,
+      certificateChain,
+      validityInfo: { signed, validFrom, validUntil, expectedUpdate: toDate(validityInfo.get('expectedUpdate')) },
+      status: mso.has('status') ? toClaimValue(mso.get('status')) : undefined
+    };
+  },
+
+  /**
+   * Verifies mDL device authentication (DeviceSignature or DeviceMac over DeviceAuthentication)
+   * @param deviceAuth - The device signed data, device key and session transcript
    * @returns Promise<boolean> - True if device auth is valid, false otherwise
    */
   verifyDeviceAuth: async (deviceAuth: DeviceAuth): Promise<boolean> => {
     console.log("--> Verifying mDL proof with MdocDeviceAuthSuite...");
-    console.log(`   Device key: ${deviceAuth.deviceKey}`);
-    console.log(`   Session transcript: ${deviceAuth.sessionTranscript}`);
-    console.log(`   Auth signature: ${deviceAuth.authSignature}`);
-    
-    // In a real implementation, this would:
-    // 1. Verify the device key certificate chain
-    // 2. Reconstruct the session transcript
-    // 3. Verify the authentication signature
-    // 4. Check certificate validity and revocation status
-    
-    // For this example, we'll simulate verification
-    const isValid = !!(deviceAuth.deviceKey && deviceAuth.authSignature);
+    const deviceNameSpaces = deviceAuth.deviceSigned?.get('nameSpaces');
+    const deviceAuthentication = deviceAuth.deviceSigned?.get('deviceAuth');
+    if (!(deviceNameSpaces instanceof Tag) || !(deviceAuthentication instanceof Map)) {
+      console.log("   Verification result: INVALID (malformed DeviceSigned)");
+      return false;
+    }
+
+    // DeviceAuthentication = ["DeviceAuthentication", SessionTranscript, DocType, DeviceNameSpacesBytes],
+    // assembled from the transcript bytes so the verifier's own encoding is what gets checked
+    const deviceAuthenticationBytes = encodeEmbeddedCbor(concatBytes(
+      new Uint8Array([0x84]),
+      cborEncoder.encode('DeviceAuthentication'),
+      deviceAuth.sessionTranscript,
+      cborEncoder.encode(deviceAuth.docType),
+      cborEncoder.encode(deviceNameSpaces)
+    ));
+
+    let isValid = false;
+    if (deviceAuthentication.has('deviceSignature')) {
+      console.log("   Device authentication: DeviceSignature");
+      const deviceSignature = decodeCoseMessage(deviceAuthentication.get('deviceSignature'));
+      isValid = deviceSignature.payload === null &&
+        verifyCoseSign1(deviceSignature, deviceAuth.deviceKey, deviceAuthenticationBytes);
+    } else if (deviceAuthentication.has('deviceMac')) {
+      console.log("   Device authentication: DeviceMac");
+      if (!deviceAuth.eReaderKey) {
+        console.log("   Verification result: INVALID (DeviceMac requires the reader ephemeral key)");
+        return false;
+      }
+      // EMacKey = HKDF-SHA256(ECDH(EReaderKey, SDeviceKey), salt = SHA-256(SessionTranscriptBytes), info = "EMacKey")
+      const sharedSecret = diffieHellman({ privateKey: deviceAuth.eReaderKey, publicKey: deviceAuth.deviceKey });
+      const salt = createHash('sha256').update(encodeEmbeddedCbor(deviceAuth.sessionTranscript)).digest();
+      const eMacKey = new Uint8Array(hkdfSync('sha256', sharedSecret, salt, 'EMacKey', 32));
+      const deviceMac = decodeCoseMessage(deviceAuthentication.get('deviceMac'));
+      isValid = deviceMac.payload === null && verifyCoseMac0(deviceMac, eMacKey, deviceAuthenticationBytes);
+    }
     console.log(`   Verification result: ${isValid ? 'VALID' : 'INVALID'}`);
-    
+
     return isValid;
   },
 
   /**
-   * Verifies mDL reader authentication
+   * Verifies mDL reader authentication (ReaderAuth over ReaderAuthentication) and the reader certificate path
    * @param readerAuth - The reader authentication object
+   * @param sessionTranscript - CBOR-encoded SessionTranscript of the session
+   * @param trustStore - Trust store holding the reader CA roots
    * @returns Promise<boolean> - True if reader auth is valid, false otherwise
    */
-  verifyReaderAuth: async (readerAuth: ReaderAuth): Promise<boolean> => {
+  verifyReaderAuth: async (readerAuth: ReaderAuth, sessionTranscript: Uint8Array, trustStore?: MdocTrustStore): Promise<boolean> => {
     console.log("--> Verifying mDL reader authentication...");
-    console.log(`   Reader certificate: ${readerAuth.readerCertificate}`);
-    console.log(`   Reader signature: ${readerAuth.readerSignature}`);
-    
-    // In a real implementation, this would verify the reader certificate
-    const isValid = !!(readerAuth.readerCertificate && readerAuth.readerSignature);
-    console.log(`   Reader auth result: ${isValid ? 'VALID' : 'INVALID'}`);
-    
-    return isValid;
+    if (!trustStore) {
+      console.log("   Reader auth result: INVALID (no reader CA trust store configured)");
+      return false;
+    }
+    if (!(readerAuth?.itemsRequest instanceof Tag)) {
+      console.log("   Reader auth result: INVALID (malformed ItemsRequestBytes)");
+      return false;
+    }
+
+    const coseSign1 = decodeCoseMessage(readerAuth.readerAuth);
+    const certificateChain = getX5Chain(coseSign1);
+    if (certificateChain.length === 0) {
+      console.log("   Reader auth result: INVALID (no reader certificate)");
+      return false;
+    }
+    console.log(`   Reader certificate: ${certificateChain[0].subject.replace(/\n/g, ', ')}`);
+
+    // ReaderAuthentication = ["ReaderAuthentication", SessionTranscript, ItemsRequestBytes]
+    const readerAuthenticationBytes = encodeEmbeddedCbor(concatBytes(
+      new Uint8Array([0x83]),
+      cborEncoder.encode('ReaderAuthentication'),
+      sessionTranscript,
+      cborEncoder.encode(readerAuth.itemsRequest)
+    ));
+    if (coseSign1.payload !== null || !verifyCoseSign1(coseSign1, certificateChain[0].publicKey, readerAuthenticationBytes)) {
+      console.log("   Reader auth result: INVALID (signature)");
+      return false;
+    }
+
+    try {
+      await trustStore.validateReaderCertificate(certificateChain);
+    } catch (error) {
+      console.log(`   Reader auth result: INVALID (${error instanceof Error ? error.message : 'untrusted reader certificate'})`);
+      return false;
+    }
+    console.log("   Reader auth result: VALID");
+
+    return true;
   },
 
   /**
    * Generates a session transcript for mDL communication
    * @param sessionData - Session initialization data
-   * @returns Promise<string> - Session transcript hash
+   * @returns Promise<Uint8Array> - CBOR-encoded SessionTranscript [DeviceEngagementBytes, EReaderKeyBytes, Handover]
    */
-  generateSessionTranscript: async (sessionData: SessionData): Promise<string> => {
+  generateSessionTranscript: async (sessionData: SessionData): Promise<Uint8Array> => {
     console.log("--> Generating mDL session transcript...");
-    // In a real implementation, this would hash the session data
-    return "session-transcript-hash";
+    return cborEncoder.encode([
+      sessionData.deviceEngagementBytes ? new Tag(sessionData.deviceEngagementBytes, 24) : null,
+      sessionData.eReaderKeyBytes ? new Tag(sessionData.eReaderKeyBytes, 24) : null,
+      sessionData.handover
+    ]);
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Converts tdate/full-date values to strings so claims are plain JSON-like values
+ */
+function toClaimValue(value: any): any {
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Tag && (value.tag === 0 || value.tag === 1004)) return value.value;
+  if (value instanceof Map) return Object.fromEntries([...value].map(([key, item]) => [key, toClaimValue(item)]));
+  if (Array.isArray(value)) return value.map(toClaimValue);
+  return value;
+}
+
+function toDate(value: any): Date | undefined {
+  if (value instanceof Date) return value;
+  if (value instanceof Tag && value.tag === 0) return new Date(value.value);
+  if (typeof value === 'string') return new Date(value);
+  return undefined;
+}
@@ -0,0 +1,267 @@
+/**
+ * mdoc Trust Store
+ * IACA trust anchors for mdoc issuers and reader CA roots for mdoc reader authentication,
+ * with X.509 certificate path validation per the ISO 18013-5 certificate profiles
+ */
+
+import 'reflect-metadata';
+import { webcrypto, X509Certificate as NodeX509Certificate } from 'crypto';
+import { readFile } from 'fs/promises';
+import * as x509 from '@peculiar/x509';
+
+// Extended key usages from ISO 18013-5 Annex B
+export const MDL_DOCUMENT_SIGNER_EKU = '1.0.18013.5.1.2';
+export const MDL_READER_AUTH_EKU = '1.0.18013.5.1.6';
+
+// Upper bound on intermediate certificates, to stop runaway chains
+const MAX_PATH_LENGTH = 5;
+
+const crypto = webcrypto as unknown as Crypto;
+
+/**
+ * A certificate or CRL as PEM text, or DER bytes
+ */
+export type X509Input = string | Uint8Array;
+
+export interface TrustAnchor {
+  certificate: x509.X509Certificate;
+  docTypes?: string[]; // DocTypes this IACA may issue; all docTypes when omitted
+}
+
+/**
+ * A VICAL-like list of issuing authority certificates (the decoded content of an ISO 18013-5 VICAL)
+ */
+export interface Vical {
+  vicalProvider?: string;
+  date?: string;
+  certificateInfos: {
+    certificate: X509Input;
+    docType?: string[];
+    issuingAuthority?: string;
+  }[];
+}
+
+export interface MdocTrustStoreOptions {
+  iacaCertificates?: X509Input[]; // Trust anchors for mdoc document signers
+  readerCaCertificates?: X509Input[]; // Trust anchors for mdoc reader authentication
+  crls?: X509Input[]; // Locally supplied CRLs, checked for every certificate on a path
+}
+
+export interface CertificatePathValidationOptions {
+  now?: Date;
+  docType?: string; // Checked against the IACA's docTypes when validating a document signer
+}
+
+export interface CertificatePathValidationResult {
+  anchor: x509.X509Certificate;
+  path: x509.X509Certificate[]; // Leaf first, without the anchor
+}
+
+export class MdocTrustStore {
+  private iacaAnchors: TrustAnchor[] = [];
+  private readerCaAnchors: TrustAnchor[] = [];
+  private crls: x509.X509Crl[] = [];
+
+  constructor(options: MdocTrustStoreOptions = {}) {
+    for (const certificate of options.iacaCertificates || []) this.addIacaCertificate(certificate);
+    for (const certificate of options.readerCaCertificates || []) this.addReaderCaCertificate(certificate);
+    for (const crl of options.crls || []) this.addCrl(crl);
+  }
+
+  /**
+   * Loads a trust store from PEM files; each file may hold several certificates or CRLs
+   * @param files - Paths of the IACA, reader CA and CRL files
+   * @returns Promise<MdocTrustStore> - The loaded trust store
+   */
+  static async fromPemFiles(files: { iaca?: string[]; readerCa?: string[]; crls?: string[] }): Promise<MdocTrustStore> {
+    const load = async (paths: string[] = []) =>
+      (await Promise.all(paths.map(path => readFile(path, 'utf8')))).flatMap(splitPem);
+    return new MdocTrustStore({
+      iacaCertificates: await load(files.iaca),
+      readerCaCertificates: await load(files.readerCa),
+      crls: await load(files.crls)
+    });
+  }
+
+  /**
+   * Creates a trust store from a VICAL-like list of IACA certificates
+   * @param vical - The issuing authority certificates, optionally scoped to docTypes
+   * @param options - Additional reader CA certificates and CRLs
+   * @returns MdocTrustStore - The trust store
+   */
+  static fromVical(vical: Vical, options: Omit<MdocTrustStoreOptions, 'iacaCertificates'> = {}): MdocTrustStore {
+    const trustStore = new MdocTrustStore(options);
+    for (const info of vical.certificateInfos || []) {
+      trustStore.addIacaCertificate(info.certificate, info.docType);
+    }
+    return trustStore;
+  }
+
+  addIacaCertificate(certificate: X509Input, docTypes?: string[]): void {
+    this.iacaAnchors.push({ certificate: toCertificate(certificate), docTypes });
+  }
+
+  addReaderCaCertificate(certificate: X509Input): void {
+    this.readerCaAnchors.push({ certificate: toCertificate(certificate) });
+  }
+
+  addCrl(crl: X509Input): void {
+    this.crls.push(new x509.X509Crl(typeof crl === 'string' ? crl : toArrayBuffer(crl)));
+  }
+
+  /**
+   * Validates a document signer certificate chain (x5chain of the MSO) up to a trusted IACA
+   * @param chain - The presented chain, leaf (document signer) first
+   * @param options - Validation time and the document's docType
+   * @returns Promise<CertificatePathValidationResult> - The trust anchor and the validated path
+   * @throws Error - When the path cannot be validated
+   */
+  async validateDocumentSigner(chain: (NodeX509Certificate | X509Input)[], options: CertificatePathValidationOptions = {}): Promise<CertificatePathValidationResult> {
+    console.log("--> Validating mDL document signer certificate path...");
+    const result = await this.validatePath(chain, this.iacaAnchors, MDL_DOCUMENT_SIGNER_EKU, options);
+    console.log(`   Trusted IACA: ${result.anchor.subject}`);
+    return result;
+  }
+
+  /**
+   * Validates an mdoc reader authentication certificate chain up to a trusted reader CA
+   * @param chain - The presented chain, leaf (reader certificate) first
+   * @param options - Validation time
+   * @returns Promise<CertificatePathValidationResult> - The trust anchor and the validated path
+   * @throws Error - When the path cannot be validated
+   */
+  async validateReaderCertificate(chain: (NodeX509Certificate | X509Input)[], options: CertificatePathValidationOptions = {}): Promise<CertificatePathValidationResult> {
+    console.log("--> Validating mDL reader certificate path...");
+    const result = await this.validatePath(chain, this.readerCaAnchors, MDL_READER_AUTH_EKU, { now: options.now });
+    console.log(`   Trusted reader CA: ${result.anchor.subject}`);
+    return result;
+  }
+
+  private async validatePath(
+    chain: (NodeX509Certificate | X509Input)[],
+    anchors: TrustAnchor[],
+    extendedKeyUsage: string,
+    options: CertificatePathValidationOptions
+  ): Promise<CertificatePathValidationResult> {
+    if (anchors.length === 0) {
+      throw new Error('No trust anchors configured');
+    }
+    const presented = chain.map(certificate => toCertificate(certificate instanceof NodeX509Certificate ? certificate.raw : certificate));
+    if (presented.length === 0) {
+      throw new Error('Certificate chain is empty');
+    }
+    const now = options.now ?? new Date();
+    const [leaf, ...intermediates] = presented;
+    checkEndEntityProfile(leaf, extendedKeyUsage);
+
+    const path = [leaf];
+    let current = leaf;
+    while (path.length <= MAX_PATH_LENGTH) {
+      checkValidityPeriod(current, now);
+
+      const anchor = await findIssuer(current, anchors.map(({ certificate }) => certificate));
+      if (anchor) {
+        checkValidityPeriod(anchor, now);
+        checkCaProfile(anchor, path.length - 1);
+        await this.checkRevocation(current, anchor, now);
+        const { docTypes } = anchors.find(({ certificate }) => certificate === anchor)!;
+        if (docTypes && options.docType && !docTypes.includes(options.docType)) {
+          throw new Error(`Trust anchor ${anchor.subject} is not authorized for docType ${options.docType}`);
+        }
+        return { anchor, path };
+      }
+
+      const issuer = await findIssuer(current, intermediates.filter(certificate => !path.includes(certificate)));
+      if (!issuer) {
+        throw new Error(`Certificate ${current.subject} does not chain to a trusted anchor`);
+      }
+      checkCaProfile(issuer, path.length - 1);
+      await this.checkRevocation(current, issuer, now);
+      path.push(issuer);
+      current = issuer;
+    }
+    throw new Error('Certificate chain is too long');
+  }
+
+  /**
+   * Rejects certificates listed on a CRL from their issuer; CRLs must be signed by the issuer and current
+   */
+  private async checkRevocation(certificate: x509.X509Certificate, issuer: x509.X509Certificate, now: Date): Promise<void> {
+    for (const crl of this.crls.filter(crl => crl.issuer === issuer.subject)) {
+      if (!await crl.verify({ publicKey: issuer.publicKey }, crypto)) {
+        throw new Error(`CRL signature from ${crl.issuer} is invalid`);
+      }
+      if (crl.nextUpdate && crl.nextUpdate < now) {
+        throw new Error(`CRL from ${crl.issuer} has expired`);
+      }
+      if (crl.findRevoked(certificate)) {
+        throw new Error(`Certificate ${certificate.subject} has been revoked`);
+      }
+    }
+  }
+}
+
+async function findIssuer(certificate: x509.X509Certificate, candidates: x509.X509Certificate[]): Promise<x509.X509Certificate | undefined> {
+  for (const candidate of candidates) {
+    if (candidate.subject === certificate.issuer &&
+        await certificate.verify({ publicKey: candidate.publicKey, signatureOnly: true }, crypto)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+function checkValidityPeriod(certificate: x509.X509Certificate, now: Date): void {
+  if (now < certificate.notBefore || now > certificate.notAfter) {
+    throw new Error(`Certificate ${certificate.subject} is not valid at ${now.toISOString()}`);
+  }
+}
+
+/**
+ * Document signer and reader certificates: digitalSignature key usage, the ISO 18013-5 EKU, not a CA
+ */
+function checkEndEntityProfile(certificate: x509.X509Certificate, extendedKeyUsage: string): void {
+  const keyUsage = certificate.getExtension(x509.KeyUsagesExtension);
+  if (!keyUsage || !(keyUsage.usages & x509.KeyUsageFlags.digitalSignature)) {
+    throw new Error(`Certificate ${certificate.subject} lacks the digitalSignature key usage`);
+  }
+  const extendedKeyUsages = certificate.getExtension(x509.ExtendedKeyUsageExtension);
+  if (!extendedKeyUsages?.usages.includes(extendedKeyUsage)) {
+    throw new Error(`Certificate ${certificate.subject} lacks the extended key usage ${extendedKeyUsage}`);
+  }
+  if (certificate.getExtension(x509.BasicConstraintsExtension)?.ca) {
+    throw new Error(`Certificate ${certificate.subject} is a CA certificate, not an end-entity certificate`);
+  }
+}
+
+/**
+ * IACA, reader CA and intermediate certificates: CA basic constraints honouring pathLen, keyCertSign key usage
+ */
+function checkCaProfile(certificate: x509.X509Certificate, intermediatesBelow: number): void {
+  const basicConstraints = certificate.getExtension(x509.BasicConstraintsExtension);
+  if (!basicConstraints?.ca) {
+    throw new Error(`Certificate ${certificate.subject} is not a CA certificate`);
+  }
+  if (basicConstraints.pathLength !== undefined && intermediatesBelow > basicConstraints.pathLength) {
+    throw new Error(`Certificate ${certificate.subject} path length constraint exceeded`);
+  }
+  const keyUsage = certificate.getExtension(x509.KeyUsagesExtension);
+  if (!keyUsage || !(keyUsage.usages & x509.KeyUsageFlags.keyCertSign)) {
+    throw new Error(`Certificate ${certificate.subject} lacks the keyCertSign key usage`);
+  }
+}
+
+function toCertificate(certificate: X509Input): x509.X509Certificate {
+  return new x509.X509Certificate(typeof certificate === 'string' ? certificate : toArrayBuffer(certificate));
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Splits a PEM file into its individual PEM blocks
+ */
+function splitPem(text: string): string[] {
+  return text.match(/-----BEGIN [A-Z0-9 ]+-----[\s\S]+?-----END [A-Z0-9 ]+-----/g) || [];
+}
@@ -0,0 +1,262 @@
+/**
+ * SD-JWT VC Crypto Suite
+ * Verifies Selective Disclosure JWTs: issuer signature, disclosure digests and the Key Binding JWT
+ */
+
+import { createHash, createPublicKey } from 'crypto';
+import { base64urlDecode, base64urlEncode } from './encoding.ts';
+import { decodeJws, verifyJws } from './jws.ts';
+import { HolderBindingError } from './holder-binding.ts';
+import { publicKeyFromVerificationMethod, resolveJwtVerificationMethod } from './verification-method.ts';
+import { DidResolver } from '../types/index.ts';
+
+export interface SdJwtVerificationOptions {
+  didResolver?: DidResolver;
+  challenge?: string; // Expected Key Binding JWT nonce
+  audience?: string; // Expected Key Binding JWT aud
+  requireKeyBinding?: boolean; // Reject SD-JWTs presented without a Key Binding JWT (default true)
+  keyBindingMaxAge?: number; // Maximum age of the Key Binding JWT iat, in seconds (default 300)
+  clockSkew?: number; // Tolerated clock skew, in seconds (default 60)
+}
+
+export interface SdJwtVerificationResult {
+  header: Record<string, any>;
+  payload: Record<string, any>; // Issuer-signed payload with disclosures applied
+  claims: Record<string, any>; // Disclosed and always-visible claims, without JWT/SD-JWT registered claims
+  disclosedPaths: (string | number)[][]; // Paths in the payload of the claims and array elements the disclosures revealed
+  keyBinding?: Record<string, any>; // Key Binding JWT payload, when present
+}
+
+// Hash algorithm names from the IANA "Named Information Hash Algorithm" registry
+const SD_HASH_ALGORITHMS: Record<string, string> = {
+  'sha-256': 'sha256',
+  'sha-384': 'sha384',
+  'sha-512': 'sha512'
+};
+
+// Media types accepted in the issuer-signed JWT "typ" header
+const ISSUER_JWT_TYPES = ['dc+sd-jwt', 'vc+sd-jwt'];
+
+// Registered claims that describe the credential rather than its subject
+const NON_SUBJECT_CLAIMS = ['iss', 'iat', 'nbf', 'exp', 'cnf', 'vct', 'vct#integrity', 'status', '_sd_alg'];
+
+interface Disclosure {
+  digest: string;
+  salt: string;
+  name?: string; // Absent for array element disclosures
+  value: any;
+}
+
+export const sdJwtSuite = {
+  /**
+   * Verifies a compact SD-JWT presentation (<issuer-jwt>~<disclosure>~...~<kb-jwt>)
+   * @param sdJwt - The SD-JWT presentation
+   * @param options - Key resolution and key binding expectations
+   * @returns Promise<SdJwtVerificationResult> - The verified, disclosed claims
+   * @throws Error - When any part of the SD-JWT fails verification
+   */
+  async verifyPresentation(sdJwt: string, options: SdJwtVerificationOptions = {}): Promise<SdJwtVerificationResult> {
+    console.log('--> Verifying SD-JWT presentation');
+    const parts = sdJwt.split('~');
+    if (parts.length < 2) {
+      throw new Error('SD-JWT must contain at least the issuer-signed JWT followed by ~');
+    }
+    const issuerJwt = parts[0];
+    const encodedDisclosures = parts.slice(1, -1);
+    const keyBindingJwt = parts[parts.length - 1] || undefined;
+
+    // 1. Issuer-signed JWT
+    const issuerJws = decodeJws(issuerJwt);
+    if (!ISSUER_JWT_TYPES.includes(issuerJws.header.typ)) {
+      throw new Error(`Unexpected SD-JWT typ: ${issuerJws.header.typ ?? 'none'} (expected ${ISSUER_JWT_TYPES.join(' or ')})`);
+    }
+    const issuerKey = publicKeyFromVerificationMethod(
+      await resolveJwtVerificationMethod(issuerJws.header, issuerJws.payload.iss, options.didResolver, 'assertionMethod')
+    );
+    if (!verifyJws(issuerJws, issuerKey)) {
+      throw new Error('SD-JWT issuer signature is invalid');
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const clockSkew = options.clockSkew ?? 60;
+    checkValidityWindow(issuerJws.payload, now, clockSkew);
+
+    // 2. Disclosures
+    const sdAlg = issuerJws.payload._sd_alg || 'sha-256';
+    const hashAlgorithm = SD_HASH_ALGORITHMS[sdAlg];
+    if (!hashAlgorithm) {
+      throw new Error(`Unsupported _sd_alg: ${sdAlg}`);
+    }
+    const disclosures = new Map<string, Disclosure>();
+    for (const encoded of encodedDisclosures) {
+      const disclosure = parseDisclosure(encoded, hashAlgorithm);
+      if (disclosures.has(disclosure.digest)) {
+        throw new Error('SD-JWT contains a duplicate disclosure');
+      }
+      disclosures.set(disclosure.digest, disclosure);
+    }
+    const usedDigests = new Set<string>();
+    const disclosedPaths: (string | number)[][] = [];
+    const payload = applyDisclosures(issuerJws.payload, disclosures, usedDigests, [], disclosedPaths);
+    if (usedDigests.size !== disclosures.size) {
+      throw new Error('SD-JWT contains a disclosure that is not referenced by any digest');
+    }
+
+    // 3. Key Binding JWT
+    let keyBinding: Record<string, any> | undefined;
+    if (keyBindingJwt) {
+      const presentedSdJwt = sdJwt.slice(0, sdJwt.length - keyBindingJwt.length);
+      keyBinding = verifyKeyBinding(keyBindingJwt, presentedSdJwt, payload, hashAlgorithm, now, clockSkew, options);
+    } else if (options.requireKeyBinding ?? true) {
+      throw new HolderBindingError('PRESENTATION_PROOF_MISSING', 'SD-JWT presentation is missing the Key Binding JWT');
+    }
+
+    const claims = Object.fromEntries(Object.entries(payload).filter(([name]) => !NON_SUBJECT_CLAIMS.includes(name)));
+    console.log(`   Verification result: VALID (${disclosures.size} disclosures)`);
+    return { header: issuerJws.header, payload, claims, disclosedPaths, keyBinding };
+  }
+};
+
+function checkValidityWindow(payload: Record<string, any>, now: number, clockSkew: number): void {
+  if (typeof payload.exp === 'number' && payload.exp + clockSkew < now) {
+    throw new Error('SD-JWT has expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - clockSkew > now) {
+    throw new Error('SD-JWT is not yet valid');
+  }
+}
+
+/**
+ * Decodes a disclosure and computes its digest over the base64url string as presented
+ */
+function parseDisclosure(encoded: string, hashAlgorithm: string): Disclosure {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(base64urlDecode(encoded)).toString('utf8'));
+  } catch {
+    throw new Error('SD-JWT disclosure is not valid base64url encoded JSON');
+  }
+  if (!Array.isArray(decoded) || (decoded.length !== 2 && decoded.length !== 3) || typeof decoded[0] !== 'string') {
+    throw new Error('SD-JWT disclosure must be a [salt, value] or [salt, name, value] array');
+  }
+  const digest = base64urlEncode(createHash(hashAlgorithm).update(encoded, 'ascii').digest());
+  if (decoded.length === 3) {
+    const [salt, name, value] = decoded;
+    if (typeof name !== 'string' || name === '_sd' || name === '...') {
+      throw new Error('SD-JWT disclosure has an invalid claim name');
+    }
+    return { digest, salt, name, value };
+  }
+  return { digest, salt: decoded[0], value: decoded[1] };
+}
+
+/**
+ * Replaces _sd digests (objects) and {"...": digest} entries (arrays) with their disclosed values,
+ * recursively, dropping digests that were not disclosed. The path of each disclosed value is added to disclosedPaths
+ */
+function applyDisclosures(
+  value: any, disclosures: Map<string, Disclosure>, usedDigests: Set<string>, path: (string | number)[], disclosedPaths: (string | number)[][]
+): any {
+  if (Array.isArray(value)) {
+    const result: any[] = [];
+    for (const element of value) {
+      const isDigestElement = element && typeof element === 'object' && !Array.isArray(element) &&
+        Object.keys(element).length === 1 && '...' in element;
+      if (!isDigestElement) {
+        result.push(applyDisclosures(element, disclosures, usedDigests, [...path, result.length], disclosedPaths));
+        continue;
+      }
+      const disclosure = useDigest(element['...'], disclosures, usedDigests);
+      if (!disclosure) continue;
+      if (disclosure.name !== undefined) {
+        throw new Error('SD-JWT array element disclosure must not have a claim name');
+      }
+      disclosedPaths.push([...path, result.length]);
+      result.push(applyDisclosures(disclosure.value, disclosures, usedDigests, [...path, result.length], disclosedPaths));
+    }
+    return result;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [name, claim] of Object.entries(value)) {
+    if (name === '_sd') continue;
+    result[name] = applyDisclosures(claim, disclosures, usedDigests, [...path, name], disclosedPaths);
+  }
+  if (value._sd !== undefined && !Array.isArray(value._sd)) {
+    throw new Error('SD-JWT _sd claim must be an array of digests');
+  }
+  for (const digest of value._sd || []) {
+    const disclosure = useDigest(digest, disclosures, usedDigests);
+    if (!disclosure) continue;
+    if (disclosure.name === undefined) {
+      throw new Error('SD-JWT object property disclosure must have a claim name');
+    }
+    if (disclosure.name in result) {
+      throw new Error(`SD-JWT disclosure overwrites an existing claim: ${disclosure.name}`);
+    }
+    disclosedPaths.push([...path, disclosure.name]);
+    result[disclosure.name] = applyDisclosures(disclosure.value, disclosures, usedDigests, [...path, disclosure.name], disclosedPaths);
+  }
+  return result;
+}
+
+function useDigest(digest: unknown, disclosures: Map<string, Disclosure>, usedDigests: Set<string>): Disclosure | undefined {
+  if (typeof digest !== 'string') {
+    throw new Error('SD-JWT digest must be a string');
+  }
+  if (usedDigests.has(digest)) {
+    throw new Error('SD-JWT digest is referenced more than once');
+  }
+  const disclosure = disclosures.get(digest);
+  if (disclosure) {
+    usedDigests.add(digest);
+  }
+  return disclosure;
+}
+
+/**
+ * Verifies the Key Binding JWT against the holder key in cnf and the expected nonce/audience
+ */
+function verifyKeyBinding(
+  keyBindingJwt: string,
+  presentedSdJwt: string,
+  payload: Record<string, any>,
+  hashAlgorithm: string,
+  now: number,
+  clockSkew: number,
+  options: SdJwtVerificationOptions
+): Record<string, any> {
+  const kbJws = decodeJws(keyBindingJwt);
+  if (kbJws.header.typ !== 'kb+jwt') {
+    throw new HolderBindingError('PRESENTATION_PROOF_INVALID', 'Key Binding JWT must have typ kb+jwt');
+  }
+  if (!payload.cnf?.jwk) {
+    throw new HolderBindingError('SUBJECT_NOT_BOUND', 'SD-JWT has no cnf.jwk holder key to verify the Key Binding JWT');
+  }
+  if (!verifyJws(kbJws, createPublicKey({ key: payload.cnf.jwk, format: 'jwk' }))) {
+    throw new HolderBindingError('PRESENTATION_PROOF_INVALID', 'Key Binding JWT signature is invalid');
+  }
+
+  const kb = kbJws.payload;
+  if (!options.challenge) {
+    throw new HolderBindingError('CHALLENGE_MISMATCH', 'Key Binding JWT cannot be checked without a presentation request challenge');
+  }
+  if (kb.nonce !== options.challenge) {
+    throw new HolderBindingError('CHALLENGE_MISMATCH', 'Key Binding JWT nonce does not match the request challenge');
+  }
+  if (!kb.aud || (options.audience && kb.aud !== options.audience)) {
+    throw new HolderBindingError('DOMAIN_MISMATCH', 'Key Binding JWT aud does not match the expected audience');
+  }
+  const maxAge = options.keyBindingMaxAge ?? 300;
+  if (typeof kb.iat !== 'number' || kb.iat > now + clockSkew || kb.iat < now - maxAge - clockSkew) {
+    throw new HolderBindingError('PRESENTATION_PROOF_INVALID', 'Key Binding JWT iat is outside the accepted window');
+  }
+  const expectedSdHash = base64urlEncode(createHash(hashAlgorithm).update(presentedSdJwt, 'ascii').digest());
+  if (kb.sd_hash !== expectedSdHash) {
+    throw new HolderBindingError('PRESENTATION_PROOF_INVALID', 'Key Binding JWT sd_hash does not match the presented SD-JWT');
+  }
+  return kb;
+}
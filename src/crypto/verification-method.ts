@@ -0,0 +1,224 @@
+/**
+ * Verification Method Resolution
+ * Resolves a proof's verificationMethod to a public key usable by the crypto suites
+ */
+
+import { createPublicKey, ECDH, KeyObject } from 'crypto';
+import { base58btcDecode, base64urlEncode, decodeMultibase } from './encoding.ts';
+import { UniversalDidResolver } from '../did/universal-resolver.ts';
+import { DidResolver, VerificationMethod } from '../types/index.ts';
+
+// Multicodec prefix for Ed25519 public keys (0xed, varint encoded)
+const ED25519_PUB_PREFIX = [0xed, 0x01];
+
+// Multicodec prefix for X25519 public keys (0xec, varint encoded), used for DIDComm key agreement
+const X25519_PUB_PREFIX = [0xec, 0x01];
+
+// Verification method types that carry a raw X25519 key in publicKeyBase58
+const X25519_TYPES = ['X25519KeyAgreementKey2019', 'X25519KeyAgreementKey2020'];
+
+// Multicodec prefix for BLS12-381 G2 public keys (0xeb, varint encoded)
+const BLS12381_G2_PUB_PREFIX = [0xeb, 0x01];
+
+// Multicodec prefixes for compressed EC public keys, with their JWK and OpenSSL curve names
+const EC_PUB_PREFIXES: { prefix: number[]; crv: string; curve: string }[] = [
+  { prefix: [0x80, 0x24], crv: 'P-256', curve: 'prime256v1' },
+  { prefix: [0x81, 0x24], crv: 'P-384', curve: 'secp384r1' },
+  { prefix: [0xe7, 0x01], crv: 'secp256k1', curve: 'secp256k1' }
+];
+
+// Legacy 2019 verification method types that carry raw EC points in publicKeyBase58/publicKeyHex
+const LEGACY_EC_TYPES: Record<string, { crv: string; curve: string }> = {
+  EcdsaSecp256r1VerificationKey2019: { crv: 'P-256', curve: 'prime256v1' },
+  EcdsaSecp256k1VerificationKey2019: { crv: 'secp256k1', curve: 'secp256k1' }
+};
+
+let defaultDidResolver: DidResolver | undefined;
+
+/**
+ * Resolves a verification method by its DID URL, through the DID resolver rather than any key material in the proof
+ * @param verificationMethodId - The DID URL from proof.verificationMethod
+ * @param didResolver - Resolver for the DID (defaults to an offline UniversalDidResolver: did:key, did:jwk, did:peer)
+ * @param proofPurpose - When set, the verification method must be listed under this verification relationship
+ * @returns Promise<VerificationMethod> - The resolved verification method
+ */
+export async function resolveVerificationMethod(
+  verificationMethodId: string,
+  didResolver?: DidResolver,
+  proofPurpose?: string
+): Promise<VerificationMethod> {
+  const did = verificationMethodId.split('#')[0];
+  const resolver = didResolver ?? (defaultDidResolver ??= new UniversalDidResolver());
+  const resolved = await resolver.resolve(did);
+  const didDocument = resolved?.didDocument ?? resolved;
+  const verificationMethod = findVerificationMethod(didDocument, verificationMethodId);
+  if (!verificationMethod) {
+    throw new Error(`Verification method not found: ${verificationMethodId}`);
+  }
+  if (proofPurpose && !isAuthorizedFor(didDocument, verificationMethod.id, proofPurpose)) {
+    throw new Error(`Verification method ${verificationMethodId} is not authorized for ${proofPurpose}`);
+  }
+  return verificationMethod;
+}
+
+/**
+ * Resolves the verification method that signed a JWT, from a DID URL kid, a relative kid of a DID issuer,
+ * or a did:key / did:jwk issuer
+ * @param header - The JWS protected header
+ * @param iss - The JWT issuer (its iss claim, or the issuer or holder the JWT names); the key must be one of its keys
+ * @param didResolver - Resolver for the DID (defaults to an offline UniversalDidResolver)
+ * @param proofPurpose - When set, the verification method must be listed under this verification relationship
+ * @returns Promise<VerificationMethod> - The resolved verification method, controlled by iss
+ * @throws Error - When there is no issuer, or the key is not one of its keys
+ */
+export async function resolveJwtVerificationMethod(
+  header: Record<string, any>,
+  iss: string | undefined,
+  didResolver?: DidResolver,
+  proofPurpose?: string
+): Promise<VerificationMethod> {
+  let verificationMethodId: string | undefined;
+  if (typeof header.kid === 'string' && header.kid.startsWith('did:')) {
+    verificationMethodId = header.kid;
+  } else if (iss?.startsWith('did:') && typeof header.kid === 'string') {
+    verificationMethodId = `${iss}#${header.kid.replace(/^#/, '')}`;
+  } else if (iss?.startsWith('did:key:')) {
+    verificationMethodId = `${iss}#${iss.slice('did:key:'.length)}`;
+  } else if (iss?.startsWith('did:jwk:')) {
+    verificationMethodId = `${iss}#0`;
+  }
+  if (!verificationMethodId) {
+    throw new Error('Cannot determine the JWT signing key: expected a DID issuer or DID URL kid');
+  }
+  if (!iss) {
+    throw new Error('JWT has no issuer to bind its signing key to');
+  }
+  if (verificationMethodId.split('#')[0] !== iss) {
+    throw new Error('JWT kid does not belong to the issuer');
+  }
+  return resolveVerificationMethod(verificationMethodId, didResolver, proofPurpose);
+}
+
+/**
+ * Finds a verification method in a DID document, accepting relative ('#key-1') ids
+ * @param didDocument - The DID document to search
+ * @param verificationMethodId - The absolute DID URL of the verification method
+ * @returns VerificationMethod | undefined - The matching verification method
+ */
+export function findVerificationMethod(didDocument: any, verificationMethodId: string): VerificationMethod | undefined {
+  if (!didDocument) return undefined;
+  const relationships = ['verificationMethod', 'assertionMethod', 'authentication', 'capabilityInvocation', 'capabilityDelegation', 'keyAgreement'];
+  for (const relationship of relationships) {
+    for (const entry of didDocument[relationship] || []) {
+      if (typeof entry !== 'object') continue;
+      const id = entry.id?.startsWith('#') ? `${didDocument.id}${entry.id}` : entry.id;
+      if (id === verificationMethodId) {
+        return { ...entry, id, controller: entry.controller || didDocument.id };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a DID document lists a verification method under a verification relationship
+ * @param didDocument - The DID document
+ * @param verificationMethodId - The absolute DID URL of the verification method
+ * @param relationship - The relationship (proof purpose), e.g. assertionMethod or authentication
+ * @returns boolean - True if the relationship references or embeds the verification method
+ */
+export function isAuthorizedFor(didDocument: any, verificationMethodId: string, relationship: string): boolean {
+  return (didDocument?.[relationship] || []).some((entry: any) => {
+    const id = typeof entry === 'string' ? entry : entry?.id;
+    return (id?.startsWith('#') ? `${didDocument.id}${id}` : id) === verificationMethodId;
+  });
+}
+
+/**
+ * Converts a verification method into a Node.js public key
+ * @param verificationMethod - The verification method carrying the key material
+ * @returns KeyObject - The public key
+ */
+export function publicKeyFromVerificationMethod(verificationMethod: VerificationMethod): KeyObject {
+  if (verificationMethod.publicKeyJwk) {
+    return createPublicKey({ key: verificationMethod.publicKeyJwk as any, format: 'jwk' });
+  }
+
+  if (verificationMethod.publicKeyBase58 || verificationMethod.publicKeyHex) {
+    const rawKey = verificationMethod.publicKeyBase58
+      ? base58btcDecode(verificationMethod.publicKeyBase58)
+      : new Uint8Array(Buffer.from(verificationMethod.publicKeyHex, 'hex'));
+    const legacyEcType = LEGACY_EC_TYPES[verificationMethod.type];
+    if (legacyEcType) {
+      return ecPublicKey(rawKey, legacyEcType.crv, legacyEcType.curve);
+    }
+    if (X25519_TYPES.includes(verificationMethod.type)) {
+      return okpPublicKey(rawKey, 'X25519');
+    }
+    // Ed25519VerificationKey2018 carries the raw 32 byte key
+    return ed25519PublicKey(rawKey);
+  }
+
+  if (verificationMethod.publicKeyMultibase) {
+    const decoded = decodeMultibase(verificationMethod.publicKeyMultibase);
+    if (decoded[0] === ED25519_PUB_PREFIX[0] && decoded[1] === ED25519_PUB_PREFIX[1]) {
+      return ed25519PublicKey(decoded.slice(2));
+    }
+    if (decoded[0] === X25519_PUB_PREFIX[0] && decoded[1] === X25519_PUB_PREFIX[1]) {
+      return okpPublicKey(decoded.slice(2), 'X25519');
+    }
+    const ecPrefix = EC_PUB_PREFIXES.find(({ prefix }) => decoded[0] === prefix[0] && decoded[1] === prefix[1]);
+    if (ecPrefix) {
+      return ecPublicKey(decoded.slice(2), ecPrefix.crv, ecPrefix.curve);
+    }
+    throw new Error(`Unsupported multicodec key in verification method ${verificationMethod.id}`);
+  }
+
+  throw new Error(`Verification method ${verificationMethod.id} has no supported public key`);
+}
+
+/**
+ * Extracts a BLS12-381 G2 public key (used by the BBS suites) from a verification method
+ * @param verificationMethod - A Bls12381G2Key2020 or Multikey verification method
+ * @returns Uint8Array - The 96 byte compressed G2 point
+ */
+export function blsPublicKeyFromVerificationMethod(verificationMethod: VerificationMethod): Uint8Array {
+  let rawKey: Uint8Array | undefined;
+  if (verificationMethod.publicKeyBase58) {
+    rawKey = base58btcDecode(verificationMethod.publicKeyBase58);
+  } else if (verificationMethod.publicKeyMultibase) {
+    const decoded = decodeMultibase(verificationMethod.publicKeyMultibase);
+    if (decoded[0] === BLS12381_G2_PUB_PREFIX[0] && decoded[1] === BLS12381_G2_PUB_PREFIX[1]) {
+      rawKey = decoded.slice(2);
+    }
+  }
+  if (!rawKey || rawKey.length !== 96) {
+    throw new Error(`Verification method ${verificationMethod.id} has no BLS12-381 G2 public key`);
+  }
+  return rawKey;
+}
+
+function ed25519PublicKey(rawKey: Uint8Array): KeyObject {
+  return okpPublicKey(rawKey, 'Ed25519');
+}
+
+function okpPublicKey(rawKey: Uint8Array, crv: 'Ed25519' | 'X25519'): KeyObject {
+  if (rawKey.length !== 32) {
+    throw new Error(`Invalid ${crv} public key length`);
+  }
+  return createPublicKey({ key: { kty: 'OKP', crv, x: base64urlEncode(rawKey) }, format: 'jwk' });
+}
+
+function ecPublicKey(point: Uint8Array, crv: string, curve: string): KeyObject {
+  const uncompressed = ECDH.convertKey(point, curve, undefined, undefined, 'uncompressed') as Buffer;
+  const coordinateLength = (uncompressed.length - 1) / 2;
+  return createPublicKey({
+    key: {
+      kty: 'EC',
+      crv,
+      x: base64urlEncode(uncompressed.subarray(1, 1 + coordinateLength)),
+      y: base64urlEncode(uncompressed.subarray(1 + coordinateLength))
+    },
+    format: 'jwk'
+  });
+}
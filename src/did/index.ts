@@ -0,0 +1,6 @@
+export { UniversalDidResolver, UniversalDidResolverOptions } from './universal-resolver.ts';
+export { KeyDidResolver } from './key-resolver.ts';
+export { JwkDidResolver } from './jwk-resolver.ts';
+export { PeerDidResolver } from './peer-resolver.ts';
+export { WebDidResolver, WebDidResolverOptions } from './web-resolver.ts';
+export { LruCache, LruCacheOptions } from './lru-cache.ts';
@@ -0,0 +1,50 @@
+/**
+ * did:jwk Resolver
+ * Derives the DID document from the base64url-encoded JWK in the identifier; works offline
+ */
+
+import { base64urlDecode } from '../crypto/encoding.ts';
+import { DidResolver } from '../types/index.ts';
+
+export class JwkDidResolver implements DidResolver {
+  /**
+   * Resolves a did:jwk to its DID document, with the key as verification method #0
+   * @param did - The did:jwk identifier
+   * @returns Promise<Record<string, any>> - The derived DID document
+   */
+  async resolve(did: string): Promise<Record<string, any>> {
+    if (!did.startsWith('did:jwk:')) {
+      throw new Error(`Not a did:jwk: ${did}`);
+    }
+    let jwk: Record<string, any>;
+    try {
+      jwk = JSON.parse(Buffer.from(base64urlDecode(did.slice('did:jwk:'.length))).toString('utf8'));
+    } catch {
+      throw new Error('did:jwk identifier is not a base64url encoded JWK');
+    }
+    if (!jwk || typeof jwk !== 'object' || typeof jwk.kty !== 'string') {
+      throw new Error('did:jwk identifier is not a base64url encoded JWK');
+    }
+    if ('d' in jwk) {
+      throw new Error('did:jwk must not contain private key material');
+    }
+
+    const verificationMethodId = `${did}#0`;
+    const relationships = jwk.use === 'enc'
+      ? ['keyAgreement']
+      : jwk.use === 'sig'
+        ? ['authentication', 'assertionMethod', 'capabilityInvocation', 'capabilityDelegation']
+        : ['authentication', 'assertionMethod', 'capabilityInvocation', 'capabilityDelegation', 'keyAgreement'];
+    return {
+      '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+      id: did,
+      verificationMethod: [{
+        id: verificationMethodId,
+        type: 'JsonWebKey2020',
+        controller: did,
+        publicKeyJwk: jwk
+      }],
+      ...Object.fromEntries(relationships.map(relationship => [relationship, [verificationMethodId]]))
+    };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * did:key Resolver
+ * Derives the DID document from the multibase-encoded public key in the identifier; works offline
+ */
+
+import { decodeMultibase } from '../crypto/encoding.ts';
+import { DidResolver } from '../types/index.ts';
+
+// Multicodec prefixes (varint encoded) of the public key types did:key may carry
+const KEY_MULTICODECS: { prefix: number[]; name: string }[] = [
+  { prefix: [0xed, 0x01], name: 'ed25519-pub' },
+  { prefix: [0xec, 0x01], name: 'x25519-pub' },
+  { prefix: [0x80, 0x24], name: 'p256-pub' },
+  { prefix: [0x81, 0x24], name: 'p384-pub' },
+  { prefix: [0xe7, 0x01], name: 'secp256k1-pub' },
+  { prefix: [0xeb, 0x01], name: 'bls12_381-g2-pub' }
+];
+
+export const DID_CONTEXTS = ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'];
+
+// Verification relationships of a signing key; key agreement keys only get keyAgreement
+const SIGNING_RELATIONSHIPS = ['authentication', 'assertionMethod', 'capabilityInvocation', 'capabilityDelegation'];
+
+/**
+ * Identifies the multicodec key type of a multibase public key
+ * @param publicKeyMultibase - The base58btc multibase key
+ * @returns string - The multicodec name (e.g. ed25519-pub)
+ * @throws Error - When the key is not base58btc or uses an unsupported multicodec
+ */
+export function multikeyCodec(publicKeyMultibase: string): string {
+  if (!publicKeyMultibase.startsWith('z')) {
+    throw new Error('Multikey must be base58btc multibase encoded');
+  }
+  const decoded = decodeMultibase(publicKeyMultibase);
+  const codec = KEY_MULTICODECS.find(({ prefix }) => decoded[0] === prefix[0] && decoded[1] === prefix[1]);
+  if (!codec) {
+    throw new Error('Unsupported multicodec public key');
+  }
+  return codec.name;
+}
+
+/**
+ * Builds the single-key DID document shared by did:key and did:peer numalgo 0
+ * @param did - The DID
+ * @param publicKeyMultibase - The key encoded in the DID
+ * @returns Record<string, any> - The DID document
+ */
+export function singleKeyDidDocument(did: string, publicKeyMultibase: string): Record<string, any> {
+  const codec = multikeyCodec(publicKeyMultibase);
+  const verificationMethodId = `${did}#${publicKeyMultibase}`;
+  const relationships = codec === 'x25519-pub' ? ['keyAgreement'] : SIGNING_RELATIONSHIPS;
+  return {
+    '@context': DID_CONTEXTS,
+    id: did,
+    verificationMethod: [{
+      id: verificationMethodId,
+      type: 'Multikey',
+      controller: did,
+      publicKeyMultibase
+    }],
+    ...Object.fromEntries(relationships.map(relationship => [relationship, [verificationMethodId]]))
+  };
+}
+
+export class KeyDidResolver implements DidResolver {
+  /**
+   * Resolves a did:key to its DID document
+   * @param did - The did:key identifier
+   * @returns Promise<Record<string, any>> - The derived DID document
+   */
+  async resolve(did: string): Promise<Record<string, any>> {
+    if (!did.startsWith('did:key:')) {
+      throw new Error(`Not a did:key: ${did}`);
+    }
+    return singleKeyDidDocument(did, did.slice('did:key:'.length));
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * LRU Cache
+ * Size-bounded cache with per-entry expiry, used for DID documents and other fetched artifacts
+ */
+
+export interface LruCacheOptions {
+  maxEntries?: number; // Default 100
+  ttl?: number; // Seconds an entry stays fresh, default 300
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export class LruCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private maxEntries: number;
+  private ttl: number;
+
+  constructor(options: LruCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 100;
+    this.ttl = options.ttl ?? 300;
+  }
+
+  /**
+   * Returns a fresh entry and marks it as most recently used; expired entries are dropped
+   * @param key - The cache key
+   * @returns V | undefined - The cached value
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Stores a value, evicting the least recently used entry when the cache is full
+   * @param key - The cache key
+   * @param value - The value to cache
+   * @param ttl - Seconds this entry stays fresh (defaults to the cache TTL)
+   */
+  set(key: string, value: V, ttl: number = this.ttl): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
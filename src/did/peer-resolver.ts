@@ -0,0 +1,106 @@
+/**
+ * did:peer Resolver
+ * Resolves numalgo 0 (inception key) and numalgo 2 (multiple keys and services) peer DIDs; works offline
+ */
+
+import { base64urlDecode } from '../crypto/encoding.ts';
+import { DidResolver } from '../types/index.ts';
+import { DID_CONTEXTS, multikeyCodec, singleKeyDidDocument } from './key-resolver.ts';
+
+// Numalgo 2 purpose codes and the verification relationship each one adds the key to
+const PURPOSE_RELATIONSHIPS: Record<string, string> = {
+  A: 'assertionMethod',
+  E: 'keyAgreement',
+  V: 'authentication',
+  I: 'capabilityInvocation',
+  D: 'capabilityDelegation'
+};
+
+// Abbreviations used in numalgo 2 service blocks
+const SERVICE_KEY_ABBREVIATIONS: Record<string, string> = {
+  t: 'type',
+  s: 'serviceEndpoint',
+  r: 'routingKeys',
+  a: 'accept'
+};
+const SERVICE_VALUE_ABBREVIATIONS: Record<string, string> = {
+  dm: 'DIDCommMessaging'
+};
+
+export class PeerDidResolver implements DidResolver {
+  /**
+   * Resolves a did:peer (numalgo 0 or 2) to its DID document
+   * @param did - The did:peer identifier
+   * @returns Promise<Record<string, any>> - The derived DID document
+   */
+  async resolve(did: string): Promise<Record<string, any>> {
+    if (!did.startsWith('did:peer:')) {
+      throw new Error(`Not a did:peer: ${did}`);
+    }
+    const numalgo = did['did:peer:'.length];
+    if (numalgo === '0') {
+      return singleKeyDidDocument(did, did.slice('did:peer:0'.length));
+    }
+    if (numalgo === '2') {
+      return resolveNumalgo2(did);
+    }
+    throw new Error(`Unsupported did:peer numalgo: ${numalgo}`);
+  }
+}
+
+function resolveNumalgo2(did: string): Record<string, any> {
+  const elements = did.slice('did:peer:2'.length).split('.').slice(1);
+  if (elements.length === 0) {
+    throw new Error('did:peer:2 has no keys or services');
+  }
+
+  const document: Record<string, any> = { '@context': DID_CONTEXTS, id: did, verificationMethod: [] };
+  const services: Record<string, any>[] = [];
+  for (const element of elements) {
+    const purpose = element[0];
+    const value = element.slice(1);
+    if (purpose === 'S') {
+      services.push(expandService(value));
+      continue;
+    }
+    const relationship = PURPOSE_RELATIONSHIPS[purpose];
+    if (!relationship) {
+      throw new Error(`Unknown did:peer:2 purpose code: ${purpose}`);
+    }
+    multikeyCodec(value);
+    const verificationMethodId = `${did}#key-${document.verificationMethod.length + 1}`;
+    document.verificationMethod.push({ id: verificationMethodId, type: 'Multikey', controller: did, publicKeyMultibase: value });
+    document[relationship] = [...(document[relationship] || []), verificationMethodId];
+  }
+
+  if (services.length > 0) {
+    document.service = services.map((service, index) => ({
+      ...service,
+      id: service.id ?? `${did}#service${index === 0 ? '' : `-${index}`}`
+    }));
+  }
+  return document;
+}
+
+function expandService(encoded: string): Record<string, any> {
+  let service: any;
+  try {
+    service = JSON.parse(Buffer.from(base64urlDecode(encoded)).toString('utf8'));
+  } catch {
+    throw new Error('did:peer:2 service is not base64url encoded JSON');
+  }
+  return expandAbbreviations(service);
+}
+
+function expandAbbreviations(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(expandAbbreviations);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+      SERVICE_KEY_ABBREVIATIONS[key] ?? key,
+      expandAbbreviations(entry)
+    ]));
+  }
+  return typeof value === 'string' ? SERVICE_VALUE_ABBREVIATIONS[value] ?? value : value;
+}
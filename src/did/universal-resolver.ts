@@ -0,0 +1,107 @@
+/**
+ * Universal DID Resolver
+ * Dispatches resolution by DID method, caches DID documents and dereferences DID URLs
+ */
+
+import { findVerificationMethod } from '../crypto/verification-method.ts';
+import { DidResolver } from '../types/index.ts';
+import { JwkDidResolver } from './jwk-resolver.ts';
+import { KeyDidResolver } from './key-resolver.ts';
+import { LruCache, LruCacheOptions } from './lru-cache.ts';
+import { PeerDidResolver } from './peer-resolver.ts';
+import { WebDidResolver, WebDidResolverOptions } from './web-resolver.ts';
+
+export interface UniversalDidResolverOptions {
+  resolvers?: Record<string, DidResolver>; // Method name (e.g. 'ion') to resolver; overrides the built-in resolvers
+  web?: WebDidResolverOptions; // Options for the built-in did:web resolver (e.g. an injected fetch)
+  cache?: LruCacheOptions | false; // DID document cache, enabled by default
+}
+
+// did:<method>:<method-specific-id>, per DID Core
+const DID_PATTERN = /^did:([a-z0-9]+):((?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2})*(?::(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2})*)*)$/;
+
+export class UniversalDidResolver implements DidResolver {
+  private resolvers: Record<string, DidResolver>;
+  private cache?: LruCache<Promise<Record<string, any>>>;
+
+  constructor(options: UniversalDidResolverOptions = {}) {
+    this.resolvers = {
+      key: new KeyDidResolver(),
+      jwk: new JwkDidResolver(),
+      peer: new PeerDidResolver(),
+      web: new WebDidResolver(options.web),
+      ...options.resolvers
+    };
+    if (options.cache !== false) {
+      this.cache = new LruCache(options.cache);
+    }
+  }
+
+  /**
+   * Resolves a DID to its DID document with the resolver registered for its method
+   * @param did - The DID (a DID URL's path, query and fragment are ignored)
+   * @returns Promise<Record<string, any>> - The DID document
+   * @throws Error - When the DID is malformed, its method unsupported or resolution fails
+   */
+  async resolve(did: string): Promise<Record<string, any>> {
+    const { did: bareDid, method } = parseDidUrl(did);
+    const cached = this.cache?.get(bareDid);
+    if (cached) {
+      return cached;
+    }
+    const resolver = this.resolvers[method];
+    if (!resolver) {
+      throw new Error(`Unsupported DID method: ${method}`);
+    }
+    const resolution = resolver.resolve(bareDid).then(resolved => {
+      const didDocument = resolved?.didDocument ?? resolved;
+      if (!didDocument) {
+        throw new Error(`DID not found: ${bareDid}`);
+      }
+      return didDocument;
+    });
+    // Concurrent lookups share one resolution; failures are not cached
+    this.cache?.set(bareDid, resolution);
+    resolution.catch(() => this.cache?.delete(bareDid));
+    return resolution;
+  }
+
+  /**
+   * Dereferences a DID URL: the DID document itself, or the verification method or service its fragment names
+   * @param didUrl - The DID URL (e.g. did:example:123#key-1)
+   * @returns Promise<Record<string, any>> - The DID document, verification method or service
+   * @throws Error - When the fragment does not identify anything in the DID document
+   */
+  async dereference(didUrl: string): Promise<Record<string, any>> {
+    const { did, fragment } = parseDidUrl(didUrl);
+    const didDocument = await this.resolve(did);
+    if (!fragment) {
+      return didDocument;
+    }
+    const absoluteId = `${did}#${fragment}`;
+    const verificationMethod = findVerificationMethod(didDocument, absoluteId);
+    if (verificationMethod) {
+      return verificationMethod;
+    }
+    const service = (didDocument.service || []).find((entry: any) =>
+      entry.id === absoluteId || entry.id === `#${fragment}`
+    );
+    if (service) {
+      return { ...service, id: absoluteId };
+    }
+    throw new Error(`DID URL could not be dereferenced: ${didUrl}`);
+  }
+}
+
+/**
+ * Splits a DID URL into the DID, its method and the fragment
+ */
+function parseDidUrl(didUrl: string): { did: string; method: string; fragment?: string } {
+  const [withoutFragment, fragment] = didUrl.split('#');
+  const did = withoutFragment.split(/[/?]/)[0];
+  const match = DID_PATTERN.exec(did);
+  if (!match) {
+    throw new Error(`Invalid DID: ${did}`);
+  }
+  return { did, method: match[1], fragment };
+}
@@ -0,0 +1,68 @@
+/**
+ * did:web Resolver
+ * Fetches the DID document from the web domain (and path) named in the identifier
+ */
+
+import { DidResolver } from '../types/index.ts';
+
+export interface WebDidResolverOptions {
+  fetch?: typeof fetch; // Defaults to the global fetch; inject a stub to resolve against a local server
+  timeout?: number; // Milliseconds, default 5000
+  allowHttp?: boolean; // Resolve over plain http (local test servers only), default false
+}
+
+export class WebDidResolver implements DidResolver {
+  private fetch: typeof fetch;
+  private timeout: number;
+  private allowHttp: boolean;
+
+  constructor(options: WebDidResolverOptions = {}) {
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeout = options.timeout ?? 5000;
+    this.allowHttp = options.allowHttp ?? false;
+  }
+
+  /**
+   * Converts a did:web to the URL of its DID document
+   * (did:web:example.com -> https://example.com/.well-known/did.json,
+   * did:web:example.com%3A8443:users:alice -> https://example.com:8443/users/alice/did.json)
+   * @param did - The did:web identifier
+   * @returns string - The DID document URL
+   */
+  documentUrl(did: string): string {
+    if (!did.startsWith('did:web:')) {
+      throw new Error(`Not a did:web: ${did}`);
+    }
+    const [domain, ...path] = did.slice('did:web:'.length).split(':');
+    if (!domain) {
+      throw new Error('did:web has no domain');
+    }
+    const host = decodeURIComponent(domain);
+    if (/[/?#@]/.test(host)) {
+      throw new Error('did:web domain is invalid');
+    }
+    const documentPath = path.length > 0 ? `/${path.map(decodeURIComponent).join('/')}/did.json` : '/.well-known/did.json';
+    return `${this.allowHttp ? 'http' : 'https'}://${host}${documentPath}`;
+  }
+
+  /**
+   * Resolves a did:web by fetching its DID document
+   * @param did - The did:web identifier
+   * @returns Promise<Record<string, any>> - The DID document, whose id must be the DID
+   */
+  async resolve(did: string): Promise<Record<string, any>> {
+    const url = this.documentUrl(did);
+    const response = await this.fetch(url, {
+      headers: { accept: 'application/did+json, application/json' },
+      signal: AbortSignal.timeout(this.timeout)
+    });
+    if (!response.ok) {
+      throw new Error(`did:web resolution failed for ${did}: HTTP ${response.status}`);
+    }
+    const document = await response.json();
+    if (document?.id !== did) {
+      throw new Error(`did:web document id does not match ${did}`);
+    }
+    return document;
+  }
+}
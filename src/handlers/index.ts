@@ -1 +1,2 @@
-export { SdJwtHandler } from './sd-jwt-handler.ts'; 
\ No newline at end of file
+export { SdJwtHandler, SdJwtHandlerOptions, SdJwtProof } from './sd-jwt-handler.ts';
+export { JwtVcHandler, JwtVcHandlerOptions } from './jwt-vc-handler.ts';
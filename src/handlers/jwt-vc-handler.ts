@@ -0,0 +1,132 @@
+/**
+ * JWT-VC Handler
+ * Self-contained handler for VC-JWT presentations (jwt_vp_json wrapping jwt_vc_json credentials)
+ */
+
+import { jwtVcSuite } from '../crypto/jwt-vc-suite.ts';
+import { checkSubjectBinding, HolderBindingError, HolderKey } from '../crypto/holder-binding.ts';
+import { DidResolver, VerifiablePresentation, PresentationRequest, CredentialVerificationResult, VerificationErrorCode, TrustDecision, TrustRegistry } from '../types/index.ts';
+
+export interface JwtVcHandlerOptions {
+  didResolver?: DidResolver;
+  audience?: string; // Expected VP JWT aud when the request has no domain
+  clockSkew?: number; // Seconds, default 60
+  trustRegistry?: TrustRegistry; // Rejects VC JWTs whose issuer is not accredited for their type at issuance
+}
+
+// Compact JWS serialization: base64url(header).base64url(payload).base64url(signature)
+const COMPACT_JWS = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
+
+export class JwtVcHandler {
+  private cryptoSuite: typeof jwtVcSuite;
+  private options: JwtVcHandlerOptions;
+
+  constructor(options: JwtVcHandlerOptions = {}) {
+    this.cryptoSuite = jwtVcSuite;
+    this.options = options;
+  }
+
+  /**
+   * Determines if this handler can process the given presentation
+   * @param presentation - The presentation to check (a vp_token in compact JWS form)
+   * @returns boolean - True if this handler can process the presentation
+   */
+  canHandle(presentation: VerifiablePresentation | string): boolean {
+    return typeof presentation === 'string' && COMPACT_JWS.test(presentation);
+  }
+
+  /**
+   * Verifies a VP JWT and, independently, each VC JWT it carries
+   * @param presentation - The VP JWT
+   * @param originalRequest - The original verification request
+   * @returns Promise<VerificationResult> - Verification result
+   */
+  async verify(presentation: VerifiablePresentation | string, originalRequest?: PresentationRequest): Promise<{
+    status: 'verified' | 'rejected';
+    claims?: Record<string, any>;
+    credentialType?: string;
+    issuer?: string;
+    holder?: string;
+    error?: string;
+    errorCode?: VerificationErrorCode;
+    credentials?: CredentialVerificationResult[];
+  }> {
+    console.log('-> Verifying with JwtVcHandler...');
+    try {
+      if (typeof presentation !== 'string') {
+        console.log('   No VP JWT found');
+        return { status: 'rejected', error: 'No VP JWT found' };
+      }
+      const { holder, holderKey, credentials } = await this.cryptoSuite.verifyPresentation(presentation, {
+        didResolver: this.options.didResolver,
+        challenge: originalRequest?.challenge,
+        audience: originalRequest?.domain ?? this.options.audience,
+        clockSkew: this.options.clockSkew
+      });
+      if (credentials.length === 0) {
+        console.log('   No verifiable credential found');
+        return { status: 'rejected', error: 'No verifiable credential' };
+      }
+
+      const results: CredentialVerificationResult[] = [];
+      for (const credential of credentials) {
+        results.push(await this.verifyPresentedCredential(credential, holder, holderKey));
+      }
+      const failed = results.find(result => result.status === 'rejected');
+      if (failed) {
+        return { status: 'rejected', error: failed.error, errorCode: failed.errorCode, credentials: results };
+      }
+      console.log('   JWT-VC verification successful');
+      const [first] = results;
+      return { ...first, credentials: results };
+    } catch (error) {
+      console.log(`   JWT-VC verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        status: 'rejected',
+        error: error instanceof Error ? error.message : 'Unknown error during JWT-VC verification',
+        errorCode: error instanceof HolderBindingError ? error.code : undefined
+      };
+    }
+  }
+
+  /**
+   * Verifies a single VC JWT carried by the presentation and its binding to the holder
+   */
+  private async verifyPresentedCredential(jwt: string, holder: string, holderKey: HolderKey): Promise<CredentialVerificationResult> {
+    try {
+      const credential = await this.cryptoSuite.verifyCredential(jwt, {
+        didResolver: this.options.didResolver,
+        clockSkew: this.options.clockSkew
+      });
+      const subjects = Array.isArray(credential.credentialSubject) ? credential.credentialSubject : [credential.credentialSubject];
+      checkSubjectBinding(subjects.map(subject => subject?.id), holder, (credential as any).cnf, holderKey);
+      const credentialType = Array.isArray(credential.type) ? credential.type.join(', ') : credential.type || 'VerifiableCredential';
+      const issuer = typeof credential.issuer === 'object' ? (credential.issuer as any).id : credential.issuer;
+      // The issuer must have been accredited for the credential type when it issued the VC JWT (nbf)
+      let trustDecision: TrustDecision | undefined;
+      if (this.options.trustRegistry) {
+        const issuedAt = (credential as any).validFrom ?? credential.issuanceDate;
+        trustDecision = await this.options.trustRegistry.isTrusted({ issuer, credentialType, time: issuedAt ? new Date(issuedAt) : undefined });
+        if (!trustDecision.trusted) {
+          console.log(`   VC JWT issuer not trusted: ${trustDecision.reason}`);
+          return { status: 'rejected', credentialType, error: trustDecision.reason || 'Issuer is not trusted', errorCode: 'ISSUER_NOT_TRUSTED', trustDecision };
+        }
+      }
+      return {
+        status: 'verified',
+        claims: credential.credentialSubject || {},
+        credentialType,
+        issuer,
+        holder,
+        ...(trustDecision && { trustDecision })
+      };
+    } catch (error) {
+      console.log(`   VC JWT verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        status: 'rejected',
+        error: error instanceof Error ? error.message : 'Unknown error during VC JWT verification',
+        errorCode: error instanceof HolderBindingError ? error.code : undefined
+      };
+    }
+  }
+}
@@ -3,30 +3,43 @@
  * Self-contained handler for mDL verifiable presentations
  */
 
-import { mdocDeviceAuthSuite, DeviceAuth, ReaderAuth } from '../crypto/mdoc-suite.ts';
-import { VerifiablePresentation, PresentationRequest, VerificationResult } from '../types/index.ts';
+import { KeyObject } from 'crypto';
+import { mdocDeviceAuthSuite, ReaderAuth } from '../crypto/mdoc-suite.ts';
+import { cborDecoder } from '../crypto/cose.ts';
+import { MdocTrustStore } from '../crypto/mdoc-trust-store.ts';
+import { base64urlDecode } from '../crypto/encoding.ts';
+import { VerifiablePresentation, PresentationRequest, VerificationResult, CredentialVerificationResult, VerificationErrorCode, StatusChecker, StatusResult, TrustDecision, TrustRegistry } from '../types/index.ts';
 
 export interface MdlPresentation {
   type?: string | string[];
-  deviceResponse?: {
-    deviceAuth: DeviceAuth;
-    readerAuth?: ReaderAuth;
-    mdoc: {
-      dataElements: Record<string, any>;
-    };
-  };
+  deviceResponse?: Uint8Array | string; // CBOR-encoded ISO 18013-5 DeviceResponse (bytes or base64url)
+  sessionTranscript?: Uint8Array; // CBOR-encoded SessionTranscript; when set, it must equal the request's sessionTranscript
+  eReaderKey?: KeyObject; // Reader ephemeral private key, needed when documents use DeviceMac
+  readerAuth?: ReaderAuth; // Reader authentication from the DocRequest, when the reader's identity must be checked
 }
 
 export interface MdlHandlerOptions {
   enableReaderAuth?: boolean;
+  trustStore?: MdocTrustStore; // IACA roots for document signers and reader CA roots for reader auth
+  clockSkew?: number; // Tolerated clock skew for MSO validity, in seconds (default 60)
+  statusChecker?: StatusChecker; // Checks the MSO status claim (e.g. TokenStatusListChecker)
+  trustRegistry?: TrustRegistry; // Rejects documents whose signer is not accredited for their docType when the MSO was signed
 }
 
 export class MdlHandler {
   private cryptoSuite: typeof mdocDeviceAuthSuite;
   private enableReaderAuth: boolean;
+  private clockSkew?: number;
+  private trustStore?: MdocTrustStore;
+  private statusChecker?: StatusChecker;
+  private trustRegistry?: TrustRegistry;
 
   constructor(options: MdlHandlerOptions = {}) {
     this.enableReaderAuth = options.enableReaderAuth ?? true;
+    this.clockSkew = options.clockSkew;
+    this.trustStore = options.trustStore;
+    this.statusChecker = options.statusChecker;
+    this.trustRegistry = options.trustRegistry;
     // Each handler manages its own crypto dependencies
     this.cryptoSuite = mdocDeviceAuthSuite;
   }
@@ -38,12 +51,14 @@ export class MdlHandler {
    */
   canHandle(presentation: VerifiablePresentation | MdlPresentation): boolean {
     // Check if this is an mDL presentation
-    return !!(presentation as MdlPresentation).deviceResponse || 
+    return !!(presentation as MdlPresentation).deviceResponse ||
            (presentation as MdlPresentation).type === 'mDL';
   }
 
   /**
    * Verifies an mDL presentation
+   * Every document in the DeviceResponse is verified independently (issuer data authentication and
+   * device authentication) and reported per document; claims of the first document are returned per namespace
    * @param presentation - The presentation to verify
    * @param originalRequest - The original verification request
    * @returns Promise<VerificationResult> - Verification result
@@ -55,83 +70,166 @@ export class MdlHandler {
     issuer?: string;
     holder?: string;
     error?: string;
+    errorCode?: VerificationErrorCode;
+    credentials?: CredentialVerificationResult[];
   }> {
     console.log("-> Verifying with MdlHandler...");
     console.log(`   Presentation type: ${(presentation as MdlPresentation).type || 'mDL'}`);
-    
+
     try {
-      // Extract the device response from the presentation
+      // Decode the CBOR DeviceResponse from the presentation
       const mdlPresentation = presentation as MdlPresentation;
-      const deviceResponse = mdlPresentation.deviceResponse;
-      
-      if (!deviceResponse) {
+      if (!mdlPresentation.deviceResponse) {
         console.log("   No device response found");
         return { status: 'rejected', error: 'No device response' };
       }
-
-      // Get the device authentication from the response
-      const deviceAuth = deviceResponse.deviceAuth;
-      
-      if (!deviceAuth) {
-        console.log("   No device authentication found");
-        return { status: 'rejected', error: 'No device authentication' };
+      const deviceResponse = cborDecoder.decode(typeof mdlPresentation.deviceResponse === 'string'
+        ? base64urlDecode(mdlPresentation.deviceResponse)
+        : mdlPresentation.deviceResponse);
+      if (!(deviceResponse instanceof Map)) {
+        return { status: 'rejected', error: 'Malformed DeviceResponse' };
+      }
+      if (deviceResponse.get('status') !== 0) {
+        console.log(`   DeviceResponse status: ${deviceResponse.get('status')}`);
+        return { status: 'rejected', error: `DeviceResponse status ${deviceResponse.get('status')}` };
+      }
+      const documents: Map<string, any>[] = deviceResponse.get('documents') || [];
+      if (documents.length === 0) {
+        console.log("   No documents found in DeviceResponse");
+        return { status: 'rejected', error: 'No documents' };
       }
 
-      // Verify the device authentication using the crypto suite
-      const isDeviceAuthValid = await this.cryptoSuite.verifyDeviceAuth(deviceAuth);
-      
-      if (!isDeviceAuthValid) {
-        console.log("   Device authentication failed");
-        return { 
-          status: 'rejected', 
-          error: 'Device authentication failed' 
-        };
+      // The session transcript binds device authentication to this session, so it comes from the request the verifier
+      // issued; one the presentation carries must be the same
+      const sessionTranscript = originalRequest?.sessionTranscript;
+      if (!sessionTranscript) {
+        console.log("   No session transcript in the request");
+        return { status: 'rejected', error: 'The request has no SessionTranscript to verify device authentication against', errorCode: 'CHALLENGE_MISMATCH' };
+      }
+      if (mdlPresentation.sessionTranscript && !Buffer.from(mdlPresentation.sessionTranscript).equals(Buffer.from(sessionTranscript))) {
+        console.log("   Presentation session transcript does not match the request");
+        return { status: 'rejected', error: 'SessionTranscript does not match the request', errorCode: 'CHALLENGE_MISMATCH' };
       }
 
       // If reader authentication is present and enabled, verify it too
-      if (deviceResponse.readerAuth && this.enableReaderAuth) {
+      if (mdlPresentation.readerAuth && this.enableReaderAuth) {
         console.log("   Verifying reader authentication...");
-        const isReaderAuthValid = await this.cryptoSuite.verifyReaderAuth(deviceResponse.readerAuth);
-        
+        const isReaderAuthValid = await this.cryptoSuite.verifyReaderAuth(
+          mdlPresentation.readerAuth,
+          sessionTranscript,
+          this.trustStore
+        );
+
         if (!isReaderAuthValid) {
           console.log("   Reader authentication failed");
-          return { 
-            status: 'rejected', 
-            error: 'Reader authentication failed' 
+          return {
+            status: 'rejected',
+            error: 'Reader authentication failed'
           };
         }
       }
 
-      // Verify the mDL data structure
-      const mdoc = deviceResponse.mdoc;
-      if (!mdoc) {
-        console.log("   No mDoc data found");
-        return { status: 'rejected', error: 'No mDoc data' };
+      // Document signers must chain to a configured IACA; without a trust store no issuer is trusted
+      const trustStore = this.trustStore;
+      if (!trustStore) {
+        console.log("   No IACA trust store configured");
+        return { status: 'rejected', error: 'No IACA trust store configured' };
       }
 
-      // Check if the mDoc contains the required data elements
-      const dataElements = mdoc.dataElements;
-      if (!dataElements || Object.keys(dataElements).length === 0) {
-        console.log("   No data elements found in mDoc");
-        return { status: 'rejected', error: 'No data elements' };
+      const results: CredentialVerificationResult[] = [];
+      for (const document of documents) {
+        results.push(await this.verifyDocument(document, sessionTranscript, mdlPresentation.eReaderKey, trustStore));
+      }
+      const failed = results.find(result => result.status === 'rejected');
+      if (failed) {
+        return { status: 'rejected', error: failed.error, errorCode: failed.errorCode, credentials: results };
       }
 
       console.log("   mDL verification successful");
-      const claims = dataElements?.['org.iso.18013.5.1'] || {};
-      
-      return { 
+      const [first] = results;
+      return { ...first, credentials: results };
+    } catch (error) {
+      console.log(`   mDL verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        status: 'rejected',
+        error: error instanceof Error ? error.message : 'Unknown error during mDL verification'
+      };
+    }
+  }
+
+  /**
+   * Verifies a single document of the DeviceResponse: MSO signature and digests, document signer chain,
+   * device authentication and, when configured, issuer trust and the MSO status
+   */
+  private async verifyDocument(
+    document: Map<string, any>,
+    sessionTranscript: Uint8Array,
+    eReaderKey: KeyObject | undefined,
+    trustStore: MdocTrustStore
+  ): Promise<CredentialVerificationResult> {
+    const docType = document.get('docType');
+    try {
+      const issuerSigned = await this.cryptoSuite.verifyIssuerSigned(docType, document.get('issuerSigned'), {
+        clockSkew: this.clockSkew
+      });
+      await trustStore.validateDocumentSigner(issuerSigned.certificateChain, { docType });
+
+      // Verify the device authentication using the crypto suite
+      const isDeviceAuthValid = await this.cryptoSuite.verifyDeviceAuth({
+        docType,
+        deviceSigned: document.get('deviceSigned'),
+        deviceKey: issuerSigned.deviceKey,
+        sessionTranscript,
+        eReaderKey
+      });
+      if (!isDeviceAuthValid) {
+        console.log(`   Device authentication failed for ${docType}`);
+        return { status: 'rejected', credentialType: docType, error: 'Device authentication failed', errorCode: 'PRESENTATION_PROOF_INVALID' };
+      }
+      if (Object.keys(issuerSigned.claims).length === 0) {
+        console.log(`   No data elements found in ${docType}`);
+        return { status: 'rejected', credentialType: docType, error: 'No data elements' };
+      }
+      // The document signer must have been accredited for the docType when it signed the MSO
+      const issuer = issuerSigned.certificate.subject.replace(/\n/g, ', ');
+      let trustDecision: TrustDecision | undefined;
+      if (this.trustRegistry) {
+        trustDecision = await this.trustRegistry.isTrusted({
+          issuer,
+          credentialType: issuerSigned.docType,
+          time: issuerSigned.validityInfo.signed,
+          certificateChain: issuerSigned.certificateChain.map(certificate => new Uint8Array(certificate.raw))
+        });
+        if (!trustDecision.trusted) {
+          console.log(`   mdoc ${docType} issuer not trusted: ${trustDecision.reason}`);
+          return { status: 'rejected', credentialType: docType, error: trustDecision.reason || 'Issuer is not trusted', errorCode: 'ISSUER_NOT_TRUSTED', trustDecision };
+        }
+      }
+      // Status check against the status list the MSO references
+      const referencedToken = { docType, status: issuerSigned.status };
+      let statusResult: StatusResult | undefined;
+      if (this.statusChecker && (!this.statusChecker.canHandle || this.statusChecker.canHandle(referencedToken))) {
+        statusResult = await this.statusChecker.checkStatus(referencedToken);
+        if (!statusResult.active) {
+          console.log(`   mdoc ${docType} status check failed: ${statusResult.reason}`);
+          return { status: 'rejected', credentialType: docType, error: statusResult.reason || 'Credential revoked or suspended', statusResult };
+        }
+      }
+      return {
         status: 'verified',
-        claims,
-        credentialType: 'mDL',
-        issuer: 'mDL Device',
-        holder: 'mDL Holder'
+        claims: issuerSigned.claims,
+        credentialType: issuerSigned.docType,
+        issuer,
+        ...(statusResult && { statusResult }),
+        ...(trustDecision && { trustDecision })
       };
     } catch (error) {
-      console.log(`   mDL verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return { 
-        status: 'rejected', 
-        error: error instanceof Error ? error.message : 'Unknown error during mDL verification' 
+      console.log(`   mdoc ${docType} verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        status: 'rejected',
+        credentialType: docType,
+        error: error instanceof Error ? error.message : 'Unknown error during mdoc verification'
       };
     }
   }
-} 
\ No newline at end of file
+}
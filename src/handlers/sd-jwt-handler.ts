@@ -5,34 +5,36 @@
  * Self-contained handler for SD-JWT verifiable presentations
  */
 
-// Minimal SD-JWT proof type
+import { sdJwtSuite } from '../crypto/sd-jwt-suite.ts';
+import { HolderBindingError, jwkThumbprint } from '../crypto/holder-binding.ts';
+import { DidResolver, VerifiablePresentation, PresentationRequest, CredentialVerificationResult, VerificationErrorCode, StatusChecker, StatusResult, TrustDecision, TrustRegistry } from '../types/index.ts';
+
+// SD-JWT proof carried by a presentation
 export interface SdJwtProof {
   type: 'SD-JWT';
-  created: string;
-  verificationMethod: string;
-  proofPurpose: string;
-  sdJwt: string; // The SD-JWT string
+  created?: string;
+  verificationMethod?: string;
+  proofPurpose?: string;
+  sdJwt: string | string[]; // One compact SD-JWT presentation (<issuer-jwt>~<disclosures>~<kb-jwt>) per credential
 }
 
-// Mock SD-JWT crypto suite
-export const sdJwtSuite = {
-  async verifyProof(proof: SdJwtProof): Promise<boolean> {
-    // In a real implementation, verify the SD-JWT signature and disclosures
-    console.log('--> Verifying SD-JWT proof (mock)');
-    if (proof.type !== 'SD-JWT') return false;
-    if (!proof.sdJwt) return false;
-    // ... SD-JWT verification logic here ...
-    return true;
-  }
-};
-
-import { VerifiablePresentation, PresentationRequest } from '../types/index.ts';
+export interface SdJwtHandlerOptions {
+  didResolver?: DidResolver;
+  audience?: string; // Expected Key Binding JWT aud when the request has no domain
+  requireKeyBinding?: boolean; // Default true
+  keyBindingMaxAge?: number; // Seconds, default 300
+  clockSkew?: number; // Seconds, default 60
+  statusChecker?: StatusChecker; // Checks the status.status_list claim (e.g. TokenStatusListChecker)
+  trustRegistry?: TrustRegistry; // Rejects SD-JWTs whose issuer is not accredited for their vct at issuance
+}
 
 export class SdJwtHandler {
   private cryptoSuite: typeof sdJwtSuite;
+  private options: SdJwtHandlerOptions;
 
-  constructor() {
+  constructor(options: SdJwtHandlerOptions = {}) {
     this.cryptoSuite = sdJwtSuite;
+    this.options = options;
   }
 
   /**
@@ -46,6 +48,7 @@ export class SdJwtHandler {
 
   /**
    * Verifies an SD-JWT presentation
+   * Each SD-JWT is verified independently; only claims the holder disclosed (plus always-visible claims) are returned
    */
   async verify(presentation: VerifiablePresentation, originalRequest?: PresentationRequest): Promise<{
     status: 'verified' | 'rejected';
@@ -54,31 +57,93 @@ export class SdJwtHandler {
     issuer?: string;
     holder?: string;
     error?: string;
+    errorCode?: VerificationErrorCode;
+    credentials?: CredentialVerificationResult[];
   }> {
     console.log('-> Verifying with SdJwtHandler...');
+    const proof = presentation.proof;
+    if (!proof || typeof proof !== 'object' || proof.type !== 'SD-JWT' || !('sdJwt' in proof)) {
+      console.log('   No SD-JWT proof found');
+      return { status: 'rejected', error: 'No SD-JWT proof found' };
+    }
+    const { sdJwt } = proof as SdJwtProof;
+    const sdJwts = Array.isArray(sdJwt) ? sdJwt : [sdJwt];
+    if (sdJwts.length === 0) {
+      console.log('   No SD-JWT found');
+      return { status: 'rejected', error: 'No SD-JWT found' };
+    }
+
+    const results: CredentialVerificationResult[] = [];
+    for (const credential of sdJwts) {
+      results.push(await this.verifyPresentedCredential(credential, originalRequest));
+    }
+    const failed = results.find(result => result.status === 'rejected');
+    if (failed) {
+      return { status: 'rejected', error: failed.error, errorCode: failed.errorCode, credentials: results };
+    }
+    const [first] = results;
+    return { ...first, credentials: results };
+  }
+
+  /**
+   * Verifies a single compact SD-JWT against the request challenge and audience
+   */
+  private async verifyPresentedCredential(
+    sdJwt: string,
+    originalRequest?: PresentationRequest
+  ): Promise<CredentialVerificationResult> {
     try {
-      const proof = presentation.proof;
-      if (!proof || typeof proof !== 'object' || proof.type !== 'SD-JWT' || !('sdJwt' in proof)) {
-        console.log('   No SD-JWT proof found');
-        return { status: 'rejected', error: 'No SD-JWT proof found' };
+      const { payload, claims, disclosedPaths, keyBinding } = await this.cryptoSuite.verifyPresentation(sdJwt, {
+        didResolver: this.options.didResolver,
+        challenge: originalRequest?.challenge,
+        audience: originalRequest?.domain ?? this.options.audience,
+        requireKeyBinding: this.options.requireKeyBinding,
+        keyBindingMaxAge: this.options.keyBindingMaxAge,
+        clockSkew: this.options.clockSkew
+      });
+      // The issuer must have been accredited for the vct when it issued the SD-JWT
+      const trustRegistry = this.options.trustRegistry;
+      let trustDecision: TrustDecision | undefined;
+      if (trustRegistry) {
+        trustDecision = await trustRegistry.isTrusted({
+          issuer: payload.iss,
+          credentialType: payload.vct,
+          time: typeof payload.iat === 'number' ? new Date(payload.iat * 1000) : undefined
+        });
+        if (!trustDecision.trusted) {
+          console.log(`   SD-JWT issuer not trusted: ${trustDecision.reason}`);
+          return { status: 'rejected', credentialType: payload.vct || 'SD-JWT', error: trustDecision.reason || 'Issuer is not trusted', errorCode: 'ISSUER_NOT_TRUSTED', trustDecision };
+        }
       }
-      const isProofValid = await this.cryptoSuite.verifyProof(proof as SdJwtProof);
-      if (isProofValid) {
-        console.log('   SD-JWT verification successful');
-        return {
-          status: 'verified',
-          claims: presentation.verifiableCredential?.[0]?.credentialSubject || {},
-          credentialType: 'SD-JWT',
-          issuer: presentation.verifiableCredential?.[0]?.issuer,
-          holder: presentation.holder
-        };
-      } else {
-        console.log('   SD-JWT verification failed');
-        return { status: 'rejected', error: 'SD-JWT proof verification failed' };
+      // Status check, once the issuer signature (and so the status claim) is verified
+      const statusChecker = this.options.statusChecker;
+      let statusResult: StatusResult | undefined;
+      if (statusChecker && (!statusChecker.canHandle || statusChecker.canHandle(payload))) {
+        statusResult = await statusChecker.checkStatus(payload);
+        if (!statusResult.active) {
+          console.log(`   SD-JWT status check failed: ${statusResult.reason}`);
+          return { status: 'rejected', credentialType: payload.vct || 'SD-JWT', error: statusResult.reason || 'Credential revoked or suspended', statusResult };
+        }
       }
+      console.log('   SD-JWT verification successful');
+      return {
+        status: 'verified',
+        claims,
+        disclosedPaths,
+        credentialType: payload.vct || 'SD-JWT',
+        issuer: payload.iss,
+        // Only signed data names the holder: the subject, or the cnf key the Key Binding JWT was verified with
+        holder: payload.sub ?? (keyBinding && payload.cnf?.jwk ? `urn:ietf:params:oauth:jwk-thumbprint:sha-256:${jwkThumbprint(payload.cnf.jwk)}` : undefined),
+        ...(statusResult && { statusResult }),
+        ...(trustDecision && { trustDecision })
+      };
     } catch (error) {
       console.log(`   SD-JWT verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return { status: 'rejected', error: error instanceof Error ? error.message : 'Unknown error during SD-JWT verification' };
+      return {
+        status: 'rejected',
+        error: error instanceof Error ? error.message : 'Unknown error during SD-JWT verification',
+        errorCode: error instanceof HolderBindingError ? error.code : undefined
+      };
     }
   }
-} 
\ No newline at end of file
+}
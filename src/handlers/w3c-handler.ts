@@ -3,41 +3,66 @@
  * Self-contained handler for W3C verifiable presentations
  */
 
-import { DidResolver, Logger, SchemaRegistry } from '../types/index.ts';
+import { DidResolver, DocumentLoader, Logger, SchemaRegistry, TrustRegistry } from '../types/index.ts';
 
 export interface W3cHandlerOptions {
   didResolver?: DidResolver;
+  documentLoader?: DocumentLoader;
   logger?: Logger;
-  schemaRegistry?: SchemaRegistry;
+  schemaRegistry?: SchemaRegistry; // Loads the credentialSchema entries credentials are validated against
+  schemaValidation?: 'reject' | 'warn'; // Whether a schema violation rejects the credential or only warns (default 'reject')
   statusChecker?: StatusChecker;
+  trustRegistry?: TrustRegistry; // Rejects credentials whose issuer is not accredited for their type at issuance
+  domain?: string; // Expected presentation proof domain when the request has no domain
+  requireHolderBinding?: boolean; // Reject presentations without an authentication proof by the holder (default true)
 }
 
-import { ed25519Suite, Ed25519Proof } from '../crypto/ed25519-suite.ts';
-import { ecdsaR1Suite, EcdsaR1Proof } from '../crypto/ecdsa-r1-suite.ts';
-import { ecdsaR2Suite, EcdsaR2Proof } from '../crypto/ecdsa-r2-suite.ts';
-import { bbsSuite, BbsProof } from '../crypto/bbs-suite.ts';
-import { jwsSuite, JwsProof } from '../crypto/jws-suite.ts';
-import { VerifiablePresentation, PresentationRequest, VerificationResult, VerifiableCredential, StatusChecker } from '../types/index.ts';
+import { ed25519Suite } from '../crypto/ed25519-suite.ts';
+import { ecdsaR1Suite } from '../crypto/ecdsa-r1-suite.ts';
+import { ecdsaR2Suite } from '../crypto/ecdsa-r2-suite.ts';
+import { ecdsaRdfc2019Suite, ecdsaJcs2019Suite } from '../crypto/ecdsa-data-integrity-suite.ts';
+import { bbsSuite } from '../crypto/bbs-suite.ts';
+import { bbs2023Suite } from '../crypto/bbs-2023-suite.ts';
+import { jwsSuite } from '../crypto/jws-suite.ts';
+import { documentLoader as bundledDocumentLoader } from '../crypto/document-loader.ts';
+import { checkSubjectBinding, HolderBindingError, HolderKey } from '../crypto/holder-binding.ts';
+import { publicKeyFromVerificationMethod, resolveVerificationMethod } from '../crypto/verification-method.ts';
+import { validateJsonSchema } from '../schema/json-schema.ts';
+import { VerifiablePresentation, PresentationRequest, VerificationResult, VerifiableCredential, StatusChecker, CryptoSuite, CredentialVerificationResult, VerificationErrorCode, StatusResult, TrustDecision, SchemaValidationResult, SchemaValidationError } from '../types/index.ts';
 
 export class W3cHandler {
   private didResolver?: DidResolver;
+  private documentLoader: DocumentLoader;
   private logger?: Logger;
   private schemaRegistry?: SchemaRegistry;
-  private cryptoSuites: Record<string, any>;
+  private schemaValidation: 'reject' | 'warn';
+  private cryptoSuites: Record<string, CryptoSuite>;
   private statusChecker?: StatusChecker;
+  private trustRegistry?: TrustRegistry;
+  private domain?: string;
+  private requireHolderBinding: boolean;
 
   constructor(options: W3cHandlerOptions = {}) {
     this.didResolver = options.didResolver;
+    this.documentLoader = options.documentLoader || bundledDocumentLoader;
     this.logger = options.logger;
     this.schemaRegistry = options.schemaRegistry;
+    this.schemaValidation = options.schemaValidation ?? 'reject';
     this.statusChecker = options.statusChecker;
-    // Map all supported W3C Data Integrity proof types to their suites
+    this.trustRegistry = options.trustRegistry;
+    this.domain = options.domain;
+    this.requireHolderBinding = options.requireHolderBinding ?? true;
+    // Map all supported W3C Data Integrity proof types (and DataIntegrityProof cryptosuites) to their suites
     this.cryptoSuites = {
       'Ed25519Signature2020': ed25519Suite,
       'Ed25519Signature2018': ed25519Suite,
       'EcdsaSecp256r1Signature2019': ecdsaR1Suite,
       'EcdsaSecp256k1Signature2019': ecdsaR2Suite,
+      'ecdsa-rdfc-2019': ecdsaRdfc2019Suite,
+      'ecdsa-jcs-2019': ecdsaJcs2019Suite,
       'BbsBlsSignature2020': bbsSuite,
+      'BbsBlsSignatureProof2020': bbsSuite,
+      'bbs-2023': bbs2023Suite,
       'JsonWebSignature2020': jwsSuite
     };
   }
@@ -53,6 +78,8 @@ export class W3cHandler {
 
   /**
    * Verifies a W3C verifiable presentation
+   * The presentation proof must be an authentication proof by the holder over the request challenge and domain;
+   * every credential is then verified independently and the presentation is rejected if any credential fails
    */
   async verify(presentation: VerifiablePresentation, originalRequest?: PresentationRequest): Promise<{
     status: 'verified' | 'rejected';
@@ -61,62 +88,306 @@ export class W3cHandler {
     issuer?: string;
     holder?: string;
     error?: string;
+    errorCode?: VerificationErrorCode;
+    credentials?: CredentialVerificationResult[];
   }> {
     (this.logger || console).log("-> Verifying with W3cHandler...");
     (this.logger || console).log(`   Presentation type: ${Array.isArray(presentation.type) ? presentation.type.join(', ') : presentation.type}`);
+    const credentials = presentation.verifiableCredential || [];
+    if (credentials.length === 0) {
+      (this.logger || console).log("   No verifiable credential found");
+      return { status: 'rejected', error: 'No verifiable credential' };
+    }
+
+    let holderKey: HolderKey | undefined;
     try {
-      const credential = presentation.verifiableCredential?.[0];
-      if (!credential) {
-        (this.logger || console).log("   No verifiable credential found");
-        return { status: 'rejected', error: 'No verifiable credential' };
+      holderKey = await this.verifyHolderBinding(presentation, originalRequest);
+    } catch (error) {
+      (this.logger || console).log(`   Holder binding failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {
+        status: 'rejected',
+        error: error instanceof Error ? error.message : 'Unknown error during holder binding',
+        errorCode: error instanceof HolderBindingError ? error.code : 'PRESENTATION_PROOF_INVALID'
+      };
+    }
+
+    const results: CredentialVerificationResult[] = [];
+    for (const [index, credential] of credentials.entries()) {
+      (this.logger || console).log(`   Credential ${index + 1} of ${credentials.length}`);
+      results.push(await this.verifyPresentedCredential(credential, presentation, holderKey, originalRequest));
+    }
+
+    const failed = results.find(result => result.status === 'rejected');
+    if (failed) {
+      return { status: 'rejected', error: failed.error, errorCode: failed.errorCode, credentials: results };
+    }
+    const [first] = results;
+    return {
+      status: 'verified',
+      claims: first.claims,
+      credentialType: first.credentialType,
+      issuer: first.issuer,
+      holder: presentation.holder,
+      credentials: results
+    };
+  }
+
+  /**
+   * Verifies the presentation proof: an authentication proof made by the holder, bound to the request
+   * challenge and domain
+   * @returns Promise<HolderKey | undefined> - The holder key, or undefined when holder binding is optional and absent
+   * @throws HolderBindingError - When the presentation is not bound to the holder or to the request
+   */
+  private async verifyHolderBinding(presentation: VerifiablePresentation, originalRequest?: PresentationRequest): Promise<HolderKey | undefined> {
+    const proof = presentation.proof;
+    if (!proof) {
+      if (!this.requireHolderBinding) {
+        return undefined;
       }
-      // Status check (for each credential)
-      if (this.statusChecker) {
-        const statusResult = await this.statusChecker.checkStatus(credential);
-        if (!statusResult.active) {
-          (this.logger || console).log("   Credential is revoked or suspended");
-          return { status: 'rejected', error: statusResult.reason || 'Credential revoked or suspended' };
+      throw new HolderBindingError('PRESENTATION_PROOF_MISSING', 'Presentation has no proof');
+    }
+    if (proof.proofPurpose !== 'authentication') {
+      throw new HolderBindingError('PROOF_PURPOSE_INVALID', `Presentation proof purpose must be authentication, got ${proof.proofPurpose}`);
+    }
+    if (!presentation.holder || proof.verificationMethod?.split('#')[0] !== presentation.holder) {
+      throw new HolderBindingError('HOLDER_KEY_MISMATCH', 'Presentation proof verification method does not belong to the holder');
+    }
+
+    // The challenge and domain bind the presentation to this request, preventing replay
+    const challenge = originalRequest?.challenge;
+    if (!challenge) {
+      throw new HolderBindingError('CHALLENGE_MISMATCH', 'Presentation proof cannot be checked without a presentation request challenge');
+    }
+    if (proof.challenge !== challenge) {
+      throw new HolderBindingError('CHALLENGE_MISMATCH', 'Presentation proof challenge does not match the request challenge');
+    }
+    const domain = originalRequest?.domain ?? this.domain;
+    const proofDomains = Array.isArray(proof.domain) ? proof.domain : [proof.domain];
+    if (domain && !proofDomains.includes(domain)) {
+      throw new HolderBindingError('DOMAIN_MISMATCH', 'Presentation proof domain does not match the request domain');
+    }
+
+    // The key must be one the holder authorized for authentication
+    try {
+      await resolveVerificationMethod(proof.verificationMethod, this.didResolver, 'authentication');
+    } catch (error) {
+      throw new HolderBindingError('HOLDER_KEY_MISMATCH', error instanceof Error ? error.message : 'Presentation proof key is not an authentication key of the holder');
+    }
+
+    const suiteName = proof.type === 'DataIntegrityProof' ? proof.cryptosuite : proof.type;
+    const cryptoSuite = this.cryptoSuites[suiteName];
+    if (!cryptoSuite) {
+      throw new HolderBindingError('PRESENTATION_PROOF_INVALID', `Unsupported presentation proof type: ${suiteName}`);
+    }
+    const isProofValid = await cryptoSuite.verifyProof(presentation, {
+      didResolver: this.didResolver,
+      documentLoader: this.documentLoader,
+      challenge,
+      proofPurpose: 'authentication'
+    });
+    if (!isProofValid) {
+      throw new HolderBindingError('PRESENTATION_PROOF_INVALID', 'Presentation proof verification failed');
+    }
+    (this.logger || console).log("   Presentation proof verified: holder binding established");
+    return { kid: proof.verificationMethod };
+  }
+
+  /**
+   * Verifies a single credential of the presentation: subject binding to the holder, then the credential itself
+   */
+  private async verifyPresentedCredential(
+    credential: VerifiableCredential,
+    presentation: VerifiablePresentation,
+    holderKey: HolderKey | undefined,
+    originalRequest?: PresentationRequest
+  ): Promise<CredentialVerificationResult> {
+    // The credential must be about the holder who signed the presentation
+    if (holderKey) {
+      try {
+        const subjects = Array.isArray(credential.credentialSubject) ? credential.credentialSubject : [credential.credentialSubject];
+        const cnf = (credential as any).cnf ?? subjects.find(subject => subject?.cnf)?.cnf;
+        if (cnf?.jwk || cnf?.jkt) {
+          holderKey.publicKey ??= publicKeyFromVerificationMethod(await resolveVerificationMethod(holderKey.kid!, this.didResolver));
         }
+        checkSubjectBinding(subjects.map(subject => subject?.id), presentation.holder, cnf, holderKey);
+      } catch (error) {
+        (this.logger || console).log(`   Subject binding failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return {
+          status: 'rejected',
+          error: error instanceof Error ? error.message : 'Unknown error during subject binding',
+          errorCode: error instanceof HolderBindingError ? error.code : undefined
+        };
       }
-      const proof = credential.proof;
-      if (!proof) {
-        (this.logger || console).log("   No proof found in credential");
-        return { status: 'rejected', error: 'No proof found' };
-      }
-      if (!proof.type) {
-        (this.logger || console).log("   Proof type not specified");
-        return { status: 'rejected', error: 'Proof type not specified' };
-      }
-      const cryptoSuite = this.cryptoSuites[proof.type];
-      if (!cryptoSuite) {
-        (this.logger || console).log(`   Unsupported proof type: ${proof.type}`);
-        return { status: 'rejected', error: `Unsupported proof type: ${proof.type}` };
+    }
+    const result = await this.verifyCredential(credential, originalRequest);
+    return result.status === 'verified' ? { ...result, holder: presentation.holder } : result;
+  }
+
+  /**
+   * Verifies a standalone credential: proof, issuer binding and, when configured, issuer trust, schema and status
+   * @param credential - The W3C verifiable credential
+   * @param originalRequest - The presentation request, whose challenge binds derived proofs
+   * @returns Promise<CredentialVerificationResult> - The credential's verification result, including its status result
+   */
+  async verifyCredential(credential: VerifiableCredential, originalRequest?: PresentationRequest): Promise<CredentialVerificationResult> {
+    try {
+      const proofError = await this.verifyIssuerProof(credential, originalRequest?.challenge);
+      if (proofError) {
+        return { status: 'rejected', error: proofError };
       }
-      // Example: use didResolver if available
-      if (this.didResolver && credential.issuer) {
-        await this.didResolver.resolve(credential.issuer);
+      const issuerId = typeof credential.issuer === 'string' ? credential.issuer : (credential.issuer as any)?.id;
+      const credentialType = Array.isArray(credential?.type) ? credential?.type?.join(', ') : credential?.type || 'VerifiableCredential';
+      // The issuer must have been accredited for the credential type when it issued the credential
+      let trustDecision: TrustDecision | undefined;
+      if (this.trustRegistry) {
+        const issuedAt = (credential as any).validFrom ?? credential.issuanceDate;
+        trustDecision = await this.trustRegistry.isTrusted({ issuer: issuerId, credentialType, time: issuedAt ? new Date(issuedAt) : undefined });
+        if (!trustDecision.trusted) {
+          (this.logger || console).log(`   Issuer not trusted: ${trustDecision.reason}`);
+          return { status: 'rejected', error: trustDecision.reason || 'Issuer is not trusted', errorCode: 'ISSUER_NOT_TRUSTED', trustDecision };
+        }
       }
-      // Example: use schemaRegistry if available
-      if (this.schemaRegistry && credential.type) {
-        await this.schemaRegistry.getSchema(Array.isArray(credential.type) ? credential.type[0] : credential.type);
+      // Schema validation of the credential subject against its credentialSchema entries
+      let schemaResult: SchemaValidationResult | undefined;
+      if (this.schemaRegistry && credential.credentialSchema) {
+        schemaResult = await this.validateCredentialSchemas(credential);
+        if (!schemaResult.valid) {
+          const summary = schemaResult.errors.map(error => `${error.instancePath || '/'} ${error.message}`).join('; ');
+          if (this.schemaValidation === 'reject') {
+            (this.logger || console).log(`   Schema validation failed: ${summary}`);
+            return { status: 'rejected', error: `Credential does not conform to its schema: ${summary}`, errorCode: 'SCHEMA_INVALID', schemaResult };
+          }
+          (this.logger || console).log(`   Schema validation warning: ${summary}`);
+        }
       }
-      const isProofValid = await cryptoSuite.verifyProof(proof as Ed25519Proof);
-      if (isProofValid) {
-        (this.logger || console).log("   W3C verification successful");
-        return {
-          status: 'verified',
-          claims: credential?.credentialSubject || {},
-          credentialType: Array.isArray(credential?.type) ? credential?.type?.join(', ') : credential?.type || 'VerifiableCredential',
-          issuer: credential?.issuer,
-          holder: presentation.holder
-        };
-      } else {
-        (this.logger || console).log("   W3C verification failed");
-        return { status: 'rejected', error: 'Proof verification failed' };
+      // Status check, once the credential (and so its status entries) is known to be authentic
+      let statusResult: StatusResult | undefined;
+      if (this.statusChecker && (!this.statusChecker.canHandle || this.statusChecker.canHandle(credential))) {
+        statusResult = await this.statusChecker.checkStatus(credential);
+        if (!statusResult.active) {
+          (this.logger || console).log(`   Credential status check failed (${statusResult.purpose || 'status'}): ${statusResult.reason}`);
+          return { status: 'rejected', error: statusResult.reason || 'Credential revoked or suspended', statusResult };
+        }
+        if (statusResult.message) {
+          (this.logger || console).log(`   Credential status message: ${statusResult.message}`);
+        }
+        for (const warning of statusResult.warnings ?? []) {
+          (this.logger || console).log(`   Credential status warning: ${warning}`);
+        }
       }
+      (this.logger || console).log("   W3C verification successful");
+      // For derived (selective disclosure) proofs credentialSubject holds exactly the revealed claims:
+      // the BBS proof check takes every canonical statement of the document as a disclosed message
+      return {
+        status: 'verified',
+        claims: credential?.credentialSubject || {},
+        credentialType,
+        issuer: credential?.issuer,
+        ...(statusResult && { statusResult }),
+        ...(trustDecision && { trustDecision }),
+        ...(schemaResult && { schemaResult })
+      };
     } catch (error) {
       (this.logger || console).error(`   W3C verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return { status: 'rejected', error: error instanceof Error ? error.message : 'Unknown error during W3C verification' };
+      return {
+        status: 'rejected',
+        error: error instanceof Error ? error.message : 'Unknown error during W3C verification',
+        errorCode: error instanceof HolderBindingError ? error.code : undefined
+      };
+    }
+  }
+
+  /**
+   * Verifies a credential's embedded proof and that it was made with one of the issuer's keys
+   * @param credential - The credential
+   * @param challenge - The request challenge that derived proofs are bound to
+   * @returns Promise<string | undefined> - Why the proof is rejected, undefined when it verifies
+   */
+  private async verifyIssuerProof(credential: VerifiableCredential, challenge?: string): Promise<string | undefined> {
+    const proof = credential.proof;
+    if (!proof) {
+      (this.logger || console).log("   No proof found in credential");
+      return 'No proof found';
+    }
+    if (!proof.type) {
+      (this.logger || console).log("   Proof type not specified");
+      return 'Proof type not specified';
+    }
+    // DataIntegrityProof names its algorithm in the cryptosuite property
+    const suiteName = proof.type === 'DataIntegrityProof' ? proof.cryptosuite : proof.type;
+    const cryptoSuite = this.cryptoSuites[suiteName];
+    if (!cryptoSuite) {
+      (this.logger || console).log(`   Unsupported proof type: ${suiteName}`);
+      return `Unsupported proof type: ${suiteName}`;
+    }
+    // Only an assertion proof issues a credential; keys for other relationships (e.g. authentication) must not
+    if (proof.proofPurpose !== 'assertionMethod') {
+      (this.logger || console).log(`   Credential proof purpose is ${proof.proofPurpose}, not assertionMethod`);
+      return 'Credential proof purpose must be assertionMethod';
+    }
+    // The proof must be made with a key controlled by the issuer
+    const issuerId = typeof credential.issuer === 'string' ? credential.issuer : (credential.issuer as any)?.id;
+    if (!proof.verificationMethod || proof.verificationMethod.split('#')[0] !== issuerId) {
+      (this.logger || console).log("   Verification method is not controlled by the issuer");
+      return 'Proof verification method does not belong to the issuer';
+    }
+    const isProofValid = await cryptoSuite.verifyProof(credential, {
+      didResolver: this.didResolver,
+      documentLoader: this.documentLoader,
+      challenge,
+      proofPurpose: 'assertionMethod'
+    });
+    if (!isProofValid) {
+      (this.logger || console).log("   W3C verification failed");
+      return 'Proof verification failed';
+    }
+    return undefined;
+  }
+
+  /**
+   * Validates every credential subject against each credentialSchema entry, loading the schemas through the
+   * schema registry; a JsonSchemaCredential must carry a valid proof by its issuer
+   * @param credential - The verified credential
+   * @returns Promise<SchemaValidationResult> - The violations, with instance paths from the credential root
+   */
+  private async validateCredentialSchemas(credential: VerifiableCredential): Promise<SchemaValidationResult> {
+    const entries = Array.isArray(credential.credentialSchema) ? credential.credentialSchema : [credential.credentialSchema!];
+    const subjects = Array.isArray(credential.credentialSubject) ? credential.credentialSubject : [credential.credentialSubject];
+    const errors: SchemaValidationError[] = [];
+    for (const [position, entry] of entries.entries()) {
+      const instancePath = Array.isArray(credential.credentialSchema) ? `/credentialSchema/${position}` : '/credentialSchema';
+      const loadError = (message: string) => errors.push({ instancePath, schemaPath: '', keyword: 'credentialSchema', message, schema: entry?.id });
+      let schema: any = await this.schemaRegistry!.getSchema(entry?.id);
+      if (schema === undefined) {
+        loadError(`Schema ${entry?.id} is not in the schema registry`);
+        continue;
+      }
+      if (entry.type === 'JsonSchemaCredential') {
+        const schemaCredential: VerifiableCredential = schema;
+        const proofError = await this.verifyIssuerProof(schemaCredential);
+        const schemaSubject = schemaCredential.credentialSubject as any;
+        if (proofError) {
+          loadError(`Schema credential ${entry.id} is not valid: ${proofError}`);
+          continue;
+        }
+        if (!schemaCredential.type?.includes('JsonSchemaCredential') || schemaSubject?.type !== 'JsonSchema' || schemaSubject.jsonSchema === undefined) {
+          loadError(`Schema credential ${entry.id} is not a JsonSchemaCredential with a jsonSchema subject`);
+          continue;
+        }
+        schema = schemaSubject.jsonSchema;
+      } else if (entry.type !== 'JsonSchema') {
+        loadError(`Unsupported credentialSchema type ${entry?.type}`);
+        continue;
+      }
+      subjects.forEach((subject, index) => {
+        const subjectPath = Array.isArray(credential.credentialSubject) ? `/credentialSubject/${index}` : '/credentialSubject';
+        try {
+          errors.push(...validateJsonSchema(schema, subject, { instancePath: subjectPath }).map(error => ({ ...error, schema: entry.id })));
+        } catch (error) {
+          loadError(`Schema ${entry.id} is not usable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      });
     }
+    return { valid: errors.length === 0, schemas: entries.map(entry => entry?.id), errors };
   }
 } 
\ No newline at end of file
@@ -1,14 +1,14 @@
 /**
  * Age Verification Policy (compact)
- * Passes if a birthdate claim is present
+ * Passes if a birthdate claim is present in any credential of the presentation
  */
 
 import { Policy, PolicyResult, VerificationData } from '../types';
+import { findBirthdate } from './claims.ts';
 
 export class AgeVerificationPolicy implements Policy {
   execute(verificationData: VerificationData): PolicyResult {
-    const { claims } = verificationData;
-    const hasBirthdate = !!(claims.birthdate || claims.birth_date || claims.dateOfBirth);
+    const hasBirthdate = !!findBirthdate(verificationData);
     return {
       compliant: hasBirthdate,
       errors: hasBirthdate ? undefined : ['Missing required birthdate claim'],
@@ -0,0 +1,38 @@
+/**
+ * Claim lookup helpers shared by policies
+ */
+
+import { VerificationData } from '../types';
+
+/**
+ * Flattens mdoc claims, which handlers return grouped by namespace (e.g. org.iso.18013.5.1), so policies find
+ * data elements by name; top-level claims win over namespaced ones of the same name
+ * @param claims - The claims of one credential
+ * @returns Record<string, any> - The claims with the elements of every namespace at the top level
+ */
+export function flattenClaims(claims: Record<string, any> | undefined): Record<string, any> {
+  const flattened: Record<string, any> = {};
+  for (const [name, value] of Object.entries(claims ?? {})) {
+    // Namespaces are reverse domain names
+    if (name.includes('.') && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      Object.assign(flattened, value);
+    }
+  }
+  return { ...flattened, ...claims };
+}
+
+/**
+ * Finds the birthdate claim in the first credential or, failing that, any other credential of the presentation
+ * @param verificationData - The verification data from the handler
+ * @returns string | undefined - The birthdate claim value
+ */
+export function findBirthdate(verificationData: VerificationData): string | undefined {
+  const claimSets = [verificationData.claims, ...(verificationData.credentials || []).map(credential => credential.claims)];
+  for (const claims of claimSets.map(flattenClaims)) {
+    const birthdate = claims.birthdate || claims.birth_date || claims.dateOfBirth;
+    if (birthdate) {
+      return birthdate;
+    }
+  }
+  return undefined;
+}
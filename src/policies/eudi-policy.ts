@@ -3,15 +3,25 @@
  * Ensures credentials meet European Digital Identity (EUDI) requirements
  */
 
-import { Policy, PolicyResult, VerificationData } from '../types';
+import { Policy, PolicyResult, TrustDecision, TrustRegistry, VerificationData } from '../types';
+
+export interface EudiPolicyOptions {
+  trustRegistry?: TrustRegistry; // Registry of accredited EUDI issuers; without one every issuer is rejected
+}
 
 export class EudiPolicy implements Policy {
+  private trustRegistry?: TrustRegistry;
+
+  constructor(options: EudiPolicyOptions = {}) {
+    this.trustRegistry = options.trustRegistry;
+  }
+
   /**
    * Executes the EUDI compliance policy
    * @param verificationData - The verification data from the handler
-   * @returns PolicyResult - Whether the credential is EUDI compliant
+   * @returns Promise<PolicyResult> - Whether the credential is EUDI compliant
    */
-  execute(verificationData: VerificationData): PolicyResult {
+  async execute(verificationData: VerificationData): Promise<PolicyResult> {
     const { claims, credentialType, issuer } = verificationData;
     const errors: string[] = [];
 
@@ -28,13 +38,17 @@ export class EudiPolicy implements Policy {
       }
     }
 
-    // 3. Check trusted issuer (example, adapt as needed)
-    const trustedEUDI = [
-      'did:example:eudi-authority',
-      'did:eu:trusted-issuer'
-    ];
-    if (issuer && !trustedEUDI.includes(issuer)) {
-      errors.push(`Issuer '${issuer}' is not a trusted EUDI issuer.`);
+    // 3. Check the issuer is accredited for the credential type now
+    let trustDecision: TrustDecision | undefined;
+    if (!this.trustRegistry) {
+      errors.push('No trust registry configured for EUDI issuers.');
+    } else if (!issuer) {
+      errors.push('Credential has no issuer.');
+    } else {
+      trustDecision = await this.trustRegistry.isTrusted({ issuer, credentialType, time: new Date() });
+      if (!trustDecision.trusted) {
+        errors.push(`Issuer '${issuer}' is not a trusted EUDI issuer: ${trustDecision.reason ?? 'not accredited'}`);
+      }
     }
 
     return {
@@ -44,7 +58,8 @@ export class EudiPolicy implements Policy {
         policyName: 'EUDI Credential',
         credentialType,
         issuer,
-        hasRequiredClaims: requiredClaims.every(claim => !!claims[claim])
+        hasRequiredClaims: requiredClaims.every(claim => !!claims[claim]),
+        trustDecision
       }
     };
   }
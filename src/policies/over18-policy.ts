@@ -1,14 +1,14 @@
 /**
  * Over 18 Policy (compact)
- * Passes if a birthdate claim is present and subject is at least 18 years old
+ * Passes if a birthdate claim is present in any credential and subject is at least 18 years old
  */
 
 import { Policy, PolicyResult, VerificationData } from '../types';
+import { findBirthdate } from './claims.ts';
 
 export class Over18Policy implements Policy {
   execute(verificationData: VerificationData): PolicyResult {
-    const { claims } = verificationData;
-    const birthdate = claims.birthdate || claims.birth_date || claims.dateOfBirth;
+    const birthdate = findBirthdate(verificationData);
     if (!birthdate) {
       return {
         compliant: false,
@@ -4,6 +4,7 @@
  */
 
 import { Policy, PolicyResult, VerificationData } from '../types';
+import { flattenClaims } from './claims.ts';
 
 export class ValidityPolicy implements Policy {
   /**
@@ -14,7 +15,8 @@ export class ValidityPolicy implements Policy {
   execute(verificationData: VerificationData): PolicyResult {
     console.log("--> Applying Expiration Policy...");
     
-    const { claims, credentialType } = verificationData;
+    const { credentialType } = verificationData;
+    const claims = flattenClaims(verificationData.claims);
     const errors: string[] = [];
     const now = new Date();
     
@@ -1,18 +1,23 @@
 /**
  * CHAPI (Credential Handler API) Protocol Adapter
- * Handles browser-based credential exchange for web applications
+ * Handles browser-based credential exchange for web applications: asks the wallet for a presentation with a
+ * Verifiable Presentation Request passed to navigator.credentials.get(), and checks that the WebCredential it returns
+ * answers the request's queries and is bound to its challenge and domain
  */
 
-import { VerifiablePresentation, PresentationRequest, VerificationResult } from '../types';
+import { VerifiablePresentation, PresentationRequest, VerificationResult, SessionStore, VprQuery } from '../types';
+import { evaluateVprQuery } from '../query/vpr.ts';
+import { MemorySessionStore } from '../session/memory-session-store.ts';
+import { findSession } from '../session/consume-session.ts';
+import { renderProtocolRequests } from './protocol-requests.ts';
 
 /**
- * CHAPI request structure
+ * The data of the WebCredential navigator.credentials.get() resolves to
  */
-export interface CHAPIRequest {
-  type: string;
-  credentialType?: string[];
-  challenge?: string;
-  domain?: string;
+export interface CHAPIWebCredential {
+  type: string; // web
+  dataType: string; // VerifiablePresentation
+  data: VerifiablePresentation | string; // The presentation, or its JSON
   [key: string]: any;
 }
 
@@ -27,69 +32,129 @@ export interface CHAPIResponse {
 }
 
 /**
- * CHAPI credential request
+ * CHAPI credential request: the options for navigator.credentials.get()
  */
 export interface CHAPICredentialRequest {
   web: {
     VerifiablePresentation: {
-      query: {
-        type: string[];
-        [key: string]: any;
-      };
-      challenge?: string;
+      query: VprQuery[];
+      challenge: string;
       domain?: string;
+      interact?: Record<string, any>; // Interaction services, e.g. for a VC-API exchange
     };
   };
 }
 
+export interface CHAPIAdapterOptions {
+  sessionStore?: SessionStore; // Where issued requests are kept, default in memory
+  requestTtl?: number; // Seconds a request without expiresAt stays open, default 300
+}
+
 /**
  * CHAPI Protocol Adapter
  * Handles CHAPI credential requests for web applications
  */
 export class CHAPIAdapter {
+  private options: CHAPIAdapterOptions;
+  private sessionStore: SessionStore;
+
+  constructor(options: CHAPIAdapterOptions = {}) {
+    this.options = options;
+    this.sessionStore = options.sessionStore ?? new MemorySessionStore();
+  }
+
   /**
-   * Receives a CHAPI credential request
-   * @param request - The CHAPI request from the browser
+   * Creates the navigator.credentials.get() options for a presentation request and registers the request, so the
+   * presentation can be matched to it by its challenge
+   * @param request - The presentation request (e.g. from the verifier's createRequest)
+   * @param options - The VPR queries, default a QueryByExample per requested credential type, and interaction services
+   * @returns Promise<CHAPICredentialRequest> - The credential request for the browser
+   */
+  async createCredentialRequest(request: PresentationRequest, options: {
+    query?: VprQuery | VprQuery[];
+    interact?: Record<string, any>;
+  } = {}): Promise<CHAPICredentialRequest> {
+    const query = options.query
+      ? (Array.isArray(options.query) ? options.query : [options.query])
+      : renderProtocolRequests(request, { chapi: true }, '').chapi!.web.VerifiablePresentation.query as VprQuery[];
+    await this.sessionStore.save({
+      id: request.id,
+      request,
+      nonce: request.challenge,
+      expiresAt: request.expiresAt ?? Date.now() + (this.options.requestTtl ?? 300) * 1000,
+      data: { query }
+    });
+    return {
+      web: {
+        VerifiablePresentation: {
+          query,
+          challenge: request.challenge,
+          ...(request.domain && { domain: request.domain }),
+          ...(options.interact && { interact: options.interact })
+        }
+      }
+    };
+  }
+
+  /**
+   * Receives the WebCredential the browser returned: finds the request by the presentation proof's challenge, checks
+   * the proof's domain and that the presentation answers the request's queries. The challenge is not consumed here,
+   * since the proof is not verified yet and anyone who saw the request could forge a presentation with its challenge:
+   * pass the verification result to recordResult
+   * @param credential - The WebCredential data from navigator.credentials.get()
    * @returns Promise with presentation and original request
+   * @throws Error - When the credential holds no presentation, answers no open request, or does not answer its queries
    */
-  static async receivePresentation(request: CHAPIRequest): Promise<{
+  async receivePresentation(credential: CHAPIWebCredential): Promise<{
     presentation: VerifiablePresentation;
     originalRequest: PresentationRequest;
   }> {
-    console.log("--- CHAPI Request Received ---");
-    console.log(`Request Type: ${request.type}`);
-    console.log(`Domain: ${request.domain}`);
-    
-    // Parse CHAPI request into standard format
-    const originalRequest: PresentationRequest = {
-      id: `chapi-${Date.now()}`,
-      comment: 'CHAPI credential request',
-      request_credentials: request.credentialType ? 
-        request.credentialType.map(type => ({ type, required: true })) :
-        [{ type: 'VerifiableCredential', required: true }],
-      challenge: request.challenge || `challenge-${Date.now()}`
-    };
-    
-    // In a real implementation, this would trigger the credential handler
-    // and wait for the user to select and present credentials
-    // For demo purposes, we'll return a mock presentation
-    const presentation: VerifiablePresentation = {
-      '@context': ['https://www.w3.org/2018/credentials/v1'],
-      type: ['VerifiablePresentation'],
-      verifiableCredential: [],
-      holder: 'did:example:holder',
-      proof: {
-        type: 'Ed25519Signature2020',
-        created: new Date().toISOString(),
-        verificationMethod: 'did:example:holder#key-1',
-        proofPurpose: 'authentication',
-        proofValue: 'mock-chapi-signature'
-      }
-    };
-    
-    return { presentation, originalRequest };
+    console.log("--- CHAPI Response Received ---");
+    const validation = CHAPIAdapter.validateRequest(credential);
+    if (!validation.isValid) {
+      throw new Error(`Invalid CHAPI response: ${validation.errors!.join(', ')}`);
+    }
+    const presentation = typeof credential.data === 'string' ? parsePresentation(credential.data) : credential.data;
+    const proofs = (Array.isArray(presentation.proof) ? presentation.proof : [presentation.proof]).filter(Boolean);
+    const proof = proofs.find(entry => entry.proofPurpose === 'authentication') ?? proofs[0];
+    if (typeof proof?.challenge !== 'string') {
+      throw new Error('Presentation proof carries no challenge');
+    }
+
+    const session = await findSession(this.sessionStore, { nonce: proof.challenge });
+    const { request } = session;
+    console.log(`Request ID: ${request.id}`);
+    console.log(`Domain: ${proof.domain}`);
+    const proofDomains = Array.isArray(proof.domain) ? proof.domain : [proof.domain];
+    if (request.domain && !proofDomains.includes(request.domain)) {
+      throw new Error('Presentation proof domain does not match the request domain');
+    }
+    const { valid, errors } = evaluateVprQuery(session.data?.query ?? [], presentation);
+    if (!valid) {
+      throw new Error(`Presentation does not answer the request: ${errors.join('; ')}`);
+    }
+
+    return { presentation, originalRequest: request };
+  }
+
+  /**
+   * Records the result of verifying the presentation receivePresentation returned. A verified result consumes the
+   * challenge, so the request is answered once; a rejected one leaves it open until it expires
+   * @param requestId - The id of the original request
+   * @param result - The verification result
+   * @throws Error - When the request is unknown or expired, or a presentation was already verified for it
+   */
+  async recordResult(requestId: string, result: VerificationResult): Promise<void> {
+    const session = await this.sessionStore.get(requestId);
+    if (!session) {
+      throw new Error('Unknown or expired request');
+    }
+    if (session.nonceConsumed || (result.status === 'verified' && !await this.sessionStore.consumeNonce(session.nonce))) {
+      throw new Error('Request has already been answered');
+    }
+    await this.sessionStore.save({ ...session, data: { ...session.data, result } });
   }
-  
+
   /**
    * Creates a CHAPI response
    * @param result - The verification result
@@ -101,7 +166,7 @@ export class CHAPIAdapter {
     challenge?: string;
   }): CHAPIResponse {
     console.log("--- Creating CHAPI Response ---");
-    
+
     const response: CHAPIResponse = {
       type: 'VerifiablePresentation',
       dataType: 'VerifiablePresentation',
@@ -115,52 +180,41 @@ export class CHAPIAdapter {
         ...(result.error && { error: result.error })
       }
     };
-    
+
     return response;
   }
-  
+
   /**
-   * Validates a CHAPI request
-   * @param request - The request to validate
+   * Validates the WebCredential returned by the browser
+   * @param credential - The WebCredential data to validate
    * @returns Validation result
    */
-  static validateRequest(request: CHAPIRequest): { isValid: boolean; errors?: string[] } {
+  static validateRequest(credential: CHAPIWebCredential): { isValid: boolean; errors?: string[] } {
     const errors: string[] = [];
-    
-    if (!request.type) {
-      errors.push('Request type is required');
+
+    if (credential?.type !== 'web') {
+      errors.push('Credential type must be web');
     }
-    
-    if (request.type !== 'VerifiablePresentation') {
-      errors.push('Only VerifiablePresentation requests are supported');
+
+    if (credential?.dataType !== 'VerifiablePresentation') {
+      errors.push('Only VerifiablePresentation responses are supported');
     }
-    
+
+    if (!credential?.data) {
+      errors.push('Credential data is required');
+    }
+
     return {
       isValid: errors.length === 0,
       errors: errors.length > 0 ? errors : undefined
     };
   }
-  
-  /**
-   * Creates a CHAPI credential request for the browser
-   * @param options - Request options
-   * @returns CHAPI credential request
-   */
-  static createCredentialRequest(options: {
-    credentialTypes: string[];
-    challenge?: string;
-    domain?: string;
-  }): CHAPICredentialRequest {
-    return {
-      web: {
-        VerifiablePresentation: {
-          query: {
-            type: options.credentialTypes
-          },
-          ...(options.challenge && { challenge: options.challenge }),
-          ...(options.domain && { domain: options.domain })
-        }
-      }
-    };
+}
+
+function parsePresentation(data: string): VerifiablePresentation {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new Error('CHAPI response data is not a JSON presentation');
   }
-} 
\ No newline at end of file
+}
@@ -1,9 +1,35 @@
 /**
  * DIDComm v2 Protocol Adapter
- * Handles decentralized messaging protocol for peer-to-peer credential exchange
+ * Verifier side of present-proof 3.0 over DIDComm v2: sends request-presentation messages, unpacks encrypted or signed
+ * presentation messages, verifies the presentation attachment against the request its thread answers, and replies
+ * with an ack or a problem-report
  */
 
-import { VerifiablePresentation, PresentationRequest, VerificationResult } from '../types';
+import { randomUUID } from 'crypto';
+import { VerifiablePresentation, PresentationRequest, VerificationResult, CredentialVerifier, DidResolver, KeyStore, Session, SessionStore } from '../types';
+import { presentationForFormat } from '../core/index.ts';
+import { MemorySessionStore } from '../session/memory-session-store.ts';
+import { consumeSession, findSession } from '../session/consume-session.ts';
+import { renderProtocolRequests } from './protocol-requests.ts';
+import { authenticatedSender, DIDCommPackMode, packDIDCommMessage, unpackDIDCommMessage, UnpackedDIDCommMessage } from './didcomm-envelope.ts';
+
+// present-proof 3.0 message types
+export const PRESENT_PROOF_PROPOSE_PRESENTATION = 'https://didcomm.org/present-proof/3.0/propose-presentation';
+export const PRESENT_PROOF_REQUEST_PRESENTATION = 'https://didcomm.org/present-proof/3.0/request-presentation';
+export const PRESENT_PROOF_PRESENTATION = 'https://didcomm.org/present-proof/3.0/presentation';
+export const PRESENT_PROOF_ACK = 'https://didcomm.org/present-proof/3.0/ack';
+export const PROBLEM_REPORT = 'https://didcomm.org/report-problem/2.0/problem-report';
+
+// Attachment formats and the vp_token format their string data is verified as (object data is a W3C presentation).
+// mso_mdoc is not among them: mdoc device authentication is bound to a SessionTranscript, which DIDComm does not define
+const ATTACHMENT_FORMATS: Record<string, string> = {
+  'dif/presentation-exchange/submission@v1.0': 'jwt_vp_json',
+  ldp_vp: 'ldp_vp',
+  jwt_vp: 'jwt_vp_json',
+  jwt_vp_json: 'jwt_vp_json',
+  'vc+sd-jwt': 'vc+sd-jwt',
+  'dc+sd-jwt': 'dc+sd-jwt'
+};
 
 /**
  * DIDComm v2 message structure
@@ -11,104 +37,241 @@ import { VerifiablePresentation, PresentationRequest, VerificationResult } from
 export interface DIDCommMessage {
   id: string;
   type: string;
+  typ?: string; // application/didcomm-plain+json
   from?: string;
   to?: string[];
   created_time?: number;
   expires_time?: number;
+  thid?: string; // Thread id: the id of the message that started the thread (e.g. the request-presentation)
+  pthid?: string; // Parent thread id (e.g. an out-of-band invitation)
   body: any;
-  attachments?: any[];
+  attachments?: DIDCommAttachment[];
+}
+
+/**
+ * DIDComm v2 attachment
+ */
+export interface DIDCommAttachment {
+  id?: string;
+  media_type?: string;
+  format?: string; // e.g. dif/presentation-exchange/submission@v1.0, ldp_vp, dc+sd-jwt
+  description?: string;
+  data: {
+    json?: any;
+    base64?: string;
+    jws?: any;
+    links?: string[];
+    hash?: string;
+  };
 }
 
 /**
  * DIDComm v2 presentation request
  */
 export interface DIDCommPresentationRequest {
-  message: DIDCommMessage;
+  message: DIDCommMessage; // The presentation message
   presentation: VerifiablePresentation;
-  originalRequest: PresentationRequest;
+  originalRequest: PresentationRequest; // The request the message's thread answers
+  unpacked: UnpackedDIDCommMessage; // How the message was protected
 }
 
 /**
  * DIDComm v2 response
  */
 export interface DIDCommResponse {
-  message: DIDCommMessage;
+  message: DIDCommMessage; // ack when verified, problem-report otherwise
   verificationResult: VerificationResult;
 }
 
+export interface DIDCommAdapterOptions {
+  did: string; // The verifier's DID; outgoing messages are from it
+  keyStore: KeyStore; // Private keys of the verifier's DID
+  didResolver?: DidResolver; // Default an offline UniversalDidResolver
+  sessionStore?: SessionStore; // Where sent requests are kept, default in memory
+  verifier?: CredentialVerifier; // Verifies the presentations handle() receives
+  packMode?: DIDCommPackMode; // How outgoing messages are packed, default authcrypt
+  requestTtl?: number; // Seconds a request without expiresAt stays open, default 300
+}
+
 /**
  * DIDComm v2 Protocol Adapter
- * Handles DIDComm v2 messages for credential exchange
+ * Handles present-proof 3.0 messages for credential exchange
  */
 export class DIDCommAdapter {
+  private options: DIDCommAdapterOptions;
+  private sessionStore: SessionStore;
+
+  constructor(options: DIDCommAdapterOptions) {
+    this.options = options;
+    this.sessionStore = options.sessionStore ?? new MemorySessionStore();
+  }
+
   /**
-   * Receives a DIDComm v2 presentation message
-   * @param message - The DIDComm v2 message containing the presentation
-   * @returns Promise with presentation and original request
+   * Creates a request-presentation message for a presentation request and registers the request, so the holder's
+   * presentation (whose thid is the request id) can be matched to it
+   * @param request - The presentation request (e.g. from the verifier's createRequest)
+   * @param options - The holder DIDs, goal code and parent thread (e.g. an out-of-band invitation id)
+   * @returns Promise<Object> - The plaintext message and the packed message to send
    */
-  static async receivePresentation(message: DIDCommMessage): Promise<{
-    presentation: VerifiablePresentation;
-    originalRequest: PresentationRequest;
+  async createPresentationRequest(request: PresentationRequest, options: { to: string[]; goalCode?: string; pthid?: string }): Promise<{
+    message: DIDCommMessage;
+    packed: string;
   }> {
+    console.log("--- Creating DIDComm v2 request-presentation ---");
+    const { didcomm } = renderProtocolRequests(request, { didcomm: { from: this.options.did, to: options.to, goalCode: options.goalCode } }, '');
+    const message = { ...didcomm, ...(options.pthid && { pthid: options.pthid }) } as DIDCommMessage;
+    await this.sessionStore.save({
+      id: request.id,
+      request,
+      nonce: request.challenge,
+      expiresAt: request.expiresAt ?? Date.now() + (this.options.requestTtl ?? 300) * 1000,
+      data: { holders: options.to, ...(options.pthid && { pthid: options.pthid }) }
+    });
+    console.log(`Request ${request.id} sent to ${options.to.join(', ')}`);
+    return { message, packed: await this.pack(message) };
+  }
+
+  /**
+   * Receives a present-proof presentation message: unpacks it, finds the request its thread answers, checks an
+   * authenticated sender is one of the DIDs the request was sent to, takes the presentation from its attachment and
+   * consumes the request (so it is answered once)
+   * @param envelope - The received message (encrypted, signed or plaintext)
+   * @returns Promise<DIDCommPresentationRequest> - The presentation and the request it answers
+   * @throws Error - When the message does not unpack, is not a presentation, is not from a holder the request was
+   * sent to, or answers no open request
+   */
+  async receivePresentation(envelope: string | Record<string, any>): Promise<DIDCommPresentationRequest> {
+    const unpacked = await this.unpack(envelope);
+    const { message } = unpacked;
     console.log("--- DIDComm v2 Message Received ---");
     console.log(`Message ID: ${message.id}`);
     console.log(`Message Type: ${message.type}`);
-    
-    // Extract presentation from DIDComm message body
-    const presentation = message.body.presentation as VerifiablePresentation;
-    const originalRequest = message.body.request as PresentationRequest;
-    
-    if (!presentation) {
-      throw new Error('No presentation found in DIDComm message body');
+
+    if (message.type !== PRESENT_PROOF_PRESENTATION) {
+      throw new Error(`Expected a present-proof presentation message, got ${message.type}`);
+    }
+    if (!message.thid) {
+      throw new Error('Presentation message has no thid naming the request it answers');
+    }
+    // The sender and attachment are checked before the request is consumed, so a message from anyone else, or one
+    // in an unsupported format, cannot close it
+    const session = await findSession(this.sessionStore, { id: message.thid });
+    const senderError = holderError(unpacked, session, 'Presentation');
+    if (senderError) {
+      throw new Error(senderError);
     }
-    
-    return { presentation, originalRequest };
+    const presentation = presentationFromAttachments(message.attachments, session.request);
+    await consumeSession(this.sessionStore, { id: message.thid });
+    return { message, presentation, originalRequest: session.request, unpacked };
   }
-  
+
   /**
-   * Creates a DIDComm v2 response message
+   * Handles a received message: verifies a presentation and answers with an ack or problem-report, packed for the
+   * sender; a problem-report from the holder abandons the request it answers
+   * @param envelope - The received message
+   * @returns Promise<Object> - The received message, and for presentations the verification result and the response
+   * @throws Error - When no verifier is configured or the message cannot be unpacked (there is nobody to answer)
+   */
+  async handle(envelope: string | Record<string, any>): Promise<{
+    received: DIDCommMessage;
+    result?: VerificationResult;
+    response?: DIDCommMessage;
+    packed?: string;
+  }> {
+    if (!this.options.verifier) {
+      throw new Error('No verifier configured');
+    }
+    const unpacked = await this.unpack(envelope);
+    const { message } = unpacked;
+    if (message.type === PROBLEM_REPORT) {
+      const thid = message.pthid ?? message.thid;
+      console.log(`Holder reported a problem on thread ${thid}: ${message.body.code} ${message.body.comment ?? ''}`);
+      const session = thid ? await this.sessionStore.get(thid) : undefined;
+      const senderError = session && holderError(unpacked, session, 'Problem report');
+      if (senderError) {
+        console.log(`Ignoring problem report: ${senderError}`);
+      } else if (session) {
+        await this.sessionStore.delete(session.id);
+      }
+      return { received: message };
+    }
+
+    let result: VerificationResult;
+    try {
+      const received = await this.receivePresentation(envelope);
+      result = await this.options.verifier.verify(received.presentation, received.originalRequest);
+    } catch (error) {
+      result = { status: 'rejected', error: error instanceof Error ? error.message : 'Invalid presentation message' };
+    }
+    const { message: response } = DIDCommAdapter.createResponse(result, {
+      thid: message.thid ?? message.id,
+      pthid: message.pthid,
+      from: this.options.did,
+      ...(message.from && { to: [message.from] })
+    });
+    return { received: message, result, response, ...(message.from && { packed: await this.pack(response) }) };
+  }
+
+  /**
+   * Unpacks a received message with the adapter's key store
+   * @param envelope - The received message
+   * @returns Promise<UnpackedDIDCommMessage> - The plaintext message and how it was protected
+   */
+  async unpack(envelope: string | Record<string, any>): Promise<UnpackedDIDCommMessage> {
+    return unpackDIDCommMessage(envelope, this.options);
+  }
+
+  /**
+   * Packs an outgoing message
+   * @param message - The plaintext message
+   * @param mode - How to protect it, default the adapter's packMode
+   * @returns Promise<string> - The packed message
+   */
+  async pack(message: DIDCommMessage, mode: DIDCommPackMode = this.options.packMode ?? 'authcrypt'): Promise<string> {
+    return packDIDCommMessage(message, mode, this.options);
+  }
+
+  /**
+   * Creates the present-proof response to a presentation: an ack in its thread when it verified, otherwise a
+   * problem-report whose parent thread is the presentation's
    * @param result - The verification result
-   * @param options - Additional options for response formatting
-   * @returns DIDComm v2 response message
+   * @param options - The thread (the request id), parent thread, sender and recipients
+   * @returns DIDCommResponse - The plaintext response message
    */
-  static createResponse(result: VerificationResult, options?: {
-    threadId?: string;
+  static createResponse(result: VerificationResult, options: {
+    thid: string;
+    pthid?: string;
     from?: string;
     to?: string[];
   }): DIDCommResponse {
     console.log("--- Creating DIDComm v2 Response ---");
-    
-    const responseMessage: DIDCommMessage = {
-      id: `response-${Date.now()}`,
-      type: 'https://didcomm.org/verifiable-presentation/2.0/verification-response',
-      created_time: Math.floor(Date.now() / 1000),
-      body: {
-        verificationResult: result,
-        status: result.status,
-        ...(result.policyResults && { policyResults: result.policyResults }),
-        ...(result.error && { error: result.error })
+
+    const responseMessage: DIDCommMessage = result.status === 'verified'
+      ? {
+        id: randomUUID(),
+        type: PRESENT_PROOF_ACK,
+        thid: options.thid,
+        ...(options.pthid && { pthid: options.pthid }),
+        ...(options.from && { from: options.from }),
+        ...(options.to && { to: options.to }),
+        created_time: Math.floor(Date.now() / 1000),
+        body: { status: 'OK' }
       }
-    };
-    
-    // Add threading if threadId is provided
-    if (options?.threadId) {
-      responseMessage.body.threadId = options.threadId;
-    }
-    
-    // Add routing information
-    if (options?.from) {
-      responseMessage.from = options.from;
-    }
-    if (options?.to) {
-      responseMessage.to = options.to;
-    }
-    
+      : createProblemReport({
+        code: 'e.p.presentation.verification-failed',
+        comment: result.error ?? 'Presentation verification failed',
+        ...(result.errorCode && { args: [result.errorCode] }),
+        thid: options.thid,
+        from: options.from,
+        to: options.to
+      });
+
     return {
       message: responseMessage,
       verificationResult: result
     };
   }
-  
+
   /**
    * Validates a DIDComm v2 message structure
    * @param message - The message to validate
@@ -116,22 +279,119 @@ export class DIDCommAdapter {
    */
   static validateMessage(message: DIDCommMessage): { isValid: boolean; errors?: string[] } {
     const errors: string[] = [];
-    
+
     if (!message.id) {
       errors.push('Message ID is required');
     }
-    
+
     if (!message.type) {
       errors.push('Message type is required');
     }
-    
+
     if (!message.body) {
       errors.push('Message body is required');
     }
-    
+
+    if (message.type === PRESENT_PROOF_PRESENTATION) {
+      if (!message.thid) {
+        errors.push('Presentation thid is required');
+      }
+      if (!message.attachments?.length) {
+        errors.push('Presentation attachment is required');
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors: errors.length > 0 ? errors : undefined
     };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Creates a report-problem 2.0 problem-report; it starts its own thread, whose parent (pthid) is the thread where the
+ * problem occurred
+ * @param options - The problem code (e.g. e.p.msg.unexpected-message), comment, the thread, sender and recipients
+ * @returns DIDCommMessage - The plaintext problem-report
+ */
+export function createProblemReport(options: {
+  code: string;
+  comment: string;
+  args?: string[];
+  thid: string;
+  from?: string;
+  to?: string[];
+}): DIDCommMessage {
+  return {
+    id: randomUUID(),
+    type: PROBLEM_REPORT,
+    pthid: options.thid,
+    ...(options.from && { from: options.from }),
+    ...(options.to && { to: options.to }),
+    created_time: Math.floor(Date.now() / 1000),
+    body: {
+      code: options.code,
+      comment: options.comment,
+      ...(options.args && { args: options.args })
+    }
+  };
+}
+
+/**
+ * The presentation in a presentation message's attachment: its json or base64 data, taken as the format the
+ * attachment declares
+ * @param attachments - The presentation message's attachments
+ * @param request - The request the presentation answers
+ * @returns VerifiablePresentation - The presentation, in the shape its handler accepts
+ * @throws Error - When there is not exactly one attachment, or its format or data is not supported
+ */
+export function presentationFromAttachments(attachments: DIDCommAttachment[] | undefined, request: PresentationRequest): VerifiablePresentation {
+  if (!attachments?.length) {
+    throw new Error('Presentation message has no attachment');
+  }
+  if (attachments.length > 1) {
+    throw new Error('Presentation messages with more than one attachment are not supported');
+  }
+  const [attachment] = attachments;
+  const format = attachment.format === undefined ? undefined : ATTACHMENT_FORMATS[attachment.format];
+  if (attachment.format === 'mso_mdoc') {
+    throw new Error('mso_mdoc presentations are not supported over DIDComm: there is no SessionTranscript to bind mdoc device authentication to');
+  }
+  if (attachment.format !== undefined && !format) {
+    throw new Error(`Unsupported presentation attachment format: ${attachment.format}`);
+  }
+
+  let value: any;
+  if (attachment.data?.json !== undefined) {
+    value = attachment.data.json;
+  } else if (typeof attachment.data?.base64 === 'string') {
+    // DIDComm attachments use base64url, but standard base64 is accepted too
+    const text = Buffer.from(attachment.data.base64, 'base64').toString('utf8').trim();
+    value = text.startsWith('{') ? JSON.parse(text) : text;
+  } else {
+    throw new Error('Presentation attachment has no json or base64 data (links and jws data are not supported)');
+  }
+  if (typeof value === 'string') {
+    return presentationForFormat(format ?? 'jwt_vp_json', value, request);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Presentation attachment does not hold a presentation');
+  }
+  return value as VerifiablePresentation;
+}
+
+/**
+ * Why a message answering a request does not come from a holder the request was sent to, authenticated by its envelope
+ * @returns string | undefined - The reason, undefined when the request names no holders or the sender is one of them
+ */
+function holderError(unpacked: UnpackedDIDCommMessage, session: Session | undefined, what: string): string | undefined {
+  const holders: string[] | undefined = session?.data?.holders;
+  if (!holders) {
+    return undefined;
+  }
+  const sender = authenticatedSender(unpacked);
+  if (!sender) {
+    return `${what} sender is not authenticated (the message must be authcrypted or signed)`;
+  }
+  return holders.includes(sender) ? undefined : `${what} is from ${sender}, but the request was sent to ${holders.join(', ')}`;
+}
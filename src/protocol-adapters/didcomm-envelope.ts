@@ -0,0 +1,277 @@
+/**
+ * DIDComm v2 Envelopes
+ * Unpacks encrypted (anoncrypt: ECDH-ES+A256KW, authcrypt: ECDH-1PU+A256KW) and signed (JWS) DIDComm messages with
+ * the keys of a local key store, and packs outgoing messages for the key agreement keys of their recipients' DIDs
+ */
+
+import { createPrivateKey, KeyObject } from 'crypto';
+import { DidResolver, KeyStore } from '../types';
+import { decryptJweJson, encryptJweJson, GeneralJwe } from '../crypto/jwe.ts';
+import { decodeJws, signJws, verifyJws } from '../crypto/jws.ts';
+import { base64urlDecode } from '../crypto/encoding.ts';
+import { findVerificationMethod, publicKeyFromVerificationMethod, resolveVerificationMethod } from '../crypto/verification-method.ts';
+import { UniversalDidResolver } from '../did/universal-resolver.ts';
+import type { DIDCommMessage } from './didcomm-adapter.ts';
+
+// Media types of the three message forms
+export const DIDCOMM_PLAIN = 'application/didcomm-plain+json';
+export const DIDCOMM_SIGNED = 'application/didcomm-signed+json';
+export const DIDCOMM_ENCRYPTED = 'application/didcomm-encrypted+json';
+
+// Envelopes a message can be wrapped in: anoncrypt(authcrypt(signed(plaintext)))
+const MAX_ENVELOPE_LAYERS = 3;
+
+// plaintext: unprotected; signed: non-repudiable JWS; anoncrypt: encrypted, sender anonymous; authcrypt: encrypted
+// and sender authenticated by its key agreement key
+export type DIDCommPackMode = 'plaintext' | 'signed' | 'anoncrypt' | 'authcrypt';
+
+export interface DIDCommEnvelopeOptions {
+  keyStore: KeyStore; // Private keys of our DIDs: key agreement keys to decrypt and authcrypt with, authentication keys to sign with
+  didResolver?: DidResolver; // Resolves senders' and recipients' DIDs, default an offline UniversalDidResolver
+}
+
+/**
+ * A received message and how it was protected
+ */
+export interface UnpackedDIDCommMessage {
+  message: DIDCommMessage; // The plaintext message
+  encrypted: boolean;
+  authenticated: boolean; // Encrypted with authcrypt: the sender is authenticated by senderKid
+  signed: boolean; // Signed: the sender is authenticated non-repudiably by signerKid
+  recipientKid?: string; // Our key the message was encrypted to
+  senderKid?: string; // The authcrypt sender's key agreement key
+  signerKid?: string; // The signer's authentication key
+}
+
+let defaultDidResolver: DidResolver | undefined;
+
+/**
+ * Unpacks a DIDComm v2 message: decrypts its encryption envelopes with a key in the key store, verifies its signature
+ * against the signer's DID, and checks the plaintext's from matches the authenticated sender and that it has not expired
+ * @param envelope - The received message (JSON string or parsed)
+ * @param options - The key store and DID resolver
+ * @returns Promise<UnpackedDIDCommMessage> - The plaintext message and its protection
+ * @throws Error - When the message does not decrypt or verify, or the sender does not match
+ */
+export async function unpackDIDCommMessage(envelope: string | Record<string, any>, options: DIDCommEnvelopeOptions): Promise<UnpackedDIDCommMessage> {
+  const didResolver = options.didResolver ?? (defaultDidResolver ??= new UniversalDidResolver());
+  let value = parseJson(envelope);
+  const unpacked: Omit<UnpackedDIDCommMessage, 'message'> = { encrypted: false, authenticated: false, signed: false };
+
+  for (let layer = 0; layer <= MAX_ENVELOPE_LAYERS; layer++) {
+    if (isJwe(value)) {
+      if (unpacked.signed) {
+        throw new Error('DIDComm signed messages must not wrap encrypted messages');
+      }
+      const { plaintext, recipientKid, senderKid } = await decrypt(value, options.keyStore, didResolver);
+      unpacked.encrypted = true;
+      unpacked.recipientKid ??= recipientKid;
+      if (senderKid) {
+        unpacked.authenticated = true;
+        unpacked.senderKid = senderKid;
+      }
+      value = parseJson(Buffer.from(plaintext).toString('utf8'));
+    } else if (isJws(value)) {
+      const { payload, signerKid } = await verifySignature(value, didResolver);
+      unpacked.signed = true;
+      unpacked.signerKid = signerKid;
+      value = payload;
+    } else {
+      break;
+    }
+    if (layer === MAX_ENVELOPE_LAYERS) {
+      throw new Error('DIDComm message has too many envelopes');
+    }
+  }
+
+  const message = value as DIDCommMessage;
+  if (typeof message?.id !== 'string' || typeof message.type !== 'string' || typeof message.body !== 'object' || message.body === null) {
+    throw new Error('Malformed DIDComm plaintext message: id, type and body are required');
+  }
+  for (const kid of [unpacked.senderKid, unpacked.signerKid]) {
+    if (kid !== undefined && message.from !== didOf(kid)) {
+      throw new Error(`DIDComm message from (${message.from}) does not match the sender key ${kid}`);
+    }
+  }
+  if (unpacked.recipientKid && message.to && !message.to.includes(didOf(unpacked.recipientKid))) {
+    throw new Error('DIDComm message was encrypted to a key of a DID it is not addressed to');
+  }
+  if (message.expires_time !== undefined && message.expires_time * 1000 <= Date.now()) {
+    throw new Error(`DIDComm message ${message.id} has expired`);
+  }
+  return { message, ...unpacked };
+}
+
+/**
+ * The sender of a received message, when its envelope proves it: authcrypt or a signature. Anyone can claim a from
+ * in a plaintext or anoncrypt message
+ * @param unpacked - The unpacked message
+ * @returns string | undefined - The from DID, undefined when the sender is not authenticated
+ */
+export function authenticatedSender(unpacked: UnpackedDIDCommMessage): string | undefined {
+  return unpacked.authenticated || unpacked.signed ? unpacked.message.from : undefined;
+}
+
+/**
+ * Packs a DIDComm v2 message: signs it with an authentication key of its from DID, or encrypts it to the key agreement
+ * keys of the DIDs in its to (authcrypt also with a key agreement key of its from DID)
+ * @param message - The plaintext message
+ * @param mode - How to protect the message
+ * @param options - The key store and DID resolver
+ * @returns Promise<string> - The packed message (JSON)
+ * @throws Error - When the key store holds no suitable key of the from DID, or a recipient has no key agreement key
+ */
+export async function packDIDCommMessage(message: DIDCommMessage, mode: DIDCommPackMode, options: DIDCommEnvelopeOptions): Promise<string> {
+  const didResolver = options.didResolver ?? (defaultDidResolver ??= new UniversalDidResolver());
+  const plaintext = { typ: DIDCOMM_PLAIN, ...message };
+  if (mode === 'plaintext') {
+    return JSON.stringify(plaintext);
+  }
+  if ((mode === 'signed' || mode === 'authcrypt') && !message.from) {
+    throw new Error(`${mode} DIDComm messages need a from DID`);
+  }
+
+  if (mode === 'signed') {
+    const signer = await ownKey(message.from!, 'authentication', options.keyStore, didResolver);
+    const [protectedHeader, payload, signature] = signJws({ typ: DIDCOMM_SIGNED }, plaintext, signer.privateKey).split('.');
+    return JSON.stringify({ payload, signatures: [{ protected: protectedHeader, signature, header: { kid: signer.kid } }] });
+  }
+
+  if (!message.to?.length) {
+    throw new Error('Encrypted DIDComm messages need recipients (to)');
+  }
+  const sender = mode === 'authcrypt' ? await ownKey(message.from!, 'keyAgreement', options.keyStore, didResolver) : undefined;
+  const recipientKeys = (await Promise.all(message.to.map(did => keyAgreementKeys(did, didResolver)))).flat();
+  // Every key must share one key type: the sender's, or else the first recipient key's
+  const keyType = keyTypeOf(sender?.privateKey ?? recipientKeys[0]?.publicKey);
+  const recipients = recipientKeys.filter(key => keyTypeOf(key.publicKey) === keyType);
+  for (const did of message.to) {
+    if (!recipients.some(recipient => didOf(recipient.kid) === did)) {
+      throw new Error(`Recipient ${did} has no key agreement key of type ${keyType}`);
+    }
+  }
+  const jwe = encryptJweJson(new TextEncoder().encode(JSON.stringify(plaintext)), recipients, {
+    header: { typ: DIDCOMM_ENCRYPTED },
+    sender
+  });
+  return JSON.stringify(jwe);
+}
+
+/**
+ * Decrypts a JWE layer with the first of its recipient keys the key store holds
+ */
+async function decrypt(jwe: GeneralJwe, keyStore: KeyStore, didResolver: DidResolver): Promise<{ plaintext: Uint8Array; recipientKid: string; senderKid?: string }> {
+  let recipientKid: string | undefined;
+  let privateJwk: Record<string, any> | undefined;
+  for (const recipient of jwe.recipients) {
+    privateJwk = typeof recipient.header?.kid === 'string' ? await keyStore.getPrivateKey(recipient.header.kid) : undefined;
+    if (privateJwk) {
+      recipientKid = recipient.header.kid;
+      break;
+    }
+  }
+  if (!privateJwk || !recipientKid) {
+    throw new Error('DIDComm message is not encrypted to any key in the key store');
+  }
+
+  const header = JSON.parse(Buffer.from(base64urlDecode(jwe.protected)).toString('utf8'));
+  let senderKid: string | undefined;
+  let senderPublicKey: KeyObject | undefined;
+  if (header.alg === 'ECDH-1PU+A256KW') {
+    senderKid = header.skid ?? (header.apu ? Buffer.from(base64urlDecode(header.apu)).toString('utf8') : undefined);
+    if (typeof senderKid !== 'string') {
+      throw new Error('Authcrypt DIDComm message does not name the sender key (skid)');
+    }
+    if (header.apu !== undefined && Buffer.from(base64urlDecode(header.apu)).toString('utf8') !== senderKid) {
+      throw new Error('Authcrypt DIDComm message apu does not match skid');
+    }
+    senderPublicKey = publicKeyFromVerificationMethod(await resolveVerificationMethod(senderKid, didResolver, 'keyAgreement'));
+  } else if (header.alg !== 'ECDH-ES+A256KW') {
+    throw new Error(`Unsupported DIDComm encryption algorithm: ${header.alg}`);
+  }
+  const { plaintext } = decryptJweJson(jwe, recipientKid, createPrivateKey({ key: privateJwk, format: 'jwk' } as any), senderPublicKey);
+  return { plaintext, recipientKid, senderKid };
+}
+
+/**
+ * Verifies a general JSON serialization JWS layer: one of its signatures must verify with an authentication key of
+ * the signer's DID
+ */
+async function verifySignature(jws: Record<string, any>, didResolver: DidResolver): Promise<{ payload: any; signerKid: string }> {
+  for (const entry of jws.signatures) {
+    const compact = `${entry.protected}.${jws.payload}.${entry.signature}`;
+    const decoded = decodeJws(compact);
+    const kid = entry.header?.kid ?? decoded.header.kid;
+    if (typeof kid !== 'string') {
+      continue;
+    }
+    const publicKey = publicKeyFromVerificationMethod(await resolveVerificationMethod(kid, didResolver, 'authentication'));
+    if (verifyJws(decoded, publicKey)) {
+      return { payload: decoded.payload, signerKid: kid };
+    }
+  }
+  throw new Error('DIDComm message signature does not verify');
+}
+
+/**
+ * A private key of one of our DIDs held by the key store, for a verification relationship
+ */
+async function ownKey(did: string, relationship: string, keyStore: KeyStore, didResolver: DidResolver): Promise<{ kid: string; privateKey: KeyObject }> {
+  const didDocument = await resolveDidDocument(did, didResolver);
+  for (const entry of didDocument?.[relationship] ?? []) {
+    const kid = absoluteId(didDocument, typeof entry === 'string' ? entry : entry?.id);
+    const privateJwk = kid ? await keyStore.getPrivateKey(kid) : undefined;
+    if (privateJwk) {
+      return { kid: kid!, privateKey: createPrivateKey({ key: privateJwk, format: 'jwk' } as any) };
+    }
+  }
+  throw new Error(`Key store holds no ${relationship} key of ${did}`);
+}
+
+/**
+ * The key agreement keys of a recipient DID
+ */
+async function keyAgreementKeys(did: string, didResolver: DidResolver): Promise<{ kid: string; publicKey: KeyObject }[]> {
+  const didDocument = await resolveDidDocument(did, didResolver);
+  return (didDocument?.keyAgreement ?? []).flatMap((entry: any) => {
+    const kid = absoluteId(didDocument, typeof entry === 'string' ? entry : entry?.id);
+    const verificationMethod = kid ? findVerificationMethod(didDocument, kid) : undefined;
+    return verificationMethod ? [{ kid: kid!, publicKey: publicKeyFromVerificationMethod(verificationMethod) }] : [];
+  });
+}
+
+async function resolveDidDocument(did: string, didResolver: DidResolver): Promise<any> {
+  const resolved = await didResolver.resolve(did);
+  return resolved?.didDocument ?? resolved;
+}
+
+function absoluteId(didDocument: any, id: string | undefined): string | undefined {
+  return id?.startsWith('#') ? `${didDocument.id}${id}` : id;
+}
+
+function keyTypeOf(key: KeyObject | undefined): string | undefined {
+  return key && (key.asymmetricKeyType === 'ec' ? `ec:${key.asymmetricKeyDetails?.namedCurve}` : key.asymmetricKeyType);
+}
+
+function didOf(kid: string): string {
+  return kid.split('#')[0];
+}
+
+function isJwe(value: any): value is GeneralJwe {
+  return typeof value?.ciphertext === 'string' && Array.isArray(value.recipients);
+}
+
+function isJws(value: any): boolean {
+  return typeof value?.payload === 'string' && Array.isArray(value.signatures);
+}
+
+function parseJson(value: string | Record<string, any>): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error('DIDComm message is not JSON');
+  }
+}
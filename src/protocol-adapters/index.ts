@@ -4,14 +4,21 @@
  */
 
 // Existing OID4VP adapter
-export { OID4VP_Adapter, OID4VPRequest, OID4VPResponse, SessionData, ValidationResult } from './oid4vp-adapter';
+export {
+  OID4VP_Adapter, OID4VPAdapterOptions, OID4VPRequest, OID4VPResponse, OID4VPHttpResponse, OID4VPSigner,
+  ClientIdScheme, OID4VPResponseMode, SessionData, ValidationResult, openId4VpHandover
+} from './oid4vp-adapter';
 
 // New protocol adapters
-export { DIDCommAdapter, DIDCommMessage, DIDCommResponse } from './didcomm-adapter';
-export { CHAPIAdapter, CHAPIRequest, CHAPIResponse, CHAPICredentialRequest } from './chapi-adapter';
-export { WACIAdapter, WACIRequest, WACIResponse } from './waci-adapter';
-export { SIOPAdapter, SIOPRequest, SIOPResponse, SIOPIDToken } from './siop-adapter';
-export { VCAPIAdapter, VCAPIRequest, VCAPIResponse, VCAPIVerificationRequest, VCAPIVerificationResponse } from './vc-api-adapter';
+export { DIDCommAdapter, DIDCommAdapterOptions, DIDCommMessage, DIDCommAttachment, DIDCommResponse, DIDCommPresentationRequest, createProblemReport } from './didcomm-adapter';
+export { packDIDCommMessage, unpackDIDCommMessage, DIDCommPackMode, DIDCommEnvelopeOptions, UnpackedDIDCommMessage } from './didcomm-envelope';
+export { CHAPIAdapter, CHAPIAdapterOptions, CHAPIWebCredential, CHAPIResponse, CHAPICredentialRequest } from './chapi-adapter';
+export { WACIAdapter, WACIAdapterOptions, WACIInvitation, WACIInteraction, WACIInteractionState } from './waci-adapter';
+export { SIOPAdapter, SIOPAdapterOptions, SIOPRequest, SIOPResponse, SIOPIDToken, SIOPSubject, SIOPVerificationResponse } from './siop-adapter';
+export { VCAPIAdapter, VCAPIAdapterOptions, VCAPIRequest, VCAPIResponse, VCAPIProblemDetails, VCAPIVerificationRequest, VCAPIVerificationResponse, VCAPICreateExchangeRequest, VCAPIExchange } from './vc-api-adapter';
+
+// Protocol-native forms of presentation requests
+export { renderProtocolRequests, presentationDefinitionFor } from './protocol-requests';
 
 /**
  * Common Protocol Adapter Interface
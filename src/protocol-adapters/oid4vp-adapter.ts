@@ -1,13 +1,38 @@
 /**
  * OID4VP Protocol Adapter
- * Handles OpenID Connect for Verifiable Presentations protocol specifics
+ * Verifier side of OpenID for Verifiable Presentations: signed authorization request objects (JAR) served by
+ * request_uri, and direct_post / direct_post.jwt (encrypted) authorization responses checked against the
+ * transaction's state and nonce. Its HTTP endpoints run in-process through handle()
  */
 
-import { VerifiablePresentation, PresentationRequest, VerificationResult } from '../types';
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject, randomBytes, X509Certificate } from 'crypto';
+import { VerifiablePresentation, PresentationRequest, VerificationResult, CredentialVerifier, PresentationSubmission, DcqlVpToken, Session, SessionStore } from '../types';
+import { signJws } from '../crypto/jws.ts';
+import { decryptJwe } from '../crypto/jwe.ts';
+import { base64urlEncode, base64urlDecode } from '../crypto/encoding.ts';
+import { jwkThumbprint } from '../crypto/holder-binding.ts';
+import { cborEncoder } from '../crypto/cose.ts';
+import { mdocDeviceAuthSuite } from '../crypto/mdoc-suite.ts';
+import { presentationForFormat } from '../core/index.ts';
+import { MemorySessionStore } from '../session/memory-session-store.ts';
+
+// How the wallet authenticates the verifier's client_id
+export type ClientIdScheme = 'redirect_uri' | 'x509_san_dns' | 'did';
+
+// direct_post: form-encoded response parameters; direct_post.jwt: the parameters in a JWE encrypted to the verifier
+export type OID4VPResponseMode = 'direct_post' | 'direct_post.jwt';
 
 export interface OID4VPRequest {
-  body?: {
-    vp_token?: string | VerifiablePresentation;
+  method?: string; // HTTP method, for handle()
+  url?: string; // Request URL or path, for handle()
+  headers?: Record<string, string>;
+  body?: string | { // application/x-www-form-urlencoded string, or the parsed parameters
+    vp_token?: string | VerifiablePresentation | DcqlVpToken;
+    presentation_submission?: string | PresentationSubmission;
+    state?: string;
+    response?: string; // direct_post.jwt: the encrypted response
+    error?: string; // Wallet error response
+    error_description?: string;
     client_id?: string;
     redirect_uri?: string;
     response_type?: string;
@@ -29,11 +54,53 @@ export interface OID4VPResponse {
   reason?: string;
 }
 
+/**
+ * An HTTP response from the adapter's in-process endpoints
+ */
+export interface OID4VPHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Signs request objects: with an X.509 certificate chain (x509_san_dns) or a DID verification method (did)
+ */
+export interface OID4VPSigner {
+  privateKey: KeyObject;
+  x5c?: string[]; // Base64 DER certificates, leaf first; the leaf's SAN must contain the client_id DNS name
+  kid?: string; // DID URL of the verification method, under the client_id DID
+}
+
+export interface OID4VPAdapterOptions {
+  clientId: string; // redirect_uri: the response_uri; x509_san_dns: a DNS name of the signing certificate; did: the verifier's DID
+  clientIdScheme: ClientIdScheme;
+  baseUrl: string; // Public URL handle() is served at; request_uri and response_uri are under it
+  signer?: OID4VPSigner; // Required for x509_san_dns and did (redirect_uri request objects are unsigned)
+  responseMode?: OID4VPResponseMode; // Default direct_post
+  verifier?: CredentialVerifier; // Verifies responses posted to the response_uri
+  redirectUri?: string; // Where the wallet sends the user once the response is posted; receives #response_code=
+  authorizationEndpoint?: string; // Default openid4vp://
+  clientMetadata?: Record<string, any>; // e.g. vp_formats
+  encryptedResponseEnc?: 'A128GCM' | 'A256GCM'; // Content encryption for direct_post.jwt, default A128GCM
+  requestTtl?: number; // Seconds a transaction stays open, default 300
+  sessionStore?: SessionStore; // Where transactions are kept, default in memory
+}
+
 export interface SessionData {
-  presentationDefinition: PresentationRequest;
+  id: string; // Transaction id, in the request_uri
+  presentationDefinition: PresentationRequest; // The request responses are verified against (nonce as challenge, client_id as domain)
   clientId: string;
   state: string;
   nonce: string;
+  responseUri: string;
+  responseMode: OID4VPResponseMode;
+  requestObject: string; // The authorization request object served at the request_uri
+  expiresAt: number; // Epoch milliseconds
+  status: 'created' | 'request_retrieved' | 'response_received' | 'wallet_error';
+  responseCode?: string; // Returned to the wallet in the redirect_uri; required to read the result
+  result?: VerificationResult;
+  error?: string; // Wallet error (e.g. access_denied)
 }
 
 export interface ValidationResult {
@@ -42,62 +109,277 @@ export interface ValidationResult {
 }
 
 export class OID4VP_Adapter {
+  private options: OID4VPAdapterOptions;
+  private sessionStore: SessionStore;
+  private basePath: string;
+
+  constructor(options: OID4VPAdapterOptions) {
+    this.options = options;
+    this.sessionStore = options.sessionStore ?? new MemorySessionStore();
+    this.basePath = new URL(options.baseUrl).pathname.replace(/\/$/, '');
+    this.checkClientId();
+  }
+
+  /**
+   * The URL authorization responses are posted to
+   */
+  get responseUri(): string {
+    return `${this.options.baseUrl.replace(/\/$/, '')}/response`;
+  }
+
+  /**
+   * Creates an authorization request for a presentation request: the request object is stored with a new
+   * transaction and served at its request_uri
+   * @param request - The presentation request (dcql_query or presentation_definition; challenge is used as the nonce)
+   * @returns Promise<Object> - The transaction id, the authorization request URL for the wallet and the request object
+   */
+  async createAuthorizationRequest(request: PresentationRequest): Promise<{
+    transactionId: string;
+    requestUri: string;
+    authorizationRequest: string;
+    requestObject: string;
+  }> {
+    console.log("=== OID4VP Adapter: Creating authorization request ===");
+    if (!request.dcql_query && !request.presentation_definition) {
+      throw new Error('Presentation request has neither a dcql_query nor a presentation_definition');
+    }
+    const { clientId, clientIdScheme } = this.options;
+    const responseMode = this.options.responseMode ?? 'direct_post';
+    const transactionId = randomId();
+    const state = randomId();
+    const nonce = request.challenge || randomId();
+    const now = Date.now();
+    const expiresAt = now + (this.options.requestTtl ?? 300) * 1000;
+
+    // direct_post.jwt responses are encrypted to a key generated for this transaction
+    let decryptionJwk: Record<string, any> | undefined;
+    let encryptionJwk: Record<string, any> | undefined;
+    if (responseMode === 'direct_post.jwt') {
+      const keyPair = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      decryptionJwk = keyPair.privateKey.export({ format: 'jwk' });
+      encryptionJwk = { ...keyPair.publicKey.export({ format: 'jwk' }), kid: transactionId, use: 'enc', alg: 'ECDH-ES' };
+    }
+    const clientMetadata = {
+      ...this.options.clientMetadata,
+      ...(encryptionJwk && {
+        jwks: { keys: [encryptionJwk] },
+        authorization_encrypted_response_alg: 'ECDH-ES',
+        authorization_encrypted_response_enc: this.options.encryptedResponseEnc ?? 'A128GCM'
+      })
+    };
+
+    const payload = {
+      ...(clientIdScheme !== 'redirect_uri' && { iss: clientId }),
+      aud: 'https://self-issued.me/v2',
+      iat: Math.floor(now / 1000),
+      exp: Math.floor(expiresAt / 1000),
+      response_type: 'vp_token',
+      client_id: clientId,
+      client_id_scheme: clientIdScheme,
+      response_mode: responseMode,
+      response_uri: this.responseUri,
+      nonce,
+      state,
+      ...(request.dcql_query ? { dcql_query: request.dcql_query } : { presentation_definition: request.presentation_definition }),
+      ...(Object.keys(clientMetadata).length > 0 && { client_metadata: clientMetadata })
+    };
+    const requestObject = this.signRequestObject(payload);
+
+    // Handlers check the nonce and client_id through the request's challenge and domain
+    const { sessionTranscript, ...issued } = request;
+    await this.sessionStore.save({
+      id: transactionId,
+      request: { ...issued, challenge: nonce, domain: request.domain ?? clientId },
+      nonce,
+      state,
+      expiresAt,
+      data: {
+        clientId,
+        responseUri: this.responseUri,
+        responseMode,
+        requestObject,
+        ...(encryptionJwk && { encryptionJwk, decryptionJwk }),
+        status: 'created'
+      }
+    });
+
+    const requestUri = `${this.options.baseUrl.replace(/\/$/, '')}/request/${transactionId}`;
+    const query = new URLSearchParams({ client_id: clientId, client_id_scheme: clientIdScheme, request_uri: requestUri });
+    console.log(`   Transaction ${transactionId} created (${clientIdScheme}, ${responseMode})`);
+    return {
+      transactionId,
+      requestUri,
+      authorizationRequest: `${this.options.authorizationEndpoint ?? 'openid4vp://'}?${query}`,
+      requestObject
+    };
+  }
+
   /**
-   * Receives and parses an OID4VP presentation request
+   * Handles an HTTP request to the adapter's endpoints: GET {baseUrl}/request/{id} serves the request object,
+   * POST {baseUrl}/response receives the authorization response, verifies it and returns the redirect_uri
+   * @param httpRequest - The HTTP request
+   * @returns Promise<OID4VPHttpResponse> - The HTTP response
+   */
+  async handle(httpRequest: OID4VPRequest): Promise<OID4VPHttpResponse> {
+    const path = new URL(httpRequest.url ?? '', this.options.baseUrl).pathname;
+    const method = (httpRequest.method ?? 'GET').toUpperCase();
+
+    if (path.startsWith(`${this.basePath}/request/`) && method === 'GET') {
+      const session = await this.sessionStore.get(decodeURIComponent(path.slice(this.basePath.length + '/request/'.length)));
+      const data = session && transactionData(session);
+      if (!session || !data?.requestObject) {
+        return jsonResponse(404, { error: 'invalid_request', error_description: 'Unknown or expired request' });
+      }
+      if (data.status === 'created') {
+        await this.updateSession(session, { status: 'request_retrieved' });
+      }
+      console.log(`   Request object for transaction ${session.id} retrieved`);
+      return { status: 200, headers: { 'content-type': 'application/oauth-authz-req+jwt', 'cache-control': 'no-store' }, body: data.requestObject };
+    }
+
+    if (path === `${this.basePath}/response` && method === 'POST') {
+      if (!this.options.verifier) {
+        return jsonResponse(500, { error: 'server_error', error_description: 'No verifier configured' });
+      }
+      let received: Awaited<ReturnType<OID4VP_Adapter['receivePresentation']>>;
+      try {
+        received = await this.receivePresentation(httpRequest);
+      } catch (error) {
+        return jsonResponse(400, { error: 'invalid_request', error_description: error instanceof Error ? error.message : 'Invalid response' });
+      }
+      const session = (await this.sessionStore.get(received.sessionId!))!;
+      if (received.error) {
+        await this.updateSession(session, { status: 'wallet_error', error: received.error });
+        return jsonResponse(200, {});
+      }
+      let result: VerificationResult;
+      try {
+        result = await this.options.verifier.verify(received.vp!, received.originalRequest, received.presentationSubmission);
+      } catch (error) {
+        result = { status: 'rejected', error: error instanceof Error ? error.message : 'Verification failed' };
+      }
+      console.log(`   Transaction ${session.id}: ${result.status}`);
+      let responseCode: string | undefined;
+      try {
+        ({ responseCode } = await this.recordResult(session.id, result));
+      } catch (error) {
+        return jsonResponse(400, { error: 'invalid_request', error_description: error instanceof Error ? error.message : 'Invalid response' });
+      }
+      if (responseCode) {
+        return jsonResponse(200, { redirect_uri: `${this.options.redirectUri}#response_code=${responseCode}` });
+      }
+      return jsonResponse(200, {});
+    }
+
+    return jsonResponse(404, { error: 'not_found' });
+  }
+
+  /**
+   * Receives and parses an OID4VP authorization response (direct_post or direct_post.jwt)
+   * The state must name an open transaction that has not been answered; an encrypted response must decrypt with the
+   * transaction's key and carry the same state. The nonce is not consumed here, so a response that fails to parse or
+   * verify cannot close the transaction: pass the verification result to recordResult
    * @param httpRequest - The HTTP request object
-   * @returns Promise<Object> - Parsed presentation and original request
+   * @returns Promise<Object> - Parsed presentation and original request, or the wallet's error
    */
-  static async receivePresentation(httpRequest: OID4VPRequest): Promise<{
-    vp: VerifiablePresentation;
+  async receivePresentation(httpRequest: OID4VPRequest): Promise<{
+    vp?: VerifiablePresentation | DcqlVpToken;
     originalRequest?: PresentationRequest;
+    presentationSubmission?: PresentationSubmission;
     sessionId?: string;
     clientId?: string;
+    error?: string;
   }> {
-    console.log("=== OID4VP Adapter: Processing presentation request ===");
-    
+    console.log("=== OID4VP Adapter: Processing authorization response ===");
+
     try {
-      // Extract the VP token from the request body
-      const vpToken = httpRequest.body?.vp_token;
-      if (!vpToken) {
-        throw new Error('No vp_token found in request body');
+      let parameters = formParameters(httpRequest.body);
+      let session: Session | undefined;
+      if (parameters.response !== undefined) {
+        // direct_post.jwt: the JWE is encrypted to the key whose kid is the transaction id
+        const { header } = decodeJweHeader(parameters.response);
+        session = typeof header.kid === 'string' ? await this.sessionStore.get(header.kid) : undefined;
+        if (!session?.data?.decryptionJwk) {
+          throw new Error('Encrypted response does not match an open transaction');
+        }
+        const { plaintext } = decryptJwe(parameters.response, createPrivateKey({ key: session.data.decryptionJwk, format: 'jwk' }));
+        parameters = JSON.parse(Buffer.from(plaintext).toString('utf8'));
+        if (parameters.state !== session.state) {
+          throw new Error('state does not match the transaction');
+        }
+      } else {
+        session = typeof parameters.state === 'string' ? await this.sessionStore.findByState(parameters.state) : undefined;
+        if (!session) {
+          throw new Error('state does not match an open transaction');
+        }
+        if (transactionData(session).responseMode === 'direct_post.jwt') {
+          throw new Error('Transaction requires an encrypted response (direct_post.jwt)');
+        }
+      }
+      if (session.nonceConsumed) {
+        throw new Error('Transaction has already been answered');
       }
+      const data = transactionData(session);
 
-      console.log("   Extracted vp_token from request body");
+      if (parameters.error) {
+        console.log(`   Wallet returned error: ${parameters.error}`);
+        return { sessionId: session.id, clientId: data.clientId, error: parameters.error };
+      }
+      // mdoc device authentication is bound to the OpenID4VP handover
+      const sessionTranscript = await mdocDeviceAuthSuite.generateSessionTranscript({
+        deviceEngagementBytes: null,
+        eReaderKeyBytes: null,
+        handover: openId4VpHandover(data.clientId, session.nonce, data.responseUri, data.encryptionJwk)
+      });
+      const originalRequest: PresentationRequest = { ...session.request, sessionTranscript };
+      const presentationSubmission = typeof parameters.presentation_submission === 'string'
+        ? JSON.parse(parameters.presentation_submission)
+        : parameters.presentation_submission;
+      const vp = parseVpToken(parameters.vp_token, originalRequest, presentationSubmission);
 
-      // Parse the VP token (in a real implementation, this might be JWT)
-      let vp: VerifiablePresentation;
-      try {
-        if (typeof vpToken === 'string') {
-          vp = JSON.parse(vpToken) as VerifiablePresentation;
-        } else {
-          vp = vpToken as VerifiablePresentation;
-        }
-      } catch (parseError) {
-        throw new Error(`Failed to parse vp_token: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-      }
-
-      // Extract the original request from session or request parameters
-      const sessionData = await this.getSessionData(httpRequest.sessionID);
-      const originalRequest = sessionData?.presentationDefinition;
-      
-      if (!originalRequest) {
-        console.log("   Warning: No original request found in session");
-      }
-
-      console.log("   Successfully parsed OID4VP request");
-      
-      return { 
-        vp, 
-        originalRequest,
-        sessionId: httpRequest.sessionID,
-        clientId: httpRequest.body?.client_id
-      };
+      console.log("   Successfully parsed OID4VP response");
+      return { vp, originalRequest, presentationSubmission, sessionId: session.id, clientId: data.clientId };
     } catch (error) {
       console.log(`   OID4VP parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       throw error;
     }
   }
 
+  /**
+   * Records the verification result of a transaction's response. A verified result consumes the nonce, so the
+   * transaction is answered once; a rejected one is kept but leaves the transaction open for another response
+   * @param transactionId - The transaction id
+   * @param result - The result of verifying the response
+   * @returns Promise<Object> - The response_code for the redirect_uri, when a redirectUri is configured
+   * @throws Error - When the transaction is unknown or expired, or a response was already verified
+   */
+  async recordResult(transactionId: string, result: VerificationResult): Promise<{ responseCode?: string }> {
+    const session = await this.sessionStore.get(transactionId);
+    if (!session) {
+      throw new Error('Unknown or expired transaction');
+    }
+    if (session.nonceConsumed || (result.status === 'verified' && !await this.sessionStore.consumeNonce(session.nonce))) {
+      throw new Error('Transaction has already been answered');
+    }
+    const responseCode = this.options.redirectUri ? randomId() : undefined;
+    await this.updateSession(session, { status: 'response_received', result, ...(responseCode && { responseCode }) });
+    return { responseCode };
+  }
+
+  /**
+   * Returns the outcome of a transaction to the verifier's frontend
+   * @param transactionId - The transaction id
+   * @param responseCode - The response_code from the redirect_uri, required when a redirectUri is configured
+   * @returns Promise<SessionData|null> - The transaction, or null when unknown, expired or the response code does not match
+   */
+  async getResult(transactionId: string, responseCode?: string): Promise<SessionData | null> {
+    const session = await this.getSessionData(transactionId);
+    if (!session || (session.responseCode !== undefined && session.responseCode !== responseCode)) {
+      return null;
+    }
+    return session;
+  }
+
   /**
    * Creates an OID4VP response
    * @param verificationResult - The verification result from the SDK
@@ -106,7 +388,7 @@ export class OID4VP_Adapter {
    */
   static createResponse(verificationResult: VerificationResult, options: { sessionId?: string } = {}): OID4VPResponse {
     console.log("=== OID4VP Adapter: Creating response ===");
-    
+
     const response: OID4VPResponse = {
       status: verificationResult.status,
       timestamp: new Date().toISOString(),
@@ -116,7 +398,7 @@ export class OID4VP_Adapter {
     // Add verification details based on the result
     if (verificationResult.status === 'verified') {
       response.verified = true;
-      
+
       // Add credential-specific data
       if ((verificationResult as any).credential) {
         response.credential = (verificationResult as any).credential;
@@ -137,67 +419,60 @@ export class OID4VP_Adapter {
   }
 
   /**
-   * Validates OID4VP request parameters
+   * Validates OID4VP authorization response parameters
    * @param request - The request to validate
    * @returns ValidationResult - Validation result
    */
   static validateRequest(request: OID4VPRequest): ValidationResult {
     console.log("=== OID4VP Adapter: Validating request ===");
-    
+
     const errors: string[] = [];
-    
+
     // Check required fields
     if (!request.body) {
       errors.push('Request body is required');
     }
-    
-    if (!request.body?.vp_token) {
-      errors.push('vp_token is required');
-    }
-    
-    if (!request.sessionID) {
-      errors.push('Session ID is required');
+    const parameters = formParameters(request.body);
+    if (parameters.response === undefined) {
+      if (!parameters.vp_token && !parameters.error) {
+        errors.push('vp_token is required');
+      }
+      if (!parameters.state) {
+        errors.push('state is required');
+      }
     }
 
     const isValid = errors.length === 0;
-    
+
     if (isValid) {
       console.log("   Request validation passed");
     } else {
       console.log(`   Request validation failed: ${errors.join(', ')}`);
     }
-    
+
     return { isValid, errors };
   }
 
   /**
-   * Simulates retrieving session data (in a real implementation, this would access a database)
-   * @param sessionId - The session ID
-   * @returns Promise<SessionData|null> - Session data or null
+   * Retrieves the data of an open transaction
+   * @param sessionId - The transaction id
+   * @returns Promise<SessionData|null> - Session data or null when unknown or expired
    */
-  static async getSessionData(sessionId?: string): Promise<SessionData | null> {
-    // In a real implementation, this would query a database or cache
+  async getSessionData(sessionId?: string): Promise<SessionData | null> {
     console.log(`   Retrieving session data for: ${sessionId}`);
-    
-    // Simulate session data
-    const mockSessionData: SessionData = {
-      presentationDefinition: {
-        id: "example-presentation-definition",
-        request_credentials: [
-          {
-            type: "VerifiableCredential",
-            required: true,
-            constraints: {}
-          }
-        ],
-        challenge: "example-challenge"
-      },
-      clientId: "example-client",
-      state: "example-state",
-      nonce: "example-nonce"
-    };
-    
-    return mockSessionData;
+    const session = sessionId ? await this.sessionStore.get(sessionId) : undefined;
+    if (!session) {
+      return null;
+    }
+    const { decryptionJwk, encryptionJwk, ...data } = transactionData(session);
+    return {
+      id: session.id,
+      presentationDefinition: session.request,
+      state: session.state!,
+      nonce: session.nonce,
+      expiresAt: session.expiresAt,
+      ...data
+    } as SessionData;
   }
 
   /**
@@ -211,11 +486,169 @@ export class OID4VP_Adapter {
     responseType?: string;
     scope?: string;
   } {
+    const parameters = formParameters(request.body);
     return {
-      clientId: request.body?.client_id,
-      redirectUri: request.body?.redirect_uri,
-      responseType: request.body?.response_type,
-      scope: request.body?.scope
+      clientId: parameters.client_id,
+      redirectUri: parameters.redirect_uri,
+      responseType: parameters.response_type,
+      scope: parameters.scope
     };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Saves changes to a transaction's protocol data
+   */
+  private async updateSession(session: Session, changes: Record<string, any>): Promise<Session> {
+    const updated = { ...session, data: { ...transactionData(session), ...changes } };
+    await this.sessionStore.save(updated);
+    return updated;
+  }
+
+  /**
+   * Checks the client_id can be authenticated under its scheme
+   * @throws Error - When the signer does not fit the scheme or client_id
+   */
+  private checkClientId(): void {
+    const { clientId, clientIdScheme, signer } = this.options;
+    if (clientIdScheme === 'redirect_uri') {
+      if (clientId !== this.responseUri) {
+        throw new Error(`With client_id_scheme redirect_uri the client_id must be the response_uri (${this.responseUri})`);
+      }
+      return;
+    }
+    if (!signer) {
+      throw new Error(`client_id_scheme ${clientIdScheme} requires a signer`);
+    }
+    if (clientIdScheme === 'x509_san_dns') {
+      if (!signer.x5c?.length) {
+        throw new Error('client_id_scheme x509_san_dns requires the signer certificate chain (x5c)');
+      }
+      const certificate = new X509Certificate(Buffer.from(signer.x5c[0], 'base64'));
+      if (!certificate.checkHost(clientId, { subject: 'never' })) {
+        throw new Error(`Signer certificate has no DNS subject alternative name ${clientId}`);
+      }
+      const certificateKey = certificate.publicKey.export({ format: 'jwk' });
+      const signerKey = createPublicKey(signer.privateKey).export({ format: 'jwk' });
+      if (certificateKey.x !== signerKey.x || certificateKey.y !== signerKey.y) {
+        throw new Error('Signer key does not match the certificate');
+      }
+    } else if (clientIdScheme === 'did') {
+      if (!signer.kid?.startsWith(`${clientId}#`)) {
+        throw new Error(`client_id_scheme did requires a signer kid under ${clientId}`);
+      }
+    } else {
+      throw new Error(`Unsupported client_id_scheme: ${clientIdScheme}`);
+    }
+  }
+
+  /**
+   * Signs the request object, or leaves it unsigned (alg none) for the redirect_uri scheme
+   */
+  private signRequestObject(payload: Record<string, any>): string {
+    const { clientIdScheme, signer } = this.options;
+    if (clientIdScheme === 'redirect_uri') {
+      return `${base64urlEncode(JSON.stringify({ alg: 'none', typ: 'oauth-authz-req+jwt' }))}.${base64urlEncode(JSON.stringify(payload))}.`;
+    }
+    const header = clientIdScheme === 'x509_san_dns'
+      ? { typ: 'oauth-authz-req+jwt', x5c: signer!.x5c }
+      : { typ: 'oauth-authz-req+jwt', kid: signer!.kid };
+    return signJws(header, payload, signer!.privateKey);
+  }
+}
+
+/**
+ * The OpenID4VPHandover of the mdoc SessionTranscript:
+ * ["OpenID4VPHandover", SHA-256(CBOR([client_id, nonce, jwk_thumbprint or null, response_uri]))]
+ * @param clientId - The verifier's client_id
+ * @param nonce - The request nonce
+ * @param responseUri - The response_uri
+ * @param encryptionJwk - The response encryption key, for direct_post.jwt
+ * @returns any[] - The handover
+ */
+export function openId4VpHandover(clientId: string, nonce: string, responseUri: string, encryptionJwk?: Record<string, any>): any[] {
+  const handoverInfo = cborEncoder.encode([
+    clientId,
+    nonce,
+    encryptionJwk ? base64urlDecode(jwkThumbprint(encryptionJwk)) : null,
+    responseUri
+  ]);
+  return ['OpenID4VPHandover', createHash('sha256').update(handoverInfo).digest()];
+}
+
+/**
+ * Parses the vp_token for the verifier: with a DCQL query, the JSON object keyed by credential query id; with a
+ * presentation definition, the single presentation wrapped for the format the presentation_submission gives it
+ * @param vpToken - The vp_token response parameter (JSON text or already parsed)
+ * @param originalRequest - The request the response answers
+ * @param presentationSubmission - The presentation_submission response parameter
+ * @returns VerifiablePresentation | DcqlVpToken - The presentation, or the vp_token object keyed by credential query id
+ * @throws Error - When the vp_token is missing or does not have the shape the request asks for
+ */
+export function parseVpToken(
+  vpToken: unknown,
+  originalRequest: PresentationRequest,
+  presentationSubmission?: PresentationSubmission
+): VerifiablePresentation | DcqlVpToken {
+  if (vpToken === undefined || vpToken === null || vpToken === '') {
+    throw new Error('No vp_token found in response');
+  }
+  let value: any = vpToken;
+  if (typeof vpToken === 'string' && /^\s*[{[]/.test(vpToken)) {
+    try {
+      value = JSON.parse(vpToken);
+    } catch (parseError) {
+      throw new Error(`Failed to parse vp_token: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+    }
+  }
+  if (originalRequest.dcql_query) {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('vp_token must be a JSON object keyed by credential query id');
+    }
+    return value as DcqlVpToken;
+  }
+  if (Array.isArray(value)) {
+    throw new Error('vp_token arrays are only supported with DCQL');
+  }
+  const rootEntry = presentationSubmission?.descriptor_map?.find(entry => entry.path === '$');
+  return presentationForFormat(rootEntry?.format ?? '', value, originalRequest);
+}
+
+/**
+ * Reads the response parameters from a form-encoded body or an object
+ */
+function formParameters(body: OID4VPRequest['body']): Record<string, any> {
+  if (typeof body === 'string') {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  return body ?? {};
+}
+
+/**
+ * A transaction's protocol data. Sessions registered by createRequest({ protocols: { oid4vp } }) carry none: their
+ * unsigned request was passed by value, with the response_uri (the request's domain) as client_id
+ */
+function transactionData(session: Session): Record<string, any> {
+  return session.data ?? {
+    clientId: session.request.domain,
+    responseUri: session.request.domain,
+    responseMode: 'direct_post',
+    status: 'created'
+  };
+}
+
+function decodeJweHeader(compact: string): { header: Record<string, any> } {
+  const [encodedHeader] = typeof compact === 'string' ? compact.split('.') : [];
+  try {
+    return { header: JSON.parse(Buffer.from(base64urlDecode(encodedHeader)).toString('utf8')) };
+  } catch {
+    throw new Error('Malformed encrypted response');
+  }
+}
+
+function jsonResponse(status: number, body: any): OID4VPHttpResponse {
+  return { status, headers: { 'content-type': 'application/json', 'cache-control': 'no-store' }, body };
+}
+
+function randomId(): string {
+  return base64urlEncode(randomBytes(16));
+}
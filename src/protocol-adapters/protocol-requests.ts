@@ -0,0 +1,142 @@
+/**
+ * Protocol Requests
+ * Renders a presentation request in the native shape of each protocol: an OID4VP authorization request, a CHAPI
+ * Verifiable Presentation Request and a DIDComm present-proof 3.0 request-presentation message
+ */
+
+import { PresentationRequest, PresentationDefinition, InputDescriptor, ProtocolRequestOptions, ProtocolRequests } from '../types';
+
+const W3C_CREDENTIALS_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+const REQUEST_PRESENTATION_TYPE = 'https://didcomm.org/present-proof/3.0/request-presentation';
+const PRESENTATION_DEFINITION_FORMAT = 'dif/presentation-exchange/definitions@v1.0';
+
+/**
+ * Renders a presentation request for the protocols in the options
+ * @param request - The presentation request
+ * @param protocols - The protocols to render it for
+ * @param state - The OID4VP state parameter
+ * @returns ProtocolRequests - The request in each protocol's shape
+ */
+export function renderProtocolRequests(request: PresentationRequest, protocols: ProtocolRequestOptions, state: string): ProtocolRequests {
+  return {
+    ...(protocols.oid4vp && { oid4vp: oid4vpAuthorizationRequest(request, protocols.oid4vp, state) }),
+    ...(protocols.chapi && { chapi: chapiQuery(request) }),
+    ...(protocols.didcomm && { didcomm: didcommRequestPresentation(request, protocols.didcomm) })
+  };
+}
+
+/**
+ * The request's presentation definition, or one derived from its requested credentials: an input descriptor per
+ * credential type, with the credential's constraints; credentials that are not required form an optional group
+ * @param request - The presentation request
+ * @returns PresentationDefinition - The presentation definition
+ */
+export function presentationDefinitionFor(request: PresentationRequest): PresentationDefinition {
+  if (request.presentation_definition) {
+    return request.presentation_definition;
+  }
+  const optional = request.request_credentials.some(credential => credential.required === false);
+  const input_descriptors: InputDescriptor[] = request.request_credentials.map((credential, index) => ({
+    id: `credential_${index}`,
+    name: credential.type,
+    ...(optional && { group: [credential.required === false ? 'optional' : 'required'] }),
+    constraints: {
+      ...credential.constraints,
+      fields: [
+        {
+          path: ['$.type', '$.vc.type', '$.vct'],
+          filter: { anyOf: [{ type: 'array', contains: { const: credential.type } }, { type: 'string', const: credential.type }] }
+        },
+        ...(credential.constraints?.fields ?? [])
+      ]
+    }
+  }));
+  return {
+    id: request.id,
+    ...(request.comment && { purpose: request.comment }),
+    ...(optional && {
+      submission_requirements: [
+        ...(input_descriptors.some(descriptor => descriptor.group![0] === 'required') ? [{ rule: 'all' as const, from: 'required' }] : []),
+        { rule: 'pick' as const, min: 0, from: 'optional' }
+      ]
+    }),
+    input_descriptors
+  };
+}
+
+/**
+ * An unsigned OID4VP authorization request passed by value, with client_id_scheme redirect_uri
+ */
+function oid4vpAuthorizationRequest(request: PresentationRequest, options: NonNullable<ProtocolRequestOptions['oid4vp']>, state: string): NonNullable<ProtocolRequests['oid4vp']> {
+  const parameters = {
+    client_id: options.responseUri,
+    client_id_scheme: 'redirect_uri',
+    response_type: 'vp_token',
+    response_mode: options.responseMode ?? 'direct_post',
+    response_uri: options.responseUri,
+    nonce: request.challenge,
+    state,
+    ...(request.dcql_query ? { dcql_query: request.dcql_query } : { presentation_definition: presentationDefinitionFor(request) })
+  };
+  const query = new URLSearchParams(Object.entries(parameters).map(([name, value]) =>
+    [name, typeof value === 'string' ? value : JSON.stringify(value)]
+  ));
+  return { authorizationRequest: `${options.authorizationEndpoint ?? 'openid4vp://'}?${query}`, parameters };
+}
+
+/**
+ * navigator.credentials.get() options with a Verifiable Presentation Request: a QueryByExample per credential type
+ */
+function chapiQuery(request: PresentationRequest): Record<string, any> {
+  return {
+    web: {
+      VerifiablePresentation: {
+        query: [{
+          type: 'QueryByExample',
+          credentialQuery: request.request_credentials.map(credential => ({
+            required: credential.required ?? true,
+            ...(request.comment && { reason: request.comment }),
+            example: {
+              '@context': [W3C_CREDENTIALS_CONTEXT],
+              type: [credential.type],
+              ...(credential.constraints?.credentialSubject && { credentialSubject: credential.constraints.credentialSubject })
+            }
+          }))
+        }],
+        challenge: request.challenge,
+        ...(request.domain && { domain: request.domain })
+      }
+    }
+  };
+}
+
+/**
+ * A present-proof 3.0 request-presentation message carrying the presentation definition; its id is the request id,
+ * so the holder's presentation names the request in its thid
+ */
+function didcommRequestPresentation(request: PresentationRequest, options: NonNullable<ProtocolRequestOptions['didcomm']>): Record<string, any> {
+  return {
+    id: request.id,
+    type: REQUEST_PRESENTATION_TYPE,
+    from: options.from,
+    to: options.to,
+    created_time: Math.floor(Date.now() / 1000),
+    ...(request.expiresAt !== undefined && { expires_time: Math.floor(request.expiresAt / 1000) }),
+    body: {
+      ...(options.goalCode && { goal_code: options.goalCode }),
+      ...(request.comment && { comment: request.comment }),
+      will_confirm: true
+    },
+    attachments: [{
+      id: 'presentation-definition',
+      media_type: 'application/json',
+      format: PRESENTATION_DEFINITION_FORMAT,
+      data: {
+        json: {
+          options: { challenge: request.challenge, ...(request.domain && { domain: request.domain }) },
+          presentation_definition: presentationDefinitionFor(request)
+        }
+      }
+    }]
+  };
+}
@@ -1,9 +1,18 @@
 /**
  * SIOP (Self-Issued OpenID Provider) Protocol Adapter
- * Handles OIDC extension for self-issued credentials
+ * Relying party side of SIOPv2: validates the self-issued ID token (iss == sub, signed with the sub_jwk key or a key
+ * of the subject DID, audience, nonce and lifetime) and hands the vp_token that accompanies it to verification
  */
 
-import { VerifiablePresentation, PresentationRequest, VerificationResult } from '../types';
+import { createPublicKey, KeyObject, randomBytes } from 'crypto';
+import { VerifiablePresentation, PresentationRequest, VerificationResult, DidResolver, DcqlVpToken, PresentationSubmission, SessionStore, Session, CredentialVerifier } from '../types';
+import { decodeJws, DecodedJws, verifyJws } from '../crypto/jws.ts';
+import { base64urlEncode } from '../crypto/encoding.ts';
+import { jwkThumbprint } from '../crypto/holder-binding.ts';
+import { publicKeyFromVerificationMethod, resolveJwtVerificationMethod } from '../crypto/verification-method.ts';
+import { MemorySessionStore } from '../session/memory-session-store.ts';
+import { findSession } from '../session/consume-session.ts';
+import { parseVpToken } from './oid4vp-adapter.ts';
 
 /**
  * SIOP request structure
@@ -15,19 +24,19 @@ export interface SIOPRequest {
   state?: string;
   nonce?: string;
   response_mode?: string;
+  redirect_uri?: string;
   request?: string;
   request_uri?: string;
   [key: string]: any;
 }
 
 /**
- * SIOP response structure
+ * SIOP authentication response: the self-issued ID token and, when credentials were requested, the vp_token
  */
 export interface SIOPResponse {
-  access_token?: string;
-  token_type: string;
-  expires_in?: number;
   id_token: string;
+  vp_token?: string | Record<string, any>;
+  presentation_submission?: PresentationSubmission | string;
   state?: string;
   [key: string]: any;
 }
@@ -36,108 +45,251 @@ export interface SIOPResponse {
  * SIOP ID Token structure
  */
 export interface SIOPIDToken {
-  iss: string;
-  sub: string;
-  aud: string;
+  iss: string; // Equal to sub
+  sub: string; // A DID, or the JWK thumbprint of sub_jwk
+  aud: string | string[];
   exp: number;
   iat: number;
   nonce?: string;
-  vp_token?: string;
-  presentation_submission?: any;
+  sub_jwk?: Record<string, any>; // The subject's public key, for JWK thumbprint subjects
   [key: string]: any;
 }
 
+/**
+ * The authenticated subject of a self-issued ID token
+ */
+export interface SIOPSubject {
+  id: string; // The sub claim
+  subjectSyntaxType: 'did' | 'jwk_thumbprint';
+  jwk?: Record<string, any>; // The sub_jwk, for JWK thumbprint subjects
+  verificationMethod?: string; // The DID verification method that signed the ID token, for DID subjects
+  claims: SIOPIDToken;
+}
+
+/**
+ * The relying party's answer to an authentication response
+ */
+export interface SIOPVerificationResponse {
+  status: VerificationResult['status'];
+  subject?: string;
+  verificationResult: VerificationResult;
+  redirect_uri?: string;
+}
+
+export interface SIOPAdapterOptions {
+  clientId: string; // The relying party's client_id; ID tokens must have it as audience
+  verifier?: CredentialVerifier; // Verifies the vp_token that accompanies an ID token
+  didResolver?: DidResolver; // Resolves DID subjects, default an offline UniversalDidResolver
+  sessionStore?: SessionStore; // Where authentication requests are kept, default in memory
+  clockSkew?: number; // Tolerated clock skew for exp and iat, in seconds (default 60)
+  maxAge?: number; // Seconds an ID token may be older than its iat, default 300
+  requestTtl?: number; // Seconds a request without expiresAt stays open, default 300
+}
+
 /**
  * SIOP Protocol Adapter
- * Handles SIOP authentication with self-issued credentials
+ * Handles SIOP authentication with self-issued ID tokens
  */
 export class SIOPAdapter {
+  private options: SIOPAdapterOptions;
+  private sessionStore: SessionStore;
+
+  constructor(options: SIOPAdapterOptions) {
+    this.options = options;
+    this.sessionStore = options.sessionStore ?? new MemorySessionStore();
+  }
+
   /**
-   * Receives a SIOP authentication request
-   * @param request - The SIOP request from the client
-   * @returns Promise with presentation and original request
+   * Creates a SIOP authentication request for a presentation request and registers it; the request's challenge is
+   * the nonce. When the request has a presentation definition or DCQL query, a vp_token is requested too
+   * @param request - The presentation request (e.g. from the verifier's createRequest)
+   * @param options - Where the response goes, how, and the scope
+   * @returns Promise<SIOPRequest> - The authentication request parameters
    */
-  static async receivePresentation(request: SIOPRequest): Promise<{
-    presentation: VerifiablePresentation;
-    originalRequest: PresentationRequest;
-  }> {
-    console.log("--- SIOP Request Received ---");
-    console.log(`Client ID: ${request.client_id}`);
-    console.log(`Scope: ${request.scope}`);
-    console.log(`Response Type: ${request.response_type}`);
-    
-    // Parse SIOP request into standard format
-    const originalRequest: PresentationRequest = {
-      id: `siop-${Date.now()}`,
-      comment: `SIOP authentication for ${request.client_id}`,
-      request_credentials: [{ type: 'VerifiableCredential', required: true }],
-      challenge: request.nonce || `siop-challenge-${Date.now()}`
+  async createAuthenticationRequest(request: PresentationRequest, options: {
+    redirectUri?: string;
+    responseMode?: string;
+    scope?: string;
+  } = {}): Promise<SIOPRequest> {
+    const state = base64urlEncode(randomBytes(16));
+    await this.sessionStore.save({
+      id: request.id,
+      request,
+      nonce: request.challenge,
+      state,
+      expiresAt: request.expiresAt ?? Date.now() + (this.options.requestTtl ?? 300) * 1000
+    });
+    return {
+      response_type: request.presentation_definition || request.dcql_query ? 'vp_token id_token' : 'id_token',
+      client_id: this.options.clientId,
+      scope: options.scope || 'openid',
+      state,
+      nonce: request.challenge,
+      ...(options.redirectUri && { redirect_uri: options.redirectUri }),
+      ...(options.responseMode && { response_mode: options.responseMode }),
+      ...(request.presentation_definition && { presentation_definition: request.presentation_definition }),
+      ...(request.dcql_query && { dcql_query: request.dcql_query })
     };
-    
-    // In a real implementation, this would extract the presentation
-    // from the SIOP request or wait for the user to present credentials
-    // For demo purposes, we'll return a mock presentation
-    const presentation: VerifiablePresentation = {
-      '@context': ['https://www.w3.org/2018/credentials/v1'],
-      type: ['VerifiablePresentation'],
-      verifiableCredential: [],
-      holder: 'did:example:holder',
-      proof: {
-        type: 'Ed25519Signature2020',
-        created: new Date().toISOString(),
-        verificationMethod: 'did:example:holder#key-1',
-        proofPurpose: 'authentication',
-        proofValue: 'mock-siop-signature'
+  }
+
+  /**
+   * Verifies a SIOP authentication response: validates the ID token, finds the request by its nonce and checks the
+   * state, verifies the vp_token with the configured verifier and binds it to the ID token subject. Only a verified
+   * response consumes the nonce, so the request is answered once but a response that fails any check cannot close it
+   * @param response - The authentication response parameters
+   * @returns Promise<SIOPVerificationResponse> - The outcome, with the authenticated subject
+   * @throws Error - When the ID token is invalid, answers no open request, or a vp_token arrives without a verifier
+   */
+  async verifyResponse(response: SIOPResponse): Promise<SIOPVerificationResponse> {
+    const { subject, presentation, presentationSubmission, session } = await this.receivePresentation(response);
+    let result: VerificationResult = { status: 'verified' };
+    if (presentation !== undefined) {
+      if (!this.options.verifier) {
+        throw new Error('No verifier configured');
       }
-    };
-    
-    return { presentation, originalRequest };
+      try {
+        result = bindSubject(subject, await this.options.verifier.verify(presentation, session.request, presentationSubmission));
+      } catch (error) {
+        result = { status: 'rejected', error: error instanceof Error ? error.message : 'Presentation cannot be verified' };
+      }
+    }
+    if (result.status === 'verified' && !await this.sessionStore.consumeNonce(session.nonce)) {
+      result = { status: 'rejected', error: 'Request has already been answered' };
+    }
+    console.log(`SIOP response for ${session.id}: ${result.status}`);
+    return SIOPAdapter.createResponse(result, { subject });
   }
-  
+
   /**
-   * Creates a SIOP response
+   * Receives a SIOP authentication response: validates the ID token, finds the open request by its nonce without
+   * consuming it, checks the state and parses the accompanying vp_token
+   */
+  private async receivePresentation(response: SIOPResponse): Promise<{
+    subject: SIOPSubject;
+    presentation?: VerifiablePresentation | DcqlVpToken;
+    presentationSubmission?: PresentationSubmission;
+    session: Session;
+  }> {
+    console.log("--- SIOP Response Received ---");
+    const subject = await this.validateIdToken(response.id_token);
+    console.log(`Subject: ${subject.id}`);
+
+    if (typeof subject.claims.nonce !== 'string') {
+      throw new Error('ID token has no nonce');
+    }
+    const session = await findSession(this.sessionStore, { nonce: subject.claims.nonce });
+    if (session.state !== undefined && response.state !== session.state) {
+      throw new Error('Response state does not match the request');
+    }
+    const originalRequest = session.request;
+
+    if (response.vp_token === undefined) {
+      if (originalRequest.presentation_definition || originalRequest.dcql_query) {
+        throw new Error('The request asked for a vp_token, but the response has none');
+      }
+      return { subject, session };
+    }
+    let presentationSubmission: PresentationSubmission | undefined;
+    try {
+      presentationSubmission = typeof response.presentation_submission === 'string'
+        ? JSON.parse(response.presentation_submission)
+        : response.presentation_submission;
+    } catch {
+      throw new Error('presentation_submission is not JSON');
+    }
+    const presentation = parseVpToken(response.vp_token, originalRequest, presentationSubmission);
+    return { subject, presentation, presentationSubmission, session };
+  }
+
+  /**
+   * Validates a self-issued ID token: iss equals sub; the signature verifies with sub_jwk (whose thumbprint is sub)
+   * or with an authentication key of the sub DID; aud includes the client_id; exp and iat are current
+   * @param idToken - The compact JWT ID token
+   * @param expectedNonce - When given, the nonce the ID token must carry
+   * @returns Promise<SIOPSubject> - The authenticated subject and the ID token claims
+   * @throws Error - When the ID token is malformed, not self-issued, not validly signed, or not for this client
+   */
+  async validateIdToken(idToken: string, expectedNonce?: string): Promise<SIOPSubject> {
+    let jws: DecodedJws;
+    try {
+      jws = decodeJws(idToken);
+    } catch {
+      throw new Error('ID token is not a compact JWT');
+    }
+    const claims = jws.payload as SIOPIDToken;
+    if (typeof claims.iss !== 'string' || claims.iss !== claims.sub) {
+      throw new Error('ID token is not self-issued: iss must equal sub');
+    }
+
+    let publicKey: KeyObject;
+    let subject: Omit<SIOPSubject, 'claims'>;
+    if (claims.sub.startsWith('did:')) {
+      if (claims.sub_jwk) {
+        throw new Error('ID tokens with a DID subject must not carry sub_jwk');
+      }
+      const verificationMethod = await resolveJwtVerificationMethod(jws.header, claims.sub, this.options.didResolver, 'authentication');
+      publicKey = publicKeyFromVerificationMethod(verificationMethod);
+      subject = { id: claims.sub, subjectSyntaxType: 'did', verificationMethod: verificationMethod.id };
+    } else if (claims.sub_jwk && typeof claims.sub_jwk === 'object') {
+      if (claims.sub_jwk.d !== undefined) {
+        throw new Error('sub_jwk must be a public key');
+      }
+      if (jwkThumbprint(claims.sub_jwk) !== claims.sub) {
+        throw new Error('ID token sub is not the JWK thumbprint of sub_jwk');
+      }
+      publicKey = createPublicKey({ key: claims.sub_jwk as any, format: 'jwk' });
+      subject = { id: claims.sub, subjectSyntaxType: 'jwk_thumbprint', jwk: claims.sub_jwk };
+    } else {
+      throw new Error('ID token subject is neither a DID nor the thumbprint of a sub_jwk');
+    }
+    if (!verifyJws(jws, publicKey)) {
+      throw new Error('ID token signature is invalid');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.options.clientId)) {
+      throw new Error(`ID token audience does not include ${this.options.clientId}`);
+    }
+    if (expectedNonce !== undefined && claims.nonce !== expectedNonce) {
+      throw new Error('ID token nonce does not match the request');
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const clockSkew = this.options.clockSkew ?? 60;
+    if (typeof claims.exp !== 'number' || typeof claims.iat !== 'number') {
+      throw new Error('ID token must have numeric exp and iat claims');
+    }
+    if (claims.exp + clockSkew <= now) {
+      throw new Error('ID token has expired');
+    }
+    if (claims.iat - clockSkew > now) {
+      throw new Error('ID token is issued in the future');
+    }
+    if (claims.iat + (this.options.maxAge ?? 300) + clockSkew < now) {
+      throw new Error('ID token is too old');
+    }
+    return { ...subject, claims };
+  }
+
+  /**
+   * Creates the relying party's answer to an authentication response
    * @param result - The verification result
-   * @param options - Additional options for response formatting
-   * @returns SIOP response
+   * @param options - The authenticated subject, and where to send the user agent
+   * @returns SIOP verification response
    */
   static createResponse(result: VerificationResult, options?: {
-    clientId: string;
-    state?: string;
-    nonce?: string;
-    accessToken?: string;
-  }): SIOPResponse {
+    subject?: SIOPSubject;
+    redirectUri?: string;
+  }): SIOPVerificationResponse {
     console.log("--- Creating SIOP Response ---");
-    
-    if (!options?.clientId) {
-      throw new Error('SIOP response requires client ID');
-    }
-    
-    // Create ID token with verification result
-    const idToken: SIOPIDToken = {
-      iss: 'did:example:siop-provider',
-      sub: 'did:example:holder',
-      aud: options.clientId,
-      exp: Math.floor(Date.now() / 1000) + 3600, // 1 hour expiry
-      iat: Math.floor(Date.now() / 1000),
-      ...(options.nonce && { nonce: options.nonce }),
-      verificationResult: {
-        status: result.status,
-        ...(result.policyResults && { policyResults: result.policyResults }),
-        ...(result.error && { error: result.error })
-      }
-    };
-    
-    const response: SIOPResponse = {
-      token_type: 'Bearer',
-      id_token: JSON.stringify(idToken), // In real implementation, this would be JWT
-      ...(options.state && { state: options.state }),
-      ...(options.accessToken && { access_token: options.accessToken }),
-      expires_in: 3600
+
+    return {
+      status: result.status,
+      ...(options?.subject && { subject: options.subject.id }),
+      verificationResult: result,
+      ...(options?.redirectUri && { redirect_uri: options.redirectUri })
     };
-    
-    return response;
   }
-  
+
   /**
    * Validates a SIOP request
    * @param request - The request to validate
@@ -145,61 +297,53 @@ export class SIOPAdapter {
    */
   static validateRequest(request: SIOPRequest): { isValid: boolean; errors?: string[] } {
     const errors: string[] = [];
-    
+
     if (!request.response_type) {
       errors.push('Response type is required');
     }
-    
+
     if (!request.client_id) {
       errors.push('Client ID is required');
     }
-    
+
     if (!request.scope) {
       errors.push('Scope is required');
     }
-    
-    if (request.response_type !== 'id_token') {
-      errors.push('Only id_token response type is supported');
+
+    if (!request.response_type?.split(' ').includes('id_token')) {
+      errors.push('Only id_token response types are supported');
     }
-    
-    if (!request.scope.includes('openid')) {
+
+    if (!request.scope?.split(' ').includes('openid')) {
       errors.push('OpenID scope is required');
     }
-    
+
     return {
       isValid: errors.length === 0,
       errors: errors.length > 0 ? errors : undefined
     };
   }
-  
-  /**
-   * Creates a SIOP authentication request
-   * @param options - Request options
-   * @returns SIOP request
-   */
-  static createAuthenticationRequest(options: {
-    clientId: string;
-    scope?: string;
-    state?: string;
-    nonce?: string;
-    responseMode?: string;
-  }): SIOPRequest {
+}
+
+/**
+ * Checks a verified vp_token was presented by the ID token's subject: the holder of every credential must be the
+ * subject DID (or one of its verification methods), or for a JWK thumbprint subject the thumbprint's URI. The ID token
+ * and the vp_token are otherwise unrelated, so anyone holding credentials could pair them with their own ID token
+ */
+function bindSubject(subject: SIOPSubject, result: VerificationResult): VerificationResult {
+  if (result.status !== 'verified') {
+    return result;
+  }
+  const subjectIds = subject.subjectSyntaxType === 'did'
+    ? [subject.id]
+    : [subject.id, `urn:ietf:params:oauth:jwk-thumbprint:sha-256:${subject.id}`];
+  const unbound = (result.credentials ?? []).filter(credential => !credential.holder || !subjectIds.includes(credential.holder.split('#')[0]));
+  if (unbound.length > 0) {
     return {
-      response_type: 'id_token',
-      client_id: options.clientId,
-      scope: options.scope || 'openid',
-      ...(options.state && { state: options.state }),
-      ...(options.nonce && { nonce: options.nonce }),
-      ...(options.responseMode && { response_mode: options.responseMode })
+      ...result,
+      status: 'rejected',
+      error: `vp_token was not presented by the ID token subject ${subject.id} (holder ${unbound[0].holder ?? 'unknown'})`
     };
   }
-  
-  /**
-   * Extracts verification result from SIOP ID token
-   * @param idToken - The SIOP ID token
-   * @returns Verification result
-   */
-  static extractVerificationResult(idToken: SIOPIDToken): VerificationResult | null {
-    return idToken.verificationResult || null;
-  }
-} 
\ No newline at end of file
+  return result;
+}
@@ -1,9 +1,27 @@
 /**
  * VC-API (Verifiable Credentials API) Protocol Adapter
- * Handles W3C REST API for credential operations
+ * Verifier side of the W3C VC-API: POST /credentials/verify, POST /presentations/verify and presentation exchanges,
+ * answered in-process by handle() or served over Node's http module, with RFC 9457 problem details for errors
  */
 
-import { VerifiablePresentation, PresentationRequest, VerificationResult } from '../types';
+import { createServer, IncomingMessage, Server, ServerResponse, STATUS_CODES } from 'http';
+import { AddressInfo } from 'net';
+import { VerifiablePresentation, VerifiableCredential, PresentationRequest, VerificationResult, SessionStore, Session, CredentialVerifier, CreateRequestOptions, VprQuery } from '../types';
+import { evaluateVprQuery } from '../query/vpr.ts';
+import { MemorySessionStore } from '../session/memory-session-store.ts';
+import { consumeSession, findSession } from '../session/consume-session.ts';
+import { renderProtocolRequests } from './protocol-requests.ts';
+
+// Problem types of the VC Data Model 2.0 (section 7.1, Verification)
+const PROBLEM_TYPES = {
+  PARSING_ERROR: { type: 'https://www.w3.org/TR/vc-data-model#PARSING_ERROR', title: 'Parsing error' },
+  CRYPTOGRAPHIC_SECURITY_ERROR: { type: 'https://www.w3.org/TR/vc-data-model#CRYPTOGRAPHIC_SECURITY_ERROR', title: 'Cryptographic security error' },
+  MALFORMED_VALUE_ERROR: { type: 'https://www.w3.org/TR/vc-data-model#MALFORMED_VALUE_ERROR', title: 'Malformed value error' },
+  RANGE_ERROR: { type: 'https://www.w3.org/TR/vc-data-model#RANGE_ERROR', title: 'Range error' }
+};
+
+// Largest request body the Node listener reads
+const MAX_BODY_BYTES = 1024 * 1024;
 
 /**
  * VC-API request structure
@@ -12,7 +30,7 @@ export interface VCAPIRequest {
   method: string;
   url: string;
   headers: Record<string, string>;
-  body?: any;
+  body?: any; // The parsed JSON body, or its text
   query?: Record<string, string>;
 }
 
@@ -25,6 +43,17 @@ export interface VCAPIResponse {
   body: any;
 }
 
+/**
+ * RFC 9457 problem details
+ */
+export interface VCAPIProblemDetails {
+  type: string; // A VC Data Model problem type, or about:blank for plain HTTP errors
+  title: string;
+  status?: number; // The HTTP status, on error responses
+  detail?: string;
+  code?: string; // The VerificationErrorCode, when the verifier set one
+}
+
 /**
  * VC-API verification request
  */
@@ -43,9 +72,39 @@ export interface VCAPIVerificationRequest {
 export interface VCAPIVerificationResponse {
   verified: boolean;
   verificationResult: VerificationResult;
-  checks: string[];
+  checks: string[]; // The checks that ran: proof, status, expiration, schema
   warnings?: string[];
-  errors?: string[];
+  errors?: VCAPIProblemDetails[];
+}
+
+/**
+ * Body of POST /exchanges: the presentation request to create, and the VPR queries the presentation must answer
+ */
+export interface VCAPICreateExchangeRequest {
+  query?: VprQuery | VprQuery[]; // Default a QueryByExample per requested credential type
+  credentials?: CreateRequestOptions['credentials'];
+  policies?: string[];
+  domain?: string;
+  expiresIn?: number;
+  comment?: string;
+}
+
+/**
+ * A presentation exchange, as GET /exchanges/{id} returns it
+ */
+export interface VCAPIExchange {
+  id: string;
+  state: 'pending' | 'active' | 'complete'; // complete once a presentation verified; a rejected one leaves it active
+  expires: string; // ISO 8601
+  verifiablePresentationRequest: Record<string, any>;
+  result?: VCAPIVerificationResponse; // The verified presentation's, or the last rejected one's
+}
+
+export interface VCAPIAdapterOptions {
+  verifier: CredentialVerifier; // Verifies the credentials and presentations posted to the endpoints
+  baseUrl?: string; // Public URL the endpoints are served at; exchange URLs are under it (default http://localhost)
+  sessionStore?: SessionStore; // Where exchanges are kept, default in memory
+  allowUncheckedChallenge?: boolean; // Verify presentations posted without options.challenge, with a warning (default false: 400)
 }
 
 /**
@@ -53,12 +112,274 @@ export interface VCAPIVerificationResponse {
  * Handles VC-API REST operations for credential verification
  */
 export class VCAPIAdapter {
+  private options: VCAPIAdapterOptions;
+  private sessionStore: SessionStore;
+  private baseUrl: string;
+
+  constructor(options: VCAPIAdapterOptions) {
+    this.options = options;
+    this.sessionStore = options.sessionStore ?? new MemorySessionStore();
+    this.baseUrl = options.baseUrl ?? 'http://localhost';
+  }
+
+  /**
+   * Answers a VC-API HTTP request in-process: POST /credentials/verify, POST /presentations/verify, POST /exchanges,
+   * GET and POST /exchanges/{id}, under the path of baseUrl
+   * @param request - The HTTP request; the body is the parsed JSON or its text
+   * @returns Promise<VCAPIResponse> - The HTTP response; errors have a problem details body
+   */
+  async handle(request: VCAPIRequest): Promise<VCAPIResponse> {
+    const basePath = new URL(this.baseUrl).pathname.replace(/\/$/, '');
+    const path = new URL(request.url ?? '', this.baseUrl).pathname;
+    const method = (request.method ?? 'GET').toUpperCase();
+    if (!path.startsWith(`${basePath}/`)) {
+      return problemResponse(404, 'Unknown endpoint');
+    }
+    const route = path.slice(basePath.length).replace(/\/$/, '');
+
+    let body: any;
+    try {
+      body = typeof request.body === 'string' ? (request.body.trim() ? JSON.parse(request.body) : undefined) : request.body;
+    } catch {
+      return problemResponse(400, 'Request body is not JSON', PROBLEM_TYPES.PARSING_ERROR);
+    }
+
+    try {
+      if (route === '/credentials/verify' || route === '/presentations/verify' || route === '/exchanges') {
+        if (method !== 'POST') {
+          return methodNotAllowed(['POST']);
+        }
+        if (route === '/credentials/verify') {
+          return await this.verifyCredential(body);
+        }
+        return route === '/presentations/verify' ? await this.verifyPresentation(body) : await this.createExchange(body);
+      }
+      const exchange = /^\/exchanges\/([^/]+)$/.exec(route);
+      if (exchange) {
+        const id = decodeURIComponent(exchange[1]);
+        if (method === 'GET') {
+          const session = await this.sessionStore.get(id);
+          return session ? jsonResponse(200, this.exchangeView(session)) : problemResponse(404, 'Unknown or expired exchange');
+        }
+        return method === 'POST' ? await this.participate(id, body) : methodNotAllowed(['GET', 'POST']);
+      }
+      return problemResponse(404, 'Unknown endpoint');
+    } catch (error) {
+      console.error(`VC-API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return problemResponse(500, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * A Node http request listener serving handle(), to mount on an http.Server or a framework route
+   * @returns The (req, res) listener
+   */
+  listener(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      readBody(req)
+        .then(body => body === null
+          ? problemResponse(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`)
+          : this.handle({ method: req.method ?? 'GET', url: req.url ?? '/', headers: flattenHeaders(req), body }))
+        .catch(error => problemResponse(500, error instanceof Error ? error.message : 'Unknown error'))
+        .then(response => {
+          res.writeHead(response.status, response.headers);
+          res.end(response.body === undefined ? undefined : JSON.stringify(response.body));
+        });
+    };
+  }
+
+  /**
+   * Serves the endpoints on a new Node http server, e.g. for integration tests. Without a baseUrl option, exchange
+   * URLs use the address the server listens on
+   * @param port - The port, default 0 (any free port)
+   * @param hostname - The interface to listen on, default 127.0.0.1
+   * @returns Promise<Server> - The listening server; close it when done
+   */
+  async listen(port = 0, hostname = '127.0.0.1'): Promise<Server> {
+    const server = createServer(this.listener());
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, hostname, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    if (!this.options.baseUrl) {
+      this.baseUrl = `http://${hostname}:${(server.address() as AddressInfo).port}`;
+    }
+    console.log(`VC-API verifier listening on ${this.baseUrl}`);
+    return server;
+  }
+
+  /**
+   * POST /credentials/verify: verifies a standalone credential
+   */
+  private async verifyCredential(body: any): Promise<VCAPIResponse> {
+    console.log("--- VC-API Credential Verification ---");
+    const credential: VerifiableCredential = body?.verifiableCredential;
+    if (!isObject(credential)) {
+      return problemResponse(400, 'verifiableCredential is required', PROBLEM_TYPES.MALFORMED_VALUE_ERROR);
+    }
+    const request = typeof body.options?.challenge === 'string' ? optionsRequest(body.options) : undefined;
+    let result: VerificationResult;
+    try {
+      result = await this.options.verifier.verifyCredential(credential, request);
+    } catch (error) {
+      return problemResponse(400, error instanceof Error ? error.message : 'Credential cannot be verified', PROBLEM_TYPES.MALFORMED_VALUE_ERROR);
+    }
+    return verificationResponse(result, [credential], true).response;
+  }
+
+  /**
+   * POST /presentations/verify: verifies a presentation bound to the challenge and domain of the request options.
+   * A presentation without a challenge option could be a replay, so it is refused unless allowUncheckedChallenge is
+   * set; then the proof is verified over its own challenge and the response warns that the challenge was not checked
+   */
+  private async verifyPresentation(body: any): Promise<VCAPIResponse> {
+    console.log("--- VC-API Presentation Verification ---");
+    const presentation: VerifiablePresentation = body?.verifiablePresentation;
+    if (!isObject(presentation) && typeof presentation !== 'string') {
+      return problemResponse(400, 'verifiablePresentation is required', PROBLEM_TYPES.MALFORMED_VALUE_ERROR);
+    }
+    const challenge: string | undefined = body.options?.challenge;
+    if (challenge === undefined && !this.options.allowUncheckedChallenge) {
+      return problemResponse(400, 'options.challenge is required', PROBLEM_TYPES.MALFORMED_VALUE_ERROR);
+    }
+    const warnings = challenge === undefined ? ['Challenge not checked: no challenge option was given, so the presentation may be a replay'] : [];
+    const request = optionsRequest({ challenge: challenge ?? proofChallenge(presentation), domain: body.options?.domain });
+    let result: VerificationResult;
+    try {
+      result = await this.options.verifier.verify(presentation, request);
+    } catch (error) {
+      return problemResponse(400, error instanceof Error ? error.message : 'Presentation cannot be verified', PROBLEM_TYPES.MALFORMED_VALUE_ERROR);
+    }
+    return verificationResponse(result, presentedCredentials(presentation), true, warnings).response;
+  }
+
+  /**
+   * POST /exchanges: creates a presentation request with the verifier and opens an exchange for it
+   */
+  private async createExchange(body: any): Promise<VCAPIResponse> {
+    const options: VCAPICreateExchangeRequest = body ?? {};
+    if (!isObject(options)) {
+      return problemResponse(400, 'Request body must be an object', PROBLEM_TYPES.MALFORMED_VALUE_ERROR);
+    }
+    let request: PresentationRequest;
+    try {
+      request = await this.options.verifier.createRequest({
+        comment: options.comment,
+        credentials: options.credentials,
+        policies: options.policies,
+        domain: options.domain,
+        expiresIn: options.expiresIn
+      });
+    } catch (error) {
+      return problemResponse(400, error instanceof Error ? error.message : 'Invalid exchange', PROBLEM_TYPES.MALFORMED_VALUE_ERROR);
+    }
+    const query = options.query
+      ? (Array.isArray(options.query) ? options.query : [options.query])
+      : renderProtocolRequests(request, { chapi: true }, '').chapi!.web.VerifiablePresentation.query as VprQuery[];
+    const session: Session = {
+      id: request.id,
+      request,
+      nonce: request.challenge,
+      expiresAt: request.expiresAt!,
+      data: { state: 'pending', query }
+    };
+    await this.sessionStore.save(session);
+    console.log(`Created VC-API exchange ${request.id}`);
+    const response = jsonResponse(201, this.exchangeView(session));
+    response.headers.location = this.exchangeUrl(request.id);
+    return response;
+  }
+
+  /**
+   * POST /exchanges/{id}: without a presentation, returns the Verifiable Presentation Request; with one, checks it
+   * answers the request's queries and verifies it. An exchange accepts one verified presentation: a rejected one is
+   * recorded as the result and the holder may present again until the exchange expires
+   */
+  private async participate(id: string, body: any): Promise<VCAPIResponse> {
+    const session = await this.sessionStore.get(id);
+    if (!session) {
+      return problemResponse(404, 'Unknown or expired exchange');
+    }
+    if (session.nonceConsumed || session.data!.state === 'complete') {
+      return problemResponse(409, 'Exchange already received a presentation');
+    }
+    const presentation: VerifiablePresentation | undefined = body?.verifiablePresentation;
+    if (presentation === undefined) {
+      await this.sessionStore.save({ ...session, data: { ...session.data, state: 'active' } });
+      return jsonResponse(200, { verifiablePresentationRequest: this.presentationRequest(session) });
+    }
+
+    console.log(`--- VC-API Exchange ${id}: Presentation Received ---`);
+    const { valid, errors } = isObject(presentation)
+      ? evaluateVprQuery(session.data!.query, presentation)
+      : { valid: false, errors: ['verifiablePresentation must be an object'] };
+    let result: VerificationResult;
+    if (!valid) {
+      result = { status: 'rejected', error: `Presentation does not answer the request: ${errors.join('; ')}`, errorCode: 'VPR_QUERY_UNSATISFIED' };
+    } else {
+      try {
+        result = await this.options.verifier.verify(presentation, session.request);
+      } catch (error) {
+        result = { status: 'rejected', error: error instanceof Error ? error.message : 'Presentation cannot be verified' };
+      }
+    }
+    const { response, body: verification } = verificationResponse(result, presentedCredentials(presentation), valid);
+    let current: Session;
+    try {
+      current = verification.verified ? await consumeSession(this.sessionStore, { id }) : await findSession(this.sessionStore, { id });
+    } catch {
+      return problemResponse(409, 'Exchange already received a presentation');
+    }
+    await this.sessionStore.save({
+      ...current,
+      data: { ...current.data, state: verification.verified ? 'complete' : 'active', result: verification }
+    });
+    return response;
+  }
+
+  /**
+   * The exchange as GET /exchanges/{id} returns it
+   */
+  private exchangeView(session: Session): VCAPIExchange {
+    return {
+      id: session.id,
+      state: session.data!.state,
+      expires: new Date(session.expiresAt).toISOString(),
+      verifiablePresentationRequest: this.presentationRequest(session),
+      ...(session.data!.result && { result: session.data!.result })
+    };
+  }
+
+  /**
+   * The exchange's Verifiable Presentation Request; the holder posts its presentation back to the exchange URL
+   */
+  private presentationRequest(session: Session): Record<string, any> {
+    return {
+      query: session.data!.query,
+      challenge: session.request.challenge,
+      ...(session.request.domain && { domain: session.request.domain }),
+      interact: {
+        service: [{ type: 'UnmediatedHttpPresentationService2021', serviceEndpoint: this.exchangeUrl(session.id) }]
+      }
+    };
+  }
+
+  private exchangeUrl(id: string): string {
+    return `${this.baseUrl.replace(/\/$/, '')}/exchanges/${encodeURIComponent(id)}`;
+  }
+
   /**
    * Receives a VC-API verification request
    * @param request - The VC-API request
+   * @param sessionStore - When given, the challenge must name an open request registered in it; that request is
+   * returned as the original request. The challenge is not consumed, so a presentation that fails verification cannot
+   * close the request: pass the verification result to consumeChallenge
    * @returns Promise with presentation and original request
    */
-  static async receivePresentation(request: VCAPIRequest): Promise<{
+  static async receivePresentation(request: VCAPIRequest, sessionStore?: SessionStore): Promise<{
     presentation: VerifiablePresentation;
     originalRequest: PresentationRequest;
   }> {
@@ -83,6 +404,12 @@ export class VCAPIAdapter {
       throw new Error('No verifiable presentation found in VC-API request');
     }
     
+    if (sessionStore) {
+      const challenge = vcApiRequest.options?.challenge ?? presentation.proof?.challenge;
+      const session = await findSession(sessionStore, { nonce: challenge });
+      return { presentation, originalRequest: session.request };
+    }
+
     // Convert to standard request format
     const originalRequest: PresentationRequest = {
       id: `vc-api-${Date.now()}`,
@@ -94,14 +421,28 @@ export class VCAPIAdapter {
     return { presentation, originalRequest };
   }
   
+  /**
+   * Consumes the challenge of a request receivePresentation found, once its presentation verified, so the request is
+   * answered once
+   * @param sessionStore - The store the request was registered in
+   * @param request - The original request receivePresentation returned
+   * @param result - The result of verifying the presentation; a rejected result leaves the request open
+   * @throws Error - When the request is unknown or expired, or was already answered
+   */
+  static async consumeChallenge(sessionStore: SessionStore, request: PresentationRequest, result: VerificationResult): Promise<void> {
+    if (result.status === 'verified') {
+      await consumeSession(sessionStore, { nonce: request.challenge });
+    }
+  }
+
   /**
    * Creates a VC-API response
    * @param result - The verification result
-   * @param options - Additional options for response formatting
+   * @param options - The checks that ran (default those the result shows), and whether to report status warnings
    * @returns VC-API response
    */
   static createResponse(result: VerificationResult, options?: {
-    includeChecks?: boolean;
+    checks?: string[];
     includeWarnings?: boolean;
   }): VCAPIResponse {
     console.log("--- Creating VC-API Response ---");
@@ -109,14 +450,9 @@ export class VCAPIAdapter {
     const verificationResponse: VCAPIVerificationResponse = {
       verified: result.status === 'verified',
       verificationResult: result,
-      checks: options?.includeChecks ? [
-        'proof',
-        'expiration',
-        'revocation',
-        'schema'
-      ] : [],
-      ...(result.error && { errors: [result.error] }),
-      ...(options?.includeWarnings && { warnings: [] })
+      checks: options?.checks ?? checksRun(result, { proof: result.errorCode !== 'REQUEST_EXPIRED', expiration: false }),
+      ...(result.status === 'rejected' && { errors: [verificationProblem(result)] }),
+      ...(options?.includeWarnings && { warnings: (result.credentials ?? []).flatMap(credential => credential.statusResult?.warnings ?? []) })
     };
     
     const response: VCAPIResponse = {
@@ -198,19 +534,168 @@ export class VCAPIAdapter {
   /**
    * Handles VC-API error responses
    * @param error - The error to handle
-   * @returns VC-API error response
+   * @returns VC-API error response, with a problem details body
    */
   static createErrorResponse(error: Error): VCAPIResponse {
-    return {
-      status: 400,
-      headers: {
-        'content-type': 'application/json',
-        'cache-control': 'no-cache'
-      },
-      body: {
-        error: error.message,
-        timestamp: new Date().toISOString()
+    return problemResponse(400, error.message, PROBLEM_TYPES.MALFORMED_VALUE_ERROR);
+  }
+}
+
+/**
+ * The VC-API response to a verification, with the checks that ran. Credentials that are past their validUntil
+ * (expirationDate) or before their validFrom reject a verification that passed otherwise
+ * @param proof - Whether the verifier ran, so proofs were checked
+ * @param warnings - Warnings about the request, reported before the status warnings
+ */
+function verificationResponse(result: VerificationResult, credentials: Record<string, any>[], proof: boolean, warnings: string[] = []): {
+  response: VCAPIResponse;
+  body: VCAPIVerificationResponse;
+} {
+  let expiration = false;
+  if (result.status === 'verified') {
+    const validity = checkValidityPeriods(credentials);
+    expiration = validity.checked;
+    if (validity.error) {
+      console.log(`Credential validity period check failed: ${validity.error}`);
+      result = { ...result, status: 'rejected', error: validity.error, errorCode: 'CREDENTIAL_EXPIRED' };
+    }
+  }
+  const response = VCAPIAdapter.createResponse(result, { checks: checksRun(result, { proof, expiration }), includeWarnings: true });
+  response.body.warnings = [...warnings, ...response.body.warnings];
+  return { response, body: response.body };
+}
+
+/**
+ * The checks a verification ran, in VC-API order: proof, then status, expiration and schema when any credential
+ * was checked for them
+ */
+function checksRun(result: VerificationResult, ran: { proof: boolean; expiration: boolean }): string[] {
+  const credentials = result.credentials ?? [];
+  return [
+    ...(ran.proof ? ['proof'] : []),
+    ...(credentials.some(credential => credential.statusResult) ? ['status'] : []),
+    ...(ran.expiration ? ['expiration'] : []),
+    ...(credentials.some(credential => credential.schemaResult) ? ['schema'] : [])
+  ];
+}
+
+/**
+ * Checks the validity period of JSON credentials that have one
+ * @returns Whether any credential has a validity period, and the first violation
+ */
+function checkValidityPeriods(credentials: Record<string, any>[], now = Date.now()): { checked: boolean; error?: string } {
+  let checked = false;
+  for (const [index, credential] of credentials.entries()) {
+    const name = typeof credential.id === 'string' ? credential.id : `Credential ${index + 1}`;
+    const validUntil = credential.validUntil ?? credential.expirationDate;
+    const validFrom = credential.validFrom;
+    if (validUntil !== undefined) {
+      checked = true;
+      if (!(Date.parse(validUntil) > now)) {
+        return { checked, error: `${name} expired at ${validUntil}` };
       }
-    };
+    }
+    if (validFrom !== undefined) {
+      checked = true;
+      if (!(Date.parse(validFrom) <= now)) {
+        return { checked, error: `${name} is not valid before ${validFrom}` };
+      }
+    }
   }
-} 
\ No newline at end of file
+  return { checked };
+}
+
+/**
+ * The problem details of a rejected verification
+ */
+function verificationProblem(result: VerificationResult): VCAPIProblemDetails {
+  const problem = result.errorCode === 'CREDENTIAL_EXPIRED' || result.errorCode === 'REQUEST_EXPIRED'
+    ? PROBLEM_TYPES.RANGE_ERROR
+    : result.errorCode === 'SCHEMA_INVALID' || result.errorCode === 'PRESENTATION_DEFINITION_UNSATISFIED' || result.errorCode === 'DCQL_QUERY_UNSATISFIED' || result.errorCode === 'VPR_QUERY_UNSATISFIED'
+      ? PROBLEM_TYPES.MALFORMED_VALUE_ERROR
+      : PROBLEM_TYPES.CRYPTOGRAPHIC_SECURITY_ERROR;
+  return {
+    ...problem,
+    detail: result.error || 'Verification failed',
+    ...(result.errorCode && { code: result.errorCode })
+  };
+}
+
+/**
+ * The presentation request the verify endpoints check presentations against, from the request options
+ */
+function optionsRequest(options: { challenge?: string; domain?: string }): PresentationRequest {
+  return {
+    id: `vc-api-${Date.now()}`,
+    comment: 'VC-API verification request',
+    request_credentials: [{ type: 'VerifiableCredential', required: true }],
+    challenge: options.challenge ?? '',
+    ...(options.domain && { domain: options.domain })
+  };
+}
+
+/**
+ * The challenge of a presentation's authentication proof (or its first proof)
+ */
+function proofChallenge(presentation: VerifiablePresentation | string): string | undefined {
+  if (!isObject(presentation)) {
+    return undefined;
+  }
+  const proofs = (Array.isArray(presentation.proof) ? presentation.proof : [presentation.proof]).filter(Boolean);
+  const proof = proofs.find(entry => entry.proofPurpose === 'authentication') ?? proofs[0];
+  return typeof proof?.challenge === 'string' ? proof.challenge : undefined;
+}
+
+/**
+ * The JSON credentials of a presentation (VC-JWTs and other enveloped forms are left to their handlers)
+ */
+function presentedCredentials(presentation: any): Record<string, any>[] {
+  const entries = isObject(presentation) ? presentation.verifiableCredential ?? [] : [];
+  return (Array.isArray(entries) ? entries : [entries]).filter(isObject);
+}
+
+function problemResponse(status: number, detail: string, problem?: { type: string; title: string }): VCAPIResponse {
+  const body: VCAPIProblemDetails = {
+    type: problem?.type ?? 'about:blank',
+    title: problem?.title ?? STATUS_CODES[status] ?? 'Error',
+    status,
+    detail
+  };
+  return { status, headers: { 'content-type': 'application/problem+json', 'cache-control': 'no-cache' }, body };
+}
+
+function methodNotAllowed(allowed: string[]): VCAPIResponse {
+  const response = problemResponse(405, `Use ${allowed.join(' or ')}`);
+  response.headers.allow = allowed.join(', ');
+  return response;
+}
+
+function jsonResponse(status: number, body: any): VCAPIResponse {
+  return { status, headers: { 'content-type': 'application/json', 'cache-control': 'no-cache' }, body };
+}
+
+/**
+ * Reads a request body as text; resolves to null when it exceeds MAX_BODY_BYTES
+ */
+function readBody(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function flattenHeaders(req: IncomingMessage): Record<string, string> {
+  return Object.fromEntries(Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : value ?? '']));
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
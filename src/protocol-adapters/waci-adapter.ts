@@ -1,193 +1,296 @@
 /**
  * WACI (Wallet and Credential Interactions) Protocol Adapter
- * Handles DIF standard for wallet/mobile credential interactions
+ * Verifier side of WACI-DIDComm v1: an out-of-band invitation (goal_code streamlined-vp) shown as a QR code starts an
+ * interaction that runs propose-presentation -> request-presentation -> presentation -> ack over DIDComm v2. Each
+ * interaction's state is kept in a session store, so a FileSessionStore carries in-flight interactions over restarts
  */
 
-import { VerifiablePresentation, PresentationRequest, VerificationResult } from '../types';
+import { randomUUID } from 'crypto';
+import { PresentationRequest, VerificationResult, CredentialVerifier, DidResolver, KeyStore, Session, SessionStore } from '../types';
+import { base64urlEncode } from '../crypto/encoding.ts';
+import { MemorySessionStore } from '../session/memory-session-store.ts';
+import { consumeSession } from '../session/consume-session.ts';
+import { renderProtocolRequests } from './protocol-requests.ts';
+import { authenticatedSender, DIDCommPackMode, packDIDCommMessage, unpackDIDCommMessage } from './didcomm-envelope.ts';
+import {
+  DIDCommAdapter, DIDCommMessage, createProblemReport, presentationFromAttachments,
+  PRESENT_PROOF_PROPOSE_PRESENTATION, PRESENT_PROOF_PRESENTATION, PROBLEM_REPORT
+} from './didcomm-adapter.ts';
+
+export const OOB_INVITATION = 'https://didcomm.org/out-of-band/2.0/invitation';
+export const WACI_GOAL_CODE = 'streamlined-vp';
 
 /**
- * WACI request structure
+ * Out-of-band invitation that starts a WACI interaction
  */
-export interface WACIRequest {
-  type: string;
-  id: string;
+export interface WACIInvitation {
+  type: typeof OOB_INVITATION;
+  id: string; // The interaction id; the holder's propose-presentation names it in its pthid
   from: string;
-  to: string;
+  created_time: number;
+  expires_time: number;
   body: {
-    goal_code?: string;
-    accept?: string[];
-    [key: string]: any;
+    goal_code: string;
+    goal?: string;
+    accept: string[];
   };
-  created_time?: number;
-  expires_time?: number;
 }
 
+// invitation-sent -> proposal-received -> request-sent -> presentation-received -> done, or abandoned after a
+// problem-report (sent or received) or a rejected presentation
+export type WACIInteractionState = 'invitation-sent' | 'proposal-received' | 'request-sent' | 'presentation-received' | 'done' | 'abandoned';
+
 /**
- * WACI response structure
+ * An interaction and where it stands
  */
-export interface WACIResponse {
-  type: string;
-  id: string;
-  from: string;
-  to: string;
-  body: {
-    goal_code?: string;
-    verificationResult: VerificationResult;
-    [key: string]: any;
-  };
-  created_time: number;
-  thid?: string;
+export interface WACIInteraction {
+  id: string; // The invitation (and request) id
+  state: WACIInteractionState;
+  request: PresentationRequest;
+  expiresAt: number; // Epoch milliseconds; later messages are answered with a problem-report
+  thid?: string; // The thread the holder started with its propose-presentation
+  holder?: string; // The holder's DID
+  result?: VerificationResult;
+  problem?: { code: string; comment: string }; // The problem-report that abandoned the interaction
+}
+
+export interface WACIAdapterOptions {
+  did: string; // The verifier's DID; invitations and messages are from it
+  keyStore: KeyStore; // Private keys of the verifier's DID
+  didResolver?: DidResolver; // Default an offline UniversalDidResolver
+  sessionStore?: SessionStore; // Where interactions are kept, default in memory
+  verifier?: CredentialVerifier; // Verifies the presentations
+  packMode?: DIDCommPackMode; // How outgoing messages are packed, default authcrypt
+  invitationUrl?: string; // Base of invitation URLs, default didcomm://
+  requestTtl?: number; // Seconds an interaction for a request without expiresAt stays open, default 300
+}
+
+/**
+ * A failure that is reported to the holder in a problem-report
+ */
+class ProblemReportError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'ProblemReportError';
+    this.code = code;
+  }
 }
 
 /**
  * WACI Protocol Adapter
- * Handles WACI protocol for mobile wallet interactions
+ * Runs WACI-DIDComm interactions for mobile wallet presentations
  */
 export class WACIAdapter {
+  private options: WACIAdapterOptions;
+  private sessionStore: SessionStore;
+
+  constructor(options: WACIAdapterOptions) {
+    this.options = options;
+    this.sessionStore = options.sessionStore ?? new MemorySessionStore();
+  }
+
   /**
-   * Receives a WACI presentation request
-   * @param request - The WACI request from the wallet
-   * @returns Promise with presentation and original request
+   * Creates an out-of-band invitation for a presentation request and opens an interaction for it
+   * @param request - The presentation request (e.g. from the verifier's createRequest)
+   * @param options - A human-readable goal shown by the wallet
+   * @returns Promise<Object> - The invitation and its URL (?_oob=), to be rendered as a QR code
    */
-  static async receivePresentation(request: WACIRequest): Promise<{
-    presentation: VerifiablePresentation;
-    originalRequest: PresentationRequest;
+  async createInvitation(request: PresentationRequest, options: { goal?: string } = {}): Promise<{
+    invitation: WACIInvitation;
+    url: string;
   }> {
-    console.log("--- WACI Request Received ---");
-    console.log(`Request ID: ${request.id}`);
-    console.log(`From: ${request.from}`);
-    console.log(`To: ${request.to}`);
-    console.log(`Goal Code: ${request.body.goal_code}`);
-    
-    // Parse WACI request into standard format
-    const originalRequest: PresentationRequest = {
+    console.log("--- Creating WACI Invitation ---");
+    const expiresAt = request.expiresAt ?? Date.now() + (this.options.requestTtl ?? 300) * 1000;
+    const invitation: WACIInvitation = {
+      type: OOB_INVITATION,
       id: request.id,
-      comment: `WACI request from ${request.from}`,
-      request_credentials: request.body.accept ? 
-        request.body.accept.map(type => ({ type, required: true })) :
-        [{ type: 'VerifiableCredential', required: true }],
-      challenge: `waci-challenge-${request.id}`
-    };
-    
-    // In a real implementation, this would extract the presentation
-    // from the WACI request body or attachments
-    // For demo purposes, we'll return a mock presentation
-    const presentation: VerifiablePresentation = {
-      '@context': ['https://www.w3.org/2018/credentials/v1'],
-      type: ['VerifiablePresentation'],
-      verifiableCredential: [],
-      holder: request.from,
-      proof: {
-        type: 'Ed25519Signature2020',
-        created: new Date().toISOString(),
-        verificationMethod: `${request.from}#key-1`,
-        proofPurpose: 'authentication',
-        proofValue: 'mock-waci-signature'
+      from: this.options.did,
+      created_time: Math.floor(Date.now() / 1000),
+      expires_time: Math.floor(expiresAt / 1000),
+      body: {
+        goal_code: WACI_GOAL_CODE,
+        ...((options.goal ?? request.comment) && { goal: options.goal ?? request.comment }),
+        accept: ['didcomm/v2']
       }
     };
-    
-    return { presentation, originalRequest };
+    await this.sessionStore.save({ id: request.id, request, nonce: request.challenge, expiresAt, data: { interactionState: 'invitation-sent' } });
+    const url = `${this.options.invitationUrl ?? 'didcomm://'}?_oob=${base64urlEncode(JSON.stringify(invitation))}`;
+    console.log(`Interaction ${request.id} invited`);
+    return { invitation, url };
   }
-  
+
   /**
-   * Creates a WACI response
-   * @param result - The verification result
-   * @param options - Additional options for response formatting
-   * @returns WACI response
+   * Handles a message of an interaction: answers a propose-presentation with a request-presentation, verifies a
+   * presentation and answers with an ack, and records a holder's problem-report. The holder is the authenticated
+   * (authcrypt or signed) sender of the proposal; later messages count as the holder's only when authenticated as
+   * it. Unknown, expired or out-of-order messages and rejected presentations are answered with a problem-report
+   * @param envelope - The received DIDComm message (encrypted, signed or plaintext)
+   * @returns Promise<Object> - The received message, the interaction, and the response (plaintext and packed)
+   * @throws Error - When the message cannot be unpacked (there is nobody to answer)
    */
-  static createResponse(result: VerificationResult, options?: {
-    from: string;
-    to: string;
-    threadId?: string;
-    goalCode?: string;
-  }): WACIResponse {
-    console.log("--- Creating WACI Response ---");
-    
-    if (!options?.from || !options?.to) {
-      throw new Error('WACI response requires from and to addresses');
+  async handle(envelope: string | Record<string, any>): Promise<{
+    received: DIDCommMessage;
+    interaction?: WACIInteraction;
+    response?: DIDCommMessage;
+    packed?: string;
+  }> {
+    const unpacked = await unpackDIDCommMessage(envelope, this.options);
+    const { message } = unpacked;
+    const sender = authenticatedSender(unpacked);
+    console.log("--- WACI Message Received ---");
+    console.log(`Message ID: ${message.id}`);
+    console.log(`Message Type: ${message.type}`);
+    console.log(`From: ${message.from}`);
+
+    let session: Session | undefined;
+    let response: DIDCommMessage | undefined;
+    try {
+      if (message.type === PRESENT_PROOF_PROPOSE_PRESENTATION) {
+        session = await this.interaction(message.pthid, 'invitation-sent', message);
+        response = await this.requestPresentation(session, message, sender);
+        session = await this.sessionStore.get(session.id);
+      } else if (message.type === PRESENT_PROOF_PRESENTATION) {
+        session = await this.interaction(message.thid, 'request-sent', message);
+        session = await this.verifyPresentation(session, message, sender);
+        response = DIDCommAdapter.createResponse(session.data!.result, { thid: session.state!, from: this.options.did, to: [message.from!] }).message;
+      } else if (message.type === PROBLEM_REPORT) {
+        session = await this.findInteraction(message.pthid ?? message.thid);
+        if (session && (!sender || session.data!.holder !== sender)) {
+          console.log(`Ignoring problem report for interaction ${session.id}: not from its authenticated holder`);
+        } else if (session) {
+          console.log(`Holder abandoned interaction ${session.id}: ${message.body.code} ${message.body.comment ?? ''}`);
+          session = await this.transition(session, 'abandoned', { problem: { code: message.body.code, comment: message.body.comment } });
+        }
+      } else {
+        throw new ProblemReportError('e.p.msg.unsupported-message', `Unsupported WACI message type: ${message.type}`);
+      }
+    } catch (error) {
+      const problem = error instanceof ProblemReportError
+        ? error
+        : new ProblemReportError('e.p.xfer.cant-process', error instanceof Error ? error.message : 'Message could not be processed');
+      console.log(`Problem: ${problem.code} ${problem.message}`);
+      // The problem abandons an open interaction only when the message came from its authenticated holder
+      session = session && await this.sessionStore.get(session.id);
+      const { interactionState, holder } = session?.data ?? {};
+      if (session && interactionState !== 'done' && interactionState !== 'abandoned' && sender && holder === sender) {
+        session = await this.transition(session, 'abandoned', { problem: { code: problem.code, comment: problem.message } });
+      }
+      response = createProblemReport({
+        code: problem.code,
+        comment: problem.message,
+        thid: (sender && session?.data?.holder === sender && session?.state) || (message.thid ?? message.id),
+        from: this.options.did,
+        ...(message.from && { to: [message.from] })
+      });
     }
-    
-    const response: WACIResponse = {
-      type: 'https://didcomm.org/waci/2.0/verification-response',
-      id: `response-${Date.now()}`,
-      from: options.from,
-      to: options.to,
-      body: {
-        goal_code: options.goalCode || 'streamlined-vp',
-        verificationResult: result,
-        status: result.status,
-        ...(result.policyResults && { policyResults: result.policyResults }),
-        ...(result.error && { error: result.error })
-      },
-      created_time: Math.floor(Date.now() / 1000)
+
+    return {
+      received: message,
+      ...(session && { interaction: interactionOf(session) }),
+      ...(response && { response }),
+      ...(response?.to && { packed: await packDIDCommMessage(response, this.options.packMode ?? 'authcrypt', this.options) })
     };
-    
-    // Add threading if threadId is provided
-    if (options.threadId) {
-      response.thid = options.threadId;
+  }
+
+  /**
+   * Gets an interaction by its id (the invitation id)
+   * @param id - The interaction id
+   * @returns Promise<WACIInteraction | undefined> - The interaction, or undefined when it is unknown or expired
+   */
+  async getInteraction(id: string): Promise<WACIInteraction | undefined> {
+    const session = await this.sessionStore.get(id);
+    return session?.data?.interactionState ? interactionOf(session) : undefined;
+  }
+
+  /**
+   * Answers a proposal: claims the interaction for the proposing holder and the thread it started, then sends the
+   * presentation definition and challenge in a request-presentation
+   */
+  private async requestPresentation(session: Session, proposal: DIDCommMessage, sender: string | undefined): Promise<DIDCommMessage> {
+    if (!sender) {
+      throw new ProblemReportError('e.p.msg.sender-unknown', 'propose-presentation must be authcrypted or signed by its sender (from)');
     }
-    
-    return response;
+    if (await this.sessionStore.findByState(proposal.id)) {
+      throw new ProblemReportError('e.p.msg.duplicate-thread', `Thread ${proposal.id} is already in use`);
+    }
+    session = await this.transition({ ...session, state: proposal.id }, 'proposal-received', { holder: sender });
+
+    const { didcomm } = renderProtocolRequests(session.request, { didcomm: { from: this.options.did, to: [sender], goalCode: WACI_GOAL_CODE } }, '');
+    const request = { ...didcomm, id: randomUUID(), thid: proposal.id } as DIDCommMessage;
+    await this.transition(session, 'request-sent');
+    return request;
   }
-  
+
   /**
-   * Validates a WACI request
-   * @param request - The request to validate
-   * @returns Validation result
+   * Verifies the presentation of an interaction's thread, consuming the interaction's challenge
    */
-  static validateRequest(request: WACIRequest): { isValid: boolean; errors?: string[] } {
-    const errors: string[] = [];
-    
-    if (!request.id) {
-      errors.push('Request ID is required');
+  private async verifyPresentation(session: Session, message: DIDCommMessage, sender: string | undefined): Promise<Session> {
+    if (!this.options.verifier) {
+      throw new Error('No verifier configured');
     }
-    
-    if (!request.from) {
-      errors.push('From address is required');
+    if (!sender || sender !== session.data!.holder) {
+      throw new ProblemReportError('e.p.msg.sender-mismatch', 'Presentation is not from the holder that proposed the interaction');
     }
-    
-    if (!request.to) {
-      errors.push('To address is required');
+    await consumeSession(this.sessionStore, { id: session.id });
+    session = await this.transition(session, 'presentation-received');
+
+    let result: VerificationResult;
+    try {
+      result = await this.options.verifier.verify(presentationFromAttachments(message.attachments, session.request), session.request);
+    } catch (error) {
+      result = { status: 'rejected', error: error instanceof Error ? error.message : 'Invalid presentation message' };
     }
-    
-    if (!request.body) {
-      errors.push('Request body is required');
+    console.log(`Interaction ${session.id}: presentation ${result.status}`);
+    return this.transition(session, result.status === 'verified' ? 'done' : 'abandoned', { result });
+  }
+
+  /**
+   * The interaction a message belongs to, which must be in the expected state
+   */
+  private async interaction(thread: string | undefined, expected: WACIInteractionState, message: DIDCommMessage): Promise<Session> {
+    const session = await this.findInteraction(thread);
+    if (!session) {
+      throw new ProblemReportError('e.p.msg.unknown-interaction', `${message.type.split('/').pop()} does not belong to an open interaction (unknown or expired)`);
     }
-    
-    if (!request.type || !request.type.includes('waci')) {
-      errors.push('Invalid WACI message type');
+    if (session.data!.interactionState !== expected) {
+      throw new ProblemReportError('e.p.msg.unexpected-message', `Unexpected ${message.type.split('/').pop()} in interaction state ${session.data!.interactionState}`);
     }
-    
-    return {
-      isValid: errors.length === 0,
-      errors: errors.length > 0 ? errors : undefined
-    };
+    return session;
   }
-  
+
   /**
-   * Creates a WACI presentation request
-   * @param options - Request options
-   * @returns WACI request
+   * Finds an interaction by its thread (the propose-presentation id) or its invitation id
    */
-  static createPresentationRequest(options: {
-    from: string;
-    to: string;
-    goalCode?: string;
-    accept?: string[];
-    challenge?: string;
-  }): WACIRequest {
-    return {
-      type: 'https://didcomm.org/waci/2.0/presentation-request',
-      id: `request-${Date.now()}`,
-      from: options.from,
-      to: options.to,
-      body: {
-        goal_code: options.goalCode || 'streamlined-vp',
-        ...(options.accept && { accept: options.accept }),
-        ...(options.challenge && { challenge: options.challenge })
-      },
-      created_time: Math.floor(Date.now() / 1000),
-      expires_time: Math.floor(Date.now() / 1000) + 3600 // 1 hour expiry
-    };
+  private async findInteraction(thread: string | undefined): Promise<Session | undefined> {
+    if (thread === undefined) {
+      return undefined;
+    }
+    const session = await this.sessionStore.findByState(thread) ?? await this.sessionStore.get(thread);
+    return session?.data?.interactionState ? session : undefined;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Moves an interaction to a new state and saves it
+   */
+  private async transition(session: Session, interactionState: WACIInteractionState, changes: Record<string, any> = {}): Promise<Session> {
+    const updated: Session = { ...session, data: { ...session.data, ...changes, interactionState } };
+    await this.sessionStore.save(updated);
+    return updated;
+  }
+}
+
+function interactionOf(session: Session): WACIInteraction {
+  const { interactionState, holder, result, problem } = session.data!;
+  return {
+    id: session.id,
+    state: interactionState,
+    request: session.request,
+    expiresAt: session.expiresAt,
+    ...(session.state && { thid: session.state }),
+    ...(holder && { holder }),
+    ...(result && { result }),
+    ...(problem && { problem })
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * DCQL
+ * Matches the verified presentations of a vp_token, keyed by credential query id, against a Digital Credentials
+ * Query Language query: format and metadata, requested claims and their values, claim sets, credential sets, and
+ * that selectively disclosed credentials reveal no claims the query did not request
+ */
+
+import {
+  CredentialVerificationResult, DcqlClaimsQuery, DcqlCredentialQuery, DcqlCredentialQueryResult, DcqlQuery, DcqlResult
+} from '../types/index.ts';
+
+// Formats whose claims the holder discloses selectively
+const SD_JWT_FORMATS = ['dc+sd-jwt', 'vc+sd-jwt'];
+const MDOC_FORMAT = 'mso_mdoc';
+
+/**
+ * Matches the verified presentations against a DCQL query
+ * @param query - The DCQL query from the request
+ * @param presented - The verified credentials of each vp_token entry, keyed by credential query id
+ * @returns DcqlResult - Whether the query is satisfied, and the outcome of each credential query
+ */
+export function evaluateDcqlQuery(query: DcqlQuery, presented: Record<string, CredentialVerificationResult[]>): DcqlResult {
+  const errors: string[] = [];
+  for (const id of Object.keys(presented)) {
+    if (!query.credentials.some(credentialQuery => credentialQuery.id === id)) {
+      errors.push(`vp_token has presentations for ${id}, which the query did not request`);
+    }
+  }
+
+  const credentials = query.credentials.map(credentialQuery => evaluateCredentialQuery(credentialQuery, presented[credentialQuery.id] ?? []));
+  const satisfied = new Set(credentials.filter(result => result.satisfied).map(result => result.id));
+
+  // Presentations the wallet returned must match their query, even where the credential sets do not need them
+  for (const result of credentials) {
+    if (!result.satisfied && presented[result.id]?.length) {
+      errors.push(`Presentations for ${result.id} do not satisfy its credential query`);
+    }
+  }
+  if (query.credential_sets) {
+    query.credential_sets.forEach((credentialSet, index) => {
+      if ((credentialSet.required ?? true) && !credentialSet.options.some(option => option.every(id => satisfied.has(id)))) {
+        errors.push(`Credential set ${index} is not satisfied by any of its options: ${credentialSet.options.map(option => `[${option.join(', ')}]`).join(', ')}`);
+      }
+    });
+  } else {
+    for (const result of credentials.filter(result => !result.satisfied && !presented[result.id]?.length)) {
+      errors.push(`Credential query ${result.id} is not satisfied`);
+    }
+  }
+  return { valid: errors.length === 0, errors, credentials };
+}
+
+/**
+ * Checks that every presentation returned for a credential query matches it
+ */
+function evaluateCredentialQuery(credentialQuery: DcqlCredentialQuery, credentials: CredentialVerificationResult[]): DcqlCredentialQueryResult {
+  if (credentials.length === 0) {
+    return { id: credentialQuery.id, satisfied: false, errors: ['No presentation returned'] };
+  }
+  if (credentials.length > 1 && !credentialQuery.multiple) {
+    return { id: credentialQuery.id, satisfied: false, errors: [`${credentials.length} presentations returned, but the query does not allow multiple`] };
+  }
+  const errors: string[] = [];
+  let claimSet: string[] | undefined;
+  credentials.forEach((credential, index) => {
+    if (credential.status !== 'verified') {
+      errors.push(`Presentation ${index}: not verified`);
+      return;
+    }
+    const metaError = checkMeta(credentialQuery, credential);
+    if (metaError) {
+      errors.push(`Presentation ${index}: ${metaError}`);
+      return;
+    }
+    const claims = evaluateClaims(credentialQuery, credential);
+    errors.push(...claims.errors.map(error => `Presentation ${index}: ${error}`));
+    claimSet ??= claims.claimSet;
+  });
+  return { id: credentialQuery.id, satisfied: errors.length === 0, ...(claimSet && { claimSet }), errors };
+}
+
+/**
+ * Checks the credential type against the query's meta (vct_values, doctype_value or type_values)
+ * @returns string | undefined - Why the credential does not match, undefined when it does
+ */
+function checkMeta(credentialQuery: DcqlCredentialQuery, credential: CredentialVerificationResult): string | undefined {
+  const meta = credentialQuery.meta;
+  const credentialType = credential.credentialType ?? '';
+  if (SD_JWT_FORMATS.includes(credentialQuery.format) && meta?.vct_values && !meta.vct_values.includes(credentialType)) {
+    return `vct ${credentialType} is not one of ${meta.vct_values.join(', ')}`;
+  }
+  if (credentialQuery.format === MDOC_FORMAT && meta?.doctype_value !== undefined && meta.doctype_value !== credentialType) {
+    return `docType ${credentialType} is not ${meta.doctype_value}`;
+  }
+  if (meta?.type_values) {
+    const types = credentialType.split(',').map(type => type.trim());
+    if (!meta.type_values.some(combination => combination.every(type => types.includes(type)))) {
+      return `type ${credentialType} matches none of the requested type combinations`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks the requested claims were disclosed with an accepted value and, for selectively disclosed formats,
+ * that no other claims were
+ */
+function evaluateClaims(credentialQuery: DcqlCredentialQuery, credential: CredentialVerificationResult): { errors: string[]; claimSet?: string[] } {
+  const claimQueries = credentialQuery.claims;
+  if (!claimQueries || claimQueries.length === 0) {
+    return { errors: [] };
+  }
+  const document = claimsDocument(credentialQuery.format, credential);
+  const unmet = new Map<DcqlClaimsQuery, string>();
+  for (const claimQuery of claimQueries) {
+    const values = selectClaim(document, claimQuery.path);
+    if (values.length === 0) {
+      unmet.set(claimQuery, `claim ${claimLabel(claimQuery)} was not disclosed`);
+    } else if (claimQuery.values && !values.some(value => claimQuery.values!.includes(value))) {
+      unmet.set(claimQuery, `claim ${claimLabel(claimQuery)} does not have one of the requested values`);
+    }
+  }
+
+  // Without claim_sets every claim is required; with them, the first set that was disclosed (and accounts for
+  // every disclosed claim, for selectively disclosed formats) is the one the wallet answered
+  let candidates: { claimSet?: string[]; requested: DcqlClaimsQuery[] }[];
+  if (credentialQuery.claim_sets) {
+    const byId = new Map(claimQueries.filter(claimQuery => claimQuery.id !== undefined).map(claimQuery => [claimQuery.id!, claimQuery]));
+    candidates = credentialQuery.claim_sets
+      .filter(set => set.every(id => byId.has(id) && !unmet.has(byId.get(id)!)))
+      .map(set => ({ claimSet: set, requested: set.map(id => byId.get(id)!) }));
+    if (candidates.length === 0) {
+      return { errors: [`none of the claim sets was disclosed: ${credentialQuery.claim_sets.map(set => `[${set.join(', ')}]`).join(', ')}`] };
+    }
+  } else {
+    if (unmet.size > 0) {
+      return { errors: [...unmet.values()] };
+    }
+    candidates = [{ requested: claimQueries }];
+  }
+
+  if (!SD_JWT_FORMATS.includes(credentialQuery.format) && credentialQuery.format !== MDOC_FORMAT) {
+    return { errors: [], claimSet: candidates[0].claimSet };
+  }
+  const disclosed = disclosedClaims(credentialQuery.format, credential);
+  const unrequested = candidates.map(candidate =>
+    disclosed.filter(claim => !candidate.requested.some(claimQuery => covers(claimQuery.path, claim)))
+  );
+  const answered = unrequested.findIndex(claims => claims.length === 0);
+  if (answered === -1) {
+    return {
+      errors: [`claims were disclosed that the query did not request: ${unrequested[0].map(claim => claim.path.join('.')).join(', ')}`],
+      claimSet: candidates[0].claimSet
+    };
+  }
+  return { errors: [], claimSet: candidates[answered].claimSet };
+}
+
+/**
+ * The document claims paths are evaluated against: the claims themselves for SD-JWT VCs (from the payload root)
+ * and mdocs (namespace, then data element), the credential with its credentialSubject for W3C formats
+ */
+function claimsDocument(format: string, credential: CredentialVerificationResult): Record<string, any> {
+  const claims = credential.claims ?? {};
+  if (SD_JWT_FORMATS.includes(format) || format === MDOC_FORMAT) {
+    return claims;
+  }
+  return {
+    type: (credential.credentialType ?? '').split(',').map(type => type.trim()).filter(Boolean),
+    issuer: credential.issuer,
+    credentialSubject: claims
+  };
+}
+
+/**
+ * Resolves a claims path pointer: strings select object members, integers array elements and null every element
+ * @returns any[] - The selected values
+ */
+function selectClaim(document: any, path: (string | number | null)[]): any[] {
+  let nodes = [document];
+  for (const component of path) {
+    nodes = nodes.flatMap(node => {
+      if (component === null) {
+        return Array.isArray(node) ? node : [];
+      }
+      if (typeof component === 'number') {
+        return Array.isArray(node) && component >= 0 && component < node.length ? [node[component]] : [];
+      }
+      return isPlainObject(node) && Object.prototype.hasOwnProperty.call(node, component) ? [node[component]] : [];
+    });
+  }
+  return nodes;
+}
+
+/**
+ * The claims a credential discloses: each mdoc data element, or each SD-JWT claim down to its leaves
+ * (arrays count as one claim) that a disclosure revealed or lies within. Claims the issuer left always visible
+ * were not the holder's choice; without disclosedPaths only the sub claim, which identifies the subject, is
+ * treated as such. Empty objects and arrays, left where nothing was disclosed, are not claims
+ */
+function disclosedClaims(format: string, credential: CredentialVerificationResult): { path: string[]; value: any }[] {
+  const claims = credential.claims ?? {};
+  if (format === MDOC_FORMAT) {
+    return Object.entries(claims).flatMap(([namespace, elements]) =>
+      Object.entries(elements ?? {}).map(([element, value]) => ({ path: [namespace, element], value }))
+    );
+  }
+  const leaves = (value: any, path: string[]): { path: string[]; value: any }[] => {
+    if (isPlainObject(value)) {
+      return Object.entries(value).flatMap(([key, item]) => leaves(item, [...path, key]));
+    }
+    return Array.isArray(value) && value.length === 0 ? [] : [{ path, value }];
+  };
+  const all = Object.entries(claims).flatMap(([name, value]) => leaves(value, [name]));
+  const disclosedPaths = credential.disclosedPaths?.map(path => path.map(String));
+  if (!disclosedPaths) {
+    return all.filter(claim => claim.path[0] !== 'sub');
+  }
+  // A leaf is disclosed when it lies within a disclosed value, or is an array holding a disclosed element
+  const isPrefix = (prefix: string[], path: string[]) => prefix.length <= path.length && prefix.every((component, i) => component === path[i]);
+  return all.filter(claim => disclosedPaths.some(path => isPrefix(path, claim.path) || isPrefix(claim.path, path)));
+}
+
+/**
+ * Whether a requested claims path covers a disclosed claim: the claim lies within the requested one, or is an
+ * array the requested path selects elements of
+ */
+function covers(path: (string | number | null)[], disclosed: { path: string[]; value: any }): boolean {
+  const common = Math.min(path.length, disclosed.path.length);
+  for (let i = 0; i < common; i++) {
+    if (path[i] !== null && String(path[i]) !== disclosed.path[i]) {
+      return false;
+    }
+  }
+  return disclosed.path.length >= path.length || Array.isArray(disclosed.value);
+}
+
+function claimLabel(claimQuery: DcqlClaimsQuery): string {
+  return claimQuery.id ?? claimQuery.path.map(component => component === null ? '*' : component).join('.');
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
@@ -0,0 +1,4 @@
+export { evaluatePresentationSubmission } from './presentation-exchange.ts';
+export { evaluateDcqlQuery } from './dcql.ts';
+export { evaluateVprQuery } from './vpr.ts';
+export { queryJsonPath, JsonPathMatch } from './json-path.ts';
\ No newline at end of file
@@ -0,0 +1,189 @@
+/**
+ * JSONPath
+ * Evaluates the JSONPath subset used by credential queries: member names (dot and bracket notation), array
+ * indexes and slices, unions, wildcards and recursive descent. Filter expressions are not supported.
+ */
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number }
+  | { kind: 'wildcard' };
+
+interface Segment {
+  descendant: boolean; // Applies to the node and all its descendants (..)
+  selectors: Selector[];
+}
+
+/**
+ * A value found by a JSONPath query
+ */
+export interface JsonPathMatch {
+  value: any;
+  path: (string | number)[]; // Location of the value from the document root
+}
+
+/**
+ * Finds the values a JSONPath expression selects
+ * @param document - The JSON document
+ * @param expression - The JSONPath expression (e.g. $.credentialSubject.address['postal_code'])
+ * @returns JsonPathMatch[] - The matches, in document order
+ * @throws Error - When the expression is malformed or uses filter expressions
+ */
+export function queryJsonPath(document: any, expression: string): JsonPathMatch[] {
+  let matches: JsonPathMatch[] = [{ value: document, path: [] }];
+  for (const segment of parseJsonPath(expression)) {
+    const nodes = segment.descendant ? matches.flatMap(descendants) : matches;
+    matches = nodes.flatMap(node => segment.selectors.flatMap(selector => select(node, selector)));
+  }
+  return matches;
+}
+
+/**
+ * Parses a JSONPath expression into its segments
+ * @param expression - The JSONPath expression
+ * @returns Segment[] - The segments after the root
+ * @throws Error - When the expression is malformed or uses filter expressions
+ */
+function parseJsonPath(expression: string): Segment[] {
+  if (typeof expression !== 'string' || !expression.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${expression}`);
+  }
+  const segments: Segment[] = [];
+  let position = 1;
+  while (position < expression.length) {
+    let descendant = false;
+    if (expression.startsWith('..', position)) {
+      descendant = true;
+      position += 2;
+    } else if (expression[position] === '.') {
+      position += 1;
+    } else if (expression[position] !== '[') {
+      throw new Error(`Malformed JSONPath at position ${position}: ${expression}`);
+    }
+
+    if (expression[position] === '[') {
+      const end = closingBracket(expression, position);
+      segments.push({ descendant, selectors: parseBracket(expression.slice(position + 1, end), expression) });
+      position = end + 1;
+    } else if (expression[position] === '*') {
+      segments.push({ descendant, selectors: [{ kind: 'wildcard' }] });
+      position += 1;
+    } else {
+      const name = expression.slice(position).match(/^[^.[\]\s]+/)?.[0];
+      if (!name) {
+        throw new Error(`Malformed JSONPath at position ${position}: ${expression}`);
+      }
+      segments.push({ descendant, selectors: [{ kind: 'name', name }] });
+      position += name.length;
+    }
+  }
+  return segments;
+}
+
+function parseBracket(content: string, expression: string): Selector[] {
+  if (content.trim().startsWith('?')) {
+    throw new Error(`JSONPath filter expressions are not supported: ${expression}`);
+  }
+  return splitUnion(content).map(part => {
+    const selector = part.trim();
+    if (selector === '*') {
+      return { kind: 'wildcard' };
+    }
+    const quoted = selector.match(/^'((?:[^'\\]|\\.)*)'$/) ?? selector.match(/^"((?:[^"\\]|\\.)*)"$/);
+    if (quoted) {
+      return { kind: 'name', name: quoted[1].replace(/\\(.)/g, '$1') };
+    }
+    if (/^-?\d+$/.test(selector)) {
+      return { kind: 'index', index: Number(selector) };
+    }
+    const slice = selector.match(/^(-?\d+)?\s*:\s*(-?\d+)?$/);
+    if (slice) {
+      return { kind: 'slice', start: slice[1] === undefined ? undefined : Number(slice[1]), end: slice[2] === undefined ? undefined : Number(slice[2]) };
+    }
+    throw new Error(`Unsupported JSONPath selector [${selector}] in ${expression}`);
+  });
+}
+
+/**
+ * Splits a bracket's content on the commas outside quoted names
+ */
+function splitUnion(content: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      current += char;
+      if (char === '\\') {
+        current += content[++i] ?? '';
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      if (char === "'" || char === '"') {
+        quote = char;
+      }
+      current += char;
+    }
+  }
+  return [...parts, current];
+}
+
+function closingBracket(expression: string, open: number): number {
+  let quote: string | undefined;
+  for (let i = open + 1; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === ']') {
+      return i;
+    }
+  }
+  throw new Error(`Unclosed bracket in JSONPath: ${expression}`);
+}
+
+function select(node: JsonPathMatch, selector: Selector): JsonPathMatch[] {
+  const { value, path } = node;
+  if (selector.kind === 'wildcard') {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => ({ value: item, path: [...path, index] }));
+    }
+    return isObject(value) ? Object.entries(value).map(([key, item]) => ({ value: item, path: [...path, key] })) : [];
+  }
+  if (selector.kind === 'name') {
+    return isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name)
+      ? [{ value: value[selector.name], path: [...path, selector.name] }]
+      : [];
+  }
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  if (selector.kind === 'index') {
+    const index = selector.index < 0 ? value.length + selector.index : selector.index;
+    return index >= 0 && index < value.length ? [{ value: value[index], path: [...path, index] }] : [];
+  }
+  const normalize = (bound: number) => bound < 0 ? Math.max(value.length + bound, 0) : Math.min(bound, value.length);
+  const start = normalize(selector.start ?? 0);
+  const end = normalize(selector.end ?? value.length);
+  return value.slice(start, end).map((item, offset) => ({ value: item, path: [...path, start + offset] }));
+}
+
+/**
+ * The node and every node below it, in document order
+ */
+function descendants(node: JsonPathMatch): JsonPathMatch[] {
+  const children = select(node, { kind: 'wildcard' });
+  return [node, ...children.flatMap(descendants)];
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
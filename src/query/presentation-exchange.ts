@@ -0,0 +1,272 @@
+/**
+ * Presentation Exchange
+ * Evaluates a DIF Presentation Exchange v2 presentation submission against its presentation definition, using
+ * the verified credentials: descriptor mapping, accepted formats, field constraints with JSON Schema filters,
+ * limit_disclosure and submission requirements
+ */
+
+import { validateJsonSchema } from '../schema/json-schema.ts';
+import {
+  CredentialVerificationResult, DescriptorMapEntry, InputDescriptor, InputDescriptorResult, PresentationDefinition,
+  PresentationExchangeResult, PresentationSubmission, SubmissionRequirement
+} from '../types/index.ts';
+import { queryJsonPath } from './json-path.ts';
+
+// Properties of the evaluated credential document that describe the credential rather than its claims
+const CREDENTIAL_PROPERTIES = ['type', 'vct', 'doctype', 'issuer', 'iss'];
+
+/**
+ * Evaluates a presentation submission against a presentation definition
+ * @param definition - The presentation definition from the request
+ * @param submission - The holder's presentation submission
+ * @param credentials - The verified credentials, in the order they appear in the presentation
+ * @returns PresentationExchangeResult - Whether the definition is satisfied, and the outcome of each input descriptor
+ */
+export function evaluatePresentationSubmission(
+  definition: PresentationDefinition,
+  submission: PresentationSubmission | undefined,
+  credentials: CredentialVerificationResult[]
+): PresentationExchangeResult {
+  const errors: string[] = [];
+  if (!submission || !Array.isArray(submission.descriptor_map)) {
+    errors.push('No presentation_submission with a descriptor_map');
+  } else if (submission.definition_id !== definition.id) {
+    errors.push(`presentation_submission is for definition ${submission.definition_id}, not ${definition.id}`);
+  }
+  const descriptorMap = submission?.definition_id === definition.id && Array.isArray(submission.descriptor_map) ? submission.descriptor_map : [];
+  for (const entry of descriptorMap) {
+    if (!definition.input_descriptors.some(descriptor => descriptor.id === entry.id)) {
+      errors.push(`descriptor_map entry ${entry.id} does not match an input descriptor`);
+    }
+  }
+
+  const descriptors = definition.input_descriptors.map(descriptor =>
+    evaluateDescriptor(descriptor, definition, descriptorMap.filter(entry => entry.id === descriptor.id), credentials)
+  );
+  const satisfied = new Set(descriptors.filter(result => result.satisfied).map(result => result.id));
+
+  // A credential the holder submitted must satisfy its descriptor, even where the requirements do not need it
+  for (const result of descriptors) {
+    if (!result.satisfied && descriptorMap.some(entry => entry.id === result.id)) {
+      errors.push(`Submitted credential does not satisfy input descriptor ${result.id}`);
+    }
+  }
+  if (definition.submission_requirements) {
+    definition.submission_requirements.forEach((requirement, index) => {
+      const unmet = unmetRequirement(requirement, definition, satisfied);
+      if (unmet) {
+        errors.push(`Submission requirement ${requirement.name ?? index}: ${unmet}`);
+      }
+    });
+  } else {
+    for (const result of descriptors.filter(result => !result.satisfied && !descriptorMap.some(entry => entry.id === result.id))) {
+      errors.push(`Input descriptor ${result.id} is not satisfied`);
+    }
+  }
+  return { valid: errors.length === 0, errors, descriptors };
+}
+
+/**
+ * Checks the credentials mapped to a descriptor until one meets its format and constraints
+ */
+function evaluateDescriptor(
+  descriptor: InputDescriptor,
+  definition: PresentationDefinition,
+  entries: DescriptorMapEntry[],
+  credentials: CredentialVerificationResult[]
+): InputDescriptorResult {
+  if (entries.length === 0) {
+    return { id: descriptor.id, satisfied: false, errors: ['No credential submitted'] };
+  }
+  const errors: string[] = [];
+  for (const entry of entries) {
+    const { index, format } = locateCredential(entry);
+    const credential = credentials[index];
+    if (!credential || credential.status !== 'verified') {
+      errors.push(`${entry.path}: no verified credential at position ${index}`);
+      continue;
+    }
+    const formats = descriptor.format ?? definition.format;
+    if (formats && !(format in formats)) {
+      errors.push(`${entry.path}: format ${format} is not accepted (${Object.keys(formats).join(', ')})`);
+      continue;
+    }
+    try {
+      const constraintErrors = evaluateConstraints(descriptor, credential);
+      if (constraintErrors.length === 0) {
+        return { id: descriptor.id, satisfied: true, credentialIndex: index, errors: [] };
+      }
+      errors.push(...constraintErrors.map(error => `${entry.path}: ${error}`));
+    } catch (error) {
+      errors.push(`${entry.path}: ${error instanceof Error ? error.message : 'Unknown error evaluating constraints'}`);
+    }
+  }
+  return { id: descriptor.id, satisfied: false, errors };
+}
+
+/**
+ * Finds the position of a submitted credential among the presentation's credentials from the innermost
+ * descriptor map path, e.g. $.verifiableCredential[1] or, nested in a VP JWT, $.vp.verifiableCredential[1]
+ */
+function locateCredential(entry: DescriptorMapEntry): { index: number; format: string } {
+  let innermost = entry;
+  let index = 0;
+  for (let current: DescriptorMapEntry | undefined = entry; current; current = current.path_nested) {
+    innermost = current;
+    const position = current.path?.match(/\[(\d+)\]\s*$/);
+    if (position) {
+      index = Number(position[1]);
+    }
+  }
+  return { index, format: innermost.format };
+}
+
+/**
+ * Evaluates an input descriptor's field constraints and limit_disclosure against a verified credential
+ * @returns string[] - The unmet constraints
+ */
+function evaluateConstraints(descriptor: InputDescriptor, credential: CredentialVerificationResult): string[] {
+  const document = credentialDocument(credential);
+  const errors: string[] = [];
+  const selected: (string | number)[][] = [];
+
+  (descriptor.constraints?.fields ?? []).forEach((field, index) => {
+    const label = field.id ?? field.name ?? field.path?.[0] ?? `#${index}`;
+    let filterError: string | undefined;
+    let matched = false;
+    for (const path of field.path ?? []) {
+      for (const match of queryJsonPath(document, path)) {
+        const violations = field.filter ? validateJsonSchema(field.filter, match.value) : [];
+        if (violations.length === 0) {
+          selected.push(match.path);
+          matched = true;
+          break;
+        }
+        filterError ??= `${path}${violations[0].instancePath} ${violations[0].message}`;
+      }
+      if (matched) {
+        break;
+      }
+    }
+    if (!matched && !field.optional) {
+      errors.push(filterError ? `field ${label} does not match its filter: ${filterError}` : `field ${label} not found`);
+    }
+  });
+
+  if (descriptor.constraints?.limit_disclosure === 'required') {
+    const selectedClaims = selected.map(claimPath).filter((path): path is (string | number)[] => path !== undefined);
+    const undisclosable = disclosedLeafPaths(credential).filter(leaf =>
+      !selectedClaims.some(path => path.every((segment, position) => leaf[position] === segment))
+    );
+    if (undisclosable.length > 0) {
+      errors.push(`limit_disclosure is required but claims were disclosed that no field requests: ${undisclosable.map(path => path.join('.')).join(', ')}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * The document field paths are evaluated against. Claims sit at the root (SD-JWT VC and mdoc paths such as
+ * $.given_name or $['org.iso.18013.5.1']['family_name']) and under credentialSubject (W3C paths), alongside
+ * the credential's type, vct/doctype and issuer; the whole is repeated under vc for VC JWT paths ($.vc.type)
+ */
+function credentialDocument(credential: CredentialVerificationResult): Record<string, any> {
+  const claims = credential.claims ?? {};
+  const types = (credential.credentialType ?? '').split(',').map(type => type.trim()).filter(Boolean);
+  const document = {
+    ...claims,
+    credentialSubject: claims,
+    type: types,
+    vct: credential.credentialType,
+    doctype: credential.credentialType,
+    issuer: credential.issuer,
+    iss: credential.issuer
+  };
+  return { ...document, vc: document };
+}
+
+/**
+ * Maps a matched document path to the claim it selects, or undefined for credential properties
+ */
+function claimPath(path: (string | number)[]): (string | number)[] | undefined {
+  const claim = path[0] === 'vc' ? path.slice(1) : path;
+  if (claim[0] === 'credentialSubject') {
+    return claim.slice(1);
+  }
+  return CREDENTIAL_PROPERTIES.includes(claim[0] as string) ? undefined : claim;
+}
+
+/**
+ * Paths of the claim values the holder chose to disclose. When the credential reports its disclosedPaths (SD-JWT),
+ * only leaves within a disclosed value (or arrays holding a disclosed element) count, not the claims the issuer left
+ * always visible; otherwise every claim value does
+ */
+function disclosedLeafPaths(credential: CredentialVerificationResult): (string | number)[][] {
+  const leaves = leafPaths(credential.claims ?? {});
+  const disclosedPaths = credential.disclosedPaths?.map(path => path.map(String));
+  if (!disclosedPaths) {
+    return leaves;
+  }
+  return leaves.filter(leaf => {
+    const claim = leaf.map(String);
+    return disclosedPaths.some(path => isPrefix(path, claim) || isPrefix(claim, path));
+  });
+}
+
+/**
+ * Paths of the claim values, descending into objects (a W3C subject id is not a disclosed claim)
+ */
+function leafPaths(claims: Record<string, any>, prefix: (string | number)[] = []): (string | number)[][] {
+  return Object.entries(claims).flatMap(([key, value]) => {
+    if (prefix.length === 0 && key === 'id') {
+      return [];
+    }
+    const path = [...prefix, key];
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length > 0
+      ? leafPaths(value, path)
+      : [path];
+  });
+}
+
+function isPrefix(prefix: string[], path: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((component, i) => component === path[i]);
+}
+
+/**
+ * Checks a submission requirement against the satisfied input descriptors
+ * @returns string | undefined - Why the requirement is not met, undefined when it is
+ */
+function unmetRequirement(requirement: SubmissionRequirement, definition: PresentationDefinition, satisfied: Set<string>): string | undefined {
+  let total: number;
+  let count: number;
+  let source: string;
+  if (requirement.from !== undefined) {
+    const group = definition.input_descriptors.filter(descriptor => descriptor.group?.includes(requirement.from!));
+    total = group.length;
+    count = group.filter(descriptor => satisfied.has(descriptor.id)).length;
+    source = `group ${requirement.from}`;
+  } else if (Array.isArray(requirement.from_nested)) {
+    total = requirement.from_nested.length;
+    count = requirement.from_nested.filter(nested => !unmetRequirement(nested, definition, satisfied)).length;
+    source = 'nested requirements';
+  } else {
+    return 'has neither from nor from_nested';
+  }
+
+  if (requirement.rule === 'all') {
+    return count === total ? undefined : `all ${total} of ${source} are required, ${count} satisfied`;
+  }
+  if (requirement.rule !== 'pick') {
+    return `unsupported rule ${requirement.rule}`;
+  }
+  if (requirement.count !== undefined) {
+    return count === requirement.count ? undefined : `exactly ${requirement.count} of ${source} are required, ${count} satisfied`;
+  }
+  if (requirement.min !== undefined && count < requirement.min) {
+    return `at least ${requirement.min} of ${source} are required, ${count} satisfied`;
+  }
+  if (requirement.max !== undefined && count > requirement.max) {
+    return `at most ${requirement.max} of ${source} are allowed, ${count} satisfied`;
+  }
+  return undefined;
+}
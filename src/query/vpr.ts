@@ -0,0 +1,154 @@
+/**
+ * Verifiable Presentation Request
+ * Matches a presentation against the queries of a Verifiable Presentation Request: QueryByExample (credentials that
+ * look like an example), QueryByFrame (credentials that match a JSON-LD frame) and DIDAuthentication (a holder
+ * authentication proof with an accepted DID method and cryptosuite)
+ */
+
+import { decodeJws } from '../crypto/jws.ts';
+import { VerifiablePresentation, VprCredentialQuery, VprDidAuthentication, VprQuery, VprResult } from '../types/index.ts';
+
+// JSON-LD framing keywords that do not constrain the matched credential
+const FRAMING_KEYWORDS = ['@context', '@explicit', '@embed', '@omitDefault', '@requireAll', '@default'];
+
+// Base contexts of VCDM 1.1 and 2.0; an example with either matches credentials of both versions
+const W3C_BASE_CONTEXTS = ['https://www.w3.org/2018/credentials/v1', 'https://www.w3.org/ns/credentials/v2'];
+
+/**
+ * Matches a presentation against Verifiable Presentation Request queries; every query must be answered
+ * @param queries - The query (or queries) of the request
+ * @param presentation - The holder's presentation
+ * @returns VprResult - Whether the presentation answers every query, and why not
+ */
+export function evaluateVprQuery(queries: VprQuery | VprQuery[], presentation: VerifiablePresentation): VprResult {
+  const errors: string[] = [];
+  const credentials = presentedCredentials(presentation);
+  for (const query of Array.isArray(queries) ? queries : [queries]) {
+    if (query.type === 'DIDAuthentication') {
+      errors.push(...evaluateDidAuthentication(query, presentation));
+    } else if (query.type === 'QueryByExample' || query.type === 'QueryByFrame') {
+      const credentialQueries = Array.isArray(query.credentialQuery) ? query.credentialQuery : [query.credentialQuery];
+      credentialQueries.forEach((credentialQuery, index) => {
+        if ((credentialQuery.required ?? true) && !credentials.some(credential => answers(credential, credentialQuery, query.type))) {
+          errors.push(`${query.type} credential query ${index}${credentialQuery.reason ? ` (${credentialQuery.reason})` : ''} is not answered by any presented credential`);
+        }
+      });
+    } else {
+      errors.push(`Unsupported query type: ${(query as any).type}`);
+    }
+  }
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * The presentation must carry an authentication proof by the holder, with an accepted DID method and cryptosuite
+ */
+function evaluateDidAuthentication(query: VprDidAuthentication, presentation: VerifiablePresentation): string[] {
+  const holder = typeof presentation.holder === 'string' ? presentation.holder : (presentation.holder as any)?.id;
+  if (typeof holder !== 'string' || !holder.startsWith('did:')) {
+    return ['DIDAuthentication: the presentation has no holder DID'];
+  }
+  const errors: string[] = [];
+  const method = holder.split(':')[1];
+  if (query.acceptedMethods?.length && !query.acceptedMethods.some(accepted => accepted.method === method)) {
+    errors.push(`DIDAuthentication: DID method ${method} is not accepted`);
+  }
+  const proofs = (Array.isArray(presentation.proof) ? presentation.proof : [presentation.proof]).filter(proof =>
+    proof?.proofPurpose === 'authentication' && typeof proof.verificationMethod === 'string' && proof.verificationMethod.split('#')[0] === holder
+  );
+  if (proofs.length === 0) {
+    errors.push('DIDAuthentication: the presentation has no authentication proof by its holder');
+  } else if (query.acceptedCryptosuites?.length && !proofs.some(proof =>
+    query.acceptedCryptosuites!.some(accepted => accepted.cryptosuite === (proof.cryptosuite ?? proof.type))
+  )) {
+    errors.push(`DIDAuthentication: cryptosuite ${proofs[0].cryptosuite ?? proofs[0].type} is not accepted`);
+  }
+  return errors;
+}
+
+/**
+ * Whether a credential answers a credential query: it matches the example or frame and has a trusted issuer
+ */
+function answers(credential: Record<string, any>, credentialQuery: VprCredentialQuery, type: 'QueryByExample' | 'QueryByFrame'): boolean {
+  const template = type === 'QueryByExample' ? credentialQuery.example : credentialQuery.frame;
+  if (!isPlainObject(template) || !matches(credential, template, type === 'QueryByFrame')) {
+    return false;
+  }
+  const trusted = (credentialQuery.trustedIssuer ?? []).filter(entry => entry.required ?? true).map(entry => entry.issuer);
+  const issuer = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+  return trusted.length === 0 || trusted.includes(issuer);
+}
+
+/**
+ * Whether a value matches an example or frame: contexts and types are contained in the value's, strings and numbers
+ * are equal, objects match property by property. An empty string or {} only requires the property; in a frame, []
+ * requires it to be absent
+ */
+function matches(value: any, template: any, frame: boolean): boolean {
+  if (Array.isArray(value) && !Array.isArray(template)) {
+    return value.some(element => matches(element, template, frame));
+  }
+  if (isPlainObject(template)) {
+    if (!isPlainObject(value)) {
+      return false;
+    }
+    return Object.entries(template).every(([key, expected]) => {
+      if (FRAMING_KEYWORDS.includes(key) && (frame || key !== '@context')) {
+        return true;
+      }
+      if (frame && Array.isArray(expected) && expected.length === 0) {
+        return value[key] === undefined;
+      }
+      if (value[key] === undefined) {
+        return false;
+      }
+      if (key === '@context') {
+        return contains(value[key], expected, W3C_BASE_CONTEXTS);
+      }
+      if (key === 'type' || key === '@type') {
+        return contains(value[key], expected);
+      }
+      return matches(value[key], expected, frame);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.every(expected => (Array.isArray(value) ? value : [value]).some(element => matches(element, expected, frame)));
+  }
+  if (template === '') {
+    return value !== undefined;
+  }
+  return value === template;
+}
+
+/**
+ * Whether every string of the expected value (e.g. types or contexts) is in the actual value; equivalent values
+ * stand in for each other
+ */
+function contains(actual: any, expected: any, equivalent: string[] = []): boolean {
+  const actualValues = Array.isArray(actual) ? actual : [actual];
+  return (Array.isArray(expected) ? expected : [expected])
+    .filter(entry => typeof entry === 'string')
+    .every(entry => actualValues.includes(entry) || (equivalent.includes(entry) && actualValues.some(value => equivalent.includes(value))));
+}
+
+/**
+ * The presentation's credentials as JSON documents; VC-JWTs are decoded to their vc claim (or their payload)
+ */
+function presentedCredentials(presentation: VerifiablePresentation): Record<string, any>[] {
+  const entries = presentation.verifiableCredential ?? [];
+  return (Array.isArray(entries) ? entries : [entries]).flatMap((entry: any) => {
+    if (typeof entry === 'string') {
+      try {
+        const { payload } = decodeJws(entry);
+        return [payload.vc ? { ...payload.vc, issuer: payload.vc.issuer ?? payload.iss } : payload];
+      } catch {
+        return [];
+      }
+    }
+    return isPlainObject(entry) ? [entry] : [];
+  });
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
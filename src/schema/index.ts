@@ -0,0 +1,2 @@
+export { validateJsonSchema, JsonSchemaValidationOptions } from './json-schema.ts';
+export { InMemorySchemaRegistry } from './schema-registry.ts';
\ No newline at end of file
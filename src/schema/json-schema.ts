@@ -0,0 +1,460 @@
+/**
+ * JSON Schema Validator
+ * Validates instances against JSON Schema draft 2020-12: all assertion and applicator keywords, $ref to
+ * $defs, JSON pointers, $id and $anchor, and unevaluatedProperties / unevaluatedItems. $dynamicRef is resolved
+ * like $ref, and format is an annotation only, as the draft's default vocabulary specifies.
+ */
+
+import { SchemaValidationError } from '../types/index.ts';
+
+export interface JsonSchemaValidationOptions {
+  schemas?: Record<string, any>; // Further schemas that $ref may point to, keyed by their $id
+  instancePath?: string; // JSON pointer prefixed to every reported instance path (e.g. "/credentialSubject")
+}
+
+interface SchemaResource {
+  schema: any;
+  base: string;
+}
+
+interface Scope {
+  base: string; // Base URI that relative $id and $ref resolve against
+  instancePath: string;
+  schemaPath: string;
+  refDepth: number;
+}
+
+interface Evaluation {
+  errors: SchemaValidationError[];
+  properties: Set<string>; // Properties evaluated by a successful subschema (for unevaluatedProperties)
+  items: Set<number>; // Array indexes evaluated by a successful subschema (for unevaluatedItems)
+}
+
+const DEFAULT_BASE = 'schema://local/root.json';
+const MAX_REF_DEPTH = 64;
+
+/**
+ * Validates an instance against a JSON Schema
+ * @param schema - The schema (an object or a boolean schema)
+ * @param instance - The JSON value to validate
+ * @param options - Further schemas for $ref and an instance path prefix
+ * @returns SchemaValidationError[] - The violations, empty when the instance is valid
+ * @throws Error - When a $ref cannot be resolved or a pattern is not a valid regular expression
+ */
+export function validateJsonSchema(schema: any, instance: any, options: JsonSchemaValidationOptions = {}): SchemaValidationError[] {
+  const resources = new Map<string, SchemaResource>();
+  for (const [id, external] of Object.entries(options.schemas ?? {})) {
+    indexResources(external, resolveUri(id, DEFAULT_BASE), resources);
+  }
+  indexResources(schema, DEFAULT_BASE, resources);
+  return new Validator(resources).validate(schema, instance, {
+    base: DEFAULT_BASE,
+    instancePath: options.instancePath ?? '',
+    schemaPath: '#',
+    refDepth: 0
+  }).errors;
+}
+
+class Validator {
+  constructor(private resources: Map<string, SchemaResource>) {}
+
+  validate(schema: any, instance: any, scope: Scope): Evaluation {
+    const evaluation: Evaluation = { errors: [], properties: new Set(), items: new Set() };
+    if (schema === true) {
+      return evaluation;
+    }
+    if (schema === false) {
+      return this.fail(evaluation, scope, 'false', 'boolean schema false');
+    }
+    if (!isObject(schema)) {
+      throw new Error(`Invalid schema at ${scope.schemaPath}: expected an object or boolean`);
+    }
+    if (typeof schema.$id === 'string') {
+      scope = { ...scope, base: resolveUri(schema.$id, scope.base) };
+    }
+
+    for (const keyword of ['$ref', '$dynamicRef']) {
+      if (typeof schema[keyword] === 'string') {
+        if (scope.refDepth >= MAX_REF_DEPTH) {
+          throw new Error(`$ref nesting deeper than ${MAX_REF_DEPTH} at ${scope.schemaPath}`);
+        }
+        const target = this.resolveRef(schema[keyword], scope.base);
+        this.merge(evaluation, this.validate(target.schema, instance, {
+          ...scope, base: target.base, schemaPath: `${scope.schemaPath}/${keyword}`, refDepth: scope.refDepth + 1
+        }));
+      }
+    }
+
+    this.validateGeneric(schema, instance, scope, evaluation);
+    this.validateCombinators(schema, instance, scope, evaluation);
+    if (typeof instance === 'number') {
+      this.validateNumber(schema, instance, scope, evaluation);
+    } else if (typeof instance === 'string') {
+      this.validateString(schema, instance, scope, evaluation);
+    } else if (Array.isArray(instance)) {
+      this.validateArray(schema, instance, scope, evaluation);
+    } else if (isObject(instance)) {
+      this.validateObject(schema, instance, scope, evaluation);
+    }
+    return evaluation;
+  }
+
+  private validateGeneric(schema: any, instance: any, scope: Scope, evaluation: Evaluation): void {
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => hasType(instance, type))) {
+        this.fail(evaluation, scope, 'type', `must be ${types.join(' or ')}`);
+      }
+    }
+    if (schema.const !== undefined && !deepEqual(instance, schema.const)) {
+      this.fail(evaluation, scope, 'const', `must be equal to ${JSON.stringify(schema.const)}`);
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((value: any) => deepEqual(instance, value))) {
+      this.fail(evaluation, scope, 'enum', `must be one of ${schema.enum.map((value: any) => JSON.stringify(value)).join(', ')}`);
+    }
+  }
+
+  private validateCombinators(schema: any, instance: any, scope: Scope, evaluation: Evaluation): void {
+    if (Array.isArray(schema.allOf)) {
+      schema.allOf.forEach((subschema: any, index: number) => {
+        this.merge(evaluation, this.validate(subschema, instance, this.at(scope, `allOf/${index}`)));
+      });
+    }
+    if (Array.isArray(schema.anyOf)) {
+      const results = schema.anyOf.map((subschema: any, index: number) => this.validate(subschema, instance, this.at(scope, `anyOf/${index}`)));
+      const valid = results.filter((result: Evaluation) => result.errors.length === 0);
+      if (valid.length === 0) {
+        this.fail(evaluation, scope, 'anyOf', 'must match a schema in anyOf');
+      }
+      valid.forEach((result: Evaluation) => this.merge(evaluation, result));
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const results = schema.oneOf.map((subschema: any, index: number) => this.validate(subschema, instance, this.at(scope, `oneOf/${index}`)));
+      const valid = results.filter((result: Evaluation) => result.errors.length === 0);
+      if (valid.length !== 1) {
+        this.fail(evaluation, scope, 'oneOf', `must match exactly one schema in oneOf (matched ${valid.length})`);
+      } else {
+        this.merge(evaluation, valid[0]);
+      }
+    }
+    if (schema.not !== undefined && this.validate(schema.not, instance, this.at(scope, 'not')).errors.length === 0) {
+      this.fail(evaluation, scope, 'not', 'must NOT be valid against the schema in not');
+    }
+    if (schema.if !== undefined) {
+      const condition = this.validate(schema.if, instance, this.at(scope, 'if'));
+      if (condition.errors.length === 0) {
+        this.merge(evaluation, condition);
+        if (schema.then !== undefined) {
+          this.merge(evaluation, this.validate(schema.then, instance, this.at(scope, 'then')));
+        }
+      } else if (schema.else !== undefined) {
+        this.merge(evaluation, this.validate(schema.else, instance, this.at(scope, 'else')));
+      }
+    }
+  }
+
+  private validateNumber(schema: any, instance: number, scope: Scope, evaluation: Evaluation): void {
+    if (typeof schema.minimum === 'number' && instance < schema.minimum) {
+      this.fail(evaluation, scope, 'minimum', `must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && instance > schema.maximum) {
+      this.fail(evaluation, scope, 'maximum', `must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && instance <= schema.exclusiveMinimum) {
+      this.fail(evaluation, scope, 'exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && instance >= schema.exclusiveMaximum) {
+      this.fail(evaluation, scope, 'exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const quotient = instance / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        this.fail(evaluation, scope, 'multipleOf', `must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+  }
+
+  private validateString(schema: any, instance: string, scope: Scope, evaluation: Evaluation): void {
+    const length = [...instance].length; // Code points, not UTF-16 units
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      this.fail(evaluation, scope, 'minLength', `must NOT have fewer than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      this.fail(evaluation, scope, 'maxLength', `must NOT have more than ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(instance)) {
+      this.fail(evaluation, scope, 'pattern', `must match pattern "${schema.pattern}"`);
+    }
+  }
+
+  private validateArray(schema: any, instance: any[], scope: Scope, evaluation: Evaluation): void {
+    if (typeof schema.minItems === 'number' && instance.length < schema.minItems) {
+      this.fail(evaluation, scope, 'minItems', `must NOT have fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && instance.length > schema.maxItems) {
+      this.fail(evaluation, scope, 'maxItems', `must NOT have more than ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true) {
+      for (let i = 0; i < instance.length; i++) {
+        const duplicate = instance.findIndex((item, j) => j > i && deepEqual(item, instance[i]));
+        if (duplicate !== -1) {
+          this.fail(evaluation, scope, 'uniqueItems', `must NOT have duplicate items (items ${i} and ${duplicate} are identical)`);
+          break;
+        }
+      }
+    }
+
+    const prefixItems: any[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    prefixItems.slice(0, instance.length).forEach((subschema, index) => {
+      this.collect(evaluation, this.validate(subschema, instance[index], this.item(scope, `prefixItems/${index}`, index)));
+      evaluation.items.add(index);
+    });
+    if (schema.items !== undefined) {
+      for (let index = prefixItems.length; index < instance.length; index++) {
+        this.collect(evaluation, this.validate(schema.items, instance[index], this.item(scope, 'items', index)));
+        evaluation.items.add(index);
+      }
+    }
+
+    if (schema.contains !== undefined) {
+      const matches = instance
+        .map((item, index) => this.validate(schema.contains, item, this.item(scope, 'contains', index)).errors.length === 0 ? index : -1)
+        .filter(index => index !== -1);
+      matches.forEach(index => evaluation.items.add(index));
+      const minContains = typeof schema.minContains === 'number' ? schema.minContains : 1;
+      if (matches.length < minContains) {
+        this.fail(evaluation, scope, 'contains', `must contain at least ${minContains} valid item(s)`);
+      }
+      if (typeof schema.maxContains === 'number' && matches.length > schema.maxContains) {
+        this.fail(evaluation, scope, 'maxContains', `must contain at most ${schema.maxContains} valid item(s)`);
+      }
+    }
+
+    if (schema.unevaluatedItems !== undefined) {
+      instance.forEach((item, index) => {
+        if (evaluation.items.has(index)) {
+          return;
+        }
+        if (schema.unevaluatedItems === false) {
+          this.fail(evaluation, { ...scope, instancePath: `${scope.instancePath}/${index}` }, 'unevaluatedItems', `must NOT have unevaluated item ${index}`);
+        } else {
+          this.collect(evaluation, this.validate(schema.unevaluatedItems, item, this.item(scope, 'unevaluatedItems', index)));
+        }
+      });
+      instance.forEach((_, index) => evaluation.items.add(index));
+    }
+  }
+
+  private validateObject(schema: any, instance: Record<string, any>, scope: Scope, evaluation: Evaluation): void {
+    const keys = Object.keys(instance);
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+      this.fail(evaluation, scope, 'minProperties', `must NOT have fewer than ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+      this.fail(evaluation, scope, 'maxProperties', `must NOT have more than ${schema.maxProperties} properties`);
+    }
+    for (const property of Array.isArray(schema.required) ? schema.required : []) {
+      if (!hasOwn(instance, property)) {
+        this.fail(evaluation, scope, 'required', `must have required property '${property}'`);
+      }
+    }
+    for (const [property, dependencies] of Object.entries<string[]>(schema.dependentRequired ?? {})) {
+      if (hasOwn(instance, property)) {
+        for (const dependency of dependencies.filter(dependency => !hasOwn(instance, dependency))) {
+          this.fail(evaluation, scope, 'dependentRequired', `must have property '${dependency}' when property '${property}' is present`);
+        }
+      }
+    }
+    for (const [property, subschema] of Object.entries<any>(schema.dependentSchemas ?? {})) {
+      if (hasOwn(instance, property)) {
+        this.merge(evaluation, this.validate(subschema, instance, this.at(scope, `dependentSchemas/${escapePointer(property)}`)));
+      }
+    }
+    if (schema.propertyNames !== undefined) {
+      for (const key of keys) {
+        const result = this.validate(schema.propertyNames, key, { ...this.at(scope, 'propertyNames'), instancePath: `${scope.instancePath}/${escapePointer(key)}` });
+        if (result.errors.length > 0) {
+          this.fail(evaluation, { ...scope, instancePath: `${scope.instancePath}/${escapePointer(key)}` }, 'propertyNames', `property name '${key}' is invalid: ${result.errors[0].message}`);
+        }
+      }
+    }
+
+    const properties: Record<string, any> = isObject(schema.properties) ? schema.properties : {};
+    const patterns = Object.entries<any>(schema.patternProperties ?? {}).map(([pattern, subschema]) => ({ pattern, regex: new RegExp(pattern, 'u'), subschema }));
+    for (const key of keys) {
+      let matched = false;
+      if (hasOwn(properties, key)) {
+        matched = true;
+        this.collect(evaluation, this.validate(properties[key], instance[key], this.property(scope, `properties/${escapePointer(key)}`, key)));
+      }
+      for (const { pattern, regex, subschema } of patterns) {
+        if (regex.test(key)) {
+          matched = true;
+          this.collect(evaluation, this.validate(subschema, instance[key], this.property(scope, `patternProperties/${escapePointer(pattern)}`, key)));
+        }
+      }
+      if (matched) {
+        evaluation.properties.add(key);
+      } else if (schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          this.fail(evaluation, { ...scope, instancePath: `${scope.instancePath}/${escapePointer(key)}` }, 'additionalProperties', `must NOT have additional property '${key}'`);
+        } else {
+          this.collect(evaluation, this.validate(schema.additionalProperties, instance[key], this.property(scope, 'additionalProperties', key)));
+        }
+        evaluation.properties.add(key);
+      }
+    }
+
+    if (schema.unevaluatedProperties !== undefined) {
+      for (const key of keys.filter(key => !evaluation.properties.has(key))) {
+        if (schema.unevaluatedProperties === false) {
+          this.fail(evaluation, { ...scope, instancePath: `${scope.instancePath}/${escapePointer(key)}` }, 'unevaluatedProperties', `must NOT have unevaluated property '${key}'`);
+        } else {
+          this.collect(evaluation, this.validate(schema.unevaluatedProperties, instance[key], this.property(scope, 'unevaluatedProperties', key)));
+        }
+      }
+      keys.forEach(key => evaluation.properties.add(key));
+    }
+  }
+
+  /**
+   * Resolves a $ref against the base URI: to a schema resource by $id or $anchor, then along a JSON pointer fragment
+   */
+  private resolveRef(ref: string, base: string): SchemaResource {
+    const uri = resolveUri(ref, base);
+    const exact = this.resources.get(uri);
+    if (exact) {
+      return exact;
+    }
+    const [documentUri, fragment = ''] = uri.split('#');
+    const resource = this.resources.get(documentUri);
+    if (!resource || (fragment !== '' && !fragment.startsWith('/'))) {
+      throw new Error(`Cannot resolve $ref ${ref}`);
+    }
+    let target = resource.schema;
+    let targetBase = resource.base;
+    for (const token of fragment.split('/').slice(1).map(unescapePointer)) {
+      target = (isObject(target) || Array.isArray(target)) && hasOwn(target, token) ? (target as any)[token] : undefined;
+      if (target === undefined) {
+        throw new Error(`Cannot resolve $ref ${ref}`);
+      }
+      if (isObject(target) && typeof target.$id === 'string') {
+        targetBase = resolveUri(target.$id, targetBase);
+      }
+    }
+    return { schema: target, base: targetBase };
+  }
+
+  private at(scope: Scope, keywordPath: string): Scope {
+    return { ...scope, schemaPath: `${scope.schemaPath}/${keywordPath}` };
+  }
+
+  private item(scope: Scope, keywordPath: string, index: number): Scope {
+    return { ...scope, schemaPath: `${scope.schemaPath}/${keywordPath}`, instancePath: `${scope.instancePath}/${index}` };
+  }
+
+  private property(scope: Scope, keywordPath: string, key: string): Scope {
+    return { ...scope, schemaPath: `${scope.schemaPath}/${keywordPath}`, instancePath: `${scope.instancePath}/${escapePointer(key)}` };
+  }
+
+  private fail(evaluation: Evaluation, scope: Scope, keyword: string, message: string): Evaluation {
+    evaluation.errors.push({ instancePath: scope.instancePath, schemaPath: `${scope.schemaPath}/${keyword}`, keyword, message });
+    return evaluation;
+  }
+
+  /**
+   * Takes the errors of a subschema applied to a child instance (its annotations belong to the child)
+   */
+  private collect(evaluation: Evaluation, child: Evaluation): void {
+    evaluation.errors.push(...child.errors);
+  }
+
+  /**
+   * Takes the errors and, when it succeeded, the annotations of a subschema applied to the same instance
+   */
+  private merge(evaluation: Evaluation, result: Evaluation): void {
+    evaluation.errors.push(...result.errors);
+    if (result.errors.length === 0) {
+      result.properties.forEach(property => evaluation.properties.add(property));
+      result.items.forEach(index => evaluation.items.add(index));
+    }
+  }
+}
+
+/**
+ * Registers a schema and its embedded resources ($id) and anchors ($anchor, $dynamicAnchor) by URI
+ */
+function indexResources(schema: any, base: string, resources: Map<string, SchemaResource>): void {
+  if (!isObject(schema)) {
+    return;
+  }
+  if (typeof schema.$id === 'string') {
+    base = resolveUri(schema.$id, base);
+  }
+  const documentUri = base.split('#')[0];
+  if (!resources.has(documentUri)) {
+    resources.set(documentUri, { schema, base });
+  }
+  for (const anchor of [schema.$anchor, schema.$dynamicAnchor].filter(anchor => typeof anchor === 'string')) {
+    resources.set(`${documentUri}#${anchor}`, { schema, base });
+  }
+  for (const [keyword, value] of Object.entries(schema)) {
+    if (keyword === 'const' || keyword === 'enum') {
+      continue;
+    }
+    for (const child of Array.isArray(value) ? value : [value]) {
+      indexResources(child, base, resources);
+    }
+  }
+}
+
+function resolveUri(reference: string, base: string): string {
+  try {
+    return new URL(reference, base).href.replace(/#$/, '');
+  } catch {
+    return reference;
+  }
+}
+
+function hasType(instance: any, type: string): boolean {
+  switch (type) {
+    case 'null': return instance === null;
+    case 'boolean': return typeof instance === 'boolean';
+    case 'string': return typeof instance === 'string';
+    case 'number': return typeof instance === 'number' && Number.isFinite(instance);
+    case 'integer': return Number.isInteger(instance);
+    case 'array': return Array.isArray(instance);
+    case 'object': return isObject(instance);
+    default: return false;
+  }
+}
+
+function hasOwn(object: Record<string, any>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function escapePointer(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(token: string): string {
+  return decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+}
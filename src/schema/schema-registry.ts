@@ -0,0 +1,59 @@
+/**
+ * In-Memory Schema Registry
+ * Serves JSON Schemas and JsonSchemaCredentials registered in memory or loaded from JSON files, keyed by the
+ * credentialSchema id that references them
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { SchemaRegistry } from '../types/index.ts';
+
+export class InMemorySchemaRegistry implements SchemaRegistry {
+  private schemas = new Map<string, any>();
+
+  constructor(schemas: Record<string, any> = {}) {
+    for (const [id, schema] of Object.entries(schemas)) {
+      this.register(schema, id);
+    }
+  }
+
+  /**
+   * Loads schemas from JSON files, each registered under its $id (JSON Schema) or id (JsonSchemaCredential)
+   * @param paths - Paths of the JSON files
+   * @returns Promise<InMemorySchemaRegistry> - The registry
+   */
+  static async fromFiles(paths: string[]): Promise<InMemorySchemaRegistry> {
+    const registry = new InMemorySchemaRegistry();
+    for (const path of paths) {
+      registry.register(JSON.parse(await readFile(path, 'utf8')));
+    }
+    return registry;
+  }
+
+  /**
+   * Loads every .json file of a directory as a schema
+   * @param directory - The directory path
+   * @returns Promise<InMemorySchemaRegistry> - The registry
+   */
+  static async fromDirectory(directory: string): Promise<InMemorySchemaRegistry> {
+    const files = (await readdir(directory)).filter(file => file.endsWith('.json')).sort();
+    return InMemorySchemaRegistry.fromFiles(files.map(file => join(directory, file)));
+  }
+
+  /**
+   * Registers a schema
+   * @param schema - A JSON Schema or a JsonSchemaCredential
+   * @param id - The credentialSchema id it answers to, by default its $id or id
+   * @throws Error - When no id is given and the schema has none
+   */
+  register(schema: any, id: string = schema?.$id ?? schema?.id): void {
+    if (typeof id !== 'string') {
+      throw new Error('Schema has no $id or id to register it under');
+    }
+    this.schemas.set(id, schema);
+  }
+
+  async getSchema(id: string): Promise<any> {
+    return this.schemas.get(id);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Session Lookup
+ * Resolves the session a protocol response answers and consumes its nonce, so each issued request is answered once
+ */
+
+import { Session, SessionStore } from '../types/index.ts';
+
+/**
+ * Finds the session a response belongs to, by its nonce (challenge) or its id (e.g. a DIDComm thread id), without
+ * consuming the nonce, so the response can be checked before it closes the session
+ * @param sessionStore - The store the request was registered in
+ * @param lookup - The nonce and/or session id the response carries; when both are given they must match
+ * @returns Promise<Session> - The session, with the request the response is verified against
+ * @throws Error - When the session is unknown or expired, or its nonce was already consumed
+ */
+export async function findSession(sessionStore: SessionStore, lookup: { nonce?: string; id?: string }): Promise<Session> {
+  const { nonce, id } = lookup;
+  if (nonce === undefined && id === undefined) {
+    throw new Error('Response does not identify a session (no challenge or thread id)');
+  }
+  const session = id !== undefined ? await sessionStore.get(id) : await sessionStore.findByNonce(nonce!);
+  if (!session || session.nonceConsumed || (nonce !== undefined && session.nonce !== nonce)) {
+    throw new Error('Unknown, expired or already used session');
+  }
+  return session;
+}
+
+/**
+ * Finds the session a response belongs to, like findSession, and consumes the nonce
+ * @param sessionStore - The store the request was registered in
+ * @param lookup - The nonce and/or session id the response carries; when both are given they must match
+ * @returns Promise<Session> - The session, with the request the response is verified against
+ * @throws Error - When the session is unknown or expired, or its nonce was already consumed
+ */
+export async function consumeSession(sessionStore: SessionStore, lookup: { nonce?: string; id?: string }): Promise<Session> {
+  const session = await sessionStore.consumeNonce((await findSession(sessionStore, lookup)).nonce);
+  if (!session) {
+    throw new Error('Unknown, expired or already used session');
+  }
+  return session;
+}
@@ -0,0 +1,166 @@
+/**
+ * File Session Store
+ * Keeps each session as a JSON file in a directory, with index files for its nonce and state, so sessions
+ * survive restarts and can be shared by processes on one host. A nonce is consumed by exclusively creating
+ * a marker file, which the file system guarantees only one caller succeeds at
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Session, SessionStore } from '../types/index.ts';
+
+export class FileSessionStore implements SessionStore {
+  private directory: string;
+  private ready?: Promise<unknown>;
+
+  /**
+   * @param directory - The directory sessions are kept in; created when missing
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async save(session: Session): Promise<void> {
+    await this.ensureDirectory();
+    const nonceOwner = await this.readIndex('nonce', session.nonce);
+    if (nonceOwner !== undefined && nonceOwner !== session.id) {
+      throw new Error('Nonce is already in use by another session');
+    }
+    const previous = await this.read(session.id);
+    if (previous) {
+      await this.removeIndexes(previous);
+    }
+    const { nonceConsumed, ...stored } = session;
+    await this.writeAtomically(this.path('session', session.id, '.json'), JSON.stringify(stored));
+    await this.writeAtomically(this.path('nonce', session.nonce), session.id);
+    if (session.state !== undefined) {
+      await this.writeAtomically(this.path('state', session.state), session.id);
+    }
+  }
+
+  async get(id: string): Promise<Session | undefined> {
+    return this.active(id);
+  }
+
+  async findByState(state: string): Promise<Session | undefined> {
+    const id = await this.readIndex('state', state);
+    return id === undefined ? undefined : this.active(id);
+  }
+
+  async findByNonce(nonce: string): Promise<Session | undefined> {
+    const id = await this.readIndex('nonce', nonce);
+    return id === undefined ? undefined : this.active(id);
+  }
+
+  async consumeNonce(nonce: string): Promise<Session | undefined> {
+    const id = await this.readIndex('nonce', nonce);
+    const session = id === undefined ? undefined : await this.active(id);
+    if (!session) {
+      return undefined;
+    }
+    try {
+      await writeFile(this.path('consumed', session.id), '', { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return undefined;
+      }
+      throw error;
+    }
+    return { ...session, nonceConsumed: true };
+  }
+
+  async delete(id: string): Promise<void> {
+    const session = await this.read(id);
+    if (session) {
+      await this.removeIndexes(session);
+    }
+    await rm(this.path('session', id, '.json'), { force: true });
+    await rm(this.path('consumed', id), { force: true });
+  }
+
+  async deleteExpired(): Promise<number> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return 0;
+    }
+    const now = Date.now();
+    let deleted = 0;
+    for (const file of files.filter(name => name.startsWith('session-') && name.endsWith('.json'))) {
+      const session = await this.readFile(join(this.directory, file));
+      if (session && session.expiresAt <= now) {
+        await this.delete(session.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * The session, or undefined when it is unknown or expired (expired sessions are removed)
+   */
+  private async active(id: string): Promise<Session | undefined> {
+    const session = await this.read(id);
+    if (!session) {
+      return undefined;
+    }
+    if (session.expiresAt <= Date.now()) {
+      await this.delete(id);
+      return undefined;
+    }
+    const consumed = await readFile(this.path('consumed', id)).then(() => true, () => false);
+    return { ...session, nonceConsumed: consumed };
+  }
+
+  private async read(id: string): Promise<Session | undefined> {
+    return this.readFile(this.path('session', id, '.json'));
+  }
+
+  private async readFile(path: string): Promise<Session | undefined> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readIndex(kind: 'nonce' | 'state', value: string): Promise<string | undefined> {
+    try {
+      return await readFile(this.path(kind, value), 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async removeIndexes(session: Session): Promise<void> {
+    if (await this.readIndex('nonce', session.nonce) === session.id) {
+      await rm(this.path('nonce', session.nonce), { force: true });
+    }
+    if (session.state !== undefined && await this.readIndex('state', session.state) === session.id) {
+      await rm(this.path('state', session.state), { force: true });
+    }
+  }
+
+  /**
+   * Writes through a temporary file and a rename, so readers never see a partial file
+   */
+  private async writeAtomically(path: string, content: string): Promise<void> {
+    const temporary = `${path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    await writeFile(temporary, content);
+    await rename(temporary, path);
+  }
+
+  /**
+   * File names are derived from a hash, so any id, nonce or state is a safe file name
+   */
+  private path(kind: string, value: string, extension = ''): string {
+    return join(this.directory, `${kind}-${createHash('sha256').update(value).digest('hex')}${extension}`);
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    this.ready ??= mkdir(this.directory, { recursive: true });
+    return this.ready;
+  }
+}
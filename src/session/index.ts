@@ -0,0 +1,3 @@
+export { MemorySessionStore } from './memory-session-store.ts';
+export { FileSessionStore } from './file-session-store.ts';
+export { consumeSession, findSession } from './consume-session.ts';
\ No newline at end of file
@@ -0,0 +1,95 @@
+/**
+ * In-Memory Session Store
+ * Keeps sessions in process memory, indexed by id, nonce and state. Consuming a nonce is a synchronous
+ * check-and-set, so concurrent responses in the same process cannot both consume it
+ */
+
+import { Session, SessionStore } from '../types/index.ts';
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, Session>();
+  private nonces = new Map<string, string>(); // Nonce -> session id
+  private states = new Map<string, string>(); // State -> session id
+  private consumed = new Set<string>(); // Ids of sessions whose nonce was consumed
+
+  async save(session: Session): Promise<void> {
+    const nonceOwner = this.nonces.get(session.nonce);
+    if (nonceOwner !== undefined && nonceOwner !== session.id) {
+      throw new Error('Nonce is already in use by another session');
+    }
+    const previous = this.sessions.get(session.id);
+    if (previous) {
+      this.unindex(previous);
+    }
+    const { nonceConsumed, ...stored } = structuredClone(session);
+    this.sessions.set(session.id, stored);
+    this.nonces.set(session.nonce, session.id);
+    if (session.state !== undefined) {
+      this.states.set(session.state, session.id);
+    }
+  }
+
+  async get(id: string): Promise<Session | undefined> {
+    return this.active(id);
+  }
+
+  async findByState(state: string): Promise<Session | undefined> {
+    const id = this.states.get(state);
+    return id === undefined ? undefined : this.active(id);
+  }
+
+  async findByNonce(nonce: string): Promise<Session | undefined> {
+    const id = this.nonces.get(nonce);
+    return id === undefined ? undefined : this.active(id);
+  }
+
+  async consumeNonce(nonce: string): Promise<Session | undefined> {
+    const id = this.nonces.get(nonce);
+    const session = id === undefined ? undefined : this.active(id);
+    if (!session || this.consumed.has(session.id)) {
+      return undefined;
+    }
+    this.consumed.add(session.id);
+    return { ...session, nonceConsumed: true };
+  }
+
+  async delete(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session) {
+      this.unindex(session);
+      this.sessions.delete(id);
+      this.consumed.delete(id);
+    }
+  }
+
+  async deleteExpired(): Promise<number> {
+    const now = Date.now();
+    const expired = [...this.sessions.values()].filter(session => session.expiresAt <= now);
+    for (const session of expired) {
+      await this.delete(session.id);
+    }
+    return expired.length;
+  }
+
+  /**
+   * A copy of the session, or undefined when it is unknown or expired (expired sessions are removed)
+   */
+  private active(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+    if (session.expiresAt <= Date.now()) {
+      this.delete(id);
+      return undefined;
+    }
+    return { ...structuredClone(session), nonceConsumed: this.consumed.has(id) };
+  }
+
+  private unindex(session: Session): void {
+    this.nonces.delete(session.nonce);
+    if (session.state !== undefined) {
+      this.states.delete(session.state);
+    }
+  }
+}
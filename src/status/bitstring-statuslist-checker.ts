@@ -1,12 +1,37 @@
-import { VerifiableCredential, StatusChecker, StatusResult } from '../types/index.ts';
+import { VerifiableCredential, StatusChecker, StatusResult, StatusListFetcher } from '../types/index.ts';
+import {
+  checkStatusListEntries, createStatusListCredentialVerifier, defaultStatusListFetcher, statusEntries,
+  StatusListCheckerOptions, StatusListCredentialVerifier, StatusListMechanism
+} from './status-list.ts';
+
+// Bitstring Status List v1.0: revocation, suspension, or message entries with multi-bit statusSize
+const BITSTRING_STATUS_LIST: StatusListMechanism = {
+  entryTypes: ['BitstringStatusListEntry'],
+  credentialType: 'BitstringStatusListCredential',
+  subjectType: 'BitstringStatusList',
+  multiBit: true
+};
 
 export class BitstringStatusListChecker implements StatusChecker {
+  private fetcher: StatusListFetcher;
+  private credentialVerifier: StatusListCredentialVerifier;
+
+  constructor(options: StatusListCheckerOptions = {}) {
+    this.fetcher = options.fetcher ?? defaultStatusListFetcher;
+    this.credentialVerifier = options.credentialVerifier ?? createStatusListCredentialVerifier(options);
+  }
+
   canHandle(credential: VerifiableCredential): boolean {
-    return credential.status?.type === 'BitstringStatusList';
+    return statusEntries(credential).some(entry => BITSTRING_STATUS_LIST.entryTypes.includes(entry.type));
   }
+
+  /**
+   * Fetches and verifies the BitstringStatusListCredential of each entry and reads the credential's status
+   * @param credential - The credential whose status is checked
+   * @returns Promise<StatusResult> - Inactive if revoked or suspended; message entries report their statusMessage
+   * @throws Error - When a status list cannot be fetched, verified or decoded
+   */
   async checkStatus(credential: VerifiableCredential): Promise<StatusResult> {
-    // Example logic for custom bitstring status list
-    if (!credential.status) return { active: true };
-    return { active: true };
+    return checkStatusListEntries(credential, BITSTRING_STATUS_LIST, this.fetcher, this.credentialVerifier);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,125 @@
+/**
+ * Composite Status Checker
+ * Routes each status entry of a credential to the checker that handles its mechanism and applies
+ * one unreachable-list policy across all of them
+ */
+
+import { MdocTrustStore } from '../crypto/mdoc-trust-store.ts';
+import {
+  DidResolver, DocumentLoader, ReferencedToken, StatusChecker, StatusResult, UnreachableListPolicy, VerifiableCredential
+} from '../types/index.ts';
+import { BitstringStatusListChecker } from './bitstring-statuslist-checker.ts';
+import { StatusListCache, StatusListCacheOptions } from './status-list-cache.ts';
+import { StatusListUnreachableError } from './status-list.ts';
+import { StatusList2021Checker } from './statuslist2021-checker.ts';
+import { TokenStatusListChecker } from './token-statuslist-checker.ts';
+
+export interface CompositeStatusCheckerOptions {
+  checkers?: StatusChecker[]; // Tried in order; defaults to StatusList2021, BitstringStatusList and Token Status List checkers using the cache
+  cache?: StatusListCache | StatusListCacheOptions; // Cache the default checkers fetch through
+  unreachablePolicy?: UnreachableListPolicy; // Default 'fail-closed'
+  unhandledPolicy?: UnhandledStatusPolicy; // Default 'fail-closed'
+  didResolver?: DidResolver; // Used by the default checkers
+  documentLoader?: DocumentLoader; // Used by the default checkers
+  trustStore?: MdocTrustStore; // Used by the default Token Status List checker for CWT tokens
+}
+
+/**
+ * How the composite checker treats a status entry no checker handles:
+ * reject the credential (fail-closed) or accept it with a warning (soft-fail).
+ */
+export type UnhandledStatusPolicy = 'fail-closed' | 'soft-fail';
+
+type StatusSubject = VerifiableCredential | ReferencedToken;
+
+export class CompositeStatusChecker implements StatusChecker {
+  readonly cache: StatusListCache;
+  private checkers: StatusChecker[];
+  private unreachablePolicy: UnreachableListPolicy;
+  private unhandledPolicy: UnhandledStatusPolicy;
+
+  constructor(options: CompositeStatusCheckerOptions = {}) {
+    this.cache = options.cache instanceof StatusListCache ? options.cache : new StatusListCache(options.cache);
+    this.unreachablePolicy = options.unreachablePolicy ?? 'fail-closed';
+    this.unhandledPolicy = options.unhandledPolicy ?? 'fail-closed';
+    const fetcher = this.cache.fetcher;
+    this.checkers = options.checkers ?? [
+      new StatusList2021Checker({ fetcher, didResolver: options.didResolver, documentLoader: options.documentLoader }),
+      new BitstringStatusListChecker({ fetcher, didResolver: options.didResolver, documentLoader: options.documentLoader }),
+      new TokenStatusListChecker({ fetcher, didResolver: options.didResolver, trustStore: options.trustStore })
+    ];
+  }
+
+  canHandle(credential: StatusSubject): boolean {
+    const entries = splitStatusEntries(credential);
+    // Under fail-closed an unhandled entry must still reach checkStatus to be rejected
+    return this.unhandledPolicy === 'fail-closed' ? entries.length > 0 : entries.some(entry => this.checkerFor(entry));
+  }
+
+  /**
+   * Checks every status entry of the credential with the checker for its mechanism
+   * @param credential - A W3C credential (one or more credentialStatus entries) or a token with a status_list claim
+   * @returns Promise<StatusResult> - The first inactive entry's result, else the first active one, with the
+   * warnings of all entries; failures are reported in the result rather than thrown
+   */
+  async checkStatus(credential: StatusSubject): Promise<StatusResult> {
+    const results: StatusResult[] = [];
+    const warnings: string[] = [];
+    for (const entry of splitStatusEntries(credential)) {
+      const checker = this.checkerFor(entry);
+      if (!checker) {
+        // A status the verifier cannot read may well be a revocation, so it rejects unless configured otherwise
+        const message = `No status checker for status entry type ${entry.credentialStatus?.type ?? 'unknown'}`;
+        if (this.unhandledPolicy === 'fail-closed') {
+          results.push({ active: false, reason: message });
+        } else {
+          warnings.push(message);
+        }
+        continue;
+      }
+      const result = await this.checkEntry(checker, entry);
+      warnings.push(...(result.warnings ?? []));
+      results.push(result);
+    }
+    const result = results.find(entry => !entry.active) ?? results.find(entry => entry.message) ?? results[0] ?? { active: true };
+    return warnings.length > 0 ? { ...result, warnings } : result;
+  }
+
+  private checkerFor(entry: StatusSubject): StatusChecker | undefined {
+    return this.checkers.find(checker => !checker.canHandle || checker.canHandle(entry));
+  }
+
+  private async checkEntry(checker: StatusChecker, entry: StatusSubject): Promise<StatusResult> {
+    try {
+      return await checker.checkStatus(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error during status check';
+      // Only lists that could not be retrieved fall under the policy; a list that fails verification always rejects
+      if (!(error instanceof StatusListUnreachableError)) {
+        return { active: false, reason: message };
+      }
+      const unreachablePolicy = this.unreachablePolicy;
+      if (unreachablePolicy === 'fail-open') {
+        return { active: true, unreachablePolicy };
+      }
+      if (unreachablePolicy === 'soft-fail') {
+        return { active: true, warnings: [message], unreachablePolicy };
+      }
+      return { active: false, reason: message, unreachablePolicy };
+    }
+  }
+}
+
+/**
+ * Splits a credential into one view per status entry, so each entry is routed (and can fail) independently:
+ * each credentialStatus entry alone, and a token's status_list claim alone
+ */
+function splitStatusEntries(credential: StatusSubject): StatusSubject[] {
+  const { credentialStatus, status } = credential;
+  const entries = [
+    ...(Array.isArray(credentialStatus) ? credentialStatus : credentialStatus ? [credentialStatus] : []),
+    ...(status && !status.status_list ? [status] : [])
+  ];
+  const views: StatusSubject[] = entries.map(entry => ({ ...credential, credentialStatus: entry, status: undefined }));
+  return status?.status_list ? [{ ...credential, credentialStatus: undefined }, ...views] : views;
+}
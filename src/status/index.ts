@@ -1,3 +1,6 @@
 export { StatusList2021Checker } from './statuslist2021-checker.ts';
 export { BitstringStatusListChecker } from './bitstring-statuslist-checker.ts';
-export { TokenStatusListChecker } from './token-statuslist-checker.ts'; 
\ No newline at end of file
+export { TokenStatusListChecker, TokenStatusListCheckerOptions, defaultTokenStatusListFetcher, readTokenStatus } from './token-statuslist-checker.ts';
+export { CompositeStatusChecker, CompositeStatusCheckerOptions, UnhandledStatusPolicy } from './composite-status-checker.ts';
+export { StatusListCache, StatusListCacheOptions } from './status-list-cache.ts';
+export { StatusListCheckerOptions, StatusListCredentialVerifier, StatusListUnreachableError, defaultStatusListFetcher, requestStatusList, decodeStatusList, readStatus, statusEntries } from './status-list.ts';
\ No newline at end of file
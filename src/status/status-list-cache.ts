@@ -0,0 +1,136 @@
+/**
+ * Status List Cache
+ * HTTP cache for status lists (credentials and tokens) with TTL, ETag / If-None-Match revalidation
+ * and a stale-while-revalidate window
+ */
+
+import { StatusListFetcher } from '../types/index.ts';
+import { requestStatusList } from './status-list.ts';
+
+export interface StatusListCacheOptions {
+  ttl?: number; // Seconds a fetched list stays fresh, default 300 (a Cache-Control max-age on the response takes precedence)
+  staleWhileRevalidate?: number; // Seconds a stale list is still served while it is revalidated in the background, default 0
+  maxEntries?: number; // Default 100
+  fetch?: typeof fetch; // Defaults to the global fetch; inject a stub to serve lists locally
+  timeout?: number; // Milliseconds, default 5000
+}
+
+interface CachedStatusList {
+  value: any;
+  etag?: string;
+  expiresAt: number;
+}
+
+// Media types of every status list format the checkers understand
+const STATUS_LIST_MEDIA_TYPES = 'application/vc+ld+json, application/ld+json, application/json, application/statuslist+jwt, application/statuslist+cwt';
+
+export class StatusListCache {
+  private entries = new Map<string, CachedStatusList>();
+  private pending = new Map<string, Promise<any>>();
+  private ttl: number;
+  private staleWhileRevalidate: number;
+  private maxEntries: number;
+  private fetchImpl: typeof fetch;
+  private timeout: number;
+
+  constructor(options: StatusListCacheOptions = {}) {
+    this.ttl = options.ttl ?? 300;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    this.maxEntries = options.maxEntries ?? 100;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeout = options.timeout ?? 5000;
+  }
+
+  /**
+   * Fetcher for the status checkers' fetcher option, backed by this cache
+   */
+  readonly fetcher: StatusListFetcher = (url: string) => this.fetch(url);
+
+  /**
+   * Returns a status list: fresh lists from the cache, stale lists within the stale-while-revalidate window
+   * from the cache while they are revalidated in the background, and everything else from the network
+   * @param url - The status list URL
+   * @returns Promise<any> - A JSON status list credential, a Status List Token JWT string or CWT bytes
+   * @throws StatusListUnreachableError - When the list is not cached (or too stale) and cannot be fetched
+   */
+  async fetch(url: string): Promise<any> {
+    const entry = this.entries.get(url);
+    const now = Date.now();
+    if (entry && now < entry.expiresAt) {
+      return entry.value;
+    }
+    if (entry && now < entry.expiresAt + this.staleWhileRevalidate * 1000) {
+      // A failed background revalidation keeps the stale entry until the window closes
+      this.revalidate(url).catch(() => undefined);
+      return entry.value;
+    }
+    return this.revalidate(url);
+  }
+
+  /**
+   * Drops a cached list, or every list when no URL is given
+   */
+  invalidate(url?: string): void {
+    if (url === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(url);
+    }
+  }
+
+  /**
+   * Fetches a list, sending the cached ETag so an unchanged list costs a 304; concurrent requests share one fetch
+   */
+  private revalidate(url: string): Promise<any> {
+    let pending = this.pending.get(url);
+    if (!pending) {
+      pending = this.request(url).finally(() => this.pending.delete(url));
+      this.pending.set(url, pending);
+    }
+    return pending;
+  }
+
+  private async request(url: string): Promise<any> {
+    const cached = this.entries.get(url);
+    const headers: Record<string, string> = { accept: STATUS_LIST_MEDIA_TYPES };
+    if (cached?.etag) {
+      headers['if-none-match'] = cached.etag;
+    }
+    const response = await requestStatusList(url, { headers, signal: AbortSignal.timeout(this.timeout) }, this.fetchImpl);
+    if (response.status === 304 && cached) {
+      this.store(url, { ...cached, expiresAt: Date.now() + this.maxAge(response) * 1000 });
+      return cached.value;
+    }
+    const value = await parseStatusList(response);
+    this.store(url, {
+      value,
+      etag: response.headers.get('etag') ?? undefined,
+      expiresAt: Date.now() + this.maxAge(response) * 1000
+    });
+    return value;
+  }
+
+  private store(url: string, entry: CachedStatusList): void {
+    this.entries.delete(url);
+    this.entries.set(url, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  private maxAge(response: Response): number {
+    const maxAge = response.headers.get('cache-control')?.match(/max-age=(\d+)/);
+    return maxAge ? Number(maxAge[1]) : this.ttl;
+  }
+}
+
+/**
+ * Parses a status list response: CWT bytes, JSON credentials, or a compact JWT
+ */
+async function parseStatusList(response: Response): Promise<any> {
+  if (response.headers.get('content-type')?.includes('statuslist+cwt')) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  const text = (await response.text()).trim();
+  return text.startsWith('{') ? JSON.parse(text) : text;
+}
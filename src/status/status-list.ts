@@ -0,0 +1,241 @@
+/**
+ * Bitstring Status Lists
+ * Shared logic for StatusList2021 and BitstringStatusList: fetch and verify the status list credential,
+ * decode its GZIP-compressed bitstring and read the status of a credential's entry
+ */
+
+import { gunzipSync } from 'zlib';
+import { base64urlDecode } from '../crypto/encoding.ts';
+import { W3cHandler } from '../handlers/w3c-handler.ts';
+import {
+  CredentialStatus, DidResolver, DocumentLoader, StatusListFetcher, StatusResult, VerifiableCredential
+} from '../types/index.ts';
+
+export interface StatusListCheckerOptions {
+  fetcher?: StatusListFetcher; // Fetches the status list credential by URL (defaults to an HTTP GET of JSON)
+  credentialVerifier?: StatusListCredentialVerifier; // Verifies the status list credential (defaults to a W3cHandler)
+  didResolver?: DidResolver; // Used by the default credential verifier
+  documentLoader?: DocumentLoader; // Used by the default credential verifier
+}
+
+/**
+ * Verifies the proof of a status list credential; W3cHandler satisfies this interface
+ */
+export interface StatusListCredentialVerifier {
+  verifyCredential(credential: VerifiableCredential): Promise<{ status: 'verified' | 'rejected'; error?: string }>;
+}
+
+/**
+ * The credential and subject types that identify one status list mechanism
+ */
+export interface StatusListMechanism {
+  entryTypes: string[]; // credentialStatus types this mechanism handles
+  credentialType: string; // Required type of the status list credential
+  subjectType: string; // Required type of the status list credential's subject
+  multiBit: boolean; // Whether entries may use statusSize > 1
+}
+
+/**
+ * Raised by status list fetchers when a list cannot be retrieved (network failure or HTTP error), as opposed to
+ * a list that was retrieved but fails verification; CompositeStatusChecker applies its unreachable-list policy to it
+ */
+export class StatusListUnreachableError extends Error {
+  url: string;
+
+  constructor(url: string, message: string) {
+    super(`Status list could not be fetched from ${url}: ${message}`);
+    this.name = 'StatusListUnreachableError';
+    this.url = url;
+  }
+}
+
+/**
+ * Requests a status list over HTTP
+ * @param url - The status list URL
+ * @param init - Request headers and options
+ * @param fetchImpl - The HTTP client (defaults to the global fetch)
+ * @returns Promise<Response> - The response; 304 Not Modified is returned as is
+ * @throws StatusListUnreachableError - On network failures and HTTP errors
+ */
+export async function requestStatusList(url: string, init: RequestInit = {}, fetchImpl: typeof fetch = fetch): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetchImpl(url, init);
+  } catch (error) {
+    throw new StatusListUnreachableError(url, error instanceof Error ? error.message : 'network error');
+  }
+  if (!response.ok && response.status !== 304) {
+    throw new StatusListUnreachableError(url, `HTTP ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Fetches a status list credential over HTTP
+ * @param url - The statusListCredential URL
+ * @returns Promise<any> - The parsed status list credential
+ */
+export const defaultStatusListFetcher: StatusListFetcher = async (url: string) => {
+  const response = await requestStatusList(url, { headers: { accept: 'application/vc+ld+json, application/ld+json, application/json' } });
+  return response.json();
+};
+
+/**
+ * Collects a credential's status entries (credentialStatus, single or array, and the legacy status property)
+ * @param credential - The credential
+ * @returns CredentialStatus[] - All status entries
+ */
+export function statusEntries(credential: VerifiableCredential): CredentialStatus[] {
+  const credentialStatus = credential.credentialStatus;
+  const entries = Array.isArray(credentialStatus) ? credentialStatus : credentialStatus ? [credentialStatus] : [];
+  return credential.status ? [...entries, credential.status] : entries;
+}
+
+/**
+ * Decodes an encodedList: GZIP-compressed, base64url (optionally multibase 'u' prefixed or padded base64)
+ * @param encodedList - The status list credential's encodedList
+ * @returns Uint8Array - The uncompressed bitstring
+ */
+export function decodeStatusList(encodedList: string): Uint8Array {
+  const base64url = encodedList.replace(/^u/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  try {
+    return new Uint8Array(gunzipSync(base64urlDecode(base64url)));
+  } catch {
+    throw new Error('Status list encodedList is not a GZIP-compressed base64url bitstring');
+  }
+}
+
+/**
+ * Reads the status at an index; bit 0 is the most significant bit of the first byte
+ * @param bitstring - The uncompressed bitstring
+ * @param index - The statusListIndex
+ * @param statusSize - Bits per status entry (default 1)
+ * @returns number - The status value
+ */
+export function readStatus(bitstring: Uint8Array, index: number, statusSize: number = 1): number {
+  const firstBit = index * statusSize;
+  if (firstBit + statusSize > bitstring.length * 8) {
+    throw new Error(`Status list index ${index} is out of range`);
+  }
+  let value = 0;
+  for (let bit = firstBit; bit < firstBit + statusSize; bit++) {
+    value = (value << 1) | ((bitstring[bit >> 3] >> (7 - (bit & 7))) & 1);
+  }
+  return value;
+}
+
+/**
+ * Checks every entry of a credential that belongs to the mechanism; an inactive entry determines the result
+ * @param credential - The credential whose status is checked
+ * @param mechanism - The status list mechanism
+ * @param fetcher - Fetches status list credentials
+ * @param credentialVerifier - Verifies status list credentials
+ * @returns Promise<StatusResult> - The status result
+ * @throws Error - When a status list cannot be fetched, verified or decoded
+ */
+export async function checkStatusListEntries(
+  credential: VerifiableCredential,
+  mechanism: StatusListMechanism,
+  fetcher: StatusListFetcher,
+  credentialVerifier: StatusListCredentialVerifier
+): Promise<StatusResult> {
+  const entries = statusEntries(credential).filter(entry => mechanism.entryTypes.includes(entry.type));
+  if (entries.length === 0) {
+    return { active: true };
+  }
+  const issuer = issuerId(credential);
+  const results: StatusResult[] = [];
+  for (const entry of entries) {
+    results.push(await checkEntry(entry, issuer, mechanism, fetcher, credentialVerifier));
+  }
+  return results.find(result => !result.active) ?? results.find(result => result.message) ?? results[0];
+}
+
+/**
+ * Creates the default verifier for status list credentials (proof and issuer binding, without holder binding)
+ */
+export function createStatusListCredentialVerifier(options: StatusListCheckerOptions): StatusListCredentialVerifier {
+  return new W3cHandler({ didResolver: options.didResolver, documentLoader: options.documentLoader, requireHolderBinding: false });
+}
+
+async function checkEntry(
+  entry: CredentialStatus,
+  issuer: string | undefined,
+  mechanism: StatusListMechanism,
+  fetcher: StatusListFetcher,
+  credentialVerifier: StatusListCredentialVerifier
+): Promise<StatusResult> {
+  const index = Number(entry.statusListIndex);
+  if (!Number.isInteger(index) || index < 0 || String(entry.statusListIndex).trim() === '') {
+    throw new Error('Status entry has an invalid statusListIndex');
+  }
+  if (typeof entry.statusListCredential !== 'string') {
+    throw new Error('Status entry has no statusListCredential');
+  }
+  const purpose: string = entry.statusPurpose;
+  const statusSize = mechanism.multiBit ? Number(entry.statusSize ?? 1) : 1;
+  if (!Number.isInteger(statusSize) || statusSize < 1 || statusSize > 8) {
+    throw new Error('Status entry has an invalid statusSize');
+  }
+
+  const statusListCredential = await fetcher(entry.statusListCredential);
+  await checkStatusListCredential(statusListCredential, issuer, mechanism, purpose, credentialVerifier);
+
+  const bitstring = decodeStatusList(statusListCredential.credentialSubject.encodedList);
+  const status = readStatus(bitstring, index, statusSize);
+  const statusMessages = Array.isArray(entry.statusMessage) ? entry.statusMessage : undefined;
+  const message = statusMessages?.find(statusMessage => parseInt(statusMessage.status, 16) === status)?.message;
+  const result: StatusResult = { active: true, purpose, status, ...(message && { message }), ...(statusMessages && { statusMessages }) };
+
+  if (status !== 0 && purpose === 'revocation') {
+    return { ...result, active: false, reason: 'Credential has been revoked' };
+  }
+  if (status !== 0 && purpose === 'suspension') {
+    return { ...result, active: false, reason: 'Credential is suspended' };
+  }
+  return result;
+}
+
+async function checkStatusListCredential(
+  statusListCredential: any,
+  issuer: string | undefined,
+  mechanism: StatusListMechanism,
+  purpose: string,
+  credentialVerifier: StatusListCredentialVerifier
+): Promise<void> {
+  if (!statusListCredential || typeof statusListCredential !== 'object') {
+    throw new Error('Status list credential is not a JSON-LD credential');
+  }
+  // Only the credential's issuer can change its status; a list by anyone else proves nothing about it
+  if (!issuer || issuerId(statusListCredential) !== issuer) {
+    throw new Error('Status list credential was not issued by the credential issuer');
+  }
+  const types = [].concat(statusListCredential.type ?? []);
+  const subject = statusListCredential.credentialSubject;
+  if (!types.includes(mechanism.credentialType as never) || subject?.type !== mechanism.subjectType) {
+    throw new Error(`Status list credential is not a ${mechanism.credentialType}`);
+  }
+  const listPurposes = [].concat(subject.statusPurpose ?? []);
+  if (!listPurposes.includes(purpose as never)) {
+    throw new Error(`Status list purpose does not match the status entry purpose ${purpose}`);
+  }
+
+  const now = Date.now();
+  const validUntil = statusListCredential.validUntil ?? statusListCredential.expirationDate;
+  if (validUntil && Date.parse(validUntil) < now) {
+    throw new Error('Status list credential has expired');
+  }
+  const validFrom = statusListCredential.validFrom ?? statusListCredential.issuanceDate;
+  if (validFrom && Date.parse(validFrom) > now) {
+    throw new Error('Status list credential is not yet valid');
+  }
+
+  const verification = await credentialVerifier.verifyCredential(statusListCredential);
+  if (verification.status !== 'verified') {
+    throw new Error(`Status list credential verification failed: ${verification.error || 'invalid proof'}`);
+  }
+}
+
+function issuerId(credential: any): string | undefined {
+  return typeof credential?.issuer === 'string' ? credential.issuer : credential?.issuer?.id;
+}
@@ -1,14 +1,37 @@
-import { VerifiableCredential, StatusChecker, StatusResult } from '../types/index.ts';
+import { VerifiableCredential, StatusChecker, StatusResult, StatusListFetcher } from '../types/index.ts';
+import {
+  checkStatusListEntries, createStatusListCredentialVerifier, defaultStatusListFetcher, statusEntries,
+  StatusListCheckerOptions, StatusListCredentialVerifier, StatusListMechanism
+} from './status-list.ts';
+
+// StatusList2021 (W3C CCG): single-bit revocation or suspension entries
+const STATUS_LIST_2021: StatusListMechanism = {
+  entryTypes: ['StatusList2021Entry', 'StatusList2021'],
+  credentialType: 'StatusList2021Credential',
+  subjectType: 'StatusList2021',
+  multiBit: false
+};
 
 export class StatusList2021Checker implements StatusChecker {
+  private fetcher: StatusListFetcher;
+  private credentialVerifier: StatusListCredentialVerifier;
+
+  constructor(options: StatusListCheckerOptions = {}) {
+    this.fetcher = options.fetcher ?? defaultStatusListFetcher;
+    this.credentialVerifier = options.credentialVerifier ?? createStatusListCredentialVerifier(options);
+  }
+
   canHandle(credential: VerifiableCredential): boolean {
-    return credential.status?.type === 'StatusList2021';
+    return statusEntries(credential).some(entry => STATUS_LIST_2021.entryTypes.includes(entry.type));
   }
+
+  /**
+   * Fetches and verifies the StatusList2021Credential of each entry and reads the credential's bit
+   * @param credential - The credential whose status is checked
+   * @returns Promise<StatusResult> - Inactive if a revocation or suspension bit is set
+   * @throws Error - When a status list cannot be fetched, verified or decoded
+   */
   async checkStatus(credential: VerifiableCredential): Promise<StatusResult> {
-    // Example logic: fetch status list, decode bitstring, check index
-    // This is a stub/mock implementation
-    if (!credential.status) return { active: true };
-    // In real code, fetch credential.status.statusListCredential, decode, check index
-    return { active: true };
+    return checkStatusListEntries(credential, STATUS_LIST_2021, this.fetcher, this.credentialVerifier);
   }
-} 
\ No newline at end of file
+}
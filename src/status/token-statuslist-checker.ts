@@ -1,12 +1,215 @@
-import { VerifiableCredential, StatusChecker, StatusResult } from '../types/index.ts';
+/**
+ * IETF Token Status List Checker
+ * Checks the status of SD-JWT VCs and mdocs that reference a Status List Token (JWT or CWT)
+ * through their status.status_list claim
+ */
+
+import { inflateSync } from 'zlib';
+import { Tag } from 'cbor-x';
+import { cborDecoder, decodeCoseMessage, getX5Chain, verifyCoseSign1 } from '../crypto/cose.ts';
+import { base64urlDecode } from '../crypto/encoding.ts';
+import { decodeJws, verifyJws } from '../crypto/jws.ts';
+import { MdocTrustStore } from '../crypto/mdoc-trust-store.ts';
+import { publicKeyFromVerificationMethod, resolveJwtVerificationMethod } from '../crypto/verification-method.ts';
+import { requestStatusList } from './status-list.ts';
+import {
+  DidResolver, ReferencedToken, StatusChecker, StatusListFetcher, StatusListReference, StatusResult, TokenStatus
+} from '../types/index.ts';
+
+export interface TokenStatusListCheckerOptions {
+  fetcher?: StatusListFetcher; // Returns the Status List Token: a compact JWT string or CWT bytes
+  didResolver?: DidResolver; // Resolves the signing key of JWT Status List Tokens
+  trustStore?: MdocTrustStore; // Validates the x5chain of CWT Status List Tokens (required for CWTs)
+  clockSkew?: number; // Tolerated clock skew, in seconds (default 60)
+}
+
+// Registered status types
+const TOKEN_STATUSES: Record<number, TokenStatus> = {
+  0x00: 'VALID',
+  0x01: 'INVALID',
+  0x02: 'SUSPENDED'
+};
+
+// CWT claim keys and COSE header labels used by Status List Tokens
+const CWT_SUB = 2;
+const CWT_EXP = 4;
+const CWT_IAT = 6;
+const CWT_STATUS_LIST = 65533;
+const HEADER_TYP = 16;
+
+/**
+ * A Status List Token's verified claims
+ */
+interface StatusListToken {
+  iss?: string;
+  sub: string;
+  exp?: number;
+  bits: number;
+  lst: Uint8Array; // Compressed status list
+}
+
+/**
+ * Fetches a Status List Token over HTTP, as a JWT string or CWT bytes depending on the response media type
+ * @param url - The status list uri
+ * @returns Promise<string | Uint8Array> - The Status List Token
+ */
+export const defaultTokenStatusListFetcher: StatusListFetcher = async (url: string) => {
+  const response = await requestStatusList(url, { headers: { accept: 'application/statuslist+jwt, application/statuslist+cwt' } });
+  if (response.headers.get('content-type')?.includes('statuslist+cwt')) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  return (await response.text()).trim();
+};
+
+/**
+ * Reads the status at an index of a Token Status List; index 0 is the least significant bits of the first byte
+ * @param statusList - The decompressed status list
+ * @param index - The token's idx
+ * @param bits - Bits per status (1, 2, 4 or 8)
+ * @returns number - The status value
+ */
+export function readTokenStatus(statusList: Uint8Array, index: number, bits: number): number {
+  const firstBit = index * bits;
+  if (firstBit + bits > statusList.length * 8) {
+    throw new Error(`Status list index ${index} is out of range`);
+  }
+  return (statusList[firstBit >> 3] >> (firstBit & 7)) & ((1 << bits) - 1);
+}
 
 export class TokenStatusListChecker implements StatusChecker {
-  canHandle(credential: VerifiableCredential): boolean {
-    return credential.status?.type === 'TokenStatusList';
+  private fetcher: StatusListFetcher;
+  private didResolver?: DidResolver;
+  private trustStore?: MdocTrustStore;
+  private clockSkew: number;
+
+  constructor(options: TokenStatusListCheckerOptions = {}) {
+    this.fetcher = options.fetcher ?? defaultTokenStatusListFetcher;
+    this.didResolver = options.didResolver;
+    this.trustStore = options.trustStore;
+    this.clockSkew = options.clockSkew ?? 60;
+  }
+
+  canHandle(credential: ReferencedToken): boolean {
+    return !!credential.status?.status_list;
+  }
+
+  /**
+   * Fetches and verifies the Status List Token the credential references and reads the credential's status
+   * @param credential - The SD-JWT VC payload or mdoc MSO claims with a status.status_list claim
+   * @returns Promise<StatusResult> - Active only when the status is VALID
+   * @throws Error - When the Status List Token cannot be fetched, verified or decoded
+   */
+  async checkStatus(credential: ReferencedToken): Promise<StatusResult> {
+    const reference = credential.status?.status_list;
+    if (!reference) {
+      return { active: true };
+    }
+    if (!Number.isInteger(reference.idx) || reference.idx < 0 || typeof reference.uri !== 'string') {
+      throw new Error('status_list reference must have a non-negative integer idx and a uri');
+    }
+
+    const token = await this.verifyStatusListToken(await this.fetcher(reference.uri), reference);
+    if (credential.iss && token.iss && token.iss !== credential.iss) {
+      throw new Error('Status List Token was not issued by the credential issuer');
+    }
+    if (![1, 2, 4, 8].includes(token.bits)) {
+      throw new Error(`Status list bits must be 1, 2, 4 or 8, got ${token.bits}`);
+    }
+    let statusList: Uint8Array;
+    try {
+      statusList = new Uint8Array(inflateSync(token.lst));
+    } catch {
+      throw new Error('Status list lst is not a DEFLATE (ZLIB) compressed byte array');
+    }
+
+    const status = readTokenStatus(statusList, reference.idx, token.bits);
+    const tokenStatus = TOKEN_STATUSES[status];
+    if (tokenStatus === 'VALID') {
+      return { active: true, status, tokenStatus };
+    }
+    if (tokenStatus === 'INVALID') {
+      return { active: false, reason: 'Credential has been revoked', status, tokenStatus };
+    }
+    if (tokenStatus === 'SUSPENDED') {
+      return { active: false, reason: 'Credential is suspended', status, tokenStatus };
+    }
+    // Application-specific and reserved values carry no meaning the verifier can rely on
+    return { active: false, reason: `Credential has unrecognized status 0x${status.toString(16).padStart(2, '0')}`, status };
   }
-  async checkStatus(credential: VerifiableCredential): Promise<StatusResult> {
-    // Example logic for token status list
-    if (!credential.status) return { active: true };
-    return { active: true };
+
+  /**
+   * Verifies a Status List Token (JWT or CWT): type, signature, subject and validity period
+   */
+  private async verifyStatusListToken(token: any, reference: StatusListReference): Promise<StatusListToken> {
+    const statusListToken = typeof token === 'string'
+      ? await this.verifyJwtToken(token)
+      : await this.verifyCwtToken(token);
+    if (statusListToken.sub !== reference.uri) {
+      throw new Error('Status List Token sub does not match the status_list uri');
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof statusListToken.exp === 'number' && statusListToken.exp + this.clockSkew < now) {
+      throw new Error('Status List Token has expired');
+    }
+    return statusListToken;
+  }
+
+  private async verifyJwtToken(jwt: string): Promise<StatusListToken> {
+    console.log('--> Verifying Status List Token (JWT)');
+    const jws = decodeJws(jwt);
+    if (jws.header.typ !== 'statuslist+jwt') {
+      throw new Error(`Status List Token must have typ statuslist+jwt, got ${jws.header.typ}`);
+    }
+    const publicKey = publicKeyFromVerificationMethod(
+      await resolveJwtVerificationMethod(jws.header, jws.payload.iss, this.didResolver, 'assertionMethod')
+    );
+    if (!verifyJws(jws, publicKey)) {
+      throw new Error('Status List Token signature is invalid');
+    }
+    const { iss, sub, iat, exp, status_list: statusList } = jws.payload;
+    if (typeof statusList?.lst !== 'string') {
+      throw new Error('Status List Token has no status_list');
+    }
+    if (typeof iat !== 'number') {
+      throw new Error('Status List Token has no iat');
+    }
+    console.log('   Verification result: VALID');
+    return { iss, sub, exp, bits: statusList.bits, lst: base64urlDecode(statusList.lst) };
+  }
+
+  private async verifyCwtToken(cwt: Uint8Array): Promise<StatusListToken> {
+    console.log('--> Verifying Status List Token (CWT)');
+    if (!(cwt instanceof Uint8Array)) {
+      throw new Error('Status List Token must be a compact JWT or CWT bytes');
+    }
+    // A CWT may be wrapped in the CWT tag (61) around the COSE_Sign1 tag (18)
+    const decoded = cborDecoder.decode(cwt);
+    const message = decodeCoseMessage(decoded instanceof Tag && decoded.tag === 61 ? decoded.value : decoded);
+    if (message.protectedHeaders.get(HEADER_TYP) !== 'application/statuslist+cwt') {
+      throw new Error('Status List Token must have typ application/statuslist+cwt');
+    }
+    const certificateChain = getX5Chain(message);
+    if (certificateChain.length === 0) {
+      throw new Error('Status List Token has no signer certificate (x5chain)');
+    }
+    if (!verifyCoseSign1(message, certificateChain[0].publicKey)) {
+      throw new Error('Status List Token signature is invalid');
+    }
+    // The signer must chain to a trusted IACA, as mdoc document signers do
+    if (!this.trustStore) {
+      throw new Error('No trust store configured to validate the Status List Token signer');
+    }
+    await this.trustStore.validateDocumentSigner(certificateChain);
+
+    const claims = cborDecoder.decode(message.payload!);
+    const statusList = claims instanceof Map ? claims.get(CWT_STATUS_LIST) : undefined;
+    if (!(statusList instanceof Map) || !(statusList.get('lst') instanceof Uint8Array)) {
+      throw new Error('Status List Token has no status_list');
+    }
+    if (typeof claims.get(CWT_IAT) !== 'number') {
+      throw new Error('Status List Token has no iat');
+    }
+    console.log('   Verification result: VALID');
+    return { sub: claims.get(CWT_SUB), exp: claims.get(CWT_EXP), bits: statusList.get('bits'), lst: statusList.get('lst') };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,213 @@
+/**
+ * ETSI Trusted List Registry
+ * Trusted issuers from EU Trusted Lists (ETSI TS 119 612 XML): trust service providers, their services' digital
+ * identities, service types and status history. The lists' XML signatures are not validated here; load lists
+ * obtained over an authenticated channel or verified beforehand.
+ */
+
+import { X509Certificate } from 'crypto';
+import { readFile } from 'fs/promises';
+import { TrustDecision, TrustQuery, TrustRegistry } from '../types/index.ts';
+import { childElement, childElements, childText, parseXml, XmlElement } from './xml.ts';
+
+export interface EtsiTrustedListOptions {
+  credentialTypes?: Record<string, string[]>; // Credential type -> service type identifiers accredited to issue it (unmapped types accept any service type)
+  accreditedStatuses?: string[]; // Service status identifiers (or their last path segment) that count as accredited
+  allowExpiredList?: boolean; // Trust lists past their NextUpdate, default false
+}
+
+/**
+ * A service's digital identity
+ */
+export interface ServiceDigitalIdentity {
+  certificates: X509Certificate[];
+  subjectNames: string[];
+  otherIds: string[]; // Other identifiers (e.g. DIDs or URIs)
+}
+
+/**
+ * One period of a service's status: the current status or a ServiceHistoryInstance
+ */
+export interface ServiceStatusPeriod {
+  serviceType: string; // ServiceTypeIdentifier
+  status: string; // ServiceStatus
+  startingTime: Date; // StatusStartingTime
+  identity: ServiceDigitalIdentity;
+}
+
+/**
+ * A trust service from a trusted list
+ */
+export interface TrustedListService {
+  territory?: string; // SchemeTerritory of the list
+  provider: string; // TSPName
+  name: string; // ServiceName
+  nextUpdate?: Date; // NextUpdate of the list
+  periods: ServiceStatusPeriod[]; // Newest first
+}
+
+// Statuses of TS 119 612 v2 (granted, recognisedatnationallevel) and v1 (accredited, undersupervision, ...)
+const DEFAULT_ACCREDITED_STATUSES = [
+  'granted',
+  'recognisedatnationallevel',
+  'accredited',
+  'undersupervision',
+  'supervisionincessation',
+  'setbynationallaw'
+];
+
+export class EtsiTrustedListRegistry implements TrustRegistry {
+  readonly services: TrustedListService[];
+  private credentialTypes: Record<string, string[]>;
+  private accreditedStatuses: string[];
+  private allowExpiredList: boolean;
+
+  constructor(lists: string | string[], options: EtsiTrustedListOptions = {}) {
+    this.services = (Array.isArray(lists) ? lists : [lists]).flatMap(parseTrustedList);
+    this.credentialTypes = options.credentialTypes ?? {};
+    this.accreditedStatuses = options.accreditedStatuses ?? DEFAULT_ACCREDITED_STATUSES;
+    this.allowExpiredList = options.allowExpiredList ?? false;
+  }
+
+  /**
+   * Loads trusted lists from XML files
+   * @param paths - Paths of the TS 119 612 XML files
+   * @param options - Credential type mapping and accredited statuses
+   * @returns Promise<EtsiTrustedListRegistry> - The registry
+   */
+  static async fromFiles(paths: string[], options: EtsiTrustedListOptions = {}): Promise<EtsiTrustedListRegistry> {
+    return new EtsiTrustedListRegistry(await Promise.all(paths.map(path => readFile(path, 'utf8'))), options);
+  }
+
+  /**
+   * Finds a service whose digital identity matches the issuer and whose status at the queried time was
+   * accredited, with a service type accredited for the credential type
+   * @param query - Issuer (identifier, subject name or certificate chain), credential type and time
+   * @returns Promise<TrustDecision> - The decision, naming the service, its type and its status at that time
+   */
+  async isTrusted(query: TrustQuery): Promise<TrustDecision> {
+    const time = query.time ?? new Date();
+    const chain = (query.certificateChain ?? []).map(der => new X509Certificate(der));
+    const rejections: TrustDecision[] = [];
+
+    for (const service of this.services) {
+      const source = `Trusted list${service.territory ? ` ${service.territory}` : ''}`;
+      const period = service.periods.find(candidate => candidate.startingTime.getTime() <= time.getTime());
+      if (!period || !identifies(period.identity, query.issuer, chain)) {
+        continue;
+      }
+      const decision = { source, name: `${service.provider}: ${service.name}`, serviceType: period.serviceType, status: period.status };
+      if (!this.allowExpiredList && service.nextUpdate && service.nextUpdate.getTime() < Date.now()) {
+        rejections.push({ ...decision, trusted: false, reason: `${source} is past its NextUpdate` });
+      } else if (!this.isAccreditedStatus(period.status)) {
+        rejections.push({ ...decision, trusted: false, reason: `Service status at ${time.toISOString()} was ${period.status}` });
+      } else if (!this.isAccreditedType(period.serviceType, query.credentialType)) {
+        rejections.push({ ...decision, trusted: false, reason: `Service type ${period.serviceType} is not accredited for ${query.credentialType}` });
+      } else {
+        return { ...decision, trusted: true };
+      }
+    }
+    return rejections[0] ?? { trusted: false, source: 'Trusted lists', reason: `Issuer ${query.issuer} is not a service in the trusted lists` };
+  }
+
+  private isAccreditedStatus(status: string): boolean {
+    return this.accreditedStatuses.some(accredited => status === accredited || status.split('/').pop() === accredited);
+  }
+
+  private isAccreditedType(serviceType: string, credentialType: string | undefined): boolean {
+    const mapped = credentialType?.split(',').map(type => this.credentialTypes[type.trim()]).filter(Boolean);
+    return !mapped || mapped.length === 0 || mapped.some(serviceTypes => serviceTypes.includes(serviceType));
+  }
+}
+
+/**
+ * Parses a TS 119 612 TrustServiceStatusList into its services
+ */
+function parseTrustedList(xml: string): TrustedListService[] {
+  const list = parseXml(xml);
+  if (list.name !== 'TrustServiceStatusList') {
+    throw new Error(`Not an ETSI trusted list: root element is ${list.name}`);
+  }
+  const schemeInformation = childElement(list, 'SchemeInformation');
+  const territory = childText(schemeInformation, 'SchemeTerritory');
+  const nextUpdateText = childText(schemeInformation, 'NextUpdate', 'dateTime');
+  const nextUpdate = nextUpdateText ? new Date(nextUpdateText) : undefined;
+
+  const services: TrustedListService[] = [];
+  for (const provider of childElements(childElement(list, 'TrustServiceProviderList'), 'TrustServiceProvider')) {
+    const providerName = localizedName(childElement(provider, 'TSPInformation', 'TSPName'));
+    for (const service of childElements(childElement(provider, 'TSPServices'), 'TSPService')) {
+      const information = childElement(service, 'ServiceInformation');
+      const current = statusPeriod(information);
+      const history = childElements(childElement(service, 'ServiceHistory'), 'ServiceHistoryInstance').map(instance => statusPeriod(instance, current.identity));
+      services.push({
+        territory,
+        provider: providerName,
+        name: localizedName(childElement(information, 'ServiceName')),
+        nextUpdate,
+        periods: [current, ...history].sort((a, b) => b.startingTime.getTime() - a.startingTime.getTime())
+      });
+    }
+  }
+  return services;
+}
+
+function statusPeriod(element: XmlElement | undefined, fallbackIdentity?: ServiceDigitalIdentity): ServiceStatusPeriod {
+  const serviceType = childText(element, 'ServiceTypeIdentifier');
+  const status = childText(element, 'ServiceStatus');
+  const startingTime = new Date(childText(element, 'StatusStartingTime') ?? '');
+  if (!serviceType || !status || Number.isNaN(startingTime.getTime())) {
+    throw new Error('Trusted list service is missing ServiceTypeIdentifier, ServiceStatus or StatusStartingTime');
+  }
+  const identityElement = childElement(element, 'ServiceDigitalIdentity');
+  return {
+    serviceType,
+    status,
+    startingTime,
+    identity: identityElement ? digitalIdentity(identityElement) : fallbackIdentity ?? { certificates: [], subjectNames: [], otherIds: [] }
+  };
+}
+
+function digitalIdentity(element: XmlElement): ServiceDigitalIdentity {
+  const digitalIds = childElements(element, 'DigitalId');
+  const texts = (name: string) => digitalIds.flatMap(id => childElements(id, name)).map(child => child.text.trim()).filter(Boolean);
+  return {
+    certificates: texts('X509Certificate').map(base64 => new X509Certificate(Buffer.from(base64.replace(/\s+/g, ''), 'base64'))),
+    subjectNames: texts('X509SubjectName'),
+    otherIds: texts('Other')
+  };
+}
+
+/**
+ * Matches the queried issuer against a service identity: by identifier, by subject name, or by a certificate
+ * of the chain that is the service certificate or was issued by it
+ */
+function identifies(identity: ServiceDigitalIdentity, issuer: string, chain: X509Certificate[]): boolean {
+  if (identity.otherIds.includes(issuer)) {
+    return true;
+  }
+  const issuerName = normalizeName(issuer);
+  const names = [...identity.subjectNames, ...identity.certificates.map(certificate => certificate.subject)];
+  if (names.some(name => normalizeName(name) === issuerName)) {
+    return true;
+  }
+  return chain.some(certificate => identity.certificates.some(serviceCertificate =>
+    certificate.raw.equals(serviceCertificate.raw) ||
+    (certificate.checkIssued(serviceCertificate) && certificate.verify(serviceCertificate.publicKey))
+  ));
+}
+
+/**
+ * Normalizes a distinguished name ("CN=A, C=DE" or one RDN per line) for comparison
+ */
+function normalizeName(name: string): string {
+  return name.split(/[,\n]/).map(rdn => rdn.trim().toLowerCase()).filter(Boolean).sort().join(',');
+}
+
+/**
+ * Picks the English name of a multilingual name list, or the first one
+ */
+function localizedName(element: XmlElement | undefined): string {
+  const names = childElements(element, 'Name');
+  return (names.find(name => name.attributes.lang === 'en') ?? names[0])?.text.trim() ?? '';
+}
@@ -0,0 +1,336 @@
+/**
+ * OpenID Federation Trust Registry
+ * Resolves a trust chain from an issuer's Entity Configuration, through the Subordinate Statements of its
+ * superiors, up to a configured trust anchor, and reads the credential types from the issuer's metadata after
+ * applying the superiors' metadata policies. Trust marks are not evaluated.
+ */
+
+import { createPublicKey } from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import { decodeJws, DecodedJws, verifyJws } from '../crypto/jws.ts';
+import { LruCache, LruCacheOptions } from '../did/lru-cache.ts';
+import { TrustDecision, TrustQuery, TrustRegistry } from '../types/index.ts';
+import { accreditsType } from './static-registry.ts';
+
+/**
+ * A trust anchor: its entity identifier and the federation keys it is known by out of band
+ */
+export interface FederationTrustAnchor {
+  entityId: string;
+  jwks: { keys: JsonWebKey[] };
+}
+
+export interface OpenIdFederationOptions {
+  trustAnchors: FederationTrustAnchor[];
+  fetch?: typeof fetch; // Defaults to the global fetch; inject a stub (or point entity IDs at a local server) for testing
+  timeout?: number; // Milliseconds per request, default 5000
+  maxPathLength?: number; // Maximum number of intermediate entities between the issuer and the trust anchor, default 5
+  cache?: LruCacheOptions | false; // Resolved trust chain cache, enabled by default
+}
+
+/**
+ * A resolved trust chain, issuer first
+ */
+export interface TrustChain {
+  entityId: string;
+  trustAnchor: string;
+  metadata: Record<string, any>; // The issuer's metadata, with the superiors' metadata and metadata policies applied
+  statements: Record<string, any>[]; // Entity Configuration, Subordinate Statements, trust anchor Entity Configuration
+}
+
+const ENTITY_STATEMENT_TYPE = 'entity-statement+jwt';
+
+// Standard metadata policy operators, in the order they are applied
+const POLICY_OPERATORS = ['value', 'add', 'default', 'one_of', 'subset_of', 'superset_of', 'essential'];
+
+export class OpenIdFederationTrustRegistry implements TrustRegistry {
+  private trustAnchors: Map<string, FederationTrustAnchor>;
+  private fetch: typeof fetch;
+  private timeout: number;
+  private maxPathLength: number;
+  private cache?: LruCache<Promise<TrustChain>>;
+
+  constructor(options: OpenIdFederationOptions) {
+    this.trustAnchors = new Map(options.trustAnchors.map(anchor => [anchor.entityId, anchor]));
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeout = options.timeout ?? 5000;
+    this.maxPathLength = options.maxPathLength ?? 5;
+    if (options.cache !== false) {
+      this.cache = new LruCache(options.cache);
+    }
+  }
+
+  /**
+   * Resolves the issuer's trust chain and checks that its openid_credential_issuer metadata offers the credential type
+   * @param query - Issuer entity identifier and credential type
+   * @returns Promise<TrustDecision> - The decision, naming the trust anchor as source
+   */
+  async isTrusted(query: TrustQuery): Promise<TrustDecision> {
+    let chain: TrustChain;
+    try {
+      chain = await this.resolveTrustChain(query.issuer);
+    } catch (error) {
+      return { trusted: false, source: 'OpenID Federation', reason: error instanceof Error ? error.message : 'Trust chain resolution failed' };
+    }
+    const source = `OpenID Federation trust anchor ${chain.trustAnchor}`;
+    const issuerMetadata = chain.metadata.openid_credential_issuer;
+    const name = chain.metadata.federation_entity?.organization_name;
+    if (!issuerMetadata) {
+      return { trusted: false, source, name, reason: `Entity ${query.issuer} has no openid_credential_issuer metadata` };
+    }
+    if (!accreditsType(credentialTypes(issuerMetadata), query.credentialType)) {
+      return { trusted: false, source, name, reason: `Entity ${query.issuer} does not issue ${query.credentialType}` };
+    }
+    return { trusted: true, source, name };
+  }
+
+  /**
+   * Resolves and verifies a trust chain from an entity to one of the trust anchors
+   * @param entityId - The entity identifier (an https URL)
+   * @returns Promise<TrustChain> - The verified chain
+   * @throws Error - When no chain to a trust anchor can be verified, or the issuer's metadata violates a metadata policy
+   */
+  async resolveTrustChain(entityId: string): Promise<TrustChain> {
+    const cached = this.cache?.get(entityId);
+    if (cached) {
+      return cached;
+    }
+    const resolution = this.resolveFrom(entityId, 0, new Set())
+      .then(chain => ({ ...chain, metadata: resolveMetadata(chain.metadata, chain.statements.slice(1, -1)) }));
+    // Concurrent lookups share one resolution; failures are not cached
+    this.cache?.set(entityId, resolution);
+    resolution.catch(() => this.cache?.delete(entityId));
+    return resolution;
+  }
+
+  private async resolveFrom(entityId: string, depth: number, visited: Set<string>): Promise<TrustChain> {
+    visited.add(entityId);
+    const configuration = await this.fetchEntityConfiguration(entityId);
+
+    const trustAnchor = this.trustAnchors.get(entityId);
+    if (trustAnchor) {
+      // The anchor's configuration must be signed with the keys known out of band, not the ones it publishes
+      verifyStatement(configuration, trustAnchor.jwks.keys, `Trust anchor ${entityId} configuration`);
+      return { entityId, trustAnchor: entityId, metadata: configuration.payload.metadata ?? {}, statements: [configuration.payload] };
+    }
+
+    const authorityHints: string[] = configuration.payload.authority_hints ?? [];
+    if (authorityHints.length === 0) {
+      throw new Error(`Entity ${entityId} has no authority_hints and is not a trust anchor`);
+    }
+    if (depth > this.maxPathLength) {
+      throw new Error(`No trust anchor within ${this.maxPathLength} intermediate entities of the issuer`);
+    }
+
+    const failures: string[] = [];
+    for (const superiorId of authorityHints.filter(hint => !visited.has(hint))) {
+      try {
+        const superior = await this.resolveFrom(superiorId, depth + 1, new Set(visited));
+        const superiorConfiguration = superior.statements[0];
+        const statement = await this.fetchSubordinateStatement(superiorConfiguration, entityId);
+        // The superior vouches for the subordinate's federation keys, which must have signed its configuration
+        verifyStatement(configuration, statement.payload.jwks?.keys ?? [], `Entity ${entityId} configuration`);
+        return {
+          entityId,
+          trustAnchor: superior.trustAnchor,
+          metadata: configuration.payload.metadata ?? {},
+          // The superior's own Entity Configuration is only part of the chain when it is the trust anchor
+          statements: [configuration.payload, statement.payload, ...(superior.statements.length > 1 ? superior.statements.slice(1) : superior.statements)]
+        };
+      } catch (error) {
+        failures.push(`${superiorId}: ${error instanceof Error ? error.message : 'unknown error'}`);
+      }
+    }
+    throw new Error(`No trust chain from ${entityId} to a trust anchor (${failures.join('; ') || 'no usable authority hints'})`);
+  }
+
+  /**
+   * Fetches an Entity Configuration and verifies its self-signature
+   */
+  private async fetchEntityConfiguration(entityId: string): Promise<DecodedJws> {
+    const configuration = decodeJws(await this.fetchJwt(`${entityId.replace(/\/$/, '')}/.well-known/openid-federation`));
+    if (configuration.payload.iss !== entityId || configuration.payload.sub !== entityId) {
+      throw new Error(`Entity Configuration of ${entityId} must have iss and sub equal to the entity identifier`);
+    }
+    verifyStatement(configuration, configuration.payload.jwks?.keys ?? [], `Entity ${entityId} configuration`);
+    return configuration;
+  }
+
+  /**
+   * Fetches the superior's Subordinate Statement about an entity from its federation_fetch_endpoint
+   */
+  private async fetchSubordinateStatement(superiorConfiguration: Record<string, any>, entityId: string): Promise<DecodedJws> {
+    const fetchEndpoint = superiorConfiguration.metadata?.federation_entity?.federation_fetch_endpoint;
+    if (typeof fetchEndpoint !== 'string') {
+      throw new Error(`Superior ${superiorConfiguration.sub} has no federation_fetch_endpoint`);
+    }
+    const url = new URL(fetchEndpoint);
+    url.searchParams.set('sub', entityId);
+    const statement = decodeJws(await this.fetchJwt(url.toString()));
+    if (statement.payload.iss !== superiorConfiguration.sub || statement.payload.sub !== entityId) {
+      throw new Error(`Subordinate Statement from ${superiorConfiguration.sub} is not about ${entityId}`);
+    }
+    verifyStatement(statement, superiorConfiguration.jwks?.keys ?? [], `Subordinate Statement from ${superiorConfiguration.sub}`);
+    return statement;
+  }
+
+  private async fetchJwt(url: string): Promise<string> {
+    const response = await this.fetch(url, {
+      headers: { accept: 'application/entity-statement+jwt' },
+      signal: AbortSignal.timeout(this.timeout)
+    });
+    if (!response.ok) {
+      throw new Error(`Federation request to ${url} failed: HTTP ${response.status}`);
+    }
+    return (await response.text()).trim();
+  }
+}
+
+/**
+ * Verifies an entity statement's type, validity period and signature with the key its kid names
+ */
+function verifyStatement(statement: DecodedJws, keys: JsonWebKey[], description: string): void {
+  if (statement.header.typ !== ENTITY_STATEMENT_TYPE) {
+    throw new Error(`${description} must have typ ${ENTITY_STATEMENT_TYPE}`);
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof statement.payload.exp !== 'number' || statement.payload.exp < now) {
+    throw new Error(`${description} has expired`);
+  }
+  if (typeof statement.payload.iat !== 'number' || statement.payload.iat > now + 60) {
+    throw new Error(`${description} has an invalid iat`);
+  }
+  const key = keys.find(candidate => (candidate as any).kid === statement.header.kid);
+  if (!key) {
+    throw new Error(`${description} is signed with an unknown key ${statement.header.kid}`);
+  }
+  if (!verifyJws(statement, createPublicKey({ key: key as any, format: 'jwk' }))) {
+    throw new Error(`${description} signature is invalid`);
+  }
+}
+
+/**
+ * Applies the Subordinate Statements' metadata and metadata policies to an entity's metadata: the immediate
+ * superior's metadata parameters replace the entity's own, then the policies, merged from the trust anchor down,
+ * are applied to each entity type
+ * @param metadata - The entity's Entity Configuration metadata
+ * @param statements - The Subordinate Statements of the chain, the immediate superior's first
+ * @returns Record<string, any> - The resolved metadata
+ * @throws Error - When policies conflict, a critical operator is unsupported, or the metadata violates a policy
+ */
+function resolveMetadata(metadata: Record<string, any>, statements: Record<string, any>[]): Record<string, any> {
+  const resolved = structuredClone(metadata);
+  for (const [entityType, parameters] of Object.entries<Record<string, any>>(statements[0]?.metadata ?? {})) {
+    resolved[entityType] = { ...resolved[entityType], ...parameters };
+  }
+
+  const critical = new Set(statements.flatMap(statement => statement.metadata_policy_crit ?? []));
+  const policy: Record<string, Record<string, Record<string, any>>> = {};
+  for (const statement of [...statements].reverse()) {
+    for (const [entityType, parameters] of Object.entries<Record<string, Record<string, any>>>(statement.metadata_policy ?? {})) {
+      for (const [parameter, operators] of Object.entries(parameters)) {
+        const name = `${entityType}.${parameter}`;
+        const merged = policy[entityType]?.[parameter] ?? {};
+        for (const [operator, value] of Object.entries(operators)) {
+          if (!POLICY_OPERATORS.includes(operator)) {
+            if (critical.has(operator)) {
+              throw new Error(`Unsupported critical metadata policy operator ${operator} for ${name}`);
+            }
+            continue;
+          }
+          merged[operator] = operator in merged ? mergeOperator(operator, merged[operator], value, name) : value;
+        }
+        policy[entityType] = { ...policy[entityType], [parameter]: merged };
+      }
+    }
+  }
+
+  for (const [entityType, parameters] of Object.entries(policy)) {
+    if (!resolved[entityType]) {
+      continue;
+    }
+    for (const [parameter, operators] of Object.entries(parameters)) {
+      applyPolicy(resolved[entityType], parameter, operators, `${entityType}.${parameter}`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Merges a subordinate's policy operator value into a superior's; a subordinate can only restrict the superior's policy
+ */
+function mergeOperator(operator: string, superior: any, subordinate: any, name: string): any {
+  switch (operator) {
+    case 'value':
+    case 'default':
+      if (!isDeepStrictEqual(superior, subordinate)) {
+        throw new Error(`Metadata policy ${operator} for ${name} conflicts with a superior's policy`);
+      }
+      return superior;
+    case 'add':
+    case 'superset_of':
+      return [...new Set([...superior, ...subordinate])];
+    case 'one_of':
+    case 'subset_of': {
+      const intersection = superior.filter((value: any) => subordinate.includes(value));
+      if (operator === 'one_of' && intersection.length === 0) {
+        throw new Error(`Metadata policy one_of for ${name} has no value allowed by a superior's policy`);
+      }
+      return intersection;
+    }
+    default:
+      return superior || subordinate; // essential
+  }
+}
+
+/**
+ * Applies a merged policy to one metadata parameter
+ */
+function applyPolicy(metadata: Record<string, any>, parameter: string, operators: Record<string, any>, name: string): void {
+  if ('value' in operators) {
+    if (operators.value === null) {
+      delete metadata[parameter];
+    } else {
+      metadata[parameter] = structuredClone(operators.value);
+    }
+  }
+  if ('add' in operators) {
+    metadata[parameter] = [...new Set([...(metadata[parameter] ?? []), ...operators.add])];
+  }
+  if ('default' in operators && metadata[parameter] === undefined) {
+    metadata[parameter] = structuredClone(operators.default);
+  }
+  const value = metadata[parameter];
+  if ('one_of' in operators && value !== undefined && !operators.one_of.includes(value)) {
+    throw new Error(`Metadata ${name} must be one of ${operators.one_of.join(', ')}`);
+  }
+  if ('subset_of' in operators && value !== undefined) {
+    const subset = (Array.isArray(value) ? value : [value]).filter(item => operators.subset_of.includes(item));
+    if (subset.length === 0) {
+      delete metadata[parameter];
+    } else {
+      metadata[parameter] = subset;
+    }
+  }
+  if ('superset_of' in operators && value !== undefined) {
+    const missing = operators.superset_of.filter((item: any) => !(Array.isArray(value) ? value : [value]).includes(item));
+    if (missing.length > 0) {
+      throw new Error(`Metadata ${name} must include ${missing.join(', ')}`);
+    }
+  }
+  if (operators.essential === true && metadata[parameter] === undefined) {
+    throw new Error(`Metadata ${name} is required by the metadata policy`);
+  }
+}
+
+/**
+ * Collects the credential types (vct, doctype, credential_definition.type) an issuer's metadata offers
+ */
+function credentialTypes(issuerMetadata: Record<string, any>): string[] {
+  const configurations = Object.values<Record<string, any>>(issuerMetadata.credential_configurations_supported ?? {});
+  return configurations.flatMap(configuration => [
+    configuration.vct,
+    configuration.doctype,
+    ...(configuration.credential_definition?.type ?? [])
+  ]).filter((type): type is string => typeof type === 'string');
+}
@@ -0,0 +1,4 @@
+export { StaticTrustRegistry, StaticTrustList, TrustedIssuer, accreditsType } from './static-registry.ts';
+export { EtsiTrustedListRegistry, EtsiTrustedListOptions, TrustedListService, ServiceStatusPeriod, ServiceDigitalIdentity } from './etsi-tsl-registry.ts';
+export { OpenIdFederationTrustRegistry, OpenIdFederationOptions, FederationTrustAnchor, TrustChain } from './federation-registry.ts';
+export { parseXml, XmlElement, childElement, childElements, childText } from './xml.ts';
\ No newline at end of file
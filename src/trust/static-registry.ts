@@ -0,0 +1,86 @@
+/**
+ * Static Trust Registry
+ * Trusted issuers from a JSON list, optionally scoped to credential types and validity periods
+ */
+
+import { readFile } from 'fs/promises';
+import { TrustDecision, TrustQuery, TrustRegistry } from '../types/index.ts';
+
+/**
+ * An accredited issuer in a static trust list
+ */
+export interface TrustedIssuer {
+  id: string; // Issuer identifier (DID, entity ID or X.509 subject) as it appears in verified credentials
+  name?: string;
+  credentialTypes?: string[]; // Credential types, vcts or docTypes the issuer is accredited for (any when omitted)
+  validFrom?: string; // ISO 8601 start of the accreditation
+  validUntil?: string; // ISO 8601 end of the accreditation
+}
+
+/**
+ * A static trust list, as stored in JSON
+ */
+export interface StaticTrustList {
+  name?: string; // Name reported as the decision source
+  issuers: TrustedIssuer[];
+}
+
+export class StaticTrustRegistry implements TrustRegistry {
+  private list: StaticTrustList;
+
+  constructor(list: StaticTrustList) {
+    if (!Array.isArray(list?.issuers)) {
+      throw new Error('Static trust list must have an issuers array');
+    }
+    this.list = list;
+  }
+
+  /**
+   * Loads a static trust list from a JSON file
+   * @param path - Path of the JSON file
+   * @returns Promise<StaticTrustRegistry> - The registry
+   */
+  static async fromFile(path: string): Promise<StaticTrustRegistry> {
+    return new StaticTrustRegistry(JSON.parse(await readFile(path, 'utf8')));
+  }
+
+  /**
+   * Checks whether the issuer is listed, accredited for the credential type and within its accreditation period
+   * @param query - Issuer, credential type and time
+   * @returns Promise<TrustDecision> - The decision
+   */
+  async isTrusted(query: TrustQuery): Promise<TrustDecision> {
+    const source = this.list.name ?? 'static trust list';
+    const entries = this.list.issuers.filter(entry => entry.id === query.issuer);
+    if (entries.length === 0) {
+      return { trusted: false, source, reason: `Issuer ${query.issuer} is not in the trust list` };
+    }
+    const accredited = entries.filter(entry => accreditsType(entry.credentialTypes, query.credentialType));
+    if (accredited.length === 0) {
+      return { trusted: false, source, reason: `Issuer ${query.issuer} is not accredited for ${query.credentialType}` };
+    }
+    const time = (query.time ?? new Date()).getTime();
+    const entry = accredited.find(candidate =>
+      (!candidate.validFrom || Date.parse(candidate.validFrom) <= time) &&
+      (!candidate.validUntil || time <= Date.parse(candidate.validUntil))
+    );
+    if (!entry) {
+      return { trusted: false, source, reason: `Issuer ${query.issuer} was not accredited at ${new Date(time).toISOString()}` };
+    }
+    return { trusted: true, source, name: entry.name };
+  }
+}
+
+/**
+ * Whether a list of accredited types covers a credential type; comma-separated credential types
+ * (e.g. "VerifiableCredential, EuropeanDigitalIdentityCredential") match when any of them is accredited
+ * @param accreditedTypes - Accredited types (undefined accredits every type)
+ * @param credentialType - The queried credential type
+ * @returns boolean - True if the type is accredited
+ */
+export function accreditsType(accreditedTypes: string[] | undefined, credentialType: string | undefined): boolean {
+  if (!accreditedTypes || credentialType === undefined) {
+    return true;
+  }
+  return credentialType.split(',').some(type => accreditedTypes.includes(type.trim()));
+}
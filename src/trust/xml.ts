@@ -0,0 +1,120 @@
+/**
+ * Minimal XML Reader
+ * Parses well-formed XML documents (such as ETSI trusted lists) into an element tree; namespace prefixes are
+ * dropped so elements are addressed by local name, and DTDs are rejected rather than expanded
+ */
+
+export interface XmlElement {
+  name: string; // Local name, without namespace prefix
+  attributes: Record<string, string>; // Keyed by local name
+  children: XmlElement[];
+  text: string; // Concatenated character data directly inside the element
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Parses an XML document
+ * @param xml - The document text
+ * @returns XmlElement - The root element
+ * @throws Error - When the document is not well formed
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf('<', position);
+    const current = stack[stack.length - 1];
+    if (tagStart === -1) {
+      current.text += decodeEntities(xml.slice(position));
+      break;
+    }
+    current.text += decodeEntities(xml.slice(position, tagStart));
+
+    if (xml.startsWith('<!--', tagStart)) {
+      position = indexAfter(xml, '-->', tagStart);
+    } else if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = indexAfter(xml, ']]>', tagStart);
+      current.text += xml.slice(tagStart + 9, end - 3);
+      position = end;
+    } else if (xml.startsWith('<?', tagStart)) {
+      position = indexAfter(xml, '?>', tagStart);
+    } else if (xml.startsWith('<!', tagStart)) {
+      throw new Error('XML document type declarations are not supported');
+    } else if (xml.startsWith('</', tagStart)) {
+      const end = indexAfter(xml, '>', tagStart);
+      const name = localName(xml.slice(tagStart + 2, end - 1).trim());
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      position = end;
+    } else {
+      const end = indexAfter(xml, '>', tagStart);
+      const selfClosing = xml[end - 2] === '/';
+      const tag = xml.slice(tagStart + 1, selfClosing ? end - 2 : end - 1);
+      const nameMatch = tag.match(/^[^\s/>]+/);
+      if (!nameMatch) {
+        throw new Error('Malformed XML start tag');
+      }
+      const element: XmlElement = { name: localName(nameMatch[0]), attributes: {}, children: [], text: '' };
+      for (const [, name, doubleQuoted, singleQuoted] of tag.slice(nameMatch[0].length).matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position = end;
+    }
+  }
+
+  if (stack.length !== 1 || root.children.length !== 1) {
+    throw new Error('XML document must have exactly one root element and close every element');
+  }
+  return root.children[0];
+}
+
+/**
+ * Returns the direct children with a local name
+ */
+export function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter(child => child.name === name) ?? [];
+}
+
+/**
+ * Follows a path of local names, taking the first match at each step
+ */
+export function childElement(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  return path.reduce<XmlElement | undefined>((parent, name) => childElements(parent, name)[0], element);
+}
+
+/**
+ * Returns the trimmed text of the element at a path
+ */
+export function childText(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  return childElement(element, ...path)?.text.trim();
+}
+
+function indexAfter(xml: string, token: string, from: number): number {
+  const index = xml.indexOf(token, from);
+  if (index === -1) {
+    throw new Error(`Unterminated XML construct, expected ${token}`);
+  }
+  return index + token.length;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    if (name in ENTITIES) return ENTITIES[name];
+    throw new Error(`Unknown XML entity ${entity}`);
+  });
+}
@@ -29,7 +29,7 @@ export interface CredentialSubject {
  */
 export interface CredentialStatus {
   id: string; // URL or DID for the status list or registry
-  type: string; // e.g., "StatusList2021", "BitstringStatusList", "TokenStatusList"
+  type: string; // e.g., "StatusList2021Entry", "BitstringStatusListEntry", "TokenStatusList"
   [key: string]: any; // Allow for mechanism-specific fields
 }
 
@@ -45,6 +45,16 @@ export interface VerifiableCredential {
   credentialSubject: CredentialSubject;
   proof: Proof;
   status?: CredentialStatus;
+  credentialStatus?: CredentialStatus | CredentialStatus[]; // VC Data Model status entries (e.g. BitstringStatusListEntry)
+  credentialSchema?: CredentialSchema | CredentialSchema[]; // Schemas the credential must conform to (JsonSchema, JsonSchemaCredential)
+}
+
+/**
+ * A credentialSchema entry of a W3C Verifiable Credential.
+ */
+export interface CredentialSchema {
+  id: string; // URL of the JSON Schema, or of the JsonSchemaCredential that wraps it
+  type: string; // JsonSchema or JsonSchemaCredential
 }
 
 /**
@@ -56,6 +66,7 @@ export interface VerifiablePresentation {
   verifiableCredential: VerifiableCredential[];
   holder: string; // Holder's DID
   proof: Proof;
+  presentation_submission?: PresentationSubmission; // Maps the credentials to the request's presentation definition
 }
 
 // =========================
@@ -69,12 +80,231 @@ export interface PresentationRequest {
   id: string;
   comment?: string;
   policies?: string[]; // The policies to run for this request
-  request_credentials: {
-    type: string;
-    required?: boolean;
-    constraints?: any;
-  }[];
+  request_credentials: RequestedCredential[];
   challenge: string;
+  domain?: string; // Audience the holder must bind the presentation to (e.g. the verifier's client_id)
+  expiresAt?: number; // Epoch milliseconds after which responses to the request are refused
+  presentation_definition?: PresentationDefinition; // DIF Presentation Exchange definition the presentation must satisfy
+  dcql_query?: DcqlQuery; // DCQL query the vp_token must satisfy; the vp_token is then keyed by credential query id
+  sessionTranscript?: Uint8Array; // CBOR-encoded mdoc SessionTranscript for DeviceResponses in a vp_token (e.g. the OID4VP handover)
+}
+
+/**
+ * A credential type a presentation request asks for.
+ */
+export interface RequestedCredential {
+  type: string;
+  required?: boolean; // Default true
+  constraints?: any; // Presentation Exchange constraints (e.g. fields) the credential must meet
+}
+
+/**
+ * A DIF Presentation Exchange v2 presentation definition.
+ */
+export interface PresentationDefinition {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, any>; // Accepted formats (e.g. ldp_vc, jwt_vc_json, vc+sd-jwt, mso_mdoc) and their algorithms
+  submission_requirements?: SubmissionRequirement[]; // When absent, every input descriptor is required
+  input_descriptors: InputDescriptor[];
+}
+
+/**
+ * A credential the verifier asks for, and the constraints it must meet.
+ */
+export interface InputDescriptor {
+  id: string;
+  name?: string;
+  purpose?: string;
+  group?: string[]; // Groups that submission requirements select descriptors by
+  format?: Record<string, any>; // Overrides the definition's accepted formats
+  constraints?: {
+    limit_disclosure?: 'required' | 'preferred'; // 'required': no claims beyond those the fields select may be disclosed
+    fields?: InputDescriptorField[];
+  };
+}
+
+/**
+ * A field constraint: a claim located by JSONPath whose value matches an optional JSON Schema filter.
+ */
+export interface InputDescriptorField {
+  id?: string;
+  path: string[]; // JSONPath expressions, tried in order
+  filter?: Record<string, any>; // JSON Schema the value must validate against
+  optional?: boolean;
+  name?: string;
+  purpose?: string;
+  intent_to_retain?: boolean;
+}
+
+/**
+ * A rule on how many input descriptors of a group (or nested requirements) must be satisfied.
+ */
+export interface SubmissionRequirement {
+  name?: string;
+  purpose?: string;
+  rule: 'all' | 'pick';
+  count?: number;
+  min?: number;
+  max?: number;
+  from?: string; // Group of input descriptors
+  from_nested?: SubmissionRequirement[]; // Nested requirements, used instead of from
+}
+
+/**
+ * The holder's mapping of the presented credentials to a presentation definition.
+ */
+export interface PresentationSubmission {
+  id: string;
+  definition_id: string;
+  descriptor_map: DescriptorMapEntry[];
+}
+
+/**
+ * Locates the credential submitted for an input descriptor within the presentation.
+ */
+export interface DescriptorMapEntry {
+  id: string; // Input descriptor id
+  format: string; // Format of the object at path (e.g. ldp_vp, jwt_vp_json, ldp_vc, jwt_vc_json, vc+sd-jwt, mso_mdoc)
+  path: string; // JSONPath to the object within the presentation (e.g. $.verifiableCredential[0])
+  path_nested?: DescriptorMapEntry; // The credential inside the object at path (e.g. a VC JWT inside a VP JWT)
+}
+
+/**
+ * Outcome of evaluating a presentation submission against a presentation definition.
+ */
+export interface PresentationExchangeResult {
+  valid: boolean;
+  errors: string[]; // Submission-level errors and unmet submission requirements
+  descriptors: InputDescriptorResult[]; // One per input descriptor of the definition
+}
+
+/**
+ * Outcome for one input descriptor.
+ */
+export interface InputDescriptorResult {
+  id: string;
+  satisfied: boolean;
+  credentialIndex?: number; // Position of the credential that satisfied it, within the presentation's credentials
+  errors: string[]; // Why each submitted credential failed the descriptor (or that none was submitted)
+}
+
+/**
+ * A Digital Credentials Query Language (DCQL) query.
+ */
+export interface DcqlQuery {
+  credentials: DcqlCredentialQuery[];
+  credential_sets?: DcqlCredentialSetQuery[]; // When absent, every credential query is required
+}
+
+/**
+ * A credential the verifier asks for, by format, metadata and claims.
+ */
+export interface DcqlCredentialQuery {
+  id: string; // Key of the credential's presentations in the vp_token
+  format: string; // e.g. dc+sd-jwt, mso_mdoc, jwt_vc_json, ldp_vc
+  multiple?: boolean; // Whether more than one presentation may be returned (default false)
+  meta?: {
+    vct_values?: string[]; // SD-JWT VC: accepted vct values
+    doctype_value?: string; // mdoc: required docType
+    type_values?: string[][]; // W3C: accepted type combinations
+  };
+  claims?: DcqlClaimsQuery[]; // When absent, no particular claims are requested
+  claim_sets?: string[][]; // Alternative sets of claim ids, in order of preference; when absent, every claim is required
+  require_cryptographic_holder_binding?: boolean;
+}
+
+/**
+ * A claim the verifier asks for, located by a claims path pointer.
+ */
+export interface DcqlClaimsQuery {
+  id?: string; // Required when the credential query has claim_sets
+  path: (string | number | null)[]; // Object keys, array indexes and null for every array element; [namespace, element] for mdocs
+  values?: (string | number | boolean)[]; // The claim must have one of these values
+  intent_to_retain?: boolean;
+}
+
+/**
+ * Alternative combinations of credential queries that satisfy a purpose.
+ */
+export interface DcqlCredentialSetQuery {
+  options: string[][]; // Each option is a list of credential query ids
+  required?: boolean; // Default true
+  purpose?: any;
+}
+
+/**
+ * A DCQL response: the presentations for each credential query, keyed by its id.
+ */
+export type DcqlVpToken = Record<string, string | Record<string, any> | (string | Record<string, any>)[]>;
+
+/**
+ * Outcome of matching a vp_token against a DCQL query.
+ */
+export interface DcqlResult {
+  valid: boolean;
+  errors: string[]; // Unrequested presentations and unmet credential sets
+  credentials: DcqlCredentialQueryResult[]; // One per credential query
+}
+
+/**
+ * Outcome for one credential query.
+ */
+export interface DcqlCredentialQueryResult {
+  id: string;
+  satisfied: boolean;
+  claimSet?: string[]; // The claim set the presentations satisfied, when the query has claim_sets
+  errors: string[]; // Why the presentations failed the query (or that none was returned)
+}
+
+/**
+ * A Verifiable Presentation Request query, as sent to a wallet (e.g. over CHAPI).
+ */
+export type VprQuery = VprQueryByExample | VprDidAuthentication | VprQueryByFrame;
+
+/**
+ * Asks for credentials that look like an example credential.
+ */
+export interface VprQueryByExample {
+  type: 'QueryByExample';
+  credentialQuery: VprCredentialQuery | VprCredentialQuery[];
+}
+
+/**
+ * Asks the holder to authenticate with a DID.
+ */
+export interface VprDidAuthentication {
+  type: 'DIDAuthentication';
+  acceptedMethods?: { method: string }[]; // e.g. [{ method: 'key' }]; when absent, any DID method
+  acceptedCryptosuites?: { cryptosuite: string }[]; // Proof types or Data Integrity cryptosuites; when absent, any
+}
+
+/**
+ * Asks for credentials that match a JSON-LD frame.
+ */
+export interface VprQueryByFrame {
+  type: 'QueryByFrame';
+  credentialQuery: VprCredentialQuery | VprCredentialQuery[];
+}
+
+/**
+ * One credential a QueryByExample or QueryByFrame asks for.
+ */
+export interface VprCredentialQuery {
+  example?: Record<string, any>; // QueryByExample: @context and type the credential must have, and claims it must contain
+  frame?: Record<string, any>; // QueryByFrame: JSON-LD frame the credential must match
+  reason?: string;
+  required?: boolean; // Default true
+  trustedIssuer?: { issuer: string; required?: boolean }[]; // The credential must be issued by one of the required issuers
+}
+
+/**
+ * Outcome of matching a presentation against Verifiable Presentation Request queries.
+ */
+export interface VprResult {
+  valid: boolean;
+  errors: string[]; // The queries the presentation does not answer, and why
 }
 
 /**
@@ -84,6 +314,46 @@ export interface VerificationResult {
   status: 'verified' | 'rejected';
   policyResults?: Record<string, PolicyResult>;
   error?: string;
+  errorCode?: VerificationErrorCode; // Machine-readable reason, when the failure has one
+  credentials?: CredentialVerificationResult[]; // Outcome for each credential in the presentation
+  presentationExchange?: PresentationExchangeResult; // Outcome of the presentation definition check, when the request has one
+  dcql?: DcqlResult; // Outcome of the DCQL query check, when the request has one
+}
+
+/**
+ * Machine-readable reasons a presentation fails holder binding, issuer trust, schema validation or the request's query.
+ */
+export type VerificationErrorCode =
+  | 'PRESENTATION_PROOF_MISSING' // No presentation proof (or Key Binding JWT) to bind the presentation to the holder
+  | 'PRESENTATION_PROOF_INVALID' // The presentation proof signature does not verify
+  | 'PROOF_PURPOSE_INVALID' // The presentation proof is not an authentication proof
+  | 'HOLDER_KEY_MISMATCH' // The presentation is signed with a key the holder does not control for authentication
+  | 'CHALLENGE_MISMATCH' // The proof challenge (nonce) does not match the request challenge
+  | 'DOMAIN_MISMATCH' // The proof domain (aud) does not match the request domain
+  | 'SUBJECT_NOT_BOUND' // A credential subject is neither the holder nor bound to the holder key via cnf
+  | 'ISSUER_NOT_TRUSTED' // The trust registry does not accredit the issuer for the credential type
+  | 'SCHEMA_INVALID' // The credential does not conform to its credentialSchema
+  | 'PRESENTATION_DEFINITION_UNSATISFIED' // The presentation does not satisfy the request's presentation definition
+  | 'DCQL_QUERY_UNSATISFIED' // The vp_token does not satisfy the request's DCQL query
+  | 'VPR_QUERY_UNSATISFIED' // The presentation does not answer the queries of the Verifiable Presentation Request
+  | 'REQUEST_EXPIRED' // The presentation request expired before the presentation was verified
+  | 'CREDENTIAL_EXPIRED'; // The credential is past its validUntil (expirationDate) or before its validFrom
+
+/**
+ * Represents the verification outcome of a single credential within a presentation.
+ */
+export interface CredentialVerificationResult {
+  status: 'verified' | 'rejected';
+  claims?: Record<string, any>;
+  disclosedPaths?: (string | number)[][]; // For SD-JWTs, paths in claims of the values the holder's disclosures revealed
+  credentialType?: string;
+  issuer?: string;
+  holder?: string;
+  error?: string;
+  errorCode?: VerificationErrorCode;
+  statusResult?: StatusResult; // Outcome of the credential status check, when one ran
+  trustDecision?: TrustDecision; // Outcome of the issuer trust check, when a trust registry is configured
+  schemaResult?: SchemaValidationResult; // Outcome of credentialSchema validation, when the credential has a credentialSchema
 }
 
 /**
@@ -99,7 +369,7 @@ export interface PolicyResult {
  * Interface for a policy module that evaluates business rules after cryptographic verification.
  */
 export interface Policy {
-  execute(verificationData: VerificationData): PolicyResult;
+  execute(verificationData: VerificationData): PolicyResult | Promise<PolicyResult>;
 }
 
 /**
@@ -110,6 +380,7 @@ export interface VerificationData {
   credentialType: string;
   issuer?: string;
   holder?: string;
+  credentials?: VerificationData[]; // Every verified credential in the presentation, the first one included
   [key: string]: any;
 }
 
@@ -125,7 +396,10 @@ export interface CredentialHandler {
     issuer?: string;
     holder?: string;
     error?: string;
+    errorCode?: VerificationErrorCode;
+    credentials?: CredentialVerificationResult[];
   }>;
+  verifyCredential?(credential: VerifiableCredential, originalRequest?: PresentationRequest): Promise<CredentialVerificationResult>; // Verifies a credential outside a presentation
 }
 
 // =========================
@@ -138,14 +412,63 @@ export interface CredentialHandler {
 export interface StatusResult {
   active: boolean; // true if not revoked/suspended
   reason?: string;
+  purpose?: string; // statusPurpose of the entry that determined the result (e.g. revocation, suspension, message)
+  status?: number; // Raw status value read from the list
+  message?: string; // Message for the status value, when the entry has statusMessage entries
+  statusMessages?: StatusMessage[]; // All messages the status entry defines
+  tokenStatus?: TokenStatus; // Token Status List status type, when the value is a registered one
+  warnings?: string[]; // Non-fatal problems, e.g. a status list that could not be reached under the soft-fail policy
+  unreachablePolicy?: UnreachableListPolicy; // Set when a status list was unreachable and this policy decided the result
+}
+
+/**
+ * How a status check treats a status list that cannot be reached:
+ * reject the credential (fail-closed), accept it (fail-open) or accept it with a warning (soft-fail).
+ */
+export type UnreachableListPolicy = 'fail-closed' | 'fail-open' | 'soft-fail';
+
+/**
+ * Registered status types of an IETF Token Status List (0x00, 0x01, 0x02).
+ */
+export type TokenStatus = 'VALID' | 'INVALID' | 'SUSPENDED';
+
+/**
+ * A reference from a token to its entry in an IETF Token Status List.
+ */
+export interface StatusListReference {
+  idx: number; // Index of the token's entry in the list
+  uri: string; // URI of the Status List Token
+  [key: string]: any;
+}
+
+/**
+ * A token that references an IETF Token Status List through its status claim (SD-JWT VC payload or mdoc MSO).
+ */
+export interface ReferencedToken {
+  iss?: string;
+  status?: { status_list?: StatusListReference; [key: string]: any };
+  [key: string]: any;
 }
 
+/**
+ * A status value and its meaning, as listed in a multi-bit status entry's statusMessage.
+ */
+export interface StatusMessage {
+  status: string; // Hexadecimal status value, e.g. "0x2"
+  message: string;
+}
+
+/**
+ * Fetches a status list (credential or token) by URL; injectable so lists can be served locally or from a cache.
+ */
+export type StatusListFetcher = (url: string) => Promise<any>;
+
 /**
  * Interface for a pluggable status checker (e.g., StatusList2021, Bitstring, Token).
  */
 export interface StatusChecker {
-  checkStatus(credential: VerifiableCredential): Promise<StatusResult>;
-  canHandle?(credential: VerifiableCredential): boolean; // Optional for multi-mechanism checkers
+  checkStatus(credential: VerifiableCredential | ReferencedToken): Promise<StatusResult>;
+  canHandle?(credential: VerifiableCredential | ReferencedToken): boolean; // Optional for multi-mechanism checkers
 }
 
 // =========================
@@ -156,8 +479,9 @@ export interface StatusChecker {
  * Interface for a credential verifier (main SDK entry point).
  */
 export interface CredentialVerifier {
-  createRequest(options: { comment: string }): PresentationRequest;
-  verify(vp: VerifiablePresentation, request?: PresentationRequest): Promise<VerificationResult>;
+  createRequest(options: CreateRequestOptions): Promise<CreatedPresentationRequest>;
+  verify(vp: VerifiablePresentation | DcqlVpToken, request?: PresentationRequest, presentationSubmission?: PresentationSubmission): Promise<VerificationResult>;
+  verifyCredential(credential: VerifiableCredential, request?: PresentationRequest): Promise<VerificationResult>;
   getHandlerInfo?(): Record<string, any>;
 }
 
@@ -167,6 +491,58 @@ export interface CredentialVerifier {
 export interface CredentialVerifierOptions {
   handlers: CredentialHandler[];
   policies?: Record<string, Policy>;
+  sessionStore?: SessionStore; // Registers the requests createRequest issues, so adapters can match responses to them
+  requestTtl?: number; // Seconds a created request stays open, default 300
+}
+
+/**
+ * Options for creating a presentation request.
+ */
+export interface CreateRequestOptions {
+  comment?: string;
+  credentials?: (string | RequestedCredential)[]; // Credential types, or types with constraints; default any VerifiableCredential
+  policies?: string[]; // Names of policies registered with the verifier
+  domain?: string; // Audience the presentation must be bound to
+  expiresIn?: number; // Seconds until the request expires, default the verifier's requestTtl
+  presentation_definition?: PresentationDefinition;
+  dcql_query?: DcqlQuery;
+  protocols?: ProtocolRequestOptions; // Protocols to also render the request for
+}
+
+/**
+ * The protocols createRequest renders a request for, and their parameters.
+ */
+export interface ProtocolRequestOptions {
+  oid4vp?: { // Unsigned authorization request by value (client_id_scheme redirect_uri); use OID4VP_Adapter for signed requests
+    responseUri: string; // Where the wallet posts the response; also the client_id
+    responseMode?: 'direct_post' | 'direct_post.jwt'; // Default direct_post
+    authorizationEndpoint?: string; // Default openid4vp://
+  };
+  chapi?: boolean; // navigator.credentials.get() options with a Verifiable Presentation Request
+  didcomm?: { // present-proof 3.0 request-presentation message
+    from: string;
+    to: string[];
+    goalCode?: string;
+  };
+}
+
+/**
+ * A request in the native shape of each protocol it was rendered for.
+ */
+export interface ProtocolRequests {
+  oid4vp?: {
+    authorizationRequest: string; // URL for the wallet (e.g. as a QR code)
+    parameters: Record<string, any>; // The authorization request parameters
+  };
+  chapi?: Record<string, any>; // Options for navigator.credentials.get()
+  didcomm?: Record<string, any>; // The request-presentation message, to be packed for the holder
+}
+
+/**
+ * A presentation request created by the verifier.
+ */
+export interface CreatedPresentationRequest extends PresentationRequest {
+  protocolRequests?: ProtocolRequests; // When protocols were requested
 }
 
 // =========================
@@ -180,6 +556,67 @@ export interface DidResolver {
   resolve(did: string): Promise<any>;
 }
 
+/**
+ * Interface for a key store dependency: the private keys of the verifier's own DIDs.
+ */
+export interface KeyStore {
+  getPrivateKey(kid: string): Promise<Record<string, any> | undefined>; // Private JWK of a verification method (DID URL), undefined when not held
+}
+
+/**
+ * A verification method entry from a DID document (or a standalone controller document).
+ */
+export interface VerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase?: string;
+  publicKeyBase58?: string;
+  publicKeyJwk?: Record<string, any>;
+  [key: string]: any;
+}
+
+/**
+ * A JSON-LD document returned by a document loader.
+ */
+export interface RemoteDocument {
+  contextUrl: string | null;
+  documentUrl: string;
+  document: any;
+}
+
+/**
+ * Loads JSON-LD contexts (and other documents) referenced during canonicalization.
+ */
+export type DocumentLoader = (url: string) => Promise<RemoteDocument>;
+
+/**
+ * Any JSON-LD document secured with an embedded Data Integrity proof (credential or presentation).
+ */
+export interface SecuredDocument {
+  '@context': any;
+  proof: Proof;
+  [key: string]: any;
+}
+
+/**
+ * Options passed to a crypto suite when verifying a proof.
+ */
+export interface ProofVerificationOptions {
+  didResolver?: DidResolver;
+  documentLoader?: DocumentLoader;
+  challenge?: string; // Nonce from the PresentationRequest that derived (selective disclosure) proofs must be bound to
+  proofPurpose?: string; // Verification relationship the proof key must be listed under (default the proof's proofPurpose)
+}
+
+/**
+ * Interface for a Data Integrity crypto suite. Suites receive the whole secured
+ * document, since the signature covers the canonicalized document and proof options.
+ */
+export interface CryptoSuite {
+  verifyProof(document: SecuredDocument, options?: ProofVerificationOptions): Promise<boolean>;
+}
+
 /**
  * Interface for a logger dependency.
  */
@@ -188,11 +625,86 @@ export interface Logger {
   error(...args: any[]): void;
 }
 
+/**
+ * A question to a trust registry: is this issuer accredited for this credential type at this time?
+ */
+export interface TrustQuery {
+  issuer: string; // Issuer identifier: DID, federation entity ID, or X.509 subject for certificate-based issuers
+  credentialType?: string; // Credential type, vct or docType (comma-separated types are matched individually)
+  time?: Date; // Point in time the accreditation must hold, e.g. the issuance time (defaults to now)
+  certificateChain?: Uint8Array[]; // DER certificates, leaf first, for issuers identified by X.509 (e.g. mdoc document signers)
+}
+
+/**
+ * A trust registry's answer to a TrustQuery.
+ */
+export interface TrustDecision {
+  trusted: boolean;
+  reason?: string; // Why the issuer is not trusted
+  source?: string; // The registry or list that decided
+  name?: string; // Name of the accredited entity or service
+  serviceType?: string; // Accredited service type (e.g. an ETSI service type identifier)
+  status?: string; // Accreditation status at the queried time (e.g. granted, withdrawn)
+}
+
+/**
+ * Interface for a trusted-issuer registry dependency (static list, EU Trusted List, OpenID Federation, ...).
+ */
+export interface TrustRegistry {
+  isTrusted(query: TrustQuery): Promise<TrustDecision>;
+}
+
 /**
  * Interface for a schema registry dependency.
  */
 export interface SchemaRegistry {
-  getSchema(type: string): Promise<any>;
+  getSchema(id: string): Promise<any>; // The JSON Schema (or JsonSchemaCredential) a credentialSchema id names, undefined when unknown
+}
+
+/**
+ * An issued presentation request awaiting its response.
+ */
+export interface Session {
+  id: string; // The request id, or a protocol transaction id
+  request: PresentationRequest; // The request as issued; responses are verified against it
+  nonce: string; // The challenge the response must be bound to; it can be consumed once
+  state?: string; // Protocol state parameter (e.g. OID4VP state)
+  expiresAt: number; // Epoch milliseconds
+  nonceConsumed?: boolean; // Whether a response has consumed the nonce
+  data?: Record<string, any>; // Protocol-specific data; must be JSON-serializable
+}
+
+/**
+ * Interface for a session store dependency. Expired sessions are never returned.
+ */
+export interface SessionStore {
+  save(session: Session): Promise<void>; // Creates or replaces a session; a consumed nonce stays consumed
+  get(id: string): Promise<Session | undefined>;
+  findByState(state: string): Promise<Session | undefined>;
+  findByNonce(nonce: string): Promise<Session | undefined>; // Does not consume the nonce; see nonceConsumed
+  consumeNonce(nonce: string): Promise<Session | undefined>; // The nonce's session the first time only, undefined when unknown, expired or used
+  delete(id: string): Promise<void>;
+  deleteExpired(): Promise<number>; // Removes expired sessions, returning how many
+}
+
+/**
+ * A JSON Schema violation.
+ */
+export interface SchemaValidationError {
+  instancePath: string; // JSON pointer to the violating value (e.g. /credentialSubject/address/postalCode)
+  schemaPath: string; // JSON pointer to the failing keyword in the schema (e.g. #/properties/address/required)
+  keyword: string; // The failing keyword, or credentialSchema when the schema could not be loaded
+  message: string;
+  schema?: string; // The credentialSchema id the violation belongs to
+}
+
+/**
+ * Outcome of validating a credential against its credentialSchema entries.
+ */
+export interface SchemaValidationResult {
+  valid: boolean;
+  schemas: string[]; // The credentialSchema ids checked
+  errors: SchemaValidationError[];
 }
 
  
\ No newline at end of file
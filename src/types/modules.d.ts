@@ -0,0 +1,61 @@
+/**
+ * Ambient declarations for dependencies that ship without typings
+ */
+
+declare module '@digitalbazaar/bbs-signatures' {
+  export const CIPHERSUITES: { BLS12381_SHAKE256: string; BLS12381_SHA256: string };
+  export function generateKeyPair(options?: { seed?: Uint8Array; ciphersuite?: string }): Promise<{ secretKey: Uint8Array; publicKey: Uint8Array }>;
+  export function sign(options: {
+    secretKey: Uint8Array;
+    publicKey?: Uint8Array;
+    header: Uint8Array;
+    messages: Uint8Array[];
+    ciphersuite: string;
+  }): Promise<Uint8Array>;
+  export function deriveProof(options: {
+    publicKey: Uint8Array;
+    signature: Uint8Array;
+    header: Uint8Array;
+    messages: Uint8Array[];
+    presentationHeader: Uint8Array;
+    disclosedMessageIndexes: number[];
+    ciphersuite: string;
+  }): Promise<Uint8Array>;
+  export function verifyProof(options: {
+    publicKey: Uint8Array;
+    proof: Uint8Array;
+    header: Uint8Array;
+    presentationHeader: Uint8Array;
+    disclosedMessages: Uint8Array[];
+    disclosedMessageIndexes: number[];
+    ciphersuite: string;
+  }): Promise<boolean>;
+}
+
+declare module '@digitalbazaar/credentials-context' {
+  export const contexts: Map<string, any>;
+}
+
+declare module '@digitalbazaar/data-integrity-context' {
+  export const contexts: Map<string, any>;
+}
+
+declare module '@digitalbazaar/multikey-context' {
+  export const contexts: Map<string, any>;
+}
+
+declare module 'did-context' {
+  export const contexts: Map<string, any>;
+}
+
+declare module 'ed25519-signature-2018-context' {
+  export const contexts: Map<string, any>;
+}
+
+declare module 'ed25519-signature-2020-context' {
+  export const contexts: Map<string, any>;
+}
+
+declare module 'security-context' {
+  export const contexts: Map<string, any>;
+}
@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { blsCreateProof, blsSign, generateBls12381G2KeyPair } from '@mattrglobal/bbs-signatures';
+import { CIPHERSUITES, deriveProof, generateKeyPair, sign } from '@digitalbazaar/bbs-signatures';
+import { bbs2023Suite } from '../src/crypto/bbs-2023-suite.ts';
+import { bbsSuite } from '../src/crypto/bbs-suite.ts';
+import { cborEncoder } from '../src/crypto/cose.ts';
+import { canonicalize } from '../src/crypto/data-integrity.ts';
+import { base58btcEncode, base64urlEncode, concatBytes } from '../src/crypto/encoding.ts';
+import { W3cHandler } from '../src/handlers/w3c-handler.ts';
+import { DidResolver, PresentationRequest, SecuredDocument, VerifiableCredential, VerificationMethod } from '../src/types/index.ts';
+
+const ISSUER = 'did:example:issuer';
+const CHALLENGE = 'c0ae1c8e-c7e7-469f-b252-86e6a0e7387e';
+
+const resolverFor = (verificationMethod: VerificationMethod): DidResolver => ({
+  resolve: async (did: string) => did === ISSUER
+    ? { '@context': ['https://www.w3.org/ns/did/v1'], id: ISSUER, verificationMethod: [verificationMethod], assertionMethod: [verificationMethod.id] }
+    : null
+});
+
+// Every node has an id, so the statements carry no blank node labels to map
+const credential = (contexts: string[], credentialSubject: Record<string, any>) => ({
+  '@context': [...contexts, 'https://www.w3.org/ns/credentials/undefined-terms/v2'],
+  id: 'urn:uuid:0f8f4b55-2b3b-4a4f-9a53-7c3c1e0a6d11',
+  type: ['VerifiableCredential'],
+  issuer: ISSUER,
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: 'did:example:holder', ...credentialSubject }
+});
+const subject = { degree: 'BSc', name: 'Erika Mustermann', birthDate: '1990-01-01' };
+const revealed = { degree: 'BSc', name: 'Erika Mustermann' };
+
+const statements = async (document: Record<string, any>) => (await canonicalize(document)).split('\n').filter(statement => statement.length > 0);
+const bytes = (value: string) => new Uint8Array(Buffer.from(value, 'utf8'));
+const sha256 = (value: string) => new Uint8Array(createHash('sha256').update(value, 'utf8').digest());
+const withSubject = (document: SecuredDocument, credentialSubject: Record<string, any>) =>
+  ({ ...document, credentialSubject: { ...document.credentialSubject, ...credentialSubject } }) as SecuredDocument;
+
+test('BbsBlsSignature2020 signatures and the BbsBlsSignatureProof2020 proofs derived from them', async () => {
+  const keyPair = await generateBls12381G2KeyPair();
+  const verificationMethod: VerificationMethod = { id: `${ISSUER}#bls`, type: 'Bls12381G2Key2020', controller: ISSUER, publicKeyBase58: base58btcEncode(keyPair.publicKey) };
+  const didResolver = resolverFor(verificationMethod);
+  const document = credential(['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/bbs/v1'], subject);
+  const proofOptions = { type: 'BbsBlsSignature2020', created: '2024-01-01T00:00:00Z', verificationMethod: verificationMethod.id, proofPurpose: 'assertionMethod' };
+
+  const proofStatements = await statements({ '@context': document['@context'], ...proofOptions });
+  const documentStatements = await statements(document);
+  const messages = [...proofStatements, ...documentStatements].map(bytes);
+  const signature = await blsSign({ keyPair, messages });
+  const signed = { ...document, proof: { ...proofOptions, proofValue: Buffer.from(signature).toString('base64') } } as unknown as SecuredDocument;
+
+  assert.equal(await bbsSuite.verifyProof(signed, { didResolver }), true);
+  assert.equal(await bbsSuite.verifyProof(withSubject(signed, { degree: 'PhD' }), { didResolver }), false);
+
+  // The holder reveals the proof options and every statement but the birth date
+  const revealedDocument = credential(['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/bbs/v1'], revealed);
+  const revealedStatements = new Set(await statements(revealedDocument));
+  const revealedIndexes = [...proofStatements.keys(), ...documentStatements.flatMap((statement, index) => revealedStatements.has(statement) ? [proofStatements.length + index] : [])];
+  const proof = await blsCreateProof({ signature, publicKey: keyPair.publicKey, messages, nonce: bytes(CHALLENGE), revealed: revealedIndexes });
+  const derived = {
+    ...revealedDocument,
+    proof: { ...proofOptions, type: 'BbsBlsSignatureProof2020', proofValue: Buffer.from(proof).toString('base64'), nonce: Buffer.from(CHALLENGE).toString('base64') }
+  } as unknown as SecuredDocument;
+
+  assert.equal(await bbsSuite.verifyProof(derived, { didResolver, challenge: CHALLENGE }), true);
+  // The nonce binds the proof to the verifier's challenge
+  assert.equal(await bbsSuite.verifyProof(derived, { didResolver, challenge: 'another-challenge' }), false);
+  assert.equal(await bbsSuite.verifyProof(derived, { didResolver }), false);
+  assert.equal(await bbsSuite.verifyProof({ ...derived, proof: { ...derived.proof, nonce: Buffer.from('another-challenge').toString('base64') } }, { didResolver, challenge: 'another-challenge' }), false);
+  // Revealed claims cannot be altered, and claims the proof does not disclose cannot be added
+  assert.equal(await bbsSuite.verifyProof(withSubject(derived, { degree: 'PhD' }), { didResolver, challenge: CHALLENGE }), false);
+  assert.equal(await bbsSuite.verifyProof(withSubject(derived, { birthDate: '1990-01-01' }), { didResolver, challenge: CHALLENGE }), false);
+
+  const handler = new W3cHandler({ didResolver });
+  const request = { challenge: CHALLENGE } as PresentationRequest;
+  const result = await handler.verifyCredential(derived as unknown as VerifiableCredential, request);
+  assert.equal(result.status, 'verified');
+  assert.deepEqual(result.claims, { id: 'did:example:holder', ...revealed });
+  assert.equal((await handler.verifyCredential(derived as unknown as VerifiableCredential)).status, 'rejected');
+});
+
+test('bbs-2023 derived proofs verify the mandatory and selectively disclosed statements', async () => {
+  const ciphersuite = CIPHERSUITES.BLS12381_SHA256;
+  const { secretKey, publicKey } = await generateKeyPair({ ciphersuite });
+  const verificationMethod: VerificationMethod = {
+    id: `${ISSUER}#bbs`,
+    type: 'Multikey',
+    controller: ISSUER,
+    publicKeyMultibase: 'z' + base58btcEncode(concatBytes(new Uint8Array([0xeb, 0x01]), publicKey))
+  };
+  const didResolver = resolverFor(verificationMethod);
+  const document = credential(['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/data-integrity/v2'], subject);
+  const proofOptions = { type: 'DataIntegrityProof', cryptosuite: 'bbs-2023', created: '2024-01-01T00:00:00Z', verificationMethod: verificationMethod.id, proofPurpose: 'assertionMethod' };
+
+  // The issuer makes the statements about the subject selectively disclosable and the rest mandatory
+  const nquads = (await statements(document)).map(statement => `${statement}\n`).sort();
+  const isMandatory = (statement: string) => !statement.startsWith('<did:example:holder>');
+  const mandatory = nquads.filter(isMandatory);
+  const nonMandatory = nquads.filter(statement => !isMandatory(statement));
+  const header = concatBytes(sha256(await canonicalize({ '@context': document['@context'], ...proofOptions })), sha256(mandatory.join('')));
+  const signature = await sign({ secretKey, publicKey, header, messages: nonMandatory.map(bytes), ciphersuite });
+
+  // The holder discloses all but the birth date
+  const revealedDocument = credential(['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/data-integrity/v2'], revealed);
+  const revealedNquads = (await statements(revealedDocument)).map(statement => `${statement}\n`).sort();
+  const mandatoryIndexes = revealedNquads.flatMap((statement, index) => isMandatory(statement) ? [index] : []);
+  const selectiveIndexes = nonMandatory.flatMap((statement, index) => revealedNquads.includes(statement) ? [index] : []);
+  const derive = async (presentationHeader: string) => {
+    const bbsProof = await deriveProof({ publicKey, signature, header, messages: nonMandatory.map(bytes), presentationHeader: bytes(presentationHeader), disclosedMessageIndexes: selectiveIndexes, ciphersuite });
+    const components = cborEncoder.encode([bbsProof, new Map(), mandatoryIndexes, selectiveIndexes, bytes(presentationHeader)]);
+    const proofValue = 'u' + base64urlEncode(concatBytes(new Uint8Array([0xd9, 0x5d, 0x03]), components));
+    return { ...revealedDocument, proof: { ...proofOptions, proofValue } } as unknown as SecuredDocument;
+  };
+  const derived = await derive(CHALLENGE);
+
+  assert.equal(await bbs2023Suite.verifyProof(derived, { didResolver, challenge: CHALLENGE }), true);
+  // The presentation header binds the proof to the verifier's challenge
+  assert.equal(await bbs2023Suite.verifyProof(derived, { didResolver, challenge: 'another-challenge' }), false);
+  assert.equal(await bbs2023Suite.verifyProof(derived, { didResolver }), false);
+  assert.equal(await bbs2023Suite.verifyProof(await derive('another-challenge'), { didResolver, challenge: CHALLENGE }), false);
+  // Disclosed and mandatory statements cannot be altered, and undisclosed ones cannot be added
+  assert.equal(await bbs2023Suite.verifyProof(withSubject(derived, { degree: 'PhD' }), { didResolver, challenge: CHALLENGE }), false);
+  assert.equal(await bbs2023Suite.verifyProof({ ...derived, issuanceDate: '2025-01-01T00:00:00Z' }, { didResolver, challenge: CHALLENGE }), false);
+  assert.equal(await bbs2023Suite.verifyProof(withSubject(derived, { birthDate: '1990-01-01' }), { didResolver, challenge: CHALLENGE }), false);
+  await assert.rejects(bbs2023Suite.verifyProof({ ...derived, proof: { ...derived.proof, proofValue: 'z' + derived.proof.proofValue!.slice(1) } }, { didResolver, challenge: CHALLENGE }), /multibase base64url/);
+
+  const result = await new W3cHandler({ didResolver }).verifyCredential(derived as unknown as VerifiableCredential, { challenge: CHALLENGE } as PresentationRequest);
+  assert.equal(result.status, 'verified');
+  assert.deepEqual(result.claims, { id: 'did:example:holder', ...revealed });
+});
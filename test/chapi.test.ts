@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createVerifier } from '../src/core/index.ts';
+import { W3cHandler } from '../src/handlers/w3c-handler.ts';
+import { CHAPIAdapter } from '../src/protocol-adapters/chapi-adapter.ts';
+import { MemorySessionStore } from '../src/session/memory-session-store.ts';
+import { DidResolver } from '../src/types/index.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const issuer = createExampleIssuer('did:example:issuer');
+const holder = createExampleIssuer('did:example:holder');
+const didResolver: DidResolver = {
+  resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? holder.didResolver.resolve(did)
+};
+const presentation = {
+  '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1'],
+  type: ['VerifiablePresentation'],
+  verifiableCredential: [await issuer.signCredential({
+    '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1', 'https://www.w3.org/ns/credentials/undefined-terms/v2'],
+    id: 'credential:chapi:001',
+    type: ['VerifiableCredential', 'ExampleCredential'],
+    issuer: issuer.did,
+    issuanceDate: '2024-01-01T00:00:00Z',
+    credentialSubject: { id: holder.did, name: 'Alice Example' }
+  })],
+  holder: holder.did
+};
+
+test('CHAPI requests are answered once, by a presentation that verifies', async () => {
+  const sessionStore = new MemorySessionStore();
+  const verifier = createVerifier({ handlers: [new W3cHandler({ didResolver })], sessionStore });
+  const chapi = new CHAPIAdapter({ sessionStore });
+  const request = await verifier.createRequest({ credentials: ['ExampleCredential'], domain: 'https://verifier.example' });
+  const { web } = await chapi.createCredentialRequest(request);
+  const { challenge, domain } = web.VerifiablePresentation;
+
+  await assert.rejects(chapi.receivePresentation({ type: 'web', dataType: 'VerifiablePresentation', data: await holder.signPresentation(presentation, { challenge, domain: 'https://other.example' }) }), /domain does not match/);
+  await assert.rejects(chapi.receivePresentation({ type: 'web', dataType: 'VerifiablePresentation', data: await holder.signPresentation({ ...presentation, verifiableCredential: [] }, { challenge, domain }) }), /does not answer the request/);
+
+  // A forged proof that carries the challenge and domain passes these checks, but not verification
+  const signed = await holder.signPresentation(presentation, { challenge, domain });
+  const forged = { ...signed, proof: { ...signed.proof, proofValue: 'zforged' } };
+  const received = await chapi.receivePresentation({ type: 'web', dataType: 'VerifiablePresentation', data: JSON.stringify(forged) });
+  const rejected = await verifier.verify(received.presentation, received.originalRequest);
+  assert.equal(rejected.status, 'rejected');
+  await chapi.recordResult(received.originalRequest.id, rejected);
+
+  const { presentation: answer, originalRequest } = await chapi.receivePresentation({ type: 'web', dataType: 'VerifiablePresentation', data: signed });
+  const result = await verifier.verify(answer, originalRequest);
+  assert.equal(result.status, 'verified');
+  await chapi.recordResult(originalRequest.id, result);
+  assert.equal((await sessionStore.get(request.id))?.data?.result.status, 'verified');
+
+  await assert.rejects(chapi.receivePresentation({ type: 'web', dataType: 'VerifiablePresentation', data: signed }), /already used/);
+  await assert.rejects(chapi.recordResult(originalRequest.id, result), /already been answered/);
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgeVerificationPolicy, Over18Policy, ValidityPolicy } from '../src/policies/index.ts';
+import { findBirthdate } from '../src/policies/claims.ts';
+import { VerificationData } from '../src/types/index.ts';
+
+// mdoc claims, as MdlHandler returns them: grouped by namespace
+const mdl: VerificationData = {
+  claims: { 'org.iso.18013.5.1': { family_name: 'Johnson', birth_date: '1985-05-15', expirationDate: '2000-01-01T00:00:00Z' } },
+  credentialType: 'org.iso.18013.5.1.mDL'
+};
+
+test('findBirthdate finds birthdates in mdoc namespaces', () => {
+  assert.equal(findBirthdate(mdl), '1985-05-15');
+  assert.equal(findBirthdate({ claims: { birthdate: '2000-04-20' }, credentialType: 'VerifiableCredential' }), '2000-04-20');
+  assert.equal(findBirthdate({ claims: { name: 'Alice' }, credentialType: 'VerifiableCredential' }), undefined);
+});
+
+test('age policies apply to mDL claims', async () => {
+  assert.equal((await new Over18Policy().execute(mdl)).compliant, true);
+  assert.equal((await new AgeVerificationPolicy().execute(mdl)).compliant, true);
+  const minor = { ...mdl, claims: { 'org.iso.18013.5.1': { birth_date: new Date().toISOString().slice(0, 10) } } };
+  assert.equal((await new Over18Policy().execute(minor)).compliant, false);
+});
+
+test('ValidityPolicy reads mdoc validity elements', async () => {
+  const result = await new ValidityPolicy().execute(mdl);
+  assert.equal(result.compliant, false);
+  assert.deepEqual(result.errors, ['Credential has expired.']);
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateDcqlQuery } from '../src/query/dcql.ts';
+import { CredentialVerificationResult, DcqlCredentialQuery, DcqlQuery } from '../src/types/index.ts';
+
+const PID = 'urn:eudi:pid:1';
+const MDL = 'org.iso.18013.5.1.mDL';
+const MDL_NAMESPACE = 'org.iso.18013.5.1';
+
+const sdJwt = (claims: Record<string, any>, disclosedPaths?: (string | number)[][], vct = PID) =>
+  ({ status: 'verified', credentialType: vct, claims, ...(disclosedPaths && { disclosedPaths }) }) as CredentialVerificationResult;
+const mdoc = (elements: Record<string, any>, docType = MDL) =>
+  ({ status: 'verified', credentialType: docType, claims: { [MDL_NAMESPACE]: elements } }) as CredentialVerificationResult;
+const w3c = (types: string, credentialSubject: Record<string, any>) =>
+  ({ status: 'verified', credentialType: types, issuer: 'did:example:issuer', claims: credentialSubject }) as CredentialVerificationResult;
+
+const pidQuery: DcqlCredentialQuery = {
+  id: 'pid',
+  format: 'dc+sd-jwt',
+  meta: { vct_values: [PID] },
+  claims: [
+    { id: 'over_18', path: ['age_equal_or_over', '18'], values: [true] },
+    { id: 'birthdate', path: ['birthdate'] },
+    { id: 'given_name', path: ['given_name'] }
+  ],
+  claim_sets: [['over_18'], ['birthdate'], ['given_name', 'birthdate']]
+};
+
+test('claim_sets select the first set the disclosed claims satisfy and fully account for', () => {
+  const evaluate = (credential: CredentialVerificationResult) => evaluateDcqlQuery({ credentials: [pidQuery] }, { pid: [credential] }).credentials[0];
+
+  assert.deepEqual(evaluate(sdJwt({ age_equal_or_over: { 18: true } }, [['age_equal_or_over', '18']])), { id: 'pid', satisfied: true, claimSet: ['over_18'], errors: [] });
+  assert.deepEqual(evaluate(sdJwt({ birthdate: '1990-01-01' }, [['birthdate']])).claimSet, ['birthdate']);
+  // ['birthdate'] is satisfied too, but would leave given_name unrequested
+  assert.deepEqual(evaluate(sdJwt({ given_name: 'Erika', birthdate: '1990-01-01' }, [['given_name'], ['birthdate']])).claimSet, ['given_name', 'birthdate']);
+
+  assert.deepEqual(evaluate(sdJwt({ given_name: 'Erika' }, [['given_name']])).errors, [
+    'Presentation 0: none of the claim sets was disclosed: [over_18], [birthdate], [given_name, birthdate]'
+  ]);
+  // A claim with a value outside values does not satisfy its set
+  assert.equal(evaluate(sdJwt({ age_equal_or_over: { 18: false } }, [['age_equal_or_over', '18']])).satisfied, false);
+
+  const withoutSets = { ...pidQuery, claim_sets: undefined };
+  assert.deepEqual(evaluateDcqlQuery({ credentials: [withoutSets] }, { pid: [sdJwt({ birthdate: '1990-01-01' }, [['birthdate']])] }).credentials[0].errors, [
+    'Presentation 0: claim over_18 was not disclosed', 'Presentation 0: claim given_name was not disclosed'
+  ]);
+});
+
+const query: DcqlQuery = {
+  credentials: [
+    pidQuery,
+    { id: 'mdl', format: 'mso_mdoc', meta: { doctype_value: MDL }, claims: [{ path: [MDL_NAMESPACE, 'driving_privileges'] }] },
+    { id: 'loyalty', format: 'jwt_vc_json', multiple: true, meta: { type_values: [['VerifiableCredential', 'LoyaltyCard']] }, claims: [{ path: ['credentialSubject', 'program'] }] }
+  ],
+  credential_sets: [
+    { options: [['pid'], ['mdl']] },
+    { options: [['loyalty']], required: false }
+  ]
+};
+const pid = sdJwt({ birthdate: '1990-01-01' }, [['birthdate']]);
+const mdl = mdoc({ driving_privileges: [{ vehicle_category_code: 'B' }] });
+const loyalty = (program = 'gold') => w3c('VerifiableCredential, LoyaltyCard', { program });
+
+test('credential_sets require one option of each required set; optional sets and multiple presentations are honoured', () => {
+  assert.deepEqual(evaluateDcqlQuery(query, { pid: [pid] }), {
+    valid: true,
+    errors: [],
+    credentials: [
+      { id: 'pid', satisfied: true, claimSet: ['birthdate'], errors: [] },
+      { id: 'mdl', satisfied: false, errors: ['No presentation returned'] },
+      { id: 'loyalty', satisfied: false, errors: ['No presentation returned'] }
+    ]
+  });
+  assert.equal(evaluateDcqlQuery(query, { mdl: [mdl] }).valid, true);
+  assert.equal(evaluateDcqlQuery(query, { pid: [pid], loyalty: [loyalty('gold'), loyalty('silver')] }).valid, true);
+  assert.deepEqual(evaluateDcqlQuery(query, { loyalty: [loyalty()] }).errors, ['Credential set 0 is not satisfied by any of its options: [pid], [mdl]']);
+
+  // Optional credentials that are returned must still match their query
+  assert.deepEqual(evaluateDcqlQuery(query, { pid: [pid], loyalty: [w3c('VerifiableCredential', { program: 'gold' })] }).errors, ['Presentations for loyalty do not satisfy its credential query']);
+  const duplicated = evaluateDcqlQuery(query, { pid: [pid, pid], mdl: [mdl] });
+  assert.deepEqual([duplicated.valid, duplicated.credentials[0].errors], [false, ['2 presentations returned, but the query does not allow multiple']]);
+  assert.deepEqual(evaluateDcqlQuery(query, { pid: [pid], other: [pid] }).errors, ['vp_token has presentations for other, which the query did not request']);
+
+  const metaErrors = (presented: Record<string, CredentialVerificationResult[]>) => evaluateDcqlQuery(query, presented).credentials.flatMap(result => result.errors.filter(error => error.startsWith('Presentation')));
+  assert.deepEqual(metaErrors({ pid: [sdJwt({ birthdate: '1990-01-01' }, [['birthdate']], 'urn:example:other')] }), [`Presentation 0: vct urn:example:other is not one of ${PID}`]);
+  assert.deepEqual(metaErrors({ mdl: [mdoc({ driving_privileges: [] }, 'org.iso.23220.photoid.1')] }), [`Presentation 0: docType org.iso.23220.photoid.1 is not ${MDL}`]);
+  assert.deepEqual(metaErrors({ pid: [{ ...pid, status: 'rejected' }] }), ['Presentation 0: not verified']);
+
+  // Without credential_sets every credential query is required
+  const allRequired = evaluateDcqlQuery({ credentials: query.credentials }, { pid: [pid], mdl: [mdl] });
+  assert.deepEqual(allRequired.errors, ['Credential query loyalty is not satisfied']);
+});
+
+test('selectively disclosed credentials may only reveal requested claims', () => {
+  const birthdateQuery: DcqlQuery = { credentials: [{ id: 'pid', format: 'dc+sd-jwt', claims: [{ path: ['birthdate'] }, { path: ['address', 'country'] }, { path: ['nationalities', null] }] }] };
+  const evaluate = (credential: CredentialVerificationResult) => evaluateDcqlQuery(birthdateQuery, { pid: [credential] }).credentials[0].errors;
+  const claims = { family_name: 'Mustermann', birthdate: '1990-01-01', address: { country: 'DE', street_address: 'Heidestraße 17' }, nationalities: ['DE', 'FR'] };
+
+  // Claims the issuer left visible were not the holder's choice
+  assert.deepEqual(evaluate(sdJwt(claims, [['birthdate'], ['address', 'country'], ['nationalities', 0], ['nationalities', 1]])), []);
+  assert.deepEqual(evaluate(sdJwt(claims, [['birthdate'], ['address', 'country'], ['nationalities', 0], ['family_name']])), [
+    'Presentation 0: claims were disclosed that the query did not request: family_name'
+  ]);
+  // Disclosing the whole address reveals more than its country
+  assert.deepEqual(evaluate(sdJwt(claims, [['birthdate'], ['address'], ['nationalities']])), [
+    'Presentation 0: claims were disclosed that the query did not request: address.street_address'
+  ]);
+  // Without disclosedPaths every claim but sub counts as disclosed
+  assert.deepEqual(evaluate(sdJwt({ sub: 'urn:example:holder', birthdate: '1990-01-01', address: { country: 'DE' }, nationalities: ['DE'] })), []);
+  assert.deepEqual(evaluate(sdJwt({ ...claims, sub: 'urn:example:holder' })), [
+    'Presentation 0: claims were disclosed that the query did not request: family_name, address.street_address'
+  ]);
+
+  const mdlQuery: DcqlQuery = { credentials: [{ id: 'mdl', format: 'mso_mdoc', claims: [{ path: [MDL_NAMESPACE, 'age_over_18'] }] }] };
+  assert.deepEqual(evaluateDcqlQuery(mdlQuery, { mdl: [mdoc({ age_over_18: true })] }).valid, true);
+  assert.deepEqual(evaluateDcqlQuery(mdlQuery, { mdl: [mdoc({ age_over_18: true, portrait: 'x' })] }).credentials[0].errors, [
+    `Presentation 0: claims were disclosed that the query did not request: ${MDL_NAMESPACE}.portrait`
+  ]);
+
+  // W3C credentials are disclosed whole
+  const degreeQuery: DcqlQuery = { credentials: [{ id: 'degree', format: 'ldp_vc', claims: [{ path: ['credentialSubject', 'degree', 'type'], values: ['BachelorDegree'] }] }] };
+  assert.equal(evaluateDcqlQuery(degreeQuery, { degree: [w3c('VerifiableCredential', { degree: { type: 'BachelorDegree', name: 'BSc' }, id: 'did:example:holder' })] }).valid, true);
+});
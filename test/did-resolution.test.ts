@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'crypto';
+import { base64urlEncode } from '../src/crypto/encoding.ts';
+import { UniversalDidResolver } from '../src/did/universal-resolver.ts';
+
+const ed25519Key = 'z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK';
+const x25519Key = 'z6LSbysY2xFMRpGMhb7tFTLMpeuPRaqaWM1yECx2AtzE3KCc';
+const service = base64urlEncode(JSON.stringify({ t: 'dm', s: 'https://example.com/endpoint', a: ['didcomm/v2'] }));
+
+test('did:key resolves to a single Multikey verification method', async () => {
+  const did = `did:key:${ed25519Key}`;
+  const resolver = new UniversalDidResolver();
+  const document = await resolver.resolve(did);
+  assert.equal(document.id, did);
+  assert.deepEqual(document.authentication, [`${did}#${ed25519Key}`]);
+  assert.equal((await resolver.dereference(`${did}#${ed25519Key}`)).publicKeyMultibase, ed25519Key);
+  await assert.rejects(resolver.resolve('did:key:z6Lnot-a-key'));
+});
+
+test('did:jwk resolves to its JsonWebKey2020 and rejects private keys', async () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const jwk = publicKey.export({ format: 'jwk' });
+  const did = `did:jwk:${base64urlEncode(JSON.stringify(jwk))}`;
+  const resolver = new UniversalDidResolver();
+  assert.deepEqual((await resolver.dereference(`${did}#0`)).publicKeyJwk, jwk);
+  assert.deepEqual((await resolver.resolve(did)).assertionMethod, [`${did}#0`]);
+  await assert.rejects(resolver.resolve(`did:jwk:${base64urlEncode(JSON.stringify(privateKey.export({ format: 'jwk' })))}`), /private key/);
+});
+
+test('did:peer resolves numalgo 0 and numalgo 2 keys and services', async () => {
+  const resolver = new UniversalDidResolver();
+  assert.equal((await resolver.resolve(`did:peer:0${ed25519Key}`)).verificationMethod[0].publicKeyMultibase, ed25519Key);
+
+  const did = `did:peer:2.E${x25519Key}.V${ed25519Key}.S${service}`;
+  const document = await resolver.resolve(did);
+  assert.deepEqual(document.keyAgreement, [`${did}#key-1`]);
+  assert.deepEqual(document.authentication, [`${did}#key-2`]);
+  assert.deepEqual(await resolver.dereference(`${did}#service`), {
+    id: `${did}#service`,
+    type: 'DIDCommMessaging',
+    serviceEndpoint: 'https://example.com/endpoint',
+    accept: ['didcomm/v2']
+  });
+});
+
+test('did:web fetches the DID document through the injected fetch and caches it', async () => {
+  const requested: string[] = [];
+  const documents: Record<string, Record<string, any>> = {
+    'https://example.com/.well-known/did.json': { id: 'did:web:example.com' },
+    'https://example.com:8443/users/alice/did.json': { id: 'did:web:example.com%3A8443:users:alice' },
+    'https://example.com/users/mallory/did.json': { id: 'did:web:example.com' }
+  };
+  const resolver = new UniversalDidResolver({
+    web: {
+      fetch: async input => {
+        requested.push(String(input));
+        const document = documents[String(input)];
+        return new Response(document ? JSON.stringify(document) : 'Not Found', { status: document ? 200 : 404 });
+      }
+    }
+  });
+
+  assert.equal((await resolver.resolve('did:web:example.com')).id, 'did:web:example.com');
+  assert.equal((await resolver.resolve('did:web:example.com#key-1')).id, 'did:web:example.com');
+  assert.equal((await resolver.resolve('did:web:example.com%3A8443:users:alice')).id, 'did:web:example.com%3A8443:users:alice');
+  assert.deepEqual(requested, ['https://example.com/.well-known/did.json', 'https://example.com:8443/users/alice/did.json']);
+
+  await assert.rejects(resolver.resolve('did:web:example.com:users:mallory'), /does not match/);
+  await assert.rejects(resolver.resolve('did:web:example.org'), /HTTP 404/);
+  await assert.rejects(resolver.resolve('did:unknown:123'), /Unsupported DID method/);
+});
@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, randomUUID } from 'crypto';
+import { createVerifier } from '../src/core/index.ts';
+import { InMemoryKeyStore } from '../src/crypto/key-store.ts';
+import { base58btcEncode, base64urlDecode, base64urlEncode } from '../src/crypto/encoding.ts';
+import { encryptJweJson } from '../src/crypto/jwe.ts';
+import { signJws } from '../src/crypto/jws.ts';
+import { W3cHandler } from '../src/handlers/w3c-handler.ts';
+import { DIDCommAdapter, DIDCommAttachment, DIDCommMessage, PRESENT_PROOF_ACK, PRESENT_PROOF_PRESENTATION, PROBLEM_REPORT } from '../src/protocol-adapters/didcomm-adapter.ts';
+import { authenticatedSender, packDIDCommMessage, unpackDIDCommMessage } from '../src/protocol-adapters/didcomm-envelope.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+// A did:peer:2 with an X25519 key agreement key (#key-1) and an Ed25519 authentication key (#key-2), and its private keys
+function peer() {
+  const agreement = generateKeyPairSync('x25519');
+  const authentication = generateKeyPairSync('ed25519');
+  const multikey = (prefix: number[], jwk: any) => `z${base58btcEncode(new Uint8Array([...prefix, ...base64urlDecode(jwk.x)]))}`;
+  const did = `did:peer:2.E${multikey([0xec, 0x01], agreement.publicKey.export({ format: 'jwk' }))}.V${multikey([0xed, 0x01], authentication.publicKey.export({ format: 'jwk' }))}`;
+  const keyStore = new InMemoryKeyStore({ [`${did}#key-1`]: agreement.privateKey, [`${did}#key-2`]: authentication.privateKey });
+  return { did, keyStore, agreement, authentication };
+}
+
+const verifierPeer = peer();
+const holderPeer = peer();
+const otherPeer = peer();
+
+const ping = (overrides: Partial<DIDCommMessage> = {}): DIDCommMessage => ({
+  id: 'ping-1', type: 'https://didcomm.org/trust-ping/2.0/ping', from: holderPeer.did, to: [verifierPeer.did], body: {}, ...overrides
+});
+const received = (envelope: string) => unpackDIDCommMessage(envelope, { keyStore: verifierPeer.keyStore });
+const protectedHeader = (envelope: string) => JSON.parse(Buffer.from(base64urlDecode(JSON.parse(envelope).protected)).toString('utf8'));
+
+test('DIDComm messages are authcrypted, anoncrypted or signed, and unpack with their sender', async () => {
+  const authcrypt = await packDIDCommMessage(ping(), 'authcrypt', { keyStore: holderPeer.keyStore });
+  assert.equal(protectedHeader(authcrypt).alg, 'ECDH-1PU+A256KW');
+  assert.equal(protectedHeader(authcrypt).skid, `${holderPeer.did}#key-1`);
+  const authenticated = await received(authcrypt);
+  assert.equal(authenticated.message.id, 'ping-1');
+  assert.deepEqual({ ...authenticated, message: undefined }, {
+    message: undefined, encrypted: true, authenticated: true, signed: false, recipientKid: `${verifierPeer.did}#key-1`, senderKid: `${holderPeer.did}#key-1`
+  });
+  assert.equal(authenticatedSender(authenticated), holderPeer.did);
+
+  const anoncrypt = await packDIDCommMessage(ping(), 'anoncrypt', { keyStore: holderPeer.keyStore });
+  assert.equal(protectedHeader(anoncrypt).alg, 'ECDH-ES+A256KW');
+  const anonymous = await received(anoncrypt);
+  assert.equal(anonymous.encrypted, true);
+  assert.equal(anonymous.authenticated, false);
+  assert.equal(authenticatedSender(anonymous), undefined);
+
+  const signed = await received(await packDIDCommMessage(ping(), 'signed', { keyStore: holderPeer.keyStore }));
+  assert.equal(signed.signed, true);
+  assert.equal(signed.encrypted, false);
+  assert.equal(signed.signerKid, `${holderPeer.did}#key-2`);
+  assert.equal(authenticatedSender(signed), holderPeer.did);
+
+  assert.equal(authenticatedSender(await received(await packDIDCommMessage(ping(), 'plaintext', { keyStore: holderPeer.keyStore }))), undefined);
+});
+
+test('tampered, misaddressed, expired and impersonating DIDComm messages are rejected', async () => {
+  const jwe = JSON.parse(await packDIDCommMessage(ping(), 'authcrypt', { keyStore: holderPeer.keyStore }));
+  const flipped = (value: string) => base64urlEncode(base64urlDecode(value).map((byte, index) => index === 0 ? byte ^ 1 : byte));
+  await assert.rejects(received(JSON.stringify({ ...jwe, tag: flipped(jwe.tag) })), /JWE decryption failed/);
+  await assert.rejects(received(JSON.stringify({ ...jwe, recipients: [{ ...jwe.recipients[0], encrypted_key: flipped(jwe.recipients[0].encrypted_key) }] })), /JWE decryption failed/);
+  await assert.rejects(received(JSON.stringify({ ...jwe, recipients: [{ ...jwe.recipients[0], header: { kid: `${otherPeer.did}#key-1` } }] })), /not encrypted to any key in the key store/);
+  await assert.rejects(unpackDIDCommMessage(JSON.stringify(jwe), { keyStore: otherPeer.keyStore }), /not encrypted to any key in the key store/);
+
+  const signed = JSON.parse(await packDIDCommMessage(ping(), 'signed', { keyStore: holderPeer.keyStore }));
+  const forgedPayload = base64urlEncode(JSON.stringify({ ...ping(), body: { forged: true } }));
+  await assert.rejects(received(JSON.stringify({ ...signed, payload: forgedPayload })), /signature does not verify/);
+
+  // Encrypted to the verifier, but addressed to another DID
+  const misaddressed = encryptJweJson(new TextEncoder().encode(JSON.stringify(ping({ to: [otherPeer.did] }))), [
+    { kid: `${verifierPeer.did}#key-1`, publicKey: verifierPeer.agreement.publicKey }
+  ]);
+  await assert.rejects(received(JSON.stringify(misaddressed)), /encrypted to a key of a DID it is not addressed to/);
+
+  // Another party's keys claiming to be the holder
+  const impersonated = encryptJweJson(new TextEncoder().encode(JSON.stringify(ping())), [
+    { kid: `${verifierPeer.did}#key-1`, publicKey: verifierPeer.agreement.publicKey }
+  ], { sender: { kid: `${otherPeer.did}#key-1`, privateKey: otherPeer.agreement.privateKey } });
+  await assert.rejects(received(JSON.stringify(impersonated)), new RegExp(`from \\(${holderPeer.did}\\) does not match the sender key ${otherPeer.did}#key-1`));
+  const [header, payload, signature] = signJws({ typ: 'application/didcomm-signed+json' }, ping(), otherPeer.authentication.privateKey).split('.');
+  const impersonatedSigned = { payload, signatures: [{ protected: header, signature, header: { kid: `${otherPeer.did}#key-2` } }] };
+  await assert.rejects(received(JSON.stringify(impersonatedSigned)), /does not match the sender key/);
+
+  await assert.rejects(received(await packDIDCommMessage(ping({ expires_time: Math.floor(Date.now() / 1000) - 1 }), 'authcrypt', { keyStore: holderPeer.keyStore })), /ping-1 has expired/);
+});
+
+test('DIDCommAdapter answers presentations in the request thread, from the holder only, once', async () => {
+  const issuer = createExampleIssuer('did:example:issuer');
+  const holder = createExampleIssuer('did:example:holder');
+  const didResolver = { resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? holder.didResolver.resolve(did) };
+  const verifier = createVerifier({ handlers: [new W3cHandler({ didResolver })] });
+  const adapter = new DIDCommAdapter({ did: verifierPeer.did, keyStore: verifierPeer.keyStore, verifier });
+
+  const request = await verifier.createRequest({ credentials: ['ExampleCredential'] });
+  const { packed: requestPacked } = await adapter.createPresentationRequest(request, { to: [holderPeer.did], pthid: 'invitation-1' });
+  const { message: requestMessage, authenticated } = await unpackDIDCommMessage(requestPacked, { keyStore: holderPeer.keyStore });
+  assert.equal(authenticated, true);
+  assert.equal(requestMessage.id, request.id);
+  assert.equal(requestMessage.pthid, 'invitation-1');
+
+  const presentationMessage = (from: typeof holderPeer, attachment: DIDCommAttachment): DIDCommMessage => ({
+    id: randomUUID(),
+    type: PRESENT_PROOF_PRESENTATION,
+    from: from.did,
+    to: [verifierPeer.did],
+    thid: request.id,
+    pthid: 'invitation-1',
+    body: {},
+    attachments: [attachment]
+  });
+  const send = async (from: typeof holderPeer, attachment: DIDCommAttachment) =>
+    adapter.handle(await packDIDCommMessage(presentationMessage(from, attachment), 'authcrypt', { keyStore: from.keyStore }));
+
+  // Problem reports start a thread whose parent is the presentation's; neither rejection closes the request
+  const mdoc = await send(holderPeer, { format: 'mso_mdoc', data: { base64: 'omd2ZXJzaW9u' } });
+  assert.match(mdoc.result!.error!, /mso_mdoc presentations are not supported over DIDComm/);
+  assert.equal(mdoc.response!.type, PROBLEM_REPORT);
+  assert.equal(mdoc.response!.pthid, request.id);
+  assert.equal(mdoc.response!.thid, undefined);
+  const stranger = await send(otherPeer, { format: 'ldp_vp', data: { json: {} } });
+  assert.match(stranger.result!.error!, /is from did:peer:2.*, but the request was sent to/);
+
+  const credential = await issuer.signCredential({
+    '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1', 'https://www.w3.org/ns/credentials/undefined-terms/v2'],
+    id: 'credential:didcomm:001',
+    type: ['VerifiableCredential', 'ExampleCredential'],
+    issuer: issuer.did,
+    issuanceDate: '2024-01-01T00:00:00Z',
+    credentialSubject: { id: holder.did, name: 'Alice Example' }
+  });
+  const presentation = await holder.signPresentation({
+    '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1'],
+    type: ['VerifiablePresentation'],
+    verifiableCredential: [credential],
+    holder: holder.did
+  }, { challenge: request.challenge });
+  const answered = await send(holderPeer, { format: 'ldp_vp', data: { json: presentation } });
+  assert.equal(answered.result!.status, 'verified');
+  assert.equal(answered.response!.type, PRESENT_PROOF_ACK);
+  assert.equal(answered.response!.thid, request.id);
+  assert.equal(answered.response!.pthid, 'invitation-1');
+  const ack = await unpackDIDCommMessage(answered.packed!, { keyStore: holderPeer.keyStore });
+  assert.equal(ack.message.id, answered.response!.id);
+
+  const replayed = await send(holderPeer, { format: 'ldp_vp', data: { json: presentation } });
+  assert.match(replayed.result!.error!, /already used/);
+});
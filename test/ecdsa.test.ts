@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ECDH, generateKeyPairSync, sign } from 'crypto';
+import { createVerifyData } from '../src/crypto/data-integrity.ts';
+import { ecdsaJcs2019Suite, ecdsaRdfc2019Suite } from '../src/crypto/ecdsa-data-integrity-suite.ts';
+import { ecdsaR1Suite } from '../src/crypto/ecdsa-r1-suite.ts';
+import { ecdsaR2Suite } from '../src/crypto/ecdsa-r2-suite.ts';
+import { base58btcEncode, base64urlEncode } from '../src/crypto/encoding.ts';
+import { W3cHandler } from '../src/handlers/w3c-handler.ts';
+import { DidResolver, SecuredDocument, VerifiableCredential, VerificationMethod } from '../src/types/index.ts';
+
+const ISSUER = 'did:example:issuer';
+
+// OpenSSL curve, multicodec prefix, and the signature digest of each curve
+const CURVES = {
+  'P-256': { curve: 'prime256v1', prefix: [0x80, 0x24], digest: 'sha256' },
+  'P-384': { curve: 'secp384r1', prefix: [0x81, 0x24], digest: 'sha384' },
+  secp256k1: { curve: 'secp256k1', prefix: [0xe7, 0x01], digest: 'sha256' }
+};
+type Curve = keyof typeof CURVES;
+
+function issuerKey(crv: Curve, encoding: 'jwk' | 'multibase' = 'multibase') {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: CURVES[crv].curve });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const point = Buffer.concat([Buffer.from([0x04]), Buffer.from(jwk.x!, 'base64url'), Buffer.from(jwk.y!, 'base64url')]);
+  const compressed = ECDH.convertKey(point, CURVES[crv].curve, undefined, undefined, 'compressed') as Buffer;
+  const verificationMethod: VerificationMethod = {
+    id: `${ISSUER}#${crv}-${encoding}`,
+    type: encoding === 'jwk' ? 'JsonWebKey2020' : 'Multikey',
+    controller: ISSUER,
+    ...(encoding === 'jwk' ? { publicKeyJwk: jwk } : { publicKeyMultibase: 'z' + base58btcEncode(new Uint8Array([...CURVES[crv].prefix, ...compressed])) })
+  };
+  return { crv, privateKey, verificationMethod };
+}
+type IssuerKey = ReturnType<typeof issuerKey>;
+
+const resolverFor = (...keys: IssuerKey[]): DidResolver => ({
+  resolve: async (did: string) => did === ISSUER ? {
+    '@context': ['https://www.w3.org/ns/did/v1'],
+    id: ISSUER,
+    verificationMethod: keys.map(key => key.verificationMethod),
+    assertionMethod: keys.map(key => key.verificationMethod.id)
+  } : null
+});
+
+const v1Credential = {
+  '@context': ['https://www.w3.org/2018/credentials/v1', 'https://www.w3.org/ns/credentials/undefined-terms/v2'],
+  id: 'urn:uuid:5b1a1d76-8a53-4d6e-a7a6-4e4c4e23b4b5',
+  type: ['VerifiableCredential'],
+  issuer: ISSUER,
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: 'did:example:holder', degree: 'BSc' }
+};
+const v2Credential = {
+  '@context': ['https://www.w3.org/ns/credentials/v2', 'https://www.w3.org/ns/credentials/undefined-terms/v2'],
+  id: 'urn:uuid:5b1a1d76-8a53-4d6e-a7a6-4e4c4e23b4b5',
+  type: ['VerifiableCredential'],
+  issuer: ISSUER,
+  validFrom: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: 'did:example:holder', degree: 'BSc' }
+};
+
+// Signs the Data Integrity verify data as a multibase P1363 proofValue, or a detached JWS
+async function signEcdsa(document: Record<string, any>, proof: Record<string, any>, key: IssuerKey, options: { canonicalization?: 'rdfc' | 'jcs'; jws?: boolean } = {}): Promise<SecuredDocument> {
+  const { digest } = CURVES[key.crv];
+  const fullProof = { created: '2024-01-01T00:00:00Z', verificationMethod: key.verificationMethod.id, proofPurpose: 'assertionMethod', ...proof };
+  const verifyData = await createVerifyData({ ...document, proof: fullProof } as SecuredDocument, { hashAlgorithm: digest, canonicalization: options.canonicalization });
+  if (options.jws) {
+    const header = base64urlEncode(JSON.stringify({ alg: 'ES256', b64: false, crit: ['b64'] }));
+    const signature = sign(digest, Buffer.concat([Buffer.from(`${header}.`), verifyData]), { key: key.privateKey, dsaEncoding: 'ieee-p1363' });
+    return { ...document, proof: { ...fullProof, jws: `${header}..${base64urlEncode(signature)}` } } as unknown as SecuredDocument;
+  }
+  const signature = sign(digest, verifyData, { key: key.privateKey, dsaEncoding: 'ieee-p1363' });
+  return { ...document, proof: { ...fullProof, proofValue: 'z' + base58btcEncode(signature) } } as unknown as SecuredDocument;
+}
+
+const tamper = (document: SecuredDocument) => ({ ...document, credentialSubject: { ...document.credentialSubject, degree: 'PhD' } }) as SecuredDocument;
+
+test('EcdsaSecp256r1Signature2019 and EcdsaSecp256k1Signature2019 proofs verify on their own curve only', async () => {
+  const r1 = issuerKey('P-256');
+  const r1Jwk = issuerKey('P-256', 'jwk');
+  const k1 = issuerKey('secp256k1');
+  const k1Jwk = issuerKey('secp256k1', 'jwk');
+  const options = { didResolver: resolverFor(r1, r1Jwk, k1, k1Jwk) };
+
+  for (const key of [r1, r1Jwk]) {
+    const credential = await signEcdsa(v1Credential, { type: 'EcdsaSecp256r1Signature2019' }, key);
+    assert.equal(await ecdsaR1Suite.verifyProof(credential, options), true, key.verificationMethod.id);
+    assert.equal(await ecdsaR1Suite.verifyProof(tamper(credential), options), false, key.verificationMethod.id);
+  }
+  const detached = await signEcdsa(v1Credential, { type: 'EcdsaSecp256r1Signature2019' }, r1, { jws: true });
+  assert.equal(await ecdsaR1Suite.verifyProof(detached, options), true);
+  assert.equal(await ecdsaR1Suite.verifyProof(tamper(detached), options), false);
+
+  for (const key of [k1, k1Jwk]) {
+    const credential = await signEcdsa(v1Credential, { type: 'EcdsaSecp256k1Signature2019' }, key);
+    assert.equal(await ecdsaR2Suite.verifyProof(credential, options), true, key.verificationMethod.id);
+    assert.equal(await ecdsaR2Suite.verifyProof(tamper(credential), options), false, key.verificationMethod.id);
+  }
+
+  // A secp256k1 key cannot make an r1 proof, nor a P-256 key a k1 proof, and the suites check their proof type
+  assert.equal(await ecdsaR1Suite.verifyProof(await signEcdsa(v1Credential, { type: 'EcdsaSecp256r1Signature2019' }, k1), options), false);
+  assert.equal(await ecdsaR2Suite.verifyProof(await signEcdsa(v1Credential, { type: 'EcdsaSecp256k1Signature2019' }, r1), options), false);
+  assert.equal(await ecdsaR1Suite.verifyProof(await signEcdsa(v1Credential, { type: 'EcdsaSecp256k1Signature2019' }, k1), options), false);
+});
+
+test('DataIntegrityProof ecdsa-rdfc-2019 and ecdsa-jcs-2019 verify P-256 and P-384 signatures over their canonical form', async () => {
+  const p256 = issuerKey('P-256');
+  const p384 = issuerKey('P-384');
+  const k1 = issuerKey('secp256k1');
+  const options = { didResolver: resolverFor(p256, p384, k1) };
+  const rdfc = { type: 'DataIntegrityProof', cryptosuite: 'ecdsa-rdfc-2019' };
+  const jcs = { type: 'DataIntegrityProof', cryptosuite: 'ecdsa-jcs-2019' };
+
+  for (const key of [p256, p384]) {
+    const rdfcCredential = await signEcdsa(v2Credential, rdfc, key);
+    assert.equal(await ecdsaRdfc2019Suite.verifyProof(rdfcCredential, options), true, key.crv);
+    assert.equal(await ecdsaRdfc2019Suite.verifyProof(tamper(rdfcCredential), options), false, key.crv);
+    const jcsCredential = await signEcdsa(v2Credential, jcs, key, { canonicalization: 'jcs' });
+    assert.equal(await ecdsaJcs2019Suite.verifyProof(jcsCredential, options), true, key.crv);
+    assert.equal(await ecdsaJcs2019Suite.verifyProof(tamper(jcsCredential), options), false, key.crv);
+  }
+
+  // JCS signs the JSON itself: reordering members keeps the proof valid, but an RDFC signature is not a JCS one
+  const jcsCredential = await signEcdsa(v2Credential, jcs, p256, { canonicalization: 'jcs' });
+  const { credentialSubject, ...rest } = jcsCredential;
+  assert.equal(await ecdsaJcs2019Suite.verifyProof({ credentialSubject: { degree: 'BSc', id: 'did:example:holder' }, ...rest } as SecuredDocument, options), true);
+  const mislabelled = await signEcdsa(v2Credential, { ...rdfc, cryptosuite: 'ecdsa-jcs-2019' }, p256);
+  assert.equal(await ecdsaJcs2019Suite.verifyProof(mislabelled, options), false);
+  assert.equal(await ecdsaRdfc2019Suite.verifyProof(await signEcdsa(v2Credential, rdfc, k1), options), false);
+
+  // W3cHandler selects the suite by cryptosuite
+  const handler = new W3cHandler(options);
+  assert.equal((await handler.verifyCredential(await signEcdsa(v2Credential, rdfc, p384) as unknown as VerifiableCredential)).status, 'verified');
+  assert.equal((await handler.verifyCredential(jcsCredential as unknown as VerifiableCredential)).status, 'verified');
+  assert.deepEqual(await handler.verifyCredential(await signEcdsa(v2Credential, { ...rdfc, cryptosuite: 'ecdsa-sd-2023' }, p256) as unknown as VerifiableCredential),
+    { status: 'rejected', error: 'Unsupported proof type: ecdsa-sd-2023' });
+});
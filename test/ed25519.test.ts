@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { createVerifyData } from '../src/crypto/data-integrity.ts';
+import { ed25519Suite } from '../src/crypto/ed25519-suite.ts';
+import { base58btcEncode, base64urlEncode } from '../src/crypto/encoding.ts';
+import { jwsSuite } from '../src/crypto/jws-suite.ts';
+import { W3cHandler } from '../src/handlers/w3c-handler.ts';
+import { DidResolver, SecuredDocument, VerifiableCredential, VerificationMethod } from '../src/types/index.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const ISSUER = 'did:example:issuer';
+
+const unsigned = (contexts: string[]) => ({
+  '@context': ['https://www.w3.org/2018/credentials/v1', ...contexts, 'https://www.w3.org/ns/credentials/undefined-terms/v2'],
+  id: 'urn:uuid:3978344f-8596-4c3a-a978-8fcaba3903c5',
+  type: ['VerifiableCredential'],
+  issuer: ISSUER,
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: 'did:example:holder', degree: 'BSc' }
+}) as unknown as Omit<VerifiableCredential, 'proof'>;
+
+// The issuer's DID document, with the keys listed for assertionMethod unless stated otherwise
+function resolverFor(verificationMethods: VerificationMethod[], assertionMethod = verificationMethods.map(method => method.id)): DidResolver {
+  return {
+    resolve: async (did: string) => did === ISSUER ? { '@context': ['https://www.w3.org/ns/did/v1'], id: ISSUER, verificationMethod: verificationMethods, assertionMethod } : null
+  };
+}
+
+// Signs a document with a detached RFC 7797 JWS over the Data Integrity verify data
+async function signDetachedJws(document: Record<string, any>, proof: Record<string, any>, alg: string, privateKey: KeyObject): Promise<SecuredDocument> {
+  const verifyData = await createVerifyData({ ...document, proof } as SecuredDocument);
+  const header = base64urlEncode(JSON.stringify({ alg, b64: false, crit: ['b64'] }));
+  const signingInput = Buffer.concat([Buffer.from(`${header}.`), verifyData]);
+  const signature = alg === 'EdDSA' ? sign(null, signingInput, privateKey) : sign('sha256', signingInput, { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return { ...document, proof: { ...proof, jws: `${header}..${base64urlEncode(signature)}` } } as unknown as SecuredDocument;
+}
+
+const tamper = (document: SecuredDocument) => ({ ...document, credentialSubject: { ...document.credentialSubject, degree: 'PhD' } }) as SecuredDocument;
+const proofOptions = (type: string, verificationMethod: string) => ({ type, created: '2024-01-01T00:00:00Z', verificationMethod, proofPurpose: 'assertionMethod' });
+
+test('Ed25519Signature2020 proofs verify over the canonicalized credential and fail when it is altered', async () => {
+  const issuer = createExampleIssuer(ISSUER);
+  const credential = await issuer.signCredential(unsigned(['https://w3id.org/security/suites/ed25519-2020/v1']));
+  const options = { didResolver: issuer.didResolver };
+
+  assert.equal(await ed25519Suite.verifyProof(credential as SecuredDocument, options), true);
+  assert.equal(await ed25519Suite.verifyProof(tamper(credential as SecuredDocument), options), false);
+  assert.equal(await ed25519Suite.verifyProof({ ...credential, proof: { ...credential.proof, created: '2020-01-01T00:00:00Z' } } as SecuredDocument, options), false);
+  assert.equal(await ed25519Suite.verifyProof({ ...credential, proof: { ...credential.proof, proofValue: credential.proof!.proofValue!.slice(1) } } as SecuredDocument, options), false);
+  // Another issuer's key under the same verification method id
+  assert.equal(await ed25519Suite.verifyProof(credential as SecuredDocument, { didResolver: createExampleIssuer(ISSUER).didResolver }), false);
+
+  const handler = new W3cHandler({ didResolver: issuer.didResolver });
+  assert.equal((await handler.verifyCredential(credential)).status, 'verified');
+  assert.deepEqual(await handler.verifyCredential(tamper(credential as SecuredDocument) as VerifiableCredential), { status: 'rejected', error: 'Proof verification failed' });
+
+  // Terms no context defines would drop out of the signed dataset, so safe-mode canonicalization rejects them
+  const undefinedTerm = await issuer.signCredential(unsigned(['https://w3id.org/security/suites/ed25519-2020/v1']));
+  undefinedTerm['@context'] = undefinedTerm['@context'].slice(0, 2);
+  await assert.rejects(ed25519Suite.verifyProof(undefinedTerm as SecuredDocument, options), /Safe mode validation error/);
+});
+
+test('Ed25519Signature2018 proofs verify as detached EdDSA JWS with Ed25519VerificationKey2018 keys', async () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const verificationMethod: VerificationMethod = {
+    id: `${ISSUER}#key-2018`,
+    type: 'Ed25519VerificationKey2018',
+    controller: ISSUER,
+    publicKeyBase58: base58btcEncode(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url'))
+  };
+  const options = { didResolver: resolverFor([verificationMethod]) };
+  // The credentials v1 context defines Ed25519Signature2018
+  const credential = await signDetachedJws(unsigned([]), proofOptions('Ed25519Signature2018', verificationMethod.id), 'EdDSA', privateKey);
+
+  assert.equal(await ed25519Suite.verifyProof(credential, options), true);
+  assert.equal(await ed25519Suite.verifyProof(tamper(credential), options), false);
+  // The JWS must be detached, unencoded (b64: false) and EdDSA
+  const [header, , signature] = credential.proof.jws.split('.');
+  assert.equal(await ed25519Suite.verifyProof({ ...credential, proof: { ...credential.proof, jws: `${header}.e30.${signature}` } }, options), false);
+  const es256Header = base64urlEncode(JSON.stringify({ alg: 'ES256', b64: false, crit: ['b64'] }));
+  assert.equal(await ed25519Suite.verifyProof({ ...credential, proof: { ...credential.proof, jws: `${es256Header}..${signature}` } }, options), false);
+
+  // Keys are only accepted for the relationship the proof claims
+  await assert.rejects(ed25519Suite.verifyProof(credential, { didResolver: resolverFor([verificationMethod], []) }), /is not authorized for assertionMethod/);
+  const p256 = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const ecMethod = { ...verificationMethod, type: 'JsonWebKey2020', publicKeyBase58: undefined, publicKeyJwk: p256.publicKey.export({ format: 'jwk' }) };
+  assert.equal(await ed25519Suite.verifyProof(credential, { didResolver: resolverFor([ecMethod]) }), false);
+});
+
+test('JsonWebSignature2020 proofs verify detached JWS for the key type of the verification method', async () => {
+  const jws2020 = ['https://w3id.org/security/suites/jws-2020/v1'];
+  for (const [alg, keys] of [['ES256', generateKeyPairSync('ec', { namedCurve: 'P-256' })], ['EdDSA', generateKeyPairSync('ed25519')]] as const) {
+    const verificationMethod: VerificationMethod = { id: `${ISSUER}#${alg}`, type: 'JsonWebKey2020', controller: ISSUER, publicKeyJwk: keys.publicKey.export({ format: 'jwk' }) };
+    const options = { didResolver: resolverFor([verificationMethod]) };
+    const credential = await signDetachedJws(unsigned(jws2020), proofOptions('JsonWebSignature2020', verificationMethod.id), alg, keys.privateKey);
+
+    assert.equal(await jwsSuite.verifyProof(credential, options), true, alg);
+    assert.equal(await jwsSuite.verifyProof(tamper(credential), options), false, alg);
+    assert.equal((await new W3cHandler(options).verifyCredential(credential as VerifiableCredential)).status, 'verified', alg);
+  }
+
+  // The algorithm follows the key: an ES256 JWS does not verify against a P-384 key
+  const p256 = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const p384 = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+  const verificationMethod: VerificationMethod = { id: `${ISSUER}#p384`, type: 'JsonWebKey2020', controller: ISSUER, publicKeyJwk: p384.publicKey.export({ format: 'jwk' }) };
+  const mismatched = await signDetachedJws(unsigned(jws2020), proofOptions('JsonWebSignature2020', verificationMethod.id), 'ES256', p256.privateKey);
+  assert.equal(await jwsSuite.verifyProof(mismatched, { didResolver: resolverFor([verificationMethod]) }), false);
+});
@@ -0,0 +1,133 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { jwkThumbprint } from '../src/crypto/holder-binding.ts';
+import { publicKeyFromVerificationMethod, resolveVerificationMethod } from '../src/crypto/verification-method.ts';
+import { W3cHandler } from '../src/handlers/w3c-handler.ts';
+import { DidResolver, PresentationRequest, VerifiableCredential, VerifiablePresentation } from '../src/types/index.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const CONTEXTS = ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1', 'https://www.w3.org/ns/credentials/undefined-terms/v2'];
+
+const issuer = createExampleIssuer('did:example:issuer');
+const holder = createExampleIssuer('did:example:holder');
+const stranger = createExampleIssuer('did:example:stranger');
+const didResolver: DidResolver = {
+  resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? (await holder.didResolver.resolve(did)) ?? stranger.didResolver.resolve(did)
+};
+
+const request = { id: 'w3c-request', request_credentials: [], challenge: '99612b24-63d9-11ea-b99f-4f66f3e4f81a', domain: 'https://verifier.example.com' } as PresentationRequest;
+
+const credential = (credentialSubject: Record<string, any>, claims: Record<string, any> = {}) => issuer.signCredential({
+  '@context': CONTEXTS,
+  id: 'urn:uuid:3978344f-8596-4c3a-a978-8fcaba3903c5',
+  type: ['VerifiableCredential'],
+  issuer: issuer.did,
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject,
+  ...claims
+} as unknown as Omit<VerifiableCredential, 'proof'>);
+const presentation = (credentials: VerifiableCredential[], holderDid = holder.did) =>
+  ({ '@context': CONTEXTS, type: ['VerifiablePresentation'], holder: holderDid, verifiableCredential: credentials }) as Omit<VerifiablePresentation, 'proof'>;
+const present = async (credentials: VerifiableCredential[], signer = holder, options = { challenge: request.challenge, domain: request.domain }) =>
+  signer.signPresentation(presentation(credentials), options);
+
+test('W3C presentations must carry an authentication proof by the holder over the request challenge and domain', async () => {
+  const handler = new W3cHandler({ didResolver });
+  const degree = await credential({ id: holder.did, degree: 'BSc' });
+  const rejection = async (vp: VerifiablePresentation, presentationRequest = request, verifier = handler) => {
+    const { status, error, errorCode } = await verifier.verify(vp, presentationRequest);
+    return { status, error, errorCode };
+  };
+
+  const vp = await present([degree]);
+  const result = await handler.verify(vp, request);
+  assert.equal(result.status, 'verified');
+  assert.deepEqual([result.holder, result.issuer, result.claims], [holder.did, issuer.did, { id: holder.did, degree: 'BSc' }]);
+
+  assert.deepEqual(await rejection(presentation([degree]) as VerifiablePresentation), { status: 'rejected', error: 'Presentation has no proof', errorCode: 'PRESENTATION_PROOF_MISSING' });
+  assert.equal((await rejection({ ...vp, proof: { ...vp.proof!, proofPurpose: 'assertionMethod' } })).errorCode, 'PROOF_PURPOSE_INVALID');
+
+  // The proof must be made with one of the holder's authentication keys
+  assert.deepEqual(await rejection({ ...await present([degree], stranger), holder: holder.did }), {
+    status: 'rejected', error: 'Presentation proof verification method does not belong to the holder', errorCode: 'HOLDER_KEY_MISMATCH'
+  });
+  const withoutAuthentication: DidResolver = {
+    resolve: async (did: string) => {
+      const document = await didResolver.resolve(did);
+      return document && { ...document, authentication: [] };
+    }
+  };
+  assert.equal((await rejection(vp, request, new W3cHandler({ didResolver: withoutAuthentication }))).errorCode, 'HOLDER_KEY_MISMATCH');
+
+  // The challenge and domain bind the presentation to the request
+  assert.deepEqual(await rejection(await present([degree], holder, { challenge: 'replayed', domain: request.domain })), {
+    status: 'rejected', error: 'Presentation proof challenge does not match the request challenge', errorCode: 'CHALLENGE_MISMATCH'
+  });
+  assert.equal((await handler.verify(vp)).errorCode, 'CHALLENGE_MISMATCH');
+  assert.deepEqual(await rejection(await present([degree], holder, { challenge: request.challenge, domain: 'https://other.example.com' })), {
+    status: 'rejected', error: 'Presentation proof domain does not match the request domain', errorCode: 'DOMAIN_MISMATCH'
+  });
+  // Without a request domain the handler's domain applies
+  const withoutDomain = { ...request, domain: undefined };
+  assert.equal((await new W3cHandler({ didResolver, domain: request.domain }).verify(vp, withoutDomain)).status, 'verified');
+  assert.equal((await new W3cHandler({ didResolver, domain: 'https://other.example.com' }).verify(vp, withoutDomain)).errorCode, 'DOMAIN_MISMATCH');
+
+  // The proof covers the whole presentation
+  assert.deepEqual(await rejection({ ...vp, verifiableCredential: [degree, degree] }), {
+    status: 'rejected', error: 'Presentation proof verification failed', errorCode: 'PRESENTATION_PROOF_INVALID'
+  });
+  assert.deepEqual(await rejection({ ...vp, proof: { ...vp.proof!, type: 'RsaSignature2018' } }), {
+    status: 'rejected', error: 'Unsupported presentation proof type: RsaSignature2018', errorCode: 'PRESENTATION_PROOF_INVALID'
+  });
+
+  // Holder binding can be made optional, but a proof that is present is still checked
+  const optional = new W3cHandler({ didResolver, requireHolderBinding: false });
+  assert.equal((await optional.verify(presentation([degree]) as VerifiablePresentation, request)).status, 'verified');
+  assert.equal((await rejection(vp, { ...request, challenge: 'other' }, optional)).errorCode, 'CHALLENGE_MISMATCH');
+});
+
+test('presented W3C credentials must be about the holder or confirm the holder key', async () => {
+  const handler = new W3cHandler({ didResolver });
+  const holderKid = `${holder.did}#key-1`;
+  const holderJwk = publicKeyFromVerificationMethod(await resolveVerificationMethod(holderKid, didResolver)).export({ format: 'jwk' });
+  const strangerJwk = publicKeyFromVerificationMethod(await resolveVerificationMethod(`${stranger.did}#key-1`, didResolver)).export({ format: 'jwk' });
+
+  const aboutStranger = await credential({ id: stranger.did, degree: 'BSc' });
+  assert.deepEqual(await handler.verify(await present([aboutStranger]), request), {
+    status: 'rejected',
+    error: 'Credential subject is not the holder and is not bound to the holder key',
+    errorCode: 'SUBJECT_NOT_BOUND',
+    credentials: [{ status: 'rejected', error: 'Credential subject is not the holder and is not bound to the holder key', errorCode: 'SUBJECT_NOT_BOUND' }]
+  });
+
+  for (const cnf of [{ kid: holderKid }, { jwk: holderJwk }, { jkt: jwkThumbprint(holderJwk) }]) {
+    const bound = await credential({ degree: 'BSc' }, { cnf });
+    assert.equal((await handler.verify(await present([bound]), request)).status, 'verified', JSON.stringify(cnf));
+    // The cnf of a subject works as well
+    const boundSubject = await credential({ degree: 'BSc', cnf });
+    assert.equal((await handler.verify(await present([boundSubject]), request)).status, 'verified', JSON.stringify(cnf));
+  }
+  for (const cnf of [{ kid: `${stranger.did}#key-1` }, { jwk: strangerJwk }, { jkt: jwkThumbprint(strangerJwk) }]) {
+    const bound = await credential({ degree: 'BSc' }, { cnf });
+    assert.equal((await handler.verify(await present([bound]), request)).errorCode, 'SUBJECT_NOT_BOUND', JSON.stringify(cnf));
+  }
+
+  // Without a holder proof there is no holder key to bind to
+  const optional = new W3cHandler({ didResolver, requireHolderBinding: false });
+  assert.equal((await optional.verify(presentation([aboutStranger]) as VerifiablePresentation, request)).status, 'verified');
+});
+
+test('jwkThumbprint hashes the required members of the JWK in lexicographic order (RFC 7638)', () => {
+  // RFC 7638 section 3.1
+  const jwk = {
+    kty: 'RSA',
+    n: '0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4cbbfAAtVT86zwu1RK7aPFFxuhDR1L6tSoc_BJECPebWKRXjBZCiFV4n3oknjhMstn64tZ_2W-5JsGY4Hc5n9yBXArwl93lqt7_RN5w6Cf0h4QyQ5v-65YGjQR0_FDW2QvzqY368QQMicAtaSqzs8KJZgnYb9c7d0zgdAZHzu6qMQvRL5hajrn1n91CbOpbISD08qNLyrdkt-bFTWhAI4vMQFh6WeZu0fM4lFd2NcRwr3XPksINHaQ-G_xBniIqbw0Ls1jF44-csFCur-kEgU8awapJzKnqDKgw',
+    e: 'AQAB',
+    alg: 'RS256',
+    kid: '2011-04-29'
+  };
+  assert.equal(jwkThumbprint(jwk), 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs');
+  // Optional members and member order do not change the thumbprint
+  assert.equal(jwkThumbprint({ e: jwk.e, n: jwk.n, kty: jwk.kty }), jwkThumbprint(jwk));
+  assert.throws(() => jwkThumbprint({ kty: 'oct', k: 'c2VjcmV0' }), /Unsupported JWK key type for thumbprint: oct/);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { queryJsonPath } from '../src/query/json-path.ts';
+
+const document = {
+  credentialSubject: {
+    name: 'Alice',
+    'given.name': 'Alice',
+    "it's": 'quoted',
+    address: { locality: 'Berlin', postal_code: '10115' },
+    nationalities: ['DE', 'FR', 'IT', 'ES']
+  }
+};
+
+const values = (expression: string) => queryJsonPath(document, expression).map(match => match.value);
+
+test('queryJsonPath selects member names in dot and bracket notation, with their paths', () => {
+  assert.deepEqual(queryJsonPath(document, '$.credentialSubject.address.locality'), [{ value: 'Berlin', path: ['credentialSubject', 'address', 'locality'] }]);
+  assert.deepEqual(values("$['credentialSubject']['given.name']"), ['Alice']);
+  assert.deepEqual(values('$.credentialSubject["it\'s"]'), ['quoted']);
+  assert.deepEqual(values("$.credentialSubject['it\\'s']"), ['quoted']);
+  assert.deepEqual(values('$.credentialSubject.missing'), []);
+  assert.deepEqual(values('$.credentialSubject.toString'), []);
+  assert.deepEqual(values('$'), [document]);
+});
+
+test('queryJsonPath selects indexes, slices, unions and wildcards', () => {
+  assert.deepEqual(values('$.credentialSubject.nationalities[0]'), ['DE']);
+  assert.deepEqual(values('$.credentialSubject.nationalities[-1]'), ['ES']);
+  assert.deepEqual(values('$.credentialSubject.nationalities[9]'), []);
+  assert.deepEqual(queryJsonPath(document, '$.credentialSubject.nationalities[1:3]').map(match => match.path[2]), [1, 2]);
+  assert.deepEqual(values('$.credentialSubject.nationalities[-2:]'), ['IT', 'ES']);
+  assert.deepEqual(values('$.credentialSubject.nationalities[:1]'), ['DE']);
+  assert.deepEqual(values("$.credentialSubject['name', 'address'].locality"), ['Berlin']);
+  assert.deepEqual(values('$.credentialSubject.nationalities[0, 2]'), ['DE', 'IT']);
+  assert.deepEqual(values('$.credentialSubject.address.*'), ['Berlin', '10115']);
+  assert.deepEqual(values('$.credentialSubject.nationalities[*]').length, 4);
+});
+
+test('queryJsonPath descends recursively with ..', () => {
+  assert.deepEqual(values('$..locality'), ['Berlin']);
+  assert.deepEqual(values('$..[0]'), ['DE']);
+  assert.deepEqual(queryJsonPath(document, "$..['postal_code']").map(match => match.path), [['credentialSubject', 'address', 'postal_code']]);
+});
+
+test('queryJsonPath rejects filters and malformed expressions', () => {
+  assert.throws(() => queryJsonPath(document, '$.credentialSubject.nationalities[?(@ == "DE")]'), /filter expressions are not supported/);
+  assert.throws(() => queryJsonPath(document, 'credentialSubject.name'), /must start with \$/);
+  assert.throws(() => queryJsonPath(document, '$.credentialSubject[name]'), /Unsupported JSONPath selector/);
+  assert.throws(() => queryJsonPath(document, "$.credentialSubject['name'"), /Unclosed bracket/);
+  assert.throws(() => queryJsonPath(document, '$credentialSubject'), /Malformed JSONPath/);
+});
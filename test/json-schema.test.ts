@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateJsonSchema } from '../src/schema/json-schema.ts';
+
+const errors = (schema: any, instance: any, options = {}) => validateJsonSchema(schema, instance, options).map(error => [error.instancePath, error.keyword]);
+
+test('$ref resolves $defs pointers, $anchor and $id resources against the current base', () => {
+  const schema = {
+    $id: 'https://schemas.example/person.json',
+    type: 'object',
+    properties: {
+      givenName: { $ref: '#name' },
+      familyName: { $ref: '#/$defs/name' },
+      address: { $ref: 'address.json' },
+      nationality: { $ref: 'https://schemas.example/codes.json#/$defs/country' }
+    },
+    $defs: {
+      name: { $anchor: 'name', type: 'string', minLength: 1 },
+      address: {
+        $id: 'address.json',
+        type: 'object',
+        required: ['country'],
+        // Resolved against address.json, not person.json
+        properties: { country: { $ref: '#/$defs/code' } },
+        $defs: { code: { type: 'string', pattern: '^[A-Z]{2}$' } }
+      }
+    }
+  };
+  const schemas = { 'https://schemas.example/codes.json': { $defs: { country: { enum: ['DE', 'FR'] } } } };
+
+  assert.deepEqual(validateJsonSchema(schema, { givenName: 'Erika', familyName: 'Mustermann', address: { country: 'DE' }, nationality: 'DE' }, { schemas }), []);
+  const [givenName, ...rest] = validateJsonSchema(schema, { givenName: '', address: { country: 'de' }, nationality: 'US' }, { schemas });
+  assert.deepEqual(givenName, { instancePath: '/givenName', schemaPath: '#/properties/givenName/$ref/minLength', keyword: 'minLength', message: 'must NOT have fewer than 1 characters' });
+  assert.deepEqual(rest.map(error => [error.instancePath, error.keyword]), [['/address/country', 'pattern'], ['/nationality', 'enum']]);
+  assert.deepEqual(errors(schema, { address: {} }, { schemas, instancePath: '/credentialSubject' }), [['/credentialSubject/address', 'required']]);
+
+  const tree = { $ref: '#/$defs/node', $defs: { node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } } } } };
+  assert.deepEqual(errors(tree, { children: [{ children: [{}] }, { children: [1] }] }), [['/children/1/children/0', 'type']]);
+
+  assert.throws(() => validateJsonSchema({ $ref: '#/$defs/missing' }, 1), /Cannot resolve \$ref #\/\$defs\/missing/);
+  assert.throws(() => validateJsonSchema({ $ref: 'https://schemas.example/unknown.json' }, 1), /Cannot resolve \$ref/);
+  assert.throws(() => validateJsonSchema({ $ref: '#' }, 1), /\$ref nesting deeper than 64/);
+});
+
+test('unevaluatedProperties sees properties evaluated by successful subschemas only', () => {
+  const schema = {
+    type: 'object',
+    properties: { id: { type: 'string' } },
+    allOf: [{ properties: { name: { type: 'string' } } }],
+    if: { properties: { kind: { const: 'person' } }, required: ['kind'] },
+    then: { properties: { age: { type: 'integer' } } },
+    unevaluatedProperties: false
+  };
+  assert.deepEqual(errors(schema, { id: 'a', name: 'Erika', kind: 'person', age: 42 }), []);
+  assert.deepEqual(errors(schema, { id: 'a', kind: 'organization', age: 42 }), [['/kind', 'unevaluatedProperties'], ['/age', 'unevaluatedProperties']]);
+
+  // The failed anyOf branch's annotations do not count
+  const anyOf = {
+    anyOf: [
+      { properties: { a: { type: 'string' } }, required: ['a'] },
+      { properties: { b: { type: 'number' } }, required: ['b'] }
+    ],
+    unevaluatedProperties: false
+  };
+  assert.deepEqual(errors(anyOf, { a: 'x', b: 1 }), []);
+  assert.deepEqual(errors(anyOf, { a: 'x', b: 'y' }), [['/b', 'unevaluatedProperties']]);
+
+  // Through $ref, and with a schema instead of false
+  const referenced = { $ref: '#/$defs/base', $defs: { base: { properties: { id: true } } }, unevaluatedProperties: { type: 'string' } };
+  assert.deepEqual(errors(referenced, { id: 1, note: 'ok', extra: 2 }), [['/extra', 'type']]);
+  // additionalProperties evaluates every remaining property
+  assert.deepEqual(errors({ additionalProperties: true, unevaluatedProperties: false }, { any: 1 }), []);
+});
+
+test('unevaluatedItems sees prefixItems, items and contains of successful subschemas', () => {
+  const schema = { prefixItems: [{ type: 'string' }], contains: { type: 'number' }, unevaluatedItems: false };
+  assert.deepEqual(errors(schema, ['a', 1, 2]), []);
+  assert.deepEqual(errors(schema, ['a', 1, true]), [['/2', 'unevaluatedItems']]);
+
+  const pair = { $ref: '#/$defs/pair', $defs: { pair: { prefixItems: [{ type: 'string' }, { type: 'string' }] } }, unevaluatedItems: { type: 'number' } };
+  assert.deepEqual(errors(pair, ['a', 'b', 3, 'd']), [['/3', 'type']]);
+  const oneOf = { oneOf: [{ prefixItems: [true], minItems: 2 }, { items: { type: 'string' } }], unevaluatedItems: false };
+  assert.deepEqual(errors(oneOf, ['a', 'b']), [['', 'oneOf'], ['/0', 'unevaluatedItems'], ['/1', 'unevaluatedItems']]);
+  assert.deepEqual(errors(oneOf, [1, 2]), [['/1', 'unevaluatedItems']]);
+});
+
+test('object keywords only consider own properties, so __proto__ and constructor keys are ordinary names', () => {
+  const instance = JSON.parse('{"name": "Erika", "__proto__": {"polluted": true}, "constructor": 1}');
+  assert.deepEqual(errors({ properties: { name: { type: 'string' } }, additionalProperties: false }, instance), [
+    ['/__proto__', 'additionalProperties'], ['/constructor', 'additionalProperties']
+  ]);
+  assert.deepEqual(errors({ properties: { name: true }, unevaluatedProperties: false }, instance), [
+    ['/__proto__', 'unevaluatedProperties'], ['/constructor', 'unevaluatedProperties']
+  ]);
+  assert.deepEqual(errors({ properties: { constructor: { type: 'string' } } }, instance), [['/constructor', 'type']]);
+  assert.deepEqual(errors(JSON.parse('{"properties": {"__proto__": {"required": ["polluted"]}}}'), JSON.parse('{"__proto__": {}}')), [['/__proto__', 'required']]);
+  assert.equal(({} as any).polluted, undefined);
+
+  // Inherited names are neither present nor schema properties
+  assert.deepEqual(errors({ required: ['constructor', 'toString'] }, {}), [['', 'required'], ['', 'required']]);
+  assert.deepEqual(errors({ dependentRequired: { name: ['hasOwnProperty'] } }, { name: 'Erika' }), [['', 'dependentRequired']]);
+  assert.deepEqual(errors({ properties: {}, additionalProperties: false }, { toString: 'x' }), [['/toString', 'additionalProperties']]);
+  assert.deepEqual(errors({ const: JSON.parse('{"__proto__": 1}') }, JSON.parse('{"__proto__": 1}')), []);
+  assert.deepEqual(errors({ const: JSON.parse('{"__proto__": 1}') }, {}), [['', 'const']]);
+  assert.throws(() => validateJsonSchema({ $ref: '#/$defs/constructor', $defs: {} }, 1), /Cannot resolve \$ref #\/\$defs\/constructor/);
+});
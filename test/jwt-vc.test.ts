@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { jwkThumbprint } from '../src/crypto/holder-binding.ts';
+import { base64urlEncode } from '../src/crypto/encoding.ts';
+import { publicKeyFromVerificationMethod, resolveVerificationMethod } from '../src/crypto/verification-method.ts';
+import { JwtVcHandler } from '../src/handlers/jwt-vc-handler.ts';
+import { DidResolver, PresentationRequest } from '../src/types/index.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const issuer = createExampleIssuer('did:example:issuer');
+const holder = createExampleIssuer('did:example:holder');
+const stranger = createExampleIssuer('did:example:stranger');
+const didResolver: DidResolver = {
+  resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? (await holder.didResolver.resolve(did)) ?? stranger.didResolver.resolve(did)
+};
+
+const request = { id: 'jwt-vc-request', request_credentials: [], challenge: 'n-0S6_WzA2Mj', domain: 'https://verifier.example.com' } as PresentationRequest;
+const now = Math.floor(Date.now() / 1000);
+
+const vcJwt = (claims: Record<string, any> = { sub: holder.did }) => issuer.signJwt({
+  iss: issuer.did,
+  jti: 'urn:uuid:3978344f-8596-4c3a-a978-8fcaba3903c5',
+  nbf: now,
+  exp: now + 3600,
+  vc: {
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiableCredential', 'IdentityCredential'],
+    credentialSubject: { givenName: 'Alice', birthdate: '1990-01-01' }
+  },
+  ...claims
+});
+const vpJwt = (credentials: string[], claims: Record<string, any> = {}, signer = holder) => signer.signJwt({
+  iss: signer.did,
+  aud: request.domain,
+  nonce: request.challenge,
+  iat: now,
+  vp: { '@context': ['https://www.w3.org/2018/credentials/v1'], type: ['VerifiablePresentation'], verifiableCredential: credentials },
+  ...claims
+});
+
+test('VP JWTs are verified for the holder signature, nonce and aud, then each VC JWT independently', async () => {
+  const handler = new JwtVcHandler({ didResolver });
+  const rejection = async (presentation: string) => {
+    const { status, error, errorCode } = await handler.verify(presentation, request);
+    return { status, error, errorCode };
+  };
+
+  const result = await handler.verify(vpJwt([vcJwt()]), request);
+  assert.equal(result.status, 'verified');
+  assert.deepEqual(result.claims, { givenName: 'Alice', birthdate: '1990-01-01', id: holder.did });
+  assert.deepEqual([result.issuer, result.holder, result.credentialType], [issuer.did, holder.did, 'VerifiableCredential, IdentityCredential']);
+
+  // The nonce and aud bind the presentation to the request
+  assert.deepEqual(await rejection(vpJwt([vcJwt()], { nonce: 'replayed' })), { status: 'rejected', error: 'VP JWT nonce does not match the request challenge', errorCode: 'CHALLENGE_MISMATCH' });
+  assert.equal((await handler.verify(vpJwt([vcJwt()]))).errorCode, 'CHALLENGE_MISMATCH');
+  assert.deepEqual(await rejection(vpJwt([vcJwt()], { aud: 'https://other.example.com' })), { status: 'rejected', error: 'VP JWT aud does not match the expected audience', errorCode: 'DOMAIN_MISMATCH' });
+  assert.equal((await rejection(vpJwt([vcJwt()], { aud: undefined }))).errorCode, 'DOMAIN_MISMATCH');
+  // Without a request domain the handler's audience applies
+  const withoutDomain = { ...request, domain: undefined };
+  assert.equal((await new JwtVcHandler({ didResolver, audience: request.domain }).verify(vpJwt([vcJwt()]), withoutDomain)).status, 'verified');
+  assert.equal((await new JwtVcHandler({ didResolver, audience: 'https://other.example.com' }).verify(vpJwt([vcJwt()]), withoutDomain)).errorCode, 'DOMAIN_MISMATCH');
+
+  // The holder must have signed the presentation with one of its authentication keys
+  const [header, , signature] = vpJwt([vcJwt()]).split('.');
+  const tampered = `${header}.${base64urlEncode(JSON.stringify({ iss: holder.did, aud: request.domain, nonce: request.challenge, vp: { verifiableCredential: [vcJwt()] } }))}.${signature}`;
+  assert.deepEqual(await rejection(tampered), { status: 'rejected', error: 'VP JWT signature is invalid', errorCode: 'PRESENTATION_PROOF_INVALID' });
+  assert.deepEqual(await rejection(stranger.signJwt({ iss: holder.did, aud: request.domain, nonce: request.challenge, vp: { verifiableCredential: [vcJwt()] } })),
+    { status: 'rejected', error: 'JWT kid does not belong to the issuer', errorCode: 'HOLDER_KEY_MISMATCH' });
+  assert.equal((await rejection(vpJwt([vcJwt()], { vp: { holder: stranger.did, verifiableCredential: [vcJwt()] } }))).errorCode, 'HOLDER_KEY_MISMATCH');
+
+  // Someone else presenting the holder's credential
+  assert.deepEqual(await rejection(vpJwt([vcJwt()], {}, stranger)), {
+    status: 'rejected', error: 'Credential subject is not the holder and is not bound to the holder key', errorCode: 'SUBJECT_NOT_BOUND'
+  });
+
+  // Each VC JWT is checked on its own: issuer signature, iss and validity window
+  const [vcHeader, vcPayload, vcSignature] = vcJwt().split('.');
+  const forged = `${vcHeader}.${vcPayload}.${vcSignature.slice(0, -4)}AAAA`;
+  assert.deepEqual(await rejection(vpJwt([vcJwt(), forged])), { status: 'rejected', error: 'VC JWT signature is invalid', errorCode: undefined });
+  assert.equal((await rejection(vpJwt([stranger.signJwt({ iss: issuer.did, sub: holder.did, vc: { credentialSubject: {} } })]))).error, 'JWT kid does not belong to the issuer');
+  assert.equal((await rejection(vpJwt([vcJwt({ sub: holder.did, exp: now - 3600 })]))).error, 'VC JWT has expired');
+  assert.equal((await rejection(vpJwt([vcJwt({ sub: holder.did, nbf: now + 3600 })]))).error, 'VC JWT is not yet valid');
+  assert.deepEqual(await rejection(vpJwt([])), { status: 'rejected', error: 'No verifiable credential', errorCode: undefined });
+});
+
+test('cnf binds VC JWTs without the holder as subject to the holder key by kid, jwk or jkt', async () => {
+  const handler = new JwtVcHandler({ didResolver });
+  const holderKid = `${holder.did}#key-1`;
+  const holderJwk = publicKeyFromVerificationMethod(await resolveVerificationMethod(holderKid, didResolver)).export({ format: 'jwk' });
+  const strangerJwk = publicKeyFromVerificationMethod(await resolveVerificationMethod(`${stranger.did}#key-1`, didResolver)).export({ format: 'jwk' });
+
+  for (const cnf of [{ kid: holderKid }, { jwk: holderJwk }, { jkt: jwkThumbprint(holderJwk) }]) {
+    const result = await handler.verify(vpJwt([vcJwt({ cnf })]), request);
+    assert.equal(result.status, 'verified', JSON.stringify(cnf));
+    assert.equal(result.holder, holder.did);
+  }
+  for (const cnf of [{ kid: `${stranger.did}#key-1` }, { jwk: strangerJwk }, { jkt: jwkThumbprint(strangerJwk) }]) {
+    assert.equal((await handler.verify(vpJwt([vcJwt({ cnf })]), request)).errorCode, 'SUBJECT_NOT_BOUND', JSON.stringify(cnf));
+  }
+  // A credential about someone else is not bound by the holder merely presenting it
+  assert.equal((await handler.verify(vpJwt([vcJwt({ sub: stranger.did })]), request)).errorCode, 'SUBJECT_NOT_BOUND');
+  assert.equal((await handler.verify(vpJwt([vcJwt({ sub: stranger.did, cnf: { kid: holderKid } })]), request)).status, 'verified');
+});
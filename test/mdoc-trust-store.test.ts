@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes, webcrypto } from 'crypto';
+import 'reflect-metadata';
+import * as x509 from '@peculiar/x509';
+import { MDL_DOCUMENT_SIGNER_EKU, MdocTrustStore } from '../src/crypto/mdoc-trust-store.ts';
+import { createExampleMdocIssuer } from '../examples/example-mdoc-issuer.ts';
+
+const DOC_TYPE = 'org.iso.18013.5.1.mDL';
+const algorithm = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+const notBefore = new Date(Date.now() - 24 * 60 * 60 * 1000);
+const notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+const issuer = await createExampleMdocIssuer();
+const trustStore = new MdocTrustStore({ iacaCertificates: [issuer.iacaCertificate.toString('pem')] });
+
+// A certificate issued by a CA (self-signed when issuer is omitted)
+async function certificate(subject: string, extensions: x509.Extension[], issuer?: { certificate: x509.X509Certificate; keys: CryptoKeyPair }) {
+  const keys = await webcrypto.subtle.generateKey(algorithm, true, ['sign', 'verify']) as CryptoKeyPair;
+  const certificate = await x509.X509CertificateGenerator.create({
+    serialNumber: randomBytes(8).toString('hex'),
+    subject,
+    issuer: issuer?.certificate.subject ?? subject,
+    notBefore,
+    notAfter,
+    signingAlgorithm: algorithm,
+    publicKey: keys.publicKey,
+    signingKey: (issuer?.keys ?? keys).privateKey,
+    extensions
+  });
+  return { certificate, keys };
+}
+
+const caExtensions = (pathLength: number) => [
+  new x509.BasicConstraintsExtension(true, pathLength, true),
+  new x509.KeyUsagesExtension(x509.KeyUsageFlags.keyCertSign | x509.KeyUsageFlags.cRLSign, true)
+];
+const documentSignerExtensions = [
+  new x509.KeyUsagesExtension(x509.KeyUsageFlags.digitalSignature, true),
+  new x509.ExtendedKeyUsageExtension([MDL_DOCUMENT_SIGNER_EKU], true)
+];
+
+test('document signer paths validate up to a trusted IACA, through intermediates within the path length', async () => {
+  const { anchor, path } = await trustStore.validateDocumentSigner([issuer.certificate.toString('pem')], { docType: DOC_TYPE });
+  assert.equal(anchor.subject, issuer.iacaCertificate.subject);
+  assert.deepEqual(path.map(certificate => certificate.subject), [issuer.certificate.subject]);
+
+  const root = await certificate('C=DE, CN=Root IACA', caExtensions(1));
+  const intermediate = await certificate('C=DE, CN=Intermediate CA', caExtensions(0), root);
+  const signer = await certificate('C=DE, CN=Document Signer', documentSignerExtensions, intermediate);
+  const rooted = new MdocTrustStore({ iacaCertificates: [new Uint8Array(root.certificate.rawData)] });
+  const chain = [signer.certificate.rawData, intermediate.certificate.rawData].map(der => new Uint8Array(der));
+  assert.equal((await rooted.validateDocumentSigner(chain)).path.length, 2);
+  await assert.rejects(rooted.validateDocumentSigner(chain.slice(0, 1)), /Document Signer does not chain to a trusted anchor/);
+
+  // A root that allows no intermediate CA (path length 0)
+  const strictRoot = await certificate('C=DE, CN=Strict IACA', caExtensions(0));
+  const strictIntermediate = await certificate('C=DE, CN=Strict Intermediate CA', caExtensions(0), strictRoot);
+  const strictSigner = await certificate('C=DE, CN=Strict Document Signer', documentSignerExtensions, strictIntermediate);
+  const strict = new MdocTrustStore({ iacaCertificates: [strictRoot.certificate.toString('pem')] });
+  await assert.rejects(strict.validateDocumentSigner([strictSigner.certificate.toString('pem'), strictIntermediate.certificate.toString('pem')]), /path length constraint exceeded/);
+});
+
+test('document signer paths to an untrusted root, or with the wrong profile, docType or time, are rejected', async () => {
+  const stranger = await createExampleMdocIssuer('C=US, CN=Stranger Signer', 'C=US, CN=Stranger IACA');
+  await assert.rejects(trustStore.validateDocumentSigner([stranger.certificate.toString('pem')]), /Stranger Signer does not chain to a trusted anchor/);
+  // A root with the trusted IACA's name but another key
+  const impostor = await createExampleMdocIssuer('C=US, CN=Impostor Signer', issuer.iacaCertificate.subject);
+  await assert.rejects(trustStore.validateDocumentSigner([impostor.certificate.toString('pem')]), /does not chain to a trusted anchor/);
+  await assert.rejects(new MdocTrustStore().validateDocumentSigner([issuer.certificate.toString('pem')]), /No trust anchors configured/);
+
+  await assert.rejects(trustStore.validateDocumentSigner([issuer.iacaCertificate.toString('pem')]), /Example IACA lacks the digitalSignature key usage/);
+  await assert.rejects(trustStore.validateDocumentSigner([issuer.certificate.toString('pem')], { now: new Date(Date.now() + 2 * 365 * 24 * 60 * 60 * 1000) }), /is not valid at/);
+  const scoped = MdocTrustStore.fromVical({ certificateInfos: [{ certificate: issuer.iacaCertificate.toString('pem'), docType: ['org.iso.23220.photoid.1'] }] });
+  await assert.rejects(scoped.validateDocumentSigner([issuer.certificate.toString('pem')], { docType: DOC_TYPE }), /is not authorized for docType org\.iso\.18013\.5\.1\.mDL/);
+});
+
+test('CRLs from the issuing CA revoke document signers, and must be signed by it', async () => {
+  const current = new MdocTrustStore({ iacaCertificates: [issuer.iacaCertificate.toString('pem')], crls: [(await issuer.createCrl()).toString('pem')] });
+  await current.validateDocumentSigner([issuer.certificate.toString('pem')]);
+
+  const revoking = new MdocTrustStore({ iacaCertificates: [issuer.iacaCertificate.toString('pem')], crls: [(await issuer.createCrl([issuer.certificate])).toString('pem')] });
+  await assert.rejects(revoking.validateDocumentSigner([issuer.certificate.toString('pem')]), /Example mDL Document Signer has been revoked/);
+
+  // A CRL under the IACA's name, signed by another key
+  const impostor = await createExampleMdocIssuer('C=US, CN=Impostor Signer', issuer.iacaCertificate.subject);
+  const forged = new MdocTrustStore({ iacaCertificates: [issuer.iacaCertificate.toString('pem')], crls: [new Uint8Array((await impostor.createCrl()).rawData)] });
+  await assert.rejects(forged.validateDocumentSigner([issuer.certificate.toString('pem')]), /CRL signature from .*Example IACA is invalid/);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Tag } from 'cbor-x';
+import { cborDecoder, cborEncoder } from '../src/crypto/cose.ts';
+import { mdocDeviceAuthSuite } from '../src/crypto/mdoc-suite.ts';
+import { MdocTrustStore } from '../src/crypto/mdoc-trust-store.ts';
+import { MdlHandler } from '../src/handlers/mdl-handler.ts';
+import { PresentationRequest } from '../src/types/index.ts';
+import { createDeviceResponse, createExampleDeviceKey, createExampleMdocIssuer } from '../examples/example-mdoc-issuer.ts';
+
+const DOC_TYPE = 'org.iso.18013.5.1.mDL';
+const NAMESPACE = 'org.iso.18013.5.1';
+const DAY = 24 * 60 * 60 * 1000;
+
+const issuer = await createExampleMdocIssuer();
+const device = createExampleDeviceKey();
+const issuerSigned = () => issuer.issue(DOC_TYPE, { [NAMESPACE]: { given_name: 'Bob', age_over_18: true } }, device.publicKey);
+const sessionTranscript = await mdocDeviceAuthSuite.generateSessionTranscript({ handover: 'challenge-1' });
+const request: PresentationRequest = { id: 'mdl-request', request_credentials: [{ type: 'mDL' }], challenge: 'challenge-1', sessionTranscript };
+const handler = new MdlHandler({ trustStore: new MdocTrustStore({ iacaCertificates: [issuer.iacaCertificate.toString('pem')] }) });
+
+test('mdoc IssuerSigned items must match the MSO valueDigests under a valid document signer signature', async () => {
+  const { claims, validityInfo } = await mdocDeviceAuthSuite.verifyIssuerSigned(DOC_TYPE, issuerSigned());
+  assert.deepEqual(claims, { [NAMESPACE]: { given_name: 'Bob', age_over_18: true } });
+  assert.ok(validityInfo.validUntil.getTime() > Date.now());
+
+  // An IssuerSignedItem whose value was changed after signing
+  const tampered = issuerSigned();
+  const [first, ...rest]: Tag[] = tampered.get('nameSpaces').get(NAMESPACE);
+  const item: Map<string, any> = cborDecoder.decode(first.value);
+  item.set('elementValue', 'Mallory');
+  tampered.get('nameSpaces').set(NAMESPACE, [new Tag(cborEncoder.encode(item), 24), ...rest]);
+  await assert.rejects(mdocDeviceAuthSuite.verifyIssuerSigned(DOC_TYPE, tampered), /Value digest mismatch for org\.iso\.18013\.5\.1\/given_name/);
+
+  // An item the MSO has no digest for
+  const extra = issuerSigned();
+  const unknownItem = cborEncoder.encode(new Map<string, any>([['digestID', 99], ['random', new Uint8Array(16)], ['elementIdentifier', 'portrait'], ['elementValue', 'x']]));
+  extra.get('nameSpaces').get(NAMESPACE).push(new Tag(unknownItem, 24));
+  await assert.rejects(mdocDeviceAuthSuite.verifyIssuerSigned(DOC_TYPE, extra), /Value digest mismatch for org\.iso\.18013\.5\.1\/portrait/);
+
+  const forged = issuerSigned();
+  const [protectedHeader, unprotectedHeader, payload, signature] = forged.get('issuerAuth');
+  forged.set('issuerAuth', [protectedHeader, unprotectedHeader, payload, Uint8Array.from(signature, (byte: number, index: number) => index === 0 ? byte ^ 1 : byte)]);
+  await assert.rejects(mdocDeviceAuthSuite.verifyIssuerSigned(DOC_TYPE, forged), /MSO signature is invalid/);
+  await assert.rejects(mdocDeviceAuthSuite.verifyIssuerSigned('org.iso.23220.photoid.1', issuerSigned()), /does not match document docType/);
+});
+
+test('mdoc MSO validity window is enforced with clock skew', async () => {
+  const signed = issuerSigned();
+  await mdocDeviceAuthSuite.verifyIssuerSigned(DOC_TYPE, signed, { now: new Date(Date.now() - 30 * 1000) });
+  await assert.rejects(mdocDeviceAuthSuite.verifyIssuerSigned(DOC_TYPE, signed, { now: new Date(Date.now() - 5 * 60 * 1000) }), /MSO is not yet valid/);
+  await assert.rejects(mdocDeviceAuthSuite.verifyIssuerSigned(DOC_TYPE, signed, { now: new Date(Date.now() + 366 * DAY) }), /MSO has expired/);
+  await mdocDeviceAuthSuite.verifyIssuerSigned(DOC_TYPE, signed, { now: new Date(Date.now() - 5 * 60 * 1000), clockSkew: 600 });
+});
+
+test('MdlHandler verifies DeviceAuth against the request SessionTranscript', async () => {
+  const mdl = (deviceResponse: Uint8Array, transcript?: Uint8Array) => ({ type: ['mDL'], deviceResponse, ...(transcript && { sessionTranscript: transcript }) });
+
+  const verified = await handler.verify(mdl(createDeviceResponse(DOC_TYPE, issuerSigned(), device.privateKey, sessionTranscript)), request);
+  assert.equal(verified.status, 'verified');
+  assert.equal(verified.claims?.[NAMESPACE].given_name, 'Bob');
+
+  // Device authentication made for another session, or by a key other than the MSO's device key
+  const otherTranscript = await mdocDeviceAuthSuite.generateSessionTranscript({ handover: 'challenge-2' });
+  const replayed = await handler.verify(mdl(createDeviceResponse(DOC_TYPE, issuerSigned(), device.privateKey, otherTranscript)), request);
+  assert.deepEqual([replayed.status, replayed.error, replayed.errorCode], ['rejected', 'Device authentication failed', 'PRESENTATION_PROOF_INVALID']);
+  const stolen = await handler.verify(mdl(createDeviceResponse(DOC_TYPE, issuerSigned(), createExampleDeviceKey().privateKey, sessionTranscript)), request);
+  assert.equal(stolen.errorCode, 'PRESENTATION_PROOF_INVALID');
+
+  // The presentation cannot choose the transcript it is verified against
+  const response = createDeviceResponse(DOC_TYPE, issuerSigned(), device.privateKey, otherTranscript);
+  const substituted = await handler.verify(mdl(response, otherTranscript), request);
+  assert.deepEqual([substituted.error, substituted.errorCode], ['SessionTranscript does not match the request', 'CHALLENGE_MISMATCH']);
+  const unbound = await handler.verify(mdl(response, otherTranscript), { ...request, sessionTranscript: undefined });
+  assert.equal(unbound.errorCode, 'CHALLENGE_MISMATCH');
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { createVerifier } from '../src/core/index.ts';
+import { SdJwtHandler } from '../src/handlers/sd-jwt-handler.ts';
+import { base64urlDecode, base64urlEncode } from '../src/crypto/encoding.ts';
+import { OID4VP_Adapter } from '../src/protocol-adapters/oid4vp-adapter.ts';
+import { MemorySessionStore } from '../src/session/memory-session-store.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const baseUrl = 'https://verifier.example/oid4vp';
+const issuer = createExampleIssuer('did:example:issuer');
+const holder = generateKeyPairSync('ed25519');
+const digest = (value: string) => base64urlEncode(createHash('sha256').update(value).digest());
+const disclosure = base64urlEncode(JSON.stringify([base64urlEncode(randomBytes(16)), 'age_over_18', true]));
+const sdJwt = issuer.signJwt({
+  iss: issuer.did,
+  iat: Math.floor(Date.now() / 1000),
+  vct: 'urn:eudi:pid:1',
+  _sd_alg: 'sha-256',
+  _sd: [digest(disclosure)],
+  cnf: { jwk: holder.publicKey.export({ format: 'jwk' }) }
+}, { typ: 'dc+sd-jwt' });
+const dcql_query = { credentials: [{ id: 'pid', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:1'] }, claims: [{ path: ['age_over_18'] }] }] };
+const verifier = createVerifier({ handlers: [new SdJwtHandler({ didResolver: issuer.didResolver })] });
+
+// The wallet's SD-JWT presentation, with a Key Binding JWT over the request's nonce and client_id
+function present(nonce: string, aud: string): string {
+  const presented = `${sdJwt}~${disclosure}~`;
+  const header = base64urlEncode(JSON.stringify({ alg: 'EdDSA', typ: 'kb+jwt' }));
+  const payload = base64urlEncode(JSON.stringify({ nonce, aud, iat: Math.floor(Date.now() / 1000), sd_hash: digest(presented) }));
+  return `${presented}${header}.${payload}.${base64urlEncode(sign(null, Buffer.from(`${header}.${payload}`), holder.privateKey))}`;
+}
+
+function claimsOf(jwt: string): Record<string, any> {
+  return JSON.parse(Buffer.from(base64urlDecode(jwt.split('.')[1])).toString('utf8'));
+}
+
+function respond(adapter: OID4VP_Adapter, requestObject: Record<string, any>, nonce = requestObject.nonce) {
+  const body = new URLSearchParams({ vp_token: JSON.stringify({ pid: [present(nonce, requestObject.client_id)] }), state: requestObject.state });
+  return adapter.handle({ method: 'POST', url: `${baseUrl}/response`, body: body.toString() });
+}
+
+function createAdapter(): OID4VP_Adapter {
+  return new OID4VP_Adapter({
+    clientId: `${baseUrl}/response`,
+    clientIdScheme: 'redirect_uri',
+    baseUrl,
+    redirectUri: 'https://verifier.example/done',
+    verifier
+  });
+}
+
+test('OID4VP transactions are answered once through handle()', async () => {
+  const adapter = createAdapter();
+  const { transactionId, requestUri } = await adapter.createAuthorizationRequest({ id: 'r1', request_credentials: [], challenge: '', dcql_query });
+  const served = await adapter.handle({ method: 'GET', url: requestUri });
+  assert.equal(served.status, 200);
+  const requestObject = claimsOf(served.body);
+
+  const response = await respond(adapter, requestObject);
+  assert.equal(response.status, 200);
+  const responseCode = new URL(response.body.redirect_uri).hash.split('response_code=')[1];
+  assert.equal(await adapter.getResult(transactionId), null);
+  assert.equal((await adapter.getResult(transactionId, responseCode))?.result?.status, 'verified');
+
+  const replay = await respond(adapter, requestObject);
+  assert.equal(replay.status, 400);
+  assert.equal(replay.body.error_description, 'Transaction has already been answered');
+});
+
+test('OID4VP responses that fail verification leave the transaction open', async () => {
+  const adapter = createAdapter();
+  const { transactionId, requestObject } = await adapter.createAuthorizationRequest({ id: 'r2', request_credentials: [], challenge: 'n2', dcql_query });
+  const claims = claimsOf(requestObject);
+
+  const malformed = await adapter.handle({ method: 'POST', url: `${baseUrl}/response`, body: `state=${claims.state}&vp_token=not-json` });
+  assert.equal(malformed.status, 400);
+  const wrongNonce = await respond(adapter, claims, 'other-nonce');
+  const rejectedCode = new URL(wrongNonce.body.redirect_uri).hash.split('response_code=')[1];
+  assert.equal((await adapter.getResult(transactionId, rejectedCode))?.result?.status, 'rejected');
+
+  const response = await respond(adapter, claims);
+  const responseCode = new URL(response.body.redirect_uri).hash.split('response_code=')[1];
+  assert.equal((await adapter.getResult(transactionId, responseCode))?.result?.status, 'verified');
+});
+
+test('OID4VP_Adapter accepts responses to requests rendered by createRequest', async () => {
+  const sessionStore = new MemorySessionStore();
+  const requester = createVerifier({ handlers: [new SdJwtHandler({ didResolver: issuer.didResolver })], sessionStore });
+  const adapter = new OID4VP_Adapter({ clientId: `${baseUrl}/response`, clientIdScheme: 'redirect_uri', baseUrl, verifier, sessionStore });
+  const request = await requester.createRequest({ dcql_query, protocols: { oid4vp: { responseUri: adapter.responseUri } } });
+  const parameters = request.protocolRequests!.oid4vp!.parameters;
+
+  const response = await respond(adapter, parameters);
+  assert.equal(response.status, 200);
+  const result = await adapter.getResult(request.id);
+  assert.equal(result?.status, 'response_received');
+  assert.equal(result?.result?.status, 'verified');
+  assert.equal((await adapter.handle({ method: 'GET', url: `${baseUrl}/request/${request.id}` })).status, 404);
+});
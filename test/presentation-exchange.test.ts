@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluatePresentationSubmission } from '../src/query/presentation-exchange.ts';
+import { CredentialVerificationResult, InputDescriptor, PresentationDefinition } from '../src/types/index.ts';
+
+// An SD-JWT VC whose iss, vct and sub are always visible, and whose age_over_18 and address.locality were disclosed
+const pid: CredentialVerificationResult = {
+  status: 'verified',
+  credentialType: 'urn:eudi:pid:1',
+  issuer: 'did:example:issuer',
+  claims: { sub: 'user-42', issuing_country: 'DE', age_over_18: true, address: { locality: 'Berlin' } },
+  disclosedPaths: [['age_over_18'], ['address', 'locality']]
+};
+const degree: CredentialVerificationResult = {
+  status: 'verified',
+  credentialType: 'VerifiableCredential, UniversityDegreeCredential',
+  issuer: 'did:example:university',
+  claims: { id: 'did:example:holder', degree: { type: 'BachelorDegree', gpa: 3.8 } }
+};
+
+function definition(input_descriptors: InputDescriptor[], extra: Partial<PresentationDefinition> = {}): PresentationDefinition {
+  return { id: 'definition', input_descriptors, ...extra };
+}
+
+function submit(...entries: [string, string, number][]) {
+  return { id: 'submission', definition_id: 'definition', descriptor_map: entries.map(([id, format, index]) => ({ id, format, path: `$.verifiableCredential[${index}]` })) };
+}
+
+test('limit_disclosure counts only the claims the SD-JWT disclosures revealed', () => {
+  const descriptor = (paths: string[]): InputDescriptor => ({
+    id: 'pid',
+    constraints: { limit_disclosure: 'required', fields: [{ path: ['$.vct'], filter: { const: 'urn:eudi:pid:1' } }, ...paths.map(path => ({ path: [path] }))] }
+  });
+  const minimal = evaluatePresentationSubmission(definition([descriptor(['$.age_over_18', '$.address.locality'])]), submit(['pid', 'dc+sd-jwt', 0]), [pid]);
+  assert.deepEqual(minimal.errors, []);
+
+  const overDisclosed = evaluatePresentationSubmission(definition([descriptor(['$.age_over_18'])]), submit(['pid', 'dc+sd-jwt', 0]), [pid]);
+  assert.equal(overDisclosed.valid, false);
+  assert.match(overDisclosed.descriptors[0].errors[0], /claims were disclosed that no field requests: address\.locality$/);
+
+  // Without disclosedPaths every claim value counts as disclosed
+  const { disclosedPaths, ...undisclosed } = pid;
+  assert.equal(evaluatePresentationSubmission(definition([descriptor(['$.age_over_18', '$.address.locality'])]), submit(['pid', 'dc+sd-jwt', 0]), [undisclosed]).valid, false);
+});
+
+test('field constraints try paths in order and apply JSON Schema filters', () => {
+  const fields = (filter: Record<string, any>, optional = false): InputDescriptor[] => [{
+    id: 'degree',
+    format: { ldp_vc: {} },
+    constraints: { fields: [{ path: ['$.missing', '$.credentialSubject.degree.gpa'], filter }, { path: ['$.credentialSubject.major'], optional }] }
+  }];
+  assert.equal(evaluatePresentationSubmission(definition(fields({ type: 'number', minimum: 3 }), { format: {} }), submit(['degree', 'ldp_vc', 0]), [degree]).valid, false);
+  assert.equal(evaluatePresentationSubmission(definition(fields({ type: 'number', minimum: 3 }, true)), submit(['degree', 'ldp_vc', 0]), [degree]).valid, true);
+  const filtered = evaluatePresentationSubmission(definition(fields({ minimum: 3.9 }, true)), submit(['degree', 'ldp_vc', 0]), [degree]);
+  assert.match(filtered.descriptors[0].errors[0], /field \$\.missing does not match its filter: \$\.credentialSubject\.degree\.gpa must be >= 3\.9$/);
+  const wrongFormat = evaluatePresentationSubmission(definition(fields({}, true)), submit(['degree', 'jwt_vc_json', 0]), [degree]);
+  assert.match(wrongFormat.descriptors[0].errors[0], /format jwt_vc_json is not accepted \(ldp_vc\)/);
+  assert.deepEqual(evaluatePresentationSubmission(definition(fields({}, true)), submit(['degree', 'ldp_vc', 1]), [degree]).descriptors[0].errors, ['$.verifiableCredential[1]: no verified credential at position 1']);
+});
+
+test('submission requirements pick from groups and nested requirements', () => {
+  const descriptors: InputDescriptor[] = [
+    { id: 'pid', group: ['A'], constraints: { fields: [{ path: ['$.vct'] }] } },
+    { id: 'degree', group: ['A', 'B'], constraints: { fields: [{ path: ['$.credentialSubject.degree.type'] }] } },
+    { id: 'passport', group: ['B'], constraints: { fields: [{ path: ['$.passport_number'] }] } }
+  ];
+  const submission = submit(['pid', 'dc+sd-jwt', 0], ['degree', 'ldp_vc', 1]);
+  const evaluate = (submission_requirements: PresentationDefinition['submission_requirements']) =>
+    evaluatePresentationSubmission(definition(descriptors, { submission_requirements }), submission, [pid, degree]);
+
+  assert.equal(evaluate([{ rule: 'all', from: 'A' }]).valid, true);
+  assert.deepEqual(evaluate([{ rule: 'all', from: 'B' }]).errors, ['Submission requirement 0: all 2 of group B are required, 1 satisfied']);
+  assert.equal(evaluate([{ rule: 'pick', count: 1, from: 'B' }]).valid, true);
+  assert.deepEqual(evaluate([{ name: 'one', rule: 'pick', max: 1, from: 'A' }]).errors, ['Submission requirement one: at most 1 of group A are allowed, 2 satisfied']);
+  assert.equal(evaluate([{ rule: 'pick', min: 2, from_nested: [{ rule: 'all', from: 'A' }, { rule: 'pick', count: 1, from: 'B' }] }]).valid, true);
+  assert.equal(evaluatePresentationSubmission(definition(descriptors), submission, [pid, degree]).errors[0], 'Input descriptor passport is not satisfied');
+  assert.equal(evaluatePresentationSubmission(definition(descriptors), { ...submission, definition_id: 'other' }, [pid, degree]).errors[0], 'presentation_submission is for definition other, not definition');
+});
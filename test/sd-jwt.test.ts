@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { base64urlEncode } from '../src/crypto/encoding.ts';
+import { jwkThumbprint } from '../src/crypto/holder-binding.ts';
+import { sdJwtSuite } from '../src/crypto/sd-jwt-suite.ts';
+import { SdJwtHandler } from '../src/handlers/sd-jwt-handler.ts';
+import { VerifiablePresentation } from '../src/types/index.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const issuer = createExampleIssuer('did:example:issuer');
+const holderKeys = generateKeyPairSync('ed25519');
+const holderJwk = holderKeys.publicKey.export({ format: 'jwk' });
+const options = { didResolver: issuer.didResolver, challenge: 'nonce-1', audience: 'https://verifier.example' };
+
+const digest = (value: string) => base64urlEncode(createHash('sha256').update(value).digest());
+const disclosure = (...content: any[]) => base64urlEncode(JSON.stringify([base64urlEncode(randomBytes(16)), ...content]));
+const now = () => Math.floor(Date.now() / 1000);
+
+const givenName = disclosure('given_name', 'Alice');
+const age = disclosure('age', 30);
+const nationality = disclosure('DE');
+
+function issue(claims: Record<string, any> = {}, header: Record<string, any> = { typ: 'dc+sd-jwt' }) {
+  return issuer.signJwt({
+    iss: issuer.did,
+    iat: now(),
+    vct: 'https://example.com/identity_credential',
+    _sd_alg: 'sha-256',
+    _sd: [givenName, age].map(digest),
+    nationalities: [{ '...': digest(nationality) }],
+    cnf: { jwk: holderJwk },
+    ...claims
+  }, header);
+}
+
+// The issuer-signed JWT with disclosures, and a Key Binding JWT over them unless kb is null
+function present(issuerJwt: string, disclosures: string[], kb: Record<string, any> | null = {}) {
+  const presented = `${issuerJwt}~${disclosures.map(value => `${value}~`).join('')}`;
+  if (kb === null) {
+    return presented;
+  }
+  const header = base64urlEncode(JSON.stringify({ alg: 'EdDSA', typ: 'kb+jwt' }));
+  const payload = base64urlEncode(JSON.stringify({ nonce: options.challenge, aud: options.audience, iat: now(), sd_hash: digest(presented), ...kb }));
+  return `${presented}${header}.${payload}.${base64urlEncode(sign(null, Buffer.from(`${header}.${payload}`), holderKeys.privateKey))}`;
+}
+
+test('SD-JWT disclosures reveal only the claims they are digests of', async () => {
+  const { claims, disclosedPaths, keyBinding } = await sdJwtSuite.verifyPresentation(present(issue(), [givenName, nationality]), options);
+  assert.deepEqual(claims, { given_name: 'Alice', nationalities: ['DE'] });
+  assert.deepEqual(disclosedPaths, [['nationalities', 0], ['given_name']]);
+  assert.equal(keyBinding?.nonce, options.challenge);
+
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(issue(), [givenName, disclosure('family_name', 'Doe')]), options), /disclosure that is not referenced by any digest/);
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(issue(), [givenName, givenName]), options), /duplicate disclosure/);
+  // A disclosure whose content was changed no longer hashes to its digest, so nothing references it
+  const tampered = base64urlEncode(JSON.stringify([JSON.parse(Buffer.from(givenName, 'base64url').toString())[0], 'given_name', 'Mallory']));
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(issue(), [tampered]), options), /not referenced by any digest/);
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(issue({ _sd: [digest(givenName), digest(givenName)] }), [givenName]), options), /digest is referenced more than once/);
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(issue({ _sd: [digest(nationality)], nationalities: [] }), [nationality]), options), /object property disclosure must have a claim name/);
+});
+
+test('SD-JWT issuer JWTs need a dc+sd-jwt or vc+sd-jwt typ, a valid signature and validity window', async () => {
+  await sdJwtSuite.verifyPresentation(present(issue({}, { typ: 'vc+sd-jwt' }), []), options);
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(issue({}, { typ: 'JWT' }), []), options), /Unexpected SD-JWT typ: JWT/);
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(issue({}, {}), []), options), /Unexpected SD-JWT typ: none/);
+  const [header, payload, signature] = issue().split('.');
+  const forged = `${header}.${base64urlEncode(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), vct: 'forged' }))}.${signature}`;
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(forged, []), options), /issuer signature is invalid/);
+  await assert.rejects(sdJwtSuite.verifyPresentation(present(issue({ exp: now() - 3600 }), []), options), /has expired/);
+});
+
+test('SD-JWT Key Binding JWTs must be present, fresh and bound to the disclosures, nonce and audience', async () => {
+  const reject = (sdJwt: string, code: string, message: RegExp) =>
+    assert.rejects(sdJwtSuite.verifyPresentation(sdJwt, options), (error: any) => error.code === code && message.test(error.message));
+  await reject(present(issue(), [givenName], null), 'PRESENTATION_PROOF_MISSING', /missing the Key Binding JWT/);
+  await sdJwtSuite.verifyPresentation(present(issue(), [givenName], null), { ...options, requireKeyBinding: false });
+  await reject(present(issue(), [givenName], { iat: now() - 3600 }), 'PRESENTATION_PROOF_INVALID', /iat is outside the accepted window/);
+  await reject(present(issue(), [givenName], { sd_hash: digest(`${issue()}~`) }), 'PRESENTATION_PROOF_INVALID', /sd_hash does not match/);
+  await reject(present(issue(), [givenName], { nonce: 'other' }), 'CHALLENGE_MISMATCH', /nonce does not match/);
+  await reject(present(issue(), [givenName], { aud: 'https://other.example' }), 'DOMAIN_MISMATCH', /aud does not match/);
+  await reject(present(issue({ cnf: undefined }), [givenName]), 'SUBJECT_NOT_BOUND', /no cnf\.jwk holder key/);
+
+  // Dropping a disclosure after the holder signed changes the sd_hash
+  const presented = present(issue(), [givenName, age]);
+  await reject(presented.replace(`${age}~`, ''), 'PRESENTATION_PROOF_INVALID', /sd_hash does not match/);
+});
+
+test('SdJwtHandler takes the holder from the signed sub or cnf key, not from the presentation', async () => {
+  const handler = new SdJwtHandler({ didResolver: issuer.didResolver });
+  const request = { id: 'request-1', request_credentials: [], challenge: options.challenge, domain: options.audience };
+  const wrap = (sdJwt: string) => ({
+    '@context': ['https://www.w3.org/2018/credentials/v1'],
+    type: ['VerifiablePresentation'],
+    holder: 'did:example:someone-else',
+    proof: { type: 'SD-JWT', sdJwt }
+  }) as unknown as VerifiablePresentation;
+
+  const bound = await handler.verify(wrap(present(issue(), [age])), request);
+  assert.equal(bound.status, 'verified');
+  assert.equal(bound.holder, `urn:ietf:params:oauth:jwk-thumbprint:sha-256:${jwkThumbprint(holderJwk)}`);
+  assert.equal((await handler.verify(wrap(present(issue({ sub: 'did:example:holder' }), [age])), request)).holder, 'did:example:holder');
+
+  const unbound = await handler.verify(wrap(present(issue(), [age], { nonce: 'other' })), request);
+  assert.equal(unbound.status, 'rejected');
+  assert.equal(unbound.errorCode, 'CHALLENGE_MISMATCH');
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, generateKeyPairSync, KeyObject, randomBytes, sign } from 'crypto';
+import { createVerifier } from '../src/core/index.ts';
+import { SdJwtHandler } from '../src/handlers/sd-jwt-handler.ts';
+import { base64urlEncode } from '../src/crypto/encoding.ts';
+import { jwkThumbprint } from '../src/crypto/holder-binding.ts';
+import { SIOPAdapter } from '../src/protocol-adapters/siop-adapter.ts';
+import { PresentationRequest } from '../src/types/index.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const clientId = 'https://rp.example';
+const issuer = createExampleIssuer('did:example:issuer');
+const alice = createExampleIssuer('did:example:alice');
+const holder = generateKeyPairSync('ed25519');
+const holderJwk = holder.publicKey.export({ format: 'jwk' });
+const digest = (value: string) => base64urlEncode(createHash('sha256').update(value).digest());
+const disclosure = base64urlEncode(JSON.stringify([base64urlEncode(randomBytes(16)), 'age_over_18', true]));
+const dcql_query = { credentials: [{ id: 'pid', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:1'] }, claims: [{ path: ['age_over_18'] }] }] };
+const didResolver = {
+  resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? alice.didResolver.resolve(did)
+};
+const verifier = createVerifier({ handlers: [new SdJwtHandler({ didResolver })] });
+
+function signJwt(payload: Record<string, any>, privateKey: KeyObject, header: Record<string, any> = {}): string {
+  const encoded = `${base64urlEncode(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', ...header }))}.${base64urlEncode(JSON.stringify(payload))}`;
+  return `${encoded}.${base64urlEncode(sign(null, Buffer.from(encoded), privateKey))}`;
+}
+
+// A self-issued ID token for the holder's sub_jwk, with claims overridden per test
+function idToken(claims: Record<string, any> = {}, key = holder): string {
+  const jwk = key.publicKey.export({ format: 'jwk' });
+  const now = Math.floor(Date.now() / 1000);
+  const sub = jwkThumbprint(jwk);
+  return signJwt({ iss: sub, sub, aud: clientId, iat: now, exp: now + 300, sub_jwk: jwk, ...claims }, key.privateKey);
+}
+
+// An SD-JWT bound to the key's cnf, presented with a Key Binding JWT over the nonce
+function vpToken(nonce: string, key = holder): Record<string, string[]> {
+  const sdJwt = issuer.signJwt({
+    iss: issuer.did,
+    iat: Math.floor(Date.now() / 1000),
+    vct: 'urn:eudi:pid:1',
+    _sd_alg: 'sha-256',
+    _sd: [digest(disclosure)],
+    cnf: { jwk: key.publicKey.export({ format: 'jwk' }) }
+  }, { typ: 'dc+sd-jwt' });
+  const presented = `${sdJwt}~${disclosure}~`;
+  const kbJwt = signJwt({ nonce, aud: clientId, iat: Math.floor(Date.now() / 1000), sd_hash: digest(presented) }, key.privateKey, { typ: 'kb+jwt' });
+  return { pid: [`${presented}${kbJwt}`] };
+}
+
+function request(id: string, withQuery = true): PresentationRequest {
+  return { id, request_credentials: [], challenge: `nonce-${id}`, domain: clientId, ...(withQuery && { dcql_query }) };
+}
+
+test('validateIdToken accepts a self-issued sub_jwk token and a DID subject', async () => {
+  const siop = new SIOPAdapter({ clientId, didResolver });
+  const subject = await siop.validateIdToken(idToken({ nonce: 'n1' }), 'n1');
+  assert.equal(subject.subjectSyntaxType, 'jwk_thumbprint');
+  assert.equal(subject.id, jwkThumbprint(holderJwk));
+
+  const now = Math.floor(Date.now() / 1000);
+  const didToken = alice.signJwt({ iss: alice.did, sub: alice.did, aud: [clientId, 'https://other.example'], iat: now, exp: now + 60 });
+  const didSubject = await siop.validateIdToken(didToken);
+  assert.equal(didSubject.subjectSyntaxType, 'did');
+  assert.equal(didSubject.verificationMethod, `${alice.did}#key-1`);
+});
+
+test('validateIdToken rejects tokens that are not self-issued, not for this client or not current', async () => {
+  const siop = new SIOPAdapter({ clientId, didResolver, clockSkew: 30, maxAge: 120 });
+  const now = Math.floor(Date.now() / 1000);
+  const other = generateKeyPairSync('ed25519');
+  const cases: [string, string, RegExp][] = [
+    ['iss != sub', idToken({ iss: 'https://op.example' }), /iss must equal sub/],
+    ['sub is not the sub_jwk thumbprint', idToken({ sub_jwk: other.publicKey.export({ format: 'jwk' }) }), /not the JWK thumbprint/],
+    ['sub_jwk holds a private key', idToken({ sub_jwk: holder.privateKey.export({ format: 'jwk' }) }), /must be a public key/],
+    ['signed with another key', signJwt(JSON.parse(Buffer.from(idToken().split('.')[1], 'base64url').toString()), other.privateKey), /signature is invalid/],
+    ['DID subject with sub_jwk', alice.signJwt({ iss: alice.did, sub: alice.did, aud: clientId, iat: now, exp: now + 60, sub_jwk: holderJwk }), /must not carry sub_jwk/],
+    ['audience', idToken({ nonce: 'n1', aud: 'https://other.example' }), /audience does not include/],
+    ['nonce', idToken({ nonce: 'other' }), /nonce does not match/],
+    ['no nonce', idToken(), /nonce does not match/],
+    ['expired beyond the skew', idToken({ nonce: 'n1', exp: now - 31 }), /has expired/],
+    ['issued in the future beyond the skew', idToken({ nonce: 'n1', iat: now + 45 }), /issued in the future/],
+    ['older than maxAge', idToken({ nonce: 'n1', iat: now - 200 }), /too old/],
+    ['no exp', idToken({ nonce: 'n1', exp: undefined }), /numeric exp and iat/]
+  ];
+  for (const [name, token, error] of cases) {
+    await assert.rejects(siop.validateIdToken(token, 'n1'), error, name);
+  }
+  await siop.validateIdToken(idToken({ nonce: 'n1', exp: now - 20, iat: now + 20 }), 'n1');
+});
+
+test('verifyResponse answers a request once, after the vp_token verifies for the ID token subject', async () => {
+  const siop = new SIOPAdapter({ clientId, didResolver, verifier });
+  const { state, nonce } = await siop.createAuthenticationRequest(request('r1'));
+  assert.equal((await siop.createAuthenticationRequest(request('r0', false))).response_type, 'id_token');
+
+  await assert.rejects(siop.verifyResponse({ id_token: idToken({ nonce }), vp_token: vpToken(nonce!), state: 'other' }), /state does not match/);
+  await assert.rejects(siop.verifyResponse({ id_token: idToken({ nonce }), state }), /has none/);
+
+  const mallory = generateKeyPairSync('ed25519');
+  const stolen = await siop.verifyResponse({ id_token: idToken({ nonce }, mallory), vp_token: vpToken(nonce!), state });
+  assert.equal(stolen.status, 'rejected');
+  assert.match(stolen.verificationResult.error!, /not presented by the ID token subject/);
+  const wrongNonce = await siop.verifyResponse({ id_token: idToken({ nonce }), vp_token: vpToken('other'), state });
+  assert.equal(wrongNonce.status, 'rejected');
+
+  const response = await siop.verifyResponse({ id_token: idToken({ nonce }), vp_token: vpToken(nonce!), state });
+  assert.equal(response.status, 'verified');
+  assert.equal(response.subject, jwkThumbprint(holderJwk));
+  await assert.rejects(siop.verifyResponse({ id_token: idToken({ nonce }), vp_token: vpToken(nonce!), state }), /already used/);
+});
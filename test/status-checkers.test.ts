@@ -0,0 +1,131 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate } from 'timers/promises';
+import { CompositeStatusChecker } from '../src/status/composite-status-checker.ts';
+import { StatusListCache } from '../src/status/status-list-cache.ts';
+import { StatusListUnreachableError } from '../src/status/status-list.ts';
+import { StatusChecker, VerifiableCredential } from '../src/types/index.ts';
+
+const LIST_URL = 'https://issuer.example/status/1';
+
+// A status list server: each request is recorded, and answered by the current handler
+function server(respond: (request: { headers: Record<string, string> }) => Response | Promise<Response>) {
+  const requests: Record<string, string>[] = [];
+  const fetch = (async (_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>;
+    requests.push(headers);
+    return respond({ headers });
+  }) as typeof globalThis.fetch;
+  return { fetch, requests };
+}
+
+const json = (body: any, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json', ...headers } });
+
+test('StatusListCache serves fresh lists, revalidates stale ones with If-None-Match and keeps 304 bodies', async () => {
+  let version = 1;
+  const { fetch, requests } = server(({ headers }) =>
+    headers['if-none-match'] === `"v${version}"` ? new Response(null, { status: 304 }) : json({ version }, { etag: `"v${version}"` }));
+
+  const fresh = new StatusListCache({ fetch });
+  assert.deepEqual(await fresh.fetch(LIST_URL), { version: 1 });
+  assert.deepEqual(await fresh.fetch(LIST_URL), { version: 1 });
+  assert.equal(requests.length, 1);
+  assert.match(requests[0].accept, /application\/statuslist\+jwt/);
+
+  const revalidating = new StatusListCache({ fetch, ttl: 0 });
+  await revalidating.fetch(LIST_URL);
+  assert.deepEqual(await revalidating.fetch(LIST_URL), { version: 1 });
+  assert.equal(requests.at(-1)?.['if-none-match'], '"v1"');
+  version = 2;
+  assert.deepEqual(await revalidating.fetch(LIST_URL), { version: 2 });
+
+  // Cache-Control max-age takes precedence over the ttl
+  const maxAge = server(() => json({ version }, { 'cache-control': 'max-age=600' }));
+  const honouring = new StatusListCache({ fetch: maxAge.fetch, ttl: 0 });
+  await honouring.fetch(LIST_URL);
+  await honouring.fetch(LIST_URL);
+  assert.equal(maxAge.requests.length, 1);
+});
+
+test('StatusListCache serves stale lists while revalidating within the stale-while-revalidate window', async () => {
+  let version = 1;
+  let reachable = true;
+  const { fetch, requests } = server(() => reachable ? json({ version }) : new Response('unavailable', { status: 503 }));
+  const cache = new StatusListCache({ fetch, ttl: 0, staleWhileRevalidate: 60 });
+
+  await cache.fetch(LIST_URL);
+  version = 2;
+  assert.deepEqual(await cache.fetch(LIST_URL), { version: 1 });
+  await setImmediate();
+  assert.equal(requests.length, 2);
+  assert.deepEqual(await cache.fetch(LIST_URL), { version: 2 });
+
+  // A failed background revalidation keeps serving the stale list
+  reachable = false;
+  assert.deepEqual(await cache.fetch(LIST_URL), { version: 2 });
+  await setImmediate();
+  assert.deepEqual(await cache.fetch(LIST_URL), { version: 2 });
+
+  // Outside the window the list must be fetched again
+  const expired = new StatusListCache({ fetch, ttl: 0 });
+  await assert.rejects(expired.fetch(LIST_URL), (error: any) => error instanceof StatusListUnreachableError && /HTTP 503/.test(error.message));
+  const offline = new StatusListCache({ fetch: (async () => { throw new Error('ECONNREFUSED'); }) as typeof globalThis.fetch });
+  await assert.rejects(offline.fetch(LIST_URL), /could not be fetched from .*: ECONNREFUSED/);
+});
+
+const credential = (...types: string[]) => ({
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  type: ['VerifiableCredential'],
+  issuer: 'did:example:issuer',
+  credentialSubject: { id: 'did:example:holder' },
+  credentialStatus: types.map((type, index) => ({
+    id: `${LIST_URL}#${index}`, type, statusPurpose: 'revocation', statusListIndex: String(index), statusListCredential: LIST_URL
+  }))
+}) as unknown as VerifiableCredential;
+
+test('CompositeStatusChecker applies the unreachable policy only to lists that could not be fetched', async () => {
+  const unreachable = new StatusListCache({ fetch: (async () => new Response('', { status: 500 })) as typeof globalThis.fetch });
+  const check = (unreachablePolicy: 'fail-closed' | 'soft-fail' | 'fail-open') =>
+    new CompositeStatusChecker({ cache: unreachable, unreachablePolicy }).checkStatus(credential('BitstringStatusListEntry'));
+
+  const closed = await check('fail-closed');
+  assert.deepEqual([closed.active, closed.unreachablePolicy], [false, 'fail-closed']);
+  assert.match(closed.reason!, /could not be fetched .*HTTP 500/);
+  const soft = await check('soft-fail');
+  assert.deepEqual([soft.active, soft.warnings?.length], [true, 1]);
+  assert.deepEqual(await check('fail-open'), { active: true, unreachablePolicy: 'fail-open' });
+
+  // A list that was fetched but fails verification rejects under every policy
+  const invalid = new StatusListCache({ fetch: (async () => json({ type: ['VerifiableCredential'], issuer: 'did:example:other' })) as typeof globalThis.fetch });
+  const rejected = await new CompositeStatusChecker({ cache: invalid, unreachablePolicy: 'fail-open' }).checkStatus(credential('BitstringStatusListEntry'));
+  assert.deepEqual([rejected.active, rejected.reason], [false, 'Status list credential was not issued by the credential issuer']);
+});
+
+test('CompositeStatusChecker routes each entry to its checker and rejects entries no checker handles', async () => {
+  const checked: string[] = [];
+  const testChecker: StatusChecker = {
+    canHandle: entry => ((entry as VerifiableCredential).credentialStatus as any)?.type === 'TestStatusEntry',
+    checkStatus: async entry => {
+      const { statusListIndex } = (entry as VerifiableCredential).credentialStatus as any;
+      checked.push(statusListIndex);
+      return statusListIndex === '1' ? { active: false, reason: 'Credential has been revoked' } : { active: true };
+    }
+  };
+
+  const composite = new CompositeStatusChecker({ checkers: [testChecker] });
+  assert.deepEqual(await composite.checkStatus(credential('TestStatusEntry')), { active: true });
+  assert.deepEqual(await composite.checkStatus(credential('TestStatusEntry', 'TestStatusEntry')), { active: false, reason: 'Credential has been revoked' });
+  assert.deepEqual(checked, ['0', '0', '1']);
+
+  assert.equal(composite.canHandle(credential('UnknownStatusEntry')), true);
+  assert.deepEqual(await composite.checkStatus(credential('TestStatusEntry', 'UnknownStatusEntry')), {
+    active: false, reason: 'No status checker for status entry type UnknownStatusEntry'
+  });
+
+  const lenient = new CompositeStatusChecker({ checkers: [testChecker], unhandledPolicy: 'soft-fail' });
+  assert.equal(lenient.canHandle(credential('UnknownStatusEntry')), false);
+  assert.deepEqual(await lenient.checkStatus(credential('TestStatusEntry', 'UnknownStatusEntry')), {
+    active: true, warnings: ['No status checker for status entry type UnknownStatusEntry']
+  });
+});
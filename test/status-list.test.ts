@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { gzipSync } from 'zlib';
+import { BitstringStatusListChecker } from '../src/status/bitstring-statuslist-checker.ts';
+import { StatusList2021Checker } from '../src/status/statuslist2021-checker.ts';
+import { decodeStatusList, readStatus } from '../src/status/status-list.ts';
+import { VerifiableCredential } from '../src/types/index.ts';
+
+const LIST_URL = 'https://issuer.example/status/1';
+const encode = (bytes: number[]) => gzipSync(Buffer.from(bytes)).toString('base64url');
+
+// Bits 0, 15, 20 and 23 set: with statusSize 2, entries 0 and 10 are 0b10, entries 7 and 11 are 0b01
+const bitstring = [0b10000000, 0b00000001, 0b00001001];
+
+function statusList(overrides: Record<string, any> = {}, subject: Record<string, any> = {}) {
+  return {
+    '@context': ['https://www.w3.org/ns/credentials/v2'],
+    type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+    issuer: 'did:example:issuer',
+    validFrom: '2024-01-01T00:00:00Z',
+    credentialSubject: { id: `${LIST_URL}#list`, type: 'BitstringStatusList', statusPurpose: 'revocation', encodedList: `u${encode(bitstring)}`, ...subject },
+    ...overrides
+  };
+}
+
+function credential(entry: Record<string, any>, issuer = 'did:example:issuer') {
+  return {
+    '@context': ['https://www.w3.org/ns/credentials/v2'],
+    type: ['VerifiableCredential'],
+    issuer: { id: issuer },
+    credentialSubject: { id: 'did:example:holder' },
+    credentialStatus: { id: `${LIST_URL}#${entry.statusListIndex}`, type: 'BitstringStatusListEntry', statusPurpose: 'revocation', statusListCredential: LIST_URL, ...entry }
+  } as unknown as VerifiableCredential;
+}
+
+// The status list credential's proof is checked by an injected verifier, so the tests focus on the list itself
+function checker(list: any, verified = true) {
+  return new BitstringStatusListChecker({
+    fetcher: async () => list,
+    credentialVerifier: { verifyCredential: async () => verified ? { status: 'verified' } : { status: 'rejected', error: 'bad proof' } }
+  });
+}
+
+test('status list bitstrings are GZIP-compressed base64url and read most significant bit first', () => {
+  const decoded = decodeStatusList(encode(bitstring));
+  assert.deepEqual([...decoded], bitstring);
+  assert.deepEqual([...decodeStatusList(`u${encode(bitstring)}`)], bitstring);
+  assert.deepEqual([...decodeStatusList(gzipSync(Buffer.from(bitstring)).toString('base64'))], bitstring);
+  assert.throws(() => decodeStatusList(Buffer.from(bitstring).toString('base64url')), /not a GZIP-compressed base64url bitstring/);
+
+  assert.deepEqual([0, 1, 7, 8, 15].map(index => readStatus(decoded, index)), [1, 0, 0, 0, 1]);
+  assert.deepEqual([0, 1, 7, 10, 11].map(index => readStatus(decoded, index, 2)), [2, 0, 1, 2, 1]);
+  assert.equal(readStatus(decoded, 2, 8), 0b00001001);
+  assert.throws(() => readStatus(decoded, 24), /index 24 is out of range/);
+  assert.throws(() => readStatus(decoded, 3, 8), /index 3 is out of range/);
+});
+
+test('BitstringStatusListChecker reports revocation, suspension and status messages', async () => {
+  assert.deepEqual(await checker(statusList()).checkStatus(credential({ statusListIndex: '1' })), { active: true, purpose: 'revocation', status: 0 });
+  const revoked = await checker(statusList()).checkStatus(credential({ statusListIndex: '15' }));
+  assert.deepEqual([revoked.active, revoked.reason], [false, 'Credential has been revoked']);
+
+  const suspensionList = statusList({}, { statusPurpose: ['revocation', 'suspension'] });
+  const suspended = await checker(suspensionList).checkStatus(credential({ statusListIndex: '0', statusPurpose: 'suspension' }));
+  assert.deepEqual([suspended.active, suspended.reason], [false, 'Credential is suspended']);
+
+  const statusMessage = [{ status: '0x0', message: 'valid' }, { status: '0x1', message: 'pending' }, { status: '0x2', message: 'rejected' }];
+  const messageList = statusList({}, { statusPurpose: 'message' });
+  const message = await checker(messageList).checkStatus(credential({ statusListIndex: '10', statusPurpose: 'message', statusSize: 2, statusMessage }));
+  assert.deepEqual([message.active, message.status, message.message], [true, 2, 'rejected']);
+
+  // StatusList2021 entries are always one bit
+  const list2021 = { ...statusList(), type: ['VerifiableCredential', 'StatusList2021Credential'], credentialSubject: { ...statusList().credentialSubject, type: 'StatusList2021' } };
+  const entry2021 = { ...credential({ statusListIndex: '15' }).credentialStatus, type: 'StatusList2021Entry', statusSize: 2 };
+  const status2021 = await new StatusList2021Checker({ fetcher: async () => list2021, credentialVerifier: { verifyCredential: async () => ({ status: 'verified' }) } })
+    .checkStatus({ ...credential({ statusListIndex: '15' }), credentialStatus: entry2021 } as VerifiableCredential);
+  assert.deepEqual([status2021.active, status2021.status], [false, 1]);
+});
+
+test('status list credentials must match the entry purpose and the credential issuer, and verify', async () => {
+  await assert.rejects(checker(statusList()).checkStatus(credential({ statusListIndex: '0', statusPurpose: 'suspension' })), /purpose does not match the status entry purpose suspension/);
+  await assert.rejects(checker(statusList()).checkStatus(credential({ statusListIndex: '0' }, 'did:example:other')), /was not issued by the credential issuer/);
+  await assert.rejects(checker(statusList({ issuer: { id: 'did:example:other' } })).checkStatus(credential({ statusListIndex: '0' })), /was not issued by the credential issuer/);
+  await assert.rejects(checker(statusList({ type: ['VerifiableCredential'] })).checkStatus(credential({ statusListIndex: '0' })), /is not a BitstringStatusListCredential/);
+  await assert.rejects(checker(statusList({ validUntil: '2020-01-01T00:00:00Z' })).checkStatus(credential({ statusListIndex: '0' })), /has expired/);
+  await assert.rejects(checker(statusList(), false).checkStatus(credential({ statusListIndex: '0' })), /verification failed: bad proof/);
+  await assert.rejects(checker(statusList()).checkStatus(credential({ statusListIndex: '-1' })), /invalid statusListIndex/);
+  await assert.rejects(checker(statusList()).checkStatus(credential({ statusListIndex: '0', statusSize: 9 })), /invalid statusSize/);
+  await assert.rejects(checker(statusList()).checkStatus(credential({ statusListIndex: '100' })), /index 100 is out of range/);
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateSync } from 'zlib';
+import { KeyObject, randomBytes, sign, webcrypto } from 'crypto';
+import 'reflect-metadata';
+import * as x509 from '@peculiar/x509';
+import { Tag } from 'cbor-x';
+import { cborEncoder } from '../src/crypto/cose.ts';
+import { MDL_DOCUMENT_SIGNER_EKU, MdocTrustStore } from '../src/crypto/mdoc-trust-store.ts';
+import { readTokenStatus, TokenStatusListChecker } from '../src/status/token-statuslist-checker.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const LIST_URI = 'https://issuer.example/statuslists/1';
+const issuer = createExampleIssuer('did:example:issuer');
+const now = () => Math.floor(Date.now() / 1000);
+const lst = (bytes: number[]) => deflateSync(Buffer.from(bytes));
+
+// Status lists per bit size; each lists VALID, INVALID, SUSPENDED and 0x03 at idx 0 to 3
+const LISTS: Record<number, number[]> = {
+  1: [0b00000010],
+  2: [0b11100100],
+  4: [0x10, 0x32],
+  8: [0x00, 0x01, 0x02, 0x03]
+};
+
+function jwtToken(bits: number, claims: Record<string, any> = {}, header: Record<string, any> = { typ: 'statuslist+jwt' }) {
+  return issuer.signJwt({ iss: issuer.did, sub: LIST_URI, iat: now(), exp: now() + 3600, status_list: { bits, lst: lst(LISTS[bits]).toString('base64url') }, ...claims }, header);
+}
+
+const referencing = (idx: number, uri = LIST_URI) => ({ iss: issuer.did, status: { status_list: { idx, uri } } });
+const jwtChecker = (token: string) => new TokenStatusListChecker({ fetcher: async () => token, didResolver: issuer.didResolver });
+
+test('Token Status Lists are read least significant bits first for 1, 2, 4 and 8 bit statuses', () => {
+  assert.deepEqual([0, 1, 2, 7].map(index => readTokenStatus(Uint8Array.from(LISTS[1]), index, 1)), [0, 1, 0, 0]);
+  for (const bits of [2, 4, 8]) {
+    assert.deepEqual([0, 1, 2, 3].map(index => readTokenStatus(Uint8Array.from(LISTS[bits]), index, bits)), [0, 1, 2, 3], `bits ${bits}`);
+  }
+  assert.throws(() => readTokenStatus(Uint8Array.from(LISTS[2]), 4, 2), /index 4 is out of range/);
+  assert.throws(() => readTokenStatus(Uint8Array.from(LISTS[8]), 4, 8), /index 4 is out of range/);
+});
+
+test('JWT Status List Tokens map statuses to VALID, INVALID, SUSPENDED or unrecognized', async () => {
+  for (const bits of [2, 4, 8]) {
+    const checker = jwtChecker(jwtToken(bits));
+    assert.deepEqual(await checker.checkStatus(referencing(0)), { active: true, status: 0, tokenStatus: 'VALID' });
+    assert.deepEqual(await checker.checkStatus(referencing(1)), { active: false, reason: 'Credential has been revoked', status: 1, tokenStatus: 'INVALID' });
+    assert.deepEqual(await checker.checkStatus(referencing(2)), { active: false, reason: 'Credential is suspended', status: 2, tokenStatus: 'SUSPENDED' });
+    assert.equal((await checker.checkStatus(referencing(3))).reason, 'Credential has unrecognized status 0x03');
+  }
+  assert.equal((await jwtChecker(jwtToken(1)).checkStatus(referencing(1))).tokenStatus, 'INVALID');
+  await assert.rejects(jwtChecker(jwtToken(8)).checkStatus(referencing(4)), /index 4 is out of range/);
+  await assert.rejects(jwtChecker(jwtToken(1)).checkStatus(referencing(8)), /index 8 is out of range/);
+  await assert.rejects(jwtChecker(jwtToken(1)).checkStatus(referencing(-1)), /non-negative integer idx/);
+});
+
+test('JWT Status List Tokens must be typed, signed, current, for the uri and by the credential issuer', async () => {
+  await assert.rejects(jwtChecker(jwtToken(1, {}, { typ: 'JWT' })).checkStatus(referencing(0)), /typ statuslist\+jwt, got JWT/);
+  await assert.rejects(jwtChecker(`${jwtToken(1).slice(0, -4)}AAAA`).checkStatus(referencing(0)), /signature is invalid/);
+  await assert.rejects(jwtChecker(jwtToken(1)).checkStatus(referencing(0, 'https://issuer.example/statuslists/2')), /sub does not match the status_list uri/);
+  await assert.rejects(jwtChecker(jwtToken(1, { exp: now() - 3600 })).checkStatus(referencing(0)), /has expired/);
+  await assert.rejects(jwtChecker(jwtToken(1)).checkStatus({ ...referencing(0), iss: 'did:example:other' }), /not issued by the credential issuer/);
+  await assert.rejects(jwtChecker(jwtToken(1, { status_list: { bits: 3, lst: lst([0]).toString('base64url') } })).checkStatus(referencing(0)), /bits must be 1, 2, 4 or 8, got 3/);
+  await assert.rejects(jwtChecker(jwtToken(1, { status_list: { bits: 1, lst: Buffer.from([1]).toString('base64url') } })).checkStatus(referencing(0)), /not a DEFLATE \(ZLIB\) compressed/);
+});
+
+test('CWT Status List Tokens are verified against the trust store', async () => {
+  x509.cryptoProvider.set(webcrypto as any);
+  const algorithm = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+  const validity = { notBefore: new Date(Date.now() - 60 * 60 * 1000), notAfter: new Date(Date.now() + 24 * 60 * 60 * 1000) };
+  const rootKeys = await webcrypto.subtle.generateKey(algorithm, true, ['sign', 'verify']) as CryptoKeyPair;
+  const root = await x509.X509CertificateGenerator.createSelfSigned({
+    serialNumber: randomBytes(8).toString('hex'), name: 'C=DE, CN=Status IACA', ...validity, signingAlgorithm: algorithm, keys: rootKeys,
+    extensions: [new x509.BasicConstraintsExtension(true, 0, true), new x509.KeyUsagesExtension(x509.KeyUsageFlags.keyCertSign | x509.KeyUsageFlags.cRLSign, true)]
+  });
+  const signerKeys = await webcrypto.subtle.generateKey(algorithm, true, ['sign', 'verify']) as CryptoKeyPair;
+  const signer = await x509.X509CertificateGenerator.create({
+    serialNumber: randomBytes(8).toString('hex'), subject: 'C=DE, CN=Status List Signer', issuer: root.subject, ...validity, signingAlgorithm: algorithm,
+    publicKey: signerKeys.publicKey, signingKey: rootKeys.privateKey,
+    extensions: [new x509.KeyUsagesExtension(x509.KeyUsageFlags.digitalSignature, true), new x509.ExtendedKeyUsageExtension([MDL_DOCUMENT_SIGNER_EKU], true)]
+  });
+
+  const cwtToken = (bits: number, typ = 'application/statuslist+cwt') => {
+    const protectedHeader = cborEncoder.encode(new Map<number, any>([[1, -7], [16, typ]]));
+    const payload = cborEncoder.encode(new Map<number, any>([[2, LIST_URI], [6, now()], [4, now() + 3600], [65533, new Map<string, any>([['bits', bits], ['lst', lst(LISTS[bits])]])]]));
+    const signature = sign('sha256', cborEncoder.encode(['Signature1', protectedHeader, new Uint8Array(0), payload]), { key: KeyObject.from(signerKeys.privateKey), dsaEncoding: 'ieee-p1363' });
+    return cborEncoder.encode(new Tag([protectedHeader, new Map([[33, Buffer.from(signer.rawData)]]), payload, signature], 18));
+  };
+  const trustStore = new MdocTrustStore({ iacaCertificates: [root.toString('pem')] });
+  const cwtChecker = (token: Uint8Array, store: MdocTrustStore | null = trustStore) => new TokenStatusListChecker({ fetcher: async () => token, ...(store && { trustStore: store }) });
+
+  assert.equal((await cwtChecker(cwtToken(2)).checkStatus(referencing(2))).tokenStatus, 'SUSPENDED');
+  assert.equal((await cwtChecker(cwtToken(4)).checkStatus(referencing(0))).tokenStatus, 'VALID');
+  await assert.rejects(cwtChecker(cwtToken(8)).checkStatus(referencing(9)), /index 9 is out of range/);
+  await assert.rejects(cwtChecker(cwtToken(2), null).checkStatus(referencing(0)), /No trust store configured/);
+  const otherRoot = await x509.X509CertificateGenerator.createSelfSigned({
+    serialNumber: randomBytes(8).toString('hex'), name: 'C=DE, CN=Other IACA', ...validity, signingAlgorithm: algorithm, keys: rootKeys
+  });
+  const untrusted = new MdocTrustStore({ iacaCertificates: [otherRoot.toString('pem')] });
+  await assert.rejects(cwtChecker(cwtToken(2), untrusted).checkStatus(referencing(0)), /Status List Signer does not chain to a trusted anchor/);
+  await assert.rejects(cwtChecker(cwtToken(2, 'application/cwt')).checkStatus(referencing(0)), /typ application\/statuslist\+cwt/);
+});
@@ -0,0 +1,250 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { signJws } from '../src/crypto/jws.ts';
+import { EtsiTrustedListRegistry, OpenIdFederationTrustRegistry, StaticTrustRegistry } from '../src/trust/index.ts';
+import { createExampleMdocIssuer } from '../examples/example-mdoc-issuer.ts';
+
+test('StaticTrustRegistry accredits listed issuers for their credential types and periods', async () => {
+  const registry = new StaticTrustRegistry({
+    name: 'Example trust list',
+    issuers: [
+      { id: 'did:example:university', name: 'Example University', credentialTypes: ['UniversityDegreeCredential'] },
+      { id: 'did:example:pid', name: 'PID Provider', credentialTypes: ['urn:eudi:pid:1'], validFrom: '2020-01-01T00:00:00Z', validUntil: '2025-01-01T00:00:00Z' },
+      { id: 'did:example:pid', name: 'PID Provider (renewed)', credentialTypes: ['urn:eudi:pid:1'], validFrom: '2026-01-01T00:00:00Z' },
+      { id: 'did:example:any' }
+    ]
+  });
+
+  assert.deepEqual(await registry.isTrusted({ issuer: 'did:example:university', credentialType: 'VerifiableCredential, UniversityDegreeCredential' }),
+    { trusted: true, source: 'Example trust list', name: 'Example University' });
+  assert.equal((await registry.isTrusted({ issuer: 'did:example:any', credentialType: 'AnyCredential' })).trusted, true);
+  assert.equal((await registry.isTrusted({ issuer: 'did:example:stranger' })).reason, 'Issuer did:example:stranger is not in the trust list');
+  assert.equal((await registry.isTrusted({ issuer: 'did:example:university', credentialType: 'urn:eudi:pid:1' })).reason,
+    'Issuer did:example:university is not accredited for urn:eudi:pid:1');
+
+  const at = (time: string) => registry.isTrusted({ issuer: 'did:example:pid', credentialType: 'urn:eudi:pid:1', time: new Date(time) });
+  assert.equal((await at('2024-06-01T00:00:00Z')).name, 'PID Provider');
+  assert.equal((await at('2025-06-01T00:00:00Z')).reason, 'Issuer did:example:pid was not accredited at 2025-06-01T00:00:00.000Z');
+  assert.equal((await at('2026-06-01T00:00:00Z')).name, 'PID Provider (renewed)');
+
+  assert.throws(() => new StaticTrustRegistry({} as any), /must have an issuers array/);
+});
+
+const PID_SERVICE = 'http://uri.etsi.org/Svc/Svctype/Provider/PID';
+const EAA_SERVICE = 'http://uri.etsi.org/TrstSvc/Svctype/EAA/Q';
+const status = (name: string) => `http://uri.etsi.org/TrstSvc/TrustedList/Svcstatus/${name}`;
+
+function trustedList(services: string, nextUpdate = '2099-01-01T00:00:00Z') {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tsl:TrustServiceStatusList xmlns:tsl="http://uri.etsi.org/02231/v2#" xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+  <tsl:SchemeInformation>
+    <tsl:SchemeTerritory>DE</tsl:SchemeTerritory>
+    <tsl:NextUpdate><tsl:dateTime>${nextUpdate}</tsl:dateTime></tsl:NextUpdate>
+  </tsl:SchemeInformation>
+  <tsl:TrustServiceProviderList>
+    <tsl:TrustServiceProvider>
+      <tsl:TSPInformation><tsl:TSPName><tsl:Name xml:lang="de">Beispielanbieter</tsl:Name><tsl:Name xml:lang="en">Example Provider</tsl:Name></tsl:TSPName></tsl:TSPInformation>
+      <tsl:TSPServices>${services}</tsl:TSPServices>
+    </tsl:TrustServiceProvider>
+  </tsl:TrustServiceProviderList>
+</tsl:TrustServiceStatusList>`;
+}
+
+function service(name: string, serviceType: string, digitalIds: string, periods: [string, string][]) {
+  const [[currentStatus, currentTime], ...history] = periods;
+  return `<tsl:TSPService>
+  <tsl:ServiceInformation>
+    <tsl:ServiceTypeIdentifier>${serviceType}</tsl:ServiceTypeIdentifier>
+    <tsl:ServiceName><tsl:Name xml:lang="en">${name}</tsl:Name></tsl:ServiceName>
+    <tsl:ServiceDigitalIdentity><tsl:DigitalId>${digitalIds}</tsl:DigitalId></tsl:ServiceDigitalIdentity>
+    <tsl:ServiceStatus>${status(currentStatus)}</tsl:ServiceStatus>
+    <tsl:StatusStartingTime>${currentTime}</tsl:StatusStartingTime>
+  </tsl:ServiceInformation>
+  <tsl:ServiceHistory>${history.map(([historyStatus, time]) => `
+    <tsl:ServiceHistoryInstance>
+      <tsl:ServiceTypeIdentifier>${serviceType}</tsl:ServiceTypeIdentifier>
+      <tsl:ServiceName><tsl:Name xml:lang="en">${name}</tsl:Name></tsl:ServiceName>
+      <tsl:ServiceStatus>${status(historyStatus)}</tsl:ServiceStatus>
+      <tsl:StatusStartingTime>${time}</tsl:StatusStartingTime>
+    </tsl:ServiceHistoryInstance>`).join('')}
+  </tsl:ServiceHistory>
+</tsl:TSPService>`;
+}
+
+test('EtsiTrustedListRegistry parses TS 119 612 lists and decides by the service status at the queried time', async () => {
+  const mdocIssuer = await createExampleMdocIssuer();
+  const services = [
+    // Granted in 2020, withdrawn since 2025
+    service('PID Service', PID_SERVICE, '<tsl:Other>did:example:pid</tsl:Other>', [['withdrawn', '2025-01-01T00:00:00Z'], ['granted', '2020-01-01T00:00:00Z']]),
+    service('mDL Service', EAA_SERVICE, `<tsl:X509Certificate>${Buffer.from(mdocIssuer.iacaCertificate.rawData).toString('base64')}</tsl:X509Certificate>`, [['granted', '2020-01-01T00:00:00Z']]),
+    service('Named Service', EAA_SERVICE, '<tsl:X509SubjectName>CN=Named Issuer, O=Example, C=DE</tsl:X509SubjectName>', [['undersupervision', '2020-01-01T00:00:00Z']])
+  ].join('');
+  const registry = new EtsiTrustedListRegistry(trustedList(services), { credentialTypes: { 'urn:eudi:pid:1': [PID_SERVICE] } });
+
+  const [pid] = registry.services;
+  assert.deepEqual([pid.territory, pid.provider, pid.name], ['DE', 'Example Provider', 'PID Service']);
+  assert.deepEqual(pid.periods.map(period => [period.status, period.startingTime.toISOString()]),
+    [[status('withdrawn'), '2025-01-01T00:00:00.000Z'], [status('granted'), '2020-01-01T00:00:00.000Z']]);
+  // History instances without a digital identity keep the current one
+  assert.deepEqual(pid.periods[1].identity.otherIds, ['did:example:pid']);
+
+  const pidAt = (time: string) => registry.isTrusted({ issuer: 'did:example:pid', credentialType: 'urn:eudi:pid:1', time: new Date(time) });
+  assert.deepEqual(await pidAt('2024-06-01T00:00:00Z'), {
+    trusted: true, source: 'Trusted list DE', name: 'Example Provider: PID Service', serviceType: PID_SERVICE, status: status('granted')
+  });
+  assert.equal((await pidAt('2025-06-01T00:00:00Z')).reason, `Service status at 2025-06-01T00:00:00.000Z was ${status('withdrawn')}`);
+  assert.equal((await pidAt('2019-06-01T00:00:00Z')).reason, 'Issuer did:example:pid is not a service in the trusted lists');
+
+  // Document signers are matched through the certificate chain to the service certificate
+  const chain = [new Uint8Array(mdocIssuer.certificate.rawData)];
+  const mdl = await registry.isTrusted({ issuer: 'C=US, CN=Example mDL Document Signer', certificateChain: chain, credentialType: 'org.iso.18013.5.1.mDL' });
+  assert.deepEqual([mdl.trusted, mdl.name], [true, 'Example Provider: mDL Service']);
+  assert.equal((await registry.isTrusted({ issuer: 'C=US, CN=Example mDL Document Signer', certificateChain: chain, credentialType: 'urn:eudi:pid:1' })).reason,
+    `Service type ${EAA_SERVICE} is not accredited for urn:eudi:pid:1`);
+  const stranger = await createExampleMdocIssuer('C=US, CN=Stranger Signer', 'C=US, CN=Stranger IACA');
+  assert.equal((await registry.isTrusted({ issuer: 'C=US, CN=Stranger Signer', certificateChain: [new Uint8Array(stranger.certificate.rawData)] })).trusted, false);
+
+  assert.equal((await registry.isTrusted({ issuer: 'c=DE, o=Example, cn=Named Issuer' })).status, status('undersupervision'));
+
+  const expired = trustedList(services, '2020-06-01T00:00:00Z');
+  assert.equal((await new EtsiTrustedListRegistry(expired).isTrusted({ issuer: 'c=DE, o=Example, cn=Named Issuer' })).reason, 'Trusted list DE is past its NextUpdate');
+  assert.equal((await new EtsiTrustedListRegistry(expired, { allowExpiredList: true }).isTrusted({ issuer: 'c=DE, o=Example, cn=Named Issuer' })).trusted, true);
+
+  assert.throws(() => new EtsiTrustedListRegistry('<TrustedList/>'), /Not an ETSI trusted list: root element is TrustedList/);
+  assert.throws(() => new EtsiTrustedListRegistry(`<!DOCTYPE x [<!ENTITY e "e">]>${trustedList('')}`), /document type declarations are not supported/);
+  assert.throws(() => new EtsiTrustedListRegistry(trustedList(service('Broken', EAA_SERVICE, '', [['granted', 'not a date']]))), /missing ServiceTypeIdentifier, ServiceStatus or StatusStartingTime/);
+});
+
+interface Entity {
+  id: string;
+  privateKey: KeyObject;
+  jwk: JsonWebKey & { kid: string };
+}
+
+function entity(id: string): Entity {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { id, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid: `${id}#federation` } };
+}
+
+const anchor = entity('https://anchor.example');
+const intermediate = entity('https://intermediate.example');
+const leaf = entity('https://leaf.example');
+const now = () => Math.floor(Date.now() / 1000);
+
+function statement(signer: Entity, payload: Record<string, any>) {
+  return signJws({ typ: 'entity-statement+jwt', kid: signer.jwk.kid }, { iat: now(), exp: now() + 3600, ...payload }, signer.privateKey);
+}
+
+// Entity Configurations and Subordinate Statements, keyed by the URL they are fetched from
+const configuration = (subject: Entity, metadata: Record<string, any> = {}, authorityHints: string[] = []) => ({
+  [`${subject.id}/.well-known/openid-federation`]: statement(subject, {
+    iss: subject.id, sub: subject.id, jwks: { keys: [subject.jwk] }, authority_hints: authorityHints,
+    metadata: { ...metadata, federation_entity: { federation_fetch_endpoint: `${subject.id}/fetch`, ...metadata.federation_entity } }
+  })
+});
+const subordinate = (superior: Entity, subject: Entity, claims: Record<string, any> = {}) => ({
+  [`${superior.id}/fetch?sub=${encodeURIComponent(subject.id)}`]: statement(superior, { iss: superior.id, sub: subject.id, jwks: { keys: [subject.jwk] }, ...claims })
+});
+
+function registry(documents: Record<string, string>) {
+  return new OpenIdFederationTrustRegistry({
+    trustAnchors: [{ entityId: anchor.id, jwks: { keys: [anchor.jwk] } }],
+    fetch: (async (url: string) => documents[url] ? new Response(documents[url]) : new Response('', { status: 404 })) as typeof fetch
+  });
+}
+
+const PID = 'urn:eudi:pid:1';
+const leafMetadata = {
+  federation_entity: { organization_name: 'Leaf' },
+  openid_credential_issuer: {
+    credential_endpoint: 'https://leaf.example/credential',
+    credential_signing_alg_values_supported: ['ES256', 'EdDSA', 'RS256'],
+    credential_configurations_supported: { pid: { format: 'dc+sd-jwt', vct: PID } }
+  }
+};
+
+// leaf -> intermediate -> anchor, with the statements' extra claims (metadata, metadata_policy)
+function federation(leafStatement: Record<string, any> = {}, intermediateStatement: Record<string, any> = {}, metadata: Record<string, any> = leafMetadata) {
+  return registry({
+    ...configuration(anchor, { federation_entity: { organization_name: 'Anchor' } }),
+    ...configuration(intermediate, {}, [anchor.id]),
+    ...configuration(leaf, metadata, [intermediate.id]),
+    ...subordinate(anchor, intermediate, intermediateStatement),
+    ...subordinate(intermediate, leaf, leafStatement)
+  });
+}
+
+test('OpenIdFederationTrustRegistry resolves trust chains to a configured anchor', async () => {
+  const direct = registry({ ...configuration(anchor), ...configuration(leaf, leafMetadata, [anchor.id]), ...subordinate(anchor, leaf) });
+  assert.deepEqual(await direct.isTrusted({ issuer: leaf.id, credentialType: PID }), { trusted: true, source: `OpenID Federation trust anchor ${anchor.id}`, name: 'Leaf' });
+  assert.equal((await direct.isTrusted({ issuer: leaf.id, credentialType: 'org.iso.18013.5.1.mDL' })).reason, `Entity ${leaf.id} does not issue org.iso.18013.5.1.mDL`);
+
+  const chain = await federation().resolveTrustChain(leaf.id);
+  assert.deepEqual(chain.statements.map(payload => [payload.iss, payload.sub]),
+    [[leaf.id, leaf.id], [intermediate.id, leaf.id], [anchor.id, intermediate.id], [anchor.id, anchor.id]]);
+
+  // The leaf's configuration must be signed with the key its superior vouches for
+  const impostor = entity(leaf.id);
+  const forged = registry({ ...configuration(anchor), ...configuration(impostor, leafMetadata, [anchor.id]), ...subordinate(anchor, leaf) });
+  assert.match((await forged.isTrusted({ issuer: leaf.id })).reason!, /Entity https:\/\/leaf\.example configuration signature is invalid/);
+
+  const unknownAnchor = entity('https://unknown-anchor.example');
+  const unanchored = registry({ ...configuration(unknownAnchor), ...configuration(leaf, leafMetadata, [unknownAnchor.id]), ...subordinate(unknownAnchor, leaf) });
+  assert.match((await unanchored.isTrusted({ issuer: leaf.id })).reason!, /has no authority_hints and is not a trust anchor/);
+  const orphan = registry({ ...configuration(anchor), ...configuration(leaf, leafMetadata, [anchor.id]) });
+  assert.match((await orphan.isTrusted({ issuer: leaf.id })).reason!, /No trust chain from https:\/\/leaf\.example .*HTTP 404/);
+});
+
+test('OpenIdFederationTrustRegistry applies the superiors\' metadata and merged metadata policies', async () => {
+  const intermediatePolicy = {
+    metadata_policy: {
+      openid_credential_issuer: {
+        credential_signing_alg_values_supported: { subset_of: ['ES256', 'ES384'] },
+        credential_endpoint: { essential: true }
+      }
+    }
+  };
+  const leafPolicy = {
+    metadata: { openid_credential_issuer: { credential_issuer: leaf.id } },
+    metadata_policy: {
+      federation_entity: { organization_name: { value: 'Leaf Issuer GmbH' }, contacts: { add: ['ops@leaf.example'] } },
+      openid_credential_issuer: {
+        credential_signing_alg_values_supported: { subset_of: ['ES256', 'EdDSA'] },
+        display: { default: [{ name: 'Leaf' }] },
+        credential_configurations_supported: { value: { pid: { format: 'dc+sd-jwt', vct: PID } } }
+      }
+    }
+  };
+
+  const { metadata } = await federation(leafPolicy, intermediatePolicy).resolveTrustChain(leaf.id);
+  assert.deepEqual(metadata.federation_entity, { organization_name: 'Leaf Issuer GmbH', contacts: ['ops@leaf.example'], federation_fetch_endpoint: `${leaf.id}/fetch` });
+  assert.deepEqual(metadata.openid_credential_issuer.credential_signing_alg_values_supported, ['ES256']);
+  assert.deepEqual(metadata.openid_credential_issuer.display, [{ name: 'Leaf' }]);
+  assert.equal(metadata.openid_credential_issuer.credential_issuer, leaf.id);
+  assert.equal((await federation(leafPolicy, intermediatePolicy).isTrusted({ issuer: leaf.id, credentialType: PID })).name, 'Leaf Issuer GmbH');
+
+  // A superior's value policy decides which credential types the issuer is trusted for
+  const restricted = federation({ metadata_policy: { openid_credential_issuer: { credential_configurations_supported: { value: {} } } } });
+  assert.equal((await restricted.isTrusted({ issuer: leaf.id, credentialType: PID })).reason, `Entity ${leaf.id} does not issue ${PID}`);
+
+  const { credential_endpoint: _, ...withoutEndpoint } = leafMetadata.openid_credential_issuer;
+  const missing = federation({}, intermediatePolicy, { ...leafMetadata, openid_credential_issuer: withoutEndpoint });
+  assert.equal((await missing.isTrusted({ issuer: leaf.id })).reason, 'Metadata openid_credential_issuer.credential_endpoint is required by the metadata policy');
+
+  const oneOf = (values: string[]) => ({ metadata_policy: { openid_credential_issuer: { credential_endpoint: { one_of: values } } } });
+  await assert.rejects(federation(oneOf(['https://leaf.example/other'])).resolveTrustChain(leaf.id), /credential_endpoint must be one of https:\/\/leaf\.example\/other/);
+  await assert.rejects(federation(oneOf(['https://leaf.example/credential']), oneOf(['https://leaf.example/other'])).resolveTrustChain(leaf.id),
+    /one_of for openid_credential_issuer\.credential_endpoint has no value allowed by a superior's policy/);
+
+  const superset = { metadata_policy: { openid_credential_issuer: { credential_signing_alg_values_supported: { superset_of: ['ES256', 'ES512'] } } } };
+  await assert.rejects(federation(superset).resolveTrustChain(leaf.id), /credential_signing_alg_values_supported must include ES512/);
+
+  const name = (organizationName: string) => ({ metadata_policy: { federation_entity: { organization_name: { value: organizationName } } } });
+  await assert.rejects(federation(name('Leaf'), name('Anchor approved')).resolveTrustChain(leaf.id), /value for federation_entity\.organization_name conflicts with a superior's policy/);
+
+  // Unknown operators are ignored unless a statement marks them critical
+  const regexp = { metadata_policy: { openid_credential_issuer: { credential_endpoint: { regexp: '^https://' } } } };
+  await federation(regexp).resolveTrustChain(leaf.id);
+  await assert.rejects(federation(regexp, { metadata_policy_crit: ['regexp'] }).resolveTrustChain(leaf.id), /Unsupported critical metadata policy operator regexp/);
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createVerifier } from '../src/core/index.ts';
+import { W3cHandler } from '../src/handlers/w3c-handler.ts';
+import { VCAPIAdapter } from '../src/protocol-adapters/vc-api-adapter.ts';
+import { MemorySessionStore } from '../src/session/memory-session-store.ts';
+import { DidResolver } from '../src/types/index.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+const issuer = createExampleIssuer('did:example:issuer');
+const holder = createExampleIssuer('did:example:holder');
+const didResolver: DidResolver = {
+  resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? holder.didResolver.resolve(did)
+};
+const credential = await issuer.signCredential({
+  '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1', 'https://www.w3.org/ns/credentials/undefined-terms/v2'],
+  id: 'credential:vc-api:001',
+  type: ['VerifiableCredential', 'ExampleCredential'],
+  issuer: issuer.did,
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: holder.did, name: 'Alice Example' }
+});
+const vcApi = new VCAPIAdapter({ verifier: createVerifier({ handlers: [new W3cHandler({ didResolver })] }) });
+
+// The holder's presentation of the credential, bound to a challenge and domain
+function present(challenge: string, domain?: string) {
+  return holder.signPresentation({
+    '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1'],
+    type: ['VerifiablePresentation'],
+    verifiableCredential: [credential],
+    holder: holder.did
+  }, { challenge, domain });
+}
+
+async function post(url: string | URL, body?: Record<string, any>) {
+  const response = await fetch(url, { method: 'POST', headers: { 'content-type': 'application/json' }, body: body && JSON.stringify(body) });
+  return { status: response.status, body: await response.json() };
+}
+
+test('VC-API router verifies presentations and runs exchanges over HTTP', async () => {
+  const server = await vcApi.listen(0);
+  const { port } = server.address() as { port: number };
+  const baseUrl = `http://127.0.0.1:${port}`;
+  try {
+    const options = { challenge: 'c1', domain: 'https://verifier.example' };
+    const bound = await post(`${baseUrl}/presentations/verify`, { verifiablePresentation: await present('c1', options.domain), options });
+    assert.equal(bound.status, 200);
+    assert.equal(bound.body.verified, true);
+    assert.deepEqual(bound.body.checks, ['proof']);
+    assert.deepEqual(bound.body.warnings, []);
+
+    const unbound = await post(`${baseUrl}/presentations/verify`, { verifiablePresentation: await present('holder-chosen') });
+    assert.equal(unbound.status, 400);
+    assert.equal(unbound.body.detail, 'options.challenge is required');
+
+    const replayed = await post(`${baseUrl}/presentations/verify`, { verifiablePresentation: await present('c0', options.domain), options });
+    assert.equal(replayed.status, 400);
+    assert.equal(replayed.body.errors[0].code, 'CHALLENGE_MISMATCH');
+
+    const created = await post(`${baseUrl}/exchanges`, { credentials: ['ExampleCredential'] });
+    assert.equal(created.status, 201);
+    const exchangeUrl = created.body.verifiablePresentationRequest.interact.service[0].serviceEndpoint;
+    const { verifiablePresentationRequest: vpr } = (await post(exchangeUrl)).body;
+    assert.equal(vpr.challenge, created.body.verifiablePresentationRequest.challenge);
+
+    const rejected = await post(exchangeUrl, { verifiablePresentation: await present('wrong-challenge') });
+    assert.equal(rejected.status, 400);
+    const open = await (await fetch(exchangeUrl)).json();
+    assert.equal(open.state, 'active');
+    assert.equal(open.result.verified, false);
+
+    const verified = await post(exchangeUrl, { verifiablePresentation: await present(vpr.challenge) });
+    assert.equal(verified.status, 200);
+    assert.equal((await (await fetch(exchangeUrl)).json()).state, 'complete');
+    assert.equal((await post(exchangeUrl, { verifiablePresentation: await present(vpr.challenge) })).status, 409);
+
+    assert.equal((await post(`${baseUrl}/presentations/verify`, {})).body.title, 'Malformed value error');
+    assert.equal((await post(`${baseUrl}/unknown`)).status, 404);
+  } finally {
+    server.close();
+  }
+});
+
+test('VC-API router verifies presentations without a challenge option only when allowed, with a warning', async () => {
+  const lenient = new VCAPIAdapter({ verifier: createVerifier({ handlers: [new W3cHandler({ didResolver })] }), allowUncheckedChallenge: true });
+  const response = await lenient.handle({
+    method: 'POST',
+    url: 'http://localhost/presentations/verify',
+    headers: { 'content-type': 'application/json' },
+    body: { verifiablePresentation: await present('holder-chosen') }
+  });
+  assert.equal(response.body.verified, true);
+  assert.match(response.body.warnings[0], /^Challenge not checked/);
+});
+
+test('VCAPIAdapter.receivePresentation finds the request and consumeChallenge answers it once verified', async () => {
+  const sessionStore = new MemorySessionStore();
+  const verifier = createVerifier({ handlers: [new W3cHandler({ didResolver })], sessionStore });
+  const request = await verifier.createRequest({ credentials: ['ExampleCredential'] });
+  const httpRequest = VCAPIAdapter.createVerificationRequest({ presentation: await present(request.challenge), endpoint: 'http://localhost/presentations/verify' });
+
+  const { presentation, originalRequest } = await VCAPIAdapter.receivePresentation(httpRequest, sessionStore);
+  assert.equal(originalRequest.id, request.id);
+  await VCAPIAdapter.consumeChallenge(sessionStore, originalRequest, { status: 'rejected', error: 'forged' });
+  const result = await verifier.verify(presentation, (await VCAPIAdapter.receivePresentation(httpRequest, sessionStore)).originalRequest);
+  assert.equal(result.status, 'verified');
+  await VCAPIAdapter.consumeChallenge(sessionStore, originalRequest, result);
+  await assert.rejects(VCAPIAdapter.receivePresentation(httpRequest, sessionStore), /already used/);
+  await assert.rejects(VCAPIAdapter.consumeChallenge(sessionStore, originalRequest, result), /already used/);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateVprQuery } from '../src/query/vpr.ts';
+import { VerifiablePresentation } from '../src/types/index.ts';
+
+const degree = {
+  '@context': ['https://www.w3.org/ns/credentials/v2', 'https://www.w3.org/2018/credentials/examples/v1'],
+  type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+  issuer: { id: 'did:example:university' },
+  credentialSubject: { id: 'did:key:z6MkHolder', degree: { type: 'BachelorDegree', name: 'Bachelor of Science' } }
+};
+const presentation = {
+  '@context': ['https://www.w3.org/2018/credentials/v1'],
+  type: ['VerifiablePresentation'],
+  holder: 'did:key:z6MkHolder',
+  verifiableCredential: [degree],
+  proof: { type: 'DataIntegrityProof', cryptosuite: 'eddsa-rdfc-2022', proofPurpose: 'authentication', verificationMethod: 'did:key:z6MkHolder#z6MkHolder', challenge: 'c' }
+} as unknown as VerifiablePresentation;
+
+test('QueryByExample matches contexts, types and claims of the example', () => {
+  const example = (overrides: Record<string, any>) => ({ type: 'QueryByExample' as const, credentialQuery: { example: { type: 'UniversityDegreeCredential', ...overrides } } });
+  assert.equal(evaluateVprQuery(example({}), presentation).valid, true);
+  assert.equal(evaluateVprQuery(example({ '@context': ['https://www.w3.org/2018/credentials/v1'] }), presentation).valid, true);
+  assert.equal(evaluateVprQuery(example({ credentialSubject: { degree: { type: 'BachelorDegree', name: '' } } }), presentation).valid, true);
+  assert.equal(evaluateVprQuery(example({ credentialSubject: { degree: { type: 'MasterDegree' } } }), presentation).valid, false);
+  assert.equal(evaluateVprQuery(example({ credentialSubject: { gpa: '' } }), presentation).valid, false);
+
+  const { valid, errors } = evaluateVprQuery({ type: 'QueryByExample', credentialQuery: [
+    { example: { type: 'DriversLicense' }, reason: 'To check your licence' },
+    { example: { type: 'Passport' }, required: false }
+  ] }, presentation);
+  assert.equal(valid, false);
+  assert.deepEqual(errors, ['QueryByExample credential query 0 (To check your licence) is not answered by any presented credential']);
+});
+
+test('QueryByExample restricts credentials to required trusted issuers', () => {
+  const query = (trustedIssuer: { issuer: string; required?: boolean }[]) => ({ type: 'QueryByExample' as const, credentialQuery: { example: { type: 'UniversityDegreeCredential' }, trustedIssuer } });
+  assert.equal(evaluateVprQuery(query([{ issuer: 'did:example:university' }]), presentation).valid, true);
+  assert.equal(evaluateVprQuery(query([{ issuer: 'did:example:other' }]), presentation).valid, false);
+  assert.equal(evaluateVprQuery(query([{ issuer: 'did:example:other', required: false }]), presentation).valid, true);
+});
+
+test('QueryByFrame requires framed properties, [] absence, and ignores @explicit', () => {
+  const frame = (body: Record<string, any>) => ({ type: 'QueryByFrame' as const, credentialQuery: { frame: { '@context': degree['@context'], type: 'UniversityDegreeCredential', ...body } } });
+  assert.equal(evaluateVprQuery(frame({ '@explicit': true, credentialSubject: { '@explicit': true, degree: {} } }), presentation).valid, true);
+  assert.equal(evaluateVprQuery(frame({ credentialSubject: { gpa: [] } }), presentation).valid, true);
+  assert.equal(evaluateVprQuery(frame({ credentialSubject: { degree: [] } }), presentation).valid, false);
+  assert.equal(evaluateVprQuery(frame({ credentialSubject: { gpa: {} } }), presentation).valid, false);
+});
+
+test('DIDAuthentication checks the holder DID method, its authentication proof and the cryptosuite', () => {
+  assert.equal(evaluateVprQuery({ type: 'DIDAuthentication' }, presentation).valid, true);
+  assert.equal(evaluateVprQuery({ type: 'DIDAuthentication', acceptedMethods: [{ method: 'key' }], acceptedCryptosuites: [{ cryptosuite: 'eddsa-rdfc-2022' }] }, presentation).valid, true);
+  assert.deepEqual(evaluateVprQuery({ type: 'DIDAuthentication', acceptedMethods: [{ method: 'web' }] }, presentation).errors, ['DIDAuthentication: DID method key is not accepted']);
+  assert.deepEqual(evaluateVprQuery({ type: 'DIDAuthentication', acceptedCryptosuites: [{ cryptosuite: 'ecdsa-rdfc-2019' }] }, presentation).errors, ['DIDAuthentication: cryptosuite eddsa-rdfc-2022 is not accepted']);
+  assert.deepEqual(evaluateVprQuery({ type: 'DIDAuthentication' }, { ...presentation, proof: { ...presentation.proof, verificationMethod: 'did:key:z6MkOther#key' } }).errors, ['DIDAuthentication: the presentation has no authentication proof by its holder']);
+  assert.deepEqual(evaluateVprQuery({ type: 'DIDAuthentication' }, { ...presentation, holder: undefined as any }).errors, ['DIDAuthentication: the presentation has no holder DID']);
+  assert.deepEqual(evaluateVprQuery({ type: 'QueryByDelegation' } as any, presentation).errors, ['Unsupported query type: QueryByDelegation']);
+});
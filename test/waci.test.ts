@@ -0,0 +1,140 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, randomUUID } from 'crypto';
+import { createVerifier } from '../src/core/index.ts';
+import { InMemoryKeyStore } from '../src/crypto/key-store.ts';
+import { base58btcEncode, base64urlDecode } from '../src/crypto/encoding.ts';
+import { W3cHandler } from '../src/handlers/w3c-handler.ts';
+import {
+  DIDCommMessage, PRESENT_PROOF_ACK, PRESENT_PROOF_PRESENTATION, PRESENT_PROOF_PROPOSE_PRESENTATION, PRESENT_PROOF_REQUEST_PRESENTATION, PROBLEM_REPORT
+} from '../src/protocol-adapters/didcomm-adapter.ts';
+import { DIDCommPackMode, packDIDCommMessage, unpackDIDCommMessage } from '../src/protocol-adapters/didcomm-envelope.ts';
+import { WACIAdapter } from '../src/protocol-adapters/waci-adapter.ts';
+import { createExampleIssuer } from '../examples/example-issuer.ts';
+
+// A did:peer:2 with an X25519 key agreement key and an Ed25519 authentication key, and its private keys
+function peer() {
+  const agreement = generateKeyPairSync('x25519');
+  const authentication = generateKeyPairSync('ed25519');
+  const multikey = (prefix: number[], jwk: any) => `z${base58btcEncode(new Uint8Array([...prefix, ...base64urlDecode(jwk.x)]))}`;
+  const did = `did:peer:2.E${multikey([0xec, 0x01], agreement.publicKey.export({ format: 'jwk' }))}.V${multikey([0xed, 0x01], authentication.publicKey.export({ format: 'jwk' }))}`;
+  return { did, keyStore: new InMemoryKeyStore({ [`${did}#key-1`]: agreement.privateKey, [`${did}#key-2`]: authentication.privateKey }) };
+}
+
+const verifierPeer = peer();
+const holderPeer = peer();
+const otherPeer = peer();
+
+const issuer = createExampleIssuer('did:example:issuer');
+const holder = createExampleIssuer('did:example:holder');
+const didResolver = { resolve: async (did: string) => (await issuer.didResolver.resolve(did)) ?? holder.didResolver.resolve(did) };
+const verifier = createVerifier({ handlers: [new W3cHandler({ didResolver })] });
+const credential = await issuer.signCredential({
+  '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1', 'https://www.w3.org/ns/credentials/undefined-terms/v2'],
+  id: 'credential:waci:001',
+  type: ['VerifiableCredential', 'ExampleCredential'],
+  issuer: issuer.did,
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: holder.did, name: 'Alice Example' }
+});
+
+function present(challenge: string) {
+  return holder.signPresentation({
+    '@context': ['https://www.w3.org/2018/credentials/v1', 'https://w3id.org/security/suites/ed25519-2020/v1'],
+    type: ['VerifiablePresentation'],
+    verifiableCredential: [credential],
+    holder: holder.did
+  }, { challenge });
+}
+
+// Packs a message from a party to the verifier
+function send(from: ReturnType<typeof peer>, message: Omit<DIDCommMessage, 'id' | 'from' | 'to' | 'body'> & { id?: string; body?: any }, mode: DIDCommPackMode = 'authcrypt') {
+  return packDIDCommMessage({ id: randomUUID(), from: from.did, to: [verifierPeer.did], body: {}, ...message }, mode, { keyStore: from.keyStore });
+}
+
+async function invite(waci: WACIAdapter, expiresAt?: number) {
+  const request = await verifier.createRequest({ credentials: ['ExampleCredential'] });
+  return (await waci.createInvitation({ ...request, ...(expiresAt !== undefined && { expiresAt }) })).invitation;
+}
+
+function newAdapter() {
+  return new WACIAdapter({ did: verifierPeer.did, keyStore: verifierPeer.keyStore, verifier });
+}
+
+test('WACI runs invitation -> proposal -> request -> presentation -> ack', async () => {
+  const waci = newAdapter();
+  const invitation = await invite(waci);
+  assert.equal((await waci.getInteraction(invitation.id))?.state, 'invitation-sent');
+
+  const proposal = await waci.handle(await send(holderPeer, { id: 'proposal-1', type: PRESENT_PROOF_PROPOSE_PRESENTATION, pthid: invitation.id }));
+  assert.equal(proposal.interaction?.state, 'request-sent');
+  assert.equal(proposal.interaction?.holder, holderPeer.did);
+  assert.equal(proposal.interaction?.thid, 'proposal-1');
+  const { message: requestMessage } = await unpackDIDCommMessage(proposal.packed!, { keyStore: holderPeer.keyStore });
+  assert.equal(requestMessage.type, PRESENT_PROOF_REQUEST_PRESENTATION);
+  assert.equal(requestMessage.thid, 'proposal-1');
+  const { challenge } = requestMessage.attachments![0].data.json.options;
+
+  const presented = await waci.handle(await send(holderPeer, {
+    type: PRESENT_PROOF_PRESENTATION,
+    thid: 'proposal-1',
+    attachments: [{ format: 'ldp_vp', data: { json: await present(challenge) } }]
+  }));
+  assert.equal(presented.response?.type, PRESENT_PROOF_ACK);
+  assert.equal(presented.response?.thid, 'proposal-1');
+  assert.equal(presented.interaction?.state, 'done');
+  assert.equal(presented.interaction?.result?.status, 'verified');
+  const { message: ack } = await unpackDIDCommMessage(presented.packed!, { keyStore: holderPeer.keyStore });
+  assert.equal(ack.id, presented.response?.id);
+});
+
+test('WACI answers out-of-order, expired and duplicate-thread messages with problem reports', async () => {
+  const waci = newAdapter();
+  const invitation = await invite(waci);
+
+  const early = await waci.handle(await send(holderPeer, { type: PRESENT_PROOF_PRESENTATION, thid: invitation.id, attachments: [] }));
+  assert.equal(early.response?.type, PROBLEM_REPORT);
+  assert.equal(early.response?.body.code, 'e.p.msg.unexpected-message');
+  assert.equal((await waci.getInteraction(invitation.id))?.state, 'invitation-sent');
+
+  const expired = await invite(waci, Date.now() - 1000);
+  const late = await waci.handle(await send(holderPeer, { type: PRESENT_PROOF_PROPOSE_PRESENTATION, pthid: expired.id }));
+  assert.equal(late.response?.body.code, 'e.p.msg.unknown-interaction');
+  assert.equal(late.interaction, undefined);
+
+  await waci.handle(await send(holderPeer, { id: 'proposal-1', type: PRESENT_PROOF_PROPOSE_PRESENTATION, pthid: invitation.id }));
+  const second = await invite(waci);
+  const duplicate = await waci.handle(await send(holderPeer, { id: 'proposal-1', type: PRESENT_PROOF_PROPOSE_PRESENTATION, pthid: second.id }));
+  assert.equal(duplicate.response?.body.code, 'e.p.msg.duplicate-thread');
+  assert.equal((await waci.getInteraction(second.id))?.state, 'invitation-sent');
+  assert.equal((await waci.getInteraction(invitation.id))?.state, 'request-sent');
+
+  const anonymous = await waci.handle(await send(holderPeer, { type: PRESENT_PROOF_PROPOSE_PRESENTATION, pthid: second.id }, 'anoncrypt'));
+  assert.equal(anonymous.response?.body.code, 'e.p.msg.sender-unknown');
+  // The problem report goes to the unauthenticated from
+  assert.deepEqual(anonymous.response?.to, [holderPeer.did]);
+});
+
+test('WACI presentations and problem reports from anyone but the holder do not abandon the interaction', async () => {
+  const waci = newAdapter();
+  const invitation = await invite(waci);
+  await waci.handle(await send(holderPeer, { id: 'proposal-1', type: PRESENT_PROOF_PROPOSE_PRESENTATION, pthid: invitation.id }));
+
+  const stranger = await waci.handle(await send(otherPeer, {
+    type: PRESENT_PROOF_PRESENTATION,
+    thid: 'proposal-1',
+    attachments: [{ format: 'ldp_vp', data: { json: {} } }]
+  }));
+  assert.equal(stranger.response?.body.code, 'e.p.msg.sender-mismatch');
+  assert.deepEqual(stranger.response?.to, [otherPeer.did]);
+  assert.equal(stranger.response?.pthid, stranger.received.thid);
+  assert.equal((await waci.getInteraction(invitation.id))?.state, 'request-sent');
+
+  await waci.handle(await send(otherPeer, { type: PROBLEM_REPORT, pthid: 'proposal-1', body: { code: 'e.p.xfer.abandoned' } }));
+  await waci.handle(await send(holderPeer, { type: PROBLEM_REPORT, pthid: 'proposal-1', body: { code: 'e.p.xfer.abandoned' } }, 'anoncrypt'));
+  assert.equal((await waci.getInteraction(invitation.id))?.state, 'request-sent');
+
+  const abandoned = await waci.handle(await send(holderPeer, { type: PROBLEM_REPORT, pthid: 'proposal-1', body: { code: 'e.p.xfer.abandoned', comment: 'User declined' } }));
+  assert.equal(abandoned.interaction?.state, 'abandoned');
+  assert.deepEqual(abandoned.interaction?.problem, { code: 'e.p.xfer.abandoned', comment: 'User declined' });
+});